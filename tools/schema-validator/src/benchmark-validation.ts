@@ -0,0 +1,311 @@
+#!/usr/bin/env node
+import { fork } from "node:child_process";
+import fs from "node:fs/promises";
+import { performance } from "node:perf_hooks";
+import process from "node:process";
+import { fileURLToPath } from "node:url";
+
+import { ZodError } from "zod";
+
+import { writeBenchmarkModel, type BenchmarkModelOptions } from "./benchmarkModel.js";
+import { loadJson, loadJsonSource } from "./jsonFile.js";
+import { formatZodErrors } from "./modelSchema.js";
+import { validateModel } from "./modelValidation.js";
+import { validateModelStream } from "./streamingValidation.js";
+import { parseTypeMappingJson, type TypeMappingPolicy } from "./typeMapping.js";
+
+const MODES = ["baseline", "in-memory", "streaming"] as const;
+
+type Mode = (typeof MODES)[number];
+
+interface CliOptions {
+  readonly modelPath: string;
+  readonly generate: boolean;
+  readonly size: BenchmarkModelOptions;
+  readonly typeMappingPath: string;
+  readonly format: "text" | "json";
+}
+
+/** What a measuring child process reports back. */
+interface Measurement {
+  readonly mode: Mode;
+  readonly milliseconds: number;
+  readonly peakRssBytes: number;
+  readonly valid: boolean | null;
+  readonly errors: number;
+  readonly entities: number;
+  readonly attributes: number;
+  /** Set when the child died (out of memory, typically) instead of reporting. */
+  readonly failure: string | null;
+}
+
+const DEFAULT_TYPE_MAPPING_PATH = fileURLToPath(new URL("../../../config/type-mapping.default.json", import.meta.url));
+
+const DEFAULT_SIZE: BenchmarkModelOptions = { modules: 10, entitiesPerModule: 200, attributesPerEntity: 25 };
+
+/** Internal flag the parent passes to the child processes it measures. */
+const MEASURE_FLAG = "--measure";
+
+function positiveInteger(option: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${option} expects a positive integer (received ${value ?? "nothing"}).`);
+  }
+
+  return parsed;
+}
+
+function parseArguments(argv: string[]): CliOptions | null {
+  let modelPath: string | undefined;
+  let generate = false;
+  let modules = DEFAULT_SIZE.modules;
+  let entitiesPerModule = DEFAULT_SIZE.entitiesPerModule;
+  let attributesPerEntity = DEFAULT_SIZE.attributesPerEntity;
+  let typeMappingPath = DEFAULT_TYPE_MAPPING_PATH;
+  let format: "text" | "json" = "text";
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--generate" || argument === "-g") {
+      generate = true;
+      continue;
+    }
+
+    if (argument === "--modules") {
+      modules = positiveInteger(argument, argv[++index]);
+      continue;
+    }
+
+    if (argument === "--entities") {
+      entitiesPerModule = positiveInteger(argument, argv[++index]);
+      continue;
+    }
+
+    if (argument === "--attributes") {
+      attributesPerEntity = positiveInteger(argument, argv[++index]);
+      continue;
+    }
+
+    if (argument === "--type-mapping" || argument === "-t") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--type-mapping expects a path to the type mapping JSON.");
+      }
+
+      typeMappingPath = value;
+      continue;
+    }
+
+    if (argument === "--json") {
+      format = "json";
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    if (modelPath) {
+      throw new Error("Only one model JSON file path can be supplied.");
+    }
+
+    modelPath = argument;
+  }
+
+  if (!modelPath) {
+    throw new Error("Path to the model JSON (or, with --generate, the file to write) is required.");
+  }
+
+  return { modelPath, generate, size: { modules, entitiesPerModule, attributesPerEntity }, typeMappingPath, format };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run benchmark -- <model.json> [options]\n\n` +
+    `Compares time and peak memory of in-memory and streaming validation, each in its own process.\n\n` +
+    `Options:\n` +
+    `  -h, --help                 Show this message.\n` +
+    `  -g, --generate             Write a synthetic model to <model.json> first (overwrites the file).\n` +
+    `      --modules <n>          Modules to generate (default: ${DEFAULT_SIZE.modules}).\n` +
+    `      --entities <n>         Entities per generated module (default: ${DEFAULT_SIZE.entitiesPerModule}).\n` +
+    `      --attributes <n>       Attributes per generated entity besides the identifier (default: ${DEFAULT_SIZE.attributesPerEntity}).\n` +
+    `  -t, --type-mapping <path>  Type mapping used to resolve SQL types (default: config/type-mapping.default.json).\n` +
+    `      --json                 Print the measurements as JSON.\n` +
+    `\nExamples:\n` +
+    `  npm run benchmark -- /tmp/bench.json --generate --modules 20 --entities 500\n` +
+    `  npm run benchmark -- full-estate.json\n`);
+}
+
+async function loadTypeMapping(filePath: string): Promise<TypeMappingPolicy> {
+  const raw = await loadJson(filePath);
+  try {
+    return parseTypeMappingJson(raw);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new Error(`Type mapping ${filePath} failed schema validation:\n  ${formatZodErrors(error).join("\n  ")}`);
+    }
+
+    throw error;
+  }
+}
+
+/** Runs one mode in this (child) process and sends the measurement to the parent. */
+async function measure(mode: Mode, modelPath: string, typeMappingPath: string): Promise<void> {
+  const typeMapping = await loadTypeMapping(typeMappingPath);
+  const started = performance.now();
+  let summary = null;
+  if (mode === "in-memory") {
+    const source = await loadJsonSource(modelPath);
+    summary = validateModel(source.value, modelPath, typeMapping, source).summary;
+  } else if (mode === "streaming") {
+    summary = (await validateModelStream(modelPath, typeMapping)).summary;
+  }
+
+  const measurement: Measurement = {
+    mode,
+    milliseconds: performance.now() - started,
+    // maxRSS is in kilobytes.
+    peakRssBytes: process.resourceUsage().maxRSS * 1024,
+    valid: summary?.valid ?? null,
+    errors: summary?.errors ?? 0,
+    entities: summary?.entities ?? 0,
+    attributes: summary?.attributes ?? 0,
+    failure: null
+  };
+  process.send!(measurement);
+}
+
+function runChild(mode: Mode, modelPath: string, typeMappingPath: string): Promise<Measurement> {
+  return new Promise((resolve) => {
+    let measurement: Measurement | null = null;
+    const child = fork(fileURLToPath(import.meta.url), [MEASURE_FLAG, mode, modelPath, typeMappingPath], {
+      stdio: ["ignore", "ignore", "pipe", "ipc"]
+    });
+    let stderr = "";
+    child.stderr?.on("data", (chunk) => {
+      stderr += chunk;
+    });
+    child.on("message", (message) => {
+      measurement = message as Measurement;
+    });
+    child.on("exit", (code, signal) => {
+      const lastLine = stderr.trim().split("\n").pop() ?? "";
+      resolve(
+        measurement ?? {
+          mode,
+          milliseconds: 0,
+          peakRssBytes: 0,
+          valid: null,
+          errors: 0,
+          entities: 0,
+          attributes: 0,
+          failure: `exited with ${signal ?? `code ${code}`}${lastLine ? `: ${lastLine}` : ""}`
+        }
+      );
+    });
+  });
+}
+
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function formatMeasurements(modelPath: string, fileBytes: number, measurements: readonly Measurement[]): string[] {
+  const streamed = measurements.find((measurement) => measurement.mode === "streaming");
+  const rows = measurements.map((measurement) => [
+    measurement.mode,
+    measurement.failure ? "-" : measurement.mode === "baseline" ? "-" : `${(measurement.milliseconds / 1000).toFixed(2)} s`,
+    measurement.failure ? "-" : formatBytes(measurement.peakRssBytes),
+    measurement.failure ?? (measurement.valid === null ? "" : measurement.valid ? "pass" : `fail (${measurement.errors} errors)`)
+  ]);
+  const header = ["Mode", "Time", "Peak RSS", "Result"];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+  return [
+    `Model: ${modelPath} (${formatBytes(fileBytes)}${streamed && !streamed.failure ? `, ${streamed.entities} entities, ${streamed.attributes} attributes` : ""})`,
+    "",
+    line(header),
+    line(widths.map((width) => "-".repeat(width))),
+    ...rows.map(line),
+    "",
+    "Peak RSS includes the runtime itself; the baseline row is a process that only loads the tool."
+  ];
+}
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  if (argv[0] === MEASURE_FLAG) {
+    await measure(argv[1] as Mode, argv[2], argv[3]);
+    return;
+  }
+
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(argv);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  try {
+    if (options.generate) {
+      const stats = await writeBenchmarkModel(options.modelPath, options.size);
+      if (options.format === "text") {
+        console.log(
+          `✅ Wrote ${options.modelPath}: ${formatBytes(stats.bytes)}, ${stats.modules} modules, ${stats.entities} entities, ${stats.attributes} attributes.\n`
+        );
+      }
+    }
+
+    const { size } = await fs.stat(options.modelPath);
+    const measurements: Measurement[] = [];
+    // One at a time, so the runs do not compete for CPU and memory.
+    for (const mode of MODES) {
+      measurements.push(await runChild(mode, options.modelPath, options.typeMappingPath));
+    }
+
+    if (options.format === "json") {
+      console.log(JSON.stringify({ model: options.modelPath, bytes: size, measurements }, null, 2));
+    } else {
+      formatMeasurements(options.modelPath, size, measurements).forEach((line) => console.log(line));
+    }
+
+    if (measurements.some((measurement) => measurement.failure)) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to run the benchmark.", error);
+    }
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,162 @@
+import fs from "node:fs";
+import { once } from "node:events";
+
+export interface BenchmarkModelOptions {
+  readonly modules: number;
+  readonly entitiesPerModule: number;
+  /** Attributes per entity besides the identifier (and the parent reference every fifth entity gets). */
+  readonly attributesPerEntity: number;
+}
+
+export interface BenchmarkModelStats {
+  readonly bytes: number;
+  readonly modules: number;
+  readonly entities: number;
+  readonly attributes: number;
+}
+
+/** Data types the generated attributes cycle through, with the sizing each one needs. */
+export const ATTRIBUTE_SHAPES: ReadonlyArray<{ dataType: string; length: number | null; precision: number | null; scale: number | null }> = [
+  { dataType: "Text", length: 50, precision: null, scale: null },
+  { dataType: "Integer", length: null, precision: null, scale: null },
+  { dataType: "LongInteger", length: null, precision: null, scale: null },
+  { dataType: "Decimal", length: null, precision: 37, scale: 8 },
+  { dataType: "Boolean", length: null, precision: null, scale: null },
+  { dataType: "DateTime", length: null, precision: null, scale: null },
+  { dataType: "Date", length: null, precision: null, scale: null },
+  { dataType: "Email", length: 250, precision: null, scale: null },
+  { dataType: "Text", length: 2000, precision: null, scale: null },
+  { dataType: "PhoneNumber", length: 20, precision: null, scale: null }
+];
+
+function pad(value: number): string {
+  return String(value).padStart(4, "0");
+}
+
+function attribute(name: string, shape: (typeof ATTRIBUTE_SHAPES)[number], overrides: Record<string, unknown> = {}) {
+  return {
+    name,
+    physicalName: name.toUpperCase(),
+    originalName: null,
+    dataType: shape.dataType,
+    length: shape.length,
+    precision: shape.precision,
+    scale: shape.scale,
+    default: null,
+    isMandatory: false,
+    isIdentifier: false,
+    isAutoNumber: false,
+    isActive: true,
+    isReference: 0,
+    refEntityId: null,
+    refEntity_name: null,
+    refEntity_physicalName: null,
+    reference_deleteRuleCode: null,
+    reference_hasDbConstraint: 0,
+    external_dbType: null,
+    physical_isPresentButInactive: 0,
+    ...overrides
+  };
+}
+
+function entity(moduleIndex: number, entityIndex: number, options: BenchmarkModelOptions) {
+  const prefix = `M${pad(moduleIndex)}`;
+  // Logical names are model-wide lookup keys, so they carry the module prefix too.
+  const name = `${prefix}Entity${pad(entityIndex)}`;
+  const identifier = { dataType: "Identifier", length: null, precision: null, scale: null };
+  const attributes = [attribute("Id", identifier, { isMandatory: true, isIdentifier: true, isAutoNumber: true })];
+  for (let index = 0; index < options.attributesPerEntity; index++) {
+    attributes.push(attribute(`Field${pad(index)}`, ATTRIBUTE_SHAPES[index % ATTRIBUTE_SHAPES.length]));
+  }
+
+  // Every fifth entity references the one before it, so reference resolution has work to do.
+  const relationships: unknown[] = [];
+  if (entityIndex % 5 === 4) {
+    const parent = { name: `${prefix}Entity${pad(entityIndex - 1)}`, physicalName: `OSUSR_${prefix}_ENTITY${pad(entityIndex - 1)}` };
+    attributes.push(
+      attribute("ParentId", identifier, {
+        isReference: 1,
+        refEntityId: moduleIndex * options.entitiesPerModule + entityIndex - 1,
+        refEntity_name: parent.name,
+        refEntity_physicalName: parent.physicalName,
+        reference_deleteRuleCode: "Protect",
+        reference_hasDbConstraint: 1
+      })
+    );
+    relationships.push({
+      viaAttributeName: "ParentId",
+      toEntity_name: parent.name,
+      toEntity_physicalName: parent.physicalName,
+      deleteRuleCode: "Protect",
+      hasDbConstraint: 1
+    });
+  }
+
+  const indexes =
+    options.attributesPerEntity > 0
+      ? [
+          {
+            name: `IDX_${prefix}_ENTITY${pad(entityIndex)}_FIELD0000`,
+            isUnique: false,
+            isPrimary: false,
+            isPlatformAuto: 0,
+            columns: [{ attribute: "Field0000", physicalColumn: "FIELD0000", ordinal: 1 }]
+          }
+        ]
+      : [];
+
+  return {
+    name,
+    physicalName: `OSUSR_${prefix}_ENTITY${pad(entityIndex)}`,
+    isStatic: false,
+    isExternal: false,
+    isActive: true,
+    db_catalog: null,
+    db_schema: "dbo",
+    meta: `Generated benchmark entity ${moduleIndex}.${entityIndex}`,
+    attributes,
+    indexes,
+    relationships,
+    triggers: []
+  };
+}
+
+/**
+ * Writes a valid model export of the requested size, one entity at a time, so fixtures far larger
+ * than memory can be generated. Output is deterministic: the same options give the same file.
+ */
+export async function writeBenchmarkModel(filePath: string, options: BenchmarkModelOptions): Promise<BenchmarkModelStats> {
+  const stream = fs.createWriteStream(filePath, { encoding: "utf8" });
+  let bytes = 0;
+  let attributes = 0;
+  const write = async (text: string) => {
+    bytes += Buffer.byteLength(text);
+    if (!stream.write(text)) {
+      await once(stream, "drain");
+    }
+  };
+
+  await write(`{\n  "exportedAtUtc": "2025-01-01T00:00:00Z",\n  "modules": [\n`);
+  for (let moduleIndex = 0; moduleIndex < options.modules; moduleIndex++) {
+    await write(
+      `    {\n      "name": "Module${pad(moduleIndex)}",\n      "isSystem": false,\n      "isActive": true,\n      "entities": [\n`
+    );
+    for (let entityIndex = 0; entityIndex < options.entitiesPerModule; entityIndex++) {
+      const value = entity(moduleIndex, entityIndex, options);
+      attributes += value.attributes.length;
+      const separator = entityIndex < options.entitiesPerModule - 1 ? "," : "";
+      await write(`        ${JSON.stringify(value, null, 2).replace(/\n/g, "\n        ")}${separator}\n`);
+    }
+    await write(`      ]\n    }${moduleIndex < options.modules - 1 ? "," : ""}\n`);
+  }
+  await write(`  ]\n}\n`);
+
+  stream.end();
+  await once(stream, "finish");
+  return {
+    bytes,
+    modules: options.modules,
+    entities: options.modules * options.entitiesPerModule,
+    attributes
+  };
+}
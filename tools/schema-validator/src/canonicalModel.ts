@@ -0,0 +1,344 @@
+import {
+  findUnknownProperties,
+  formatIssuePath,
+  structuralModelSchema,
+  type NormalizedAttribute,
+  type NormalizedConstraintDefinition,
+  type NormalizedEntity,
+  type NormalizedExtendedProperty,
+  type NormalizedIndex,
+  type NormalizedModel,
+  type NormalizedModule,
+  type NormalizedRelationship,
+  type NormalizedSequence,
+  type NormalizedTemporal,
+  type NormalizedTrigger
+} from "./modelSchema.js";
+
+type CanonicalObject = { [key: string]: unknown };
+
+/** Code-unit order, so the result does not depend on the machine's locale. */
+function compareText(left: string | null, right: string | null): number {
+  const a = left ?? "";
+  const b = right ?? "";
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function sortBy<T>(items: readonly T[], ...keys: Array<(item: T) => string | number | null>): T[] {
+  return [...items].sort((left, right) => {
+    for (const key of keys) {
+      const a = key(left);
+      const b = key(right);
+      const order = typeof a === "number" && typeof b === "number" ? a - b : compareText(a === null ? null : String(a), b === null ? null : String(b));
+      if (order !== 0) {
+        return order;
+      }
+    }
+
+    return 0;
+  });
+}
+
+/**
+ * Builds an object in the given key order, leaving out nulls, empty arrays and empty objects.
+ * Arrays named in `required` are kept even when empty, as the schema rejects them missing.
+ */
+function compact(entries: Array<[string, unknown]>, required: readonly string[] = []): CanonicalObject {
+  const result: CanonicalObject = {};
+  for (const [key, value] of entries) {
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    if (Array.isArray(value) && value.length === 0 && !required.includes(key)) {
+      continue;
+    }
+
+    if (typeof value === "object" && !Array.isArray(value) && Object.keys(value).length === 0) {
+      continue;
+    }
+
+    result[key] = value;
+  }
+
+  return result;
+}
+
+/** CIR v1 types a handful of flags as integers rather than booleans. */
+function flag(value: boolean): 0 | 1 {
+  return value ? 1 : 0;
+}
+
+function canonicalExtendedProperties(properties: readonly NormalizedExtendedProperty[]): CanonicalObject[] {
+  // `value` is kept even when null: an extended property without a value is still a property.
+  return sortBy(properties, (property) => property.name).map((property) => ({ name: property.name, value: property.value }));
+}
+
+function canonicalConstraint(constraint: NormalizedConstraintDefinition | null): CanonicalObject | null {
+  if (!constraint) {
+    return null;
+  }
+
+  return compact([
+    ["name", constraint.name],
+    ["definition", constraint.definition],
+    ["isNotTrusted", constraint.isNotTrusted]
+  ]);
+}
+
+function canonicalAttribute(attribute: NormalizedAttribute): CanonicalObject {
+  const { reference, reality, onDisk } = attribute;
+  return compact([
+    ["name", attribute.name],
+    ["physicalName", attribute.physicalName],
+    ["originalName", attribute.originalName],
+    ["dataType", attribute.dataType],
+    ["length", attribute.length],
+    ["precision", attribute.precision],
+    ["scale", attribute.scale],
+    ["default", attribute.defaultValue],
+    ["isMandatory", attribute.isMandatory],
+    ["isIdentifier", attribute.isIdentifier],
+    ["isAutoNumber", attribute.isAutoNumber],
+    ["isActive", attribute.isActive],
+    ["isReference", flag(reference.isReference)],
+    ["refEntityId", reference.targetEntityId],
+    ["refEntity_name", reference.targetEntityName],
+    ["refEntity_physicalName", reference.targetEntityPhysicalName],
+    ["reference_deleteRuleCode", reference.deleteRuleCode],
+    ["reference_hasDbConstraint", flag(reference.hasDbConstraint)],
+    ["external_dbType", attribute.externalDbType],
+    ["physical_isPresentButInactive", flag(reality.isPresentButInactive)],
+    [
+      "onDisk",
+      onDisk &&
+        compact([
+          ["isNullable", onDisk.isNullable],
+          ["sqlType", onDisk.sqlType],
+          ["maxLength", onDisk.maxLength],
+          ["precision", onDisk.precision],
+          ["scale", onDisk.scale],
+          ["collation", onDisk.collation],
+          ["isIdentity", onDisk.isIdentity],
+          ["isComputed", onDisk.isComputed],
+          ["computedDefinition", onDisk.computedDefinition],
+          ["defaultDefinition", onDisk.defaultDefinition],
+          ["defaultConstraint", canonicalConstraint(onDisk.defaultConstraint)],
+          [
+            "checkConstraints",
+            sortBy(onDisk.checkConstraints, (constraint) => constraint.name, (constraint) => constraint.definition).map(
+              canonicalConstraint
+            )
+          ]
+        ])
+    ],
+    ["meta", attribute.description],
+    [
+      "reality",
+      compact([
+        ["isNullableInDatabase", reality.isNullableInDatabase],
+        ["hasNulls", reality.hasNulls],
+        ["hasDuplicates", reality.hasDuplicates],
+        ["hasOrphans", reality.hasOrphans]
+      ])
+    ],
+    ["extendedProperties", canonicalExtendedProperties(attribute.extendedProperties)]
+  ]);
+}
+
+function canonicalIndex(index: NormalizedIndex): CanonicalObject {
+  return compact([
+    ["name", index.name],
+    ["isUnique", index.isUnique],
+    ["isPrimary", index.isPrimary],
+    ["isPlatformAuto", flag(index.isPlatformAuto)],
+    ["kind", index.kind],
+    ["isDisabled", index.isDisabled],
+    ["isPadded", index.isPadded],
+    ["fillFactor", index.fillFactor],
+    ["ignoreDupKey", index.ignoreDupKey],
+    ["allowRowLocks", index.allowRowLocks],
+    ["allowPageLocks", index.allowPageLocks],
+    ["noRecompute", index.noRecompute],
+    ["filterDefinition", index.filterDefinition],
+    ["dataSpace", index.dataSpace && compact([["name", index.dataSpace.name], ["type", index.dataSpace.type]])],
+    [
+      "partitionColumns",
+      sortBy(index.partitionColumns, (column) => column.ordinal).map((column) => ({ name: column.name, ordinal: column.ordinal }))
+    ],
+    [
+      "dataCompression",
+      sortBy(index.dataCompression, (entry) => entry.partition).map((entry) =>
+        compact([["partition", entry.partition], ["compression", entry.compression]])
+      )
+    ],
+    [
+      "columns",
+      sortBy(index.columns, (column) => column.ordinal).map((column) =>
+        compact([
+          ["attribute", column.attribute],
+          ["physicalColumn", column.physicalColumn],
+          ["ordinal", column.ordinal],
+          ["isIncluded", column.isIncluded],
+          ["direction", column.direction]
+        ])
+      )
+    ],
+    ["extendedProperties", canonicalExtendedProperties(index.extendedProperties)]
+  ], ["columns"]);
+}
+
+function canonicalRelationship(relationship: NormalizedRelationship): CanonicalObject {
+  return compact([
+    ["viaAttributeName", relationship.viaAttributeName],
+    ["toEntity_name", relationship.toEntityName],
+    ["toEntity_physicalName", relationship.toEntityPhysicalName],
+    ["deleteRuleCode", relationship.deleteRuleCode],
+    ["hasDbConstraint", flag(relationship.hasDbConstraint)],
+    [
+      "actualConstraints",
+      sortBy(relationship.actualConstraints, (constraint) => constraint.name).map((constraint) =>
+        compact([
+          ["name", constraint.name],
+          ["referencedSchema", constraint.referencedSchema],
+          ["referencedTable", constraint.referencedTable],
+          ["onDelete", constraint.onDelete],
+          ["onUpdate", constraint.onUpdate],
+          [
+            "columns",
+            sortBy(constraint.columns, (column) => column.ordinal).map((column) =>
+              compact([
+                ["ordinal", column.ordinal],
+                ["owner.physical", column.ownerPhysical],
+                ["owner.attribute", column.ownerAttribute],
+                ["referenced.physical", column.referencedPhysical],
+                ["referenced.attribute", column.referencedAttribute]
+              ])
+            )
+          ]
+        ])
+      )
+    ]
+  ]);
+}
+
+function canonicalTrigger(trigger: NormalizedTrigger): CanonicalObject {
+  return { name: trigger.name, isDisabled: trigger.isDisabled, definition: trigger.definition };
+}
+
+function canonicalTemporal(temporal: NormalizedTemporal | null): CanonicalObject | null {
+  if (!temporal) {
+    return null;
+  }
+
+  return compact([
+    ["type", temporal.type],
+    ["historyTable", temporal.historyTable && compact([["schema", temporal.historyTable.schema], ["name", temporal.historyTable.name]])],
+    ["periodStartColumn", temporal.periodStartColumn],
+    ["periodEndColumn", temporal.periodEndColumn],
+    [
+      "retention",
+      temporal.retention &&
+        compact([["kind", temporal.retention.kind], ["unit", temporal.retention.unit], ["value", temporal.retention.value]])
+    ],
+    ["extendedProperties", canonicalExtendedProperties(temporal.extendedProperties)]
+  ]);
+}
+
+function canonicalEntity(entity: NormalizedEntity): CanonicalObject {
+  return compact([
+    ["name", entity.name],
+    ["physicalName", entity.physicalName],
+    ["db_catalog", entity.catalog],
+    ["db_schema", entity.schema],
+    ["isStatic", entity.isStatic],
+    ["isExternal", entity.isExternal],
+    ["isActive", entity.isActive],
+    // Attribute order is the table's column order, so it is kept as exported.
+    ["attributes", entity.attributes.map(canonicalAttribute)],
+    ["indexes", sortBy(entity.indexes, (index) => index.name).map(canonicalIndex)],
+    [
+      "relationships",
+      sortBy(entity.relationships, (relationship) => relationship.viaAttributeName, (relationship) => relationship.toEntityName).map(
+        canonicalRelationship
+      )
+    ],
+    ["triggers", sortBy(entity.triggers, (trigger) => trigger.name).map(canonicalTrigger)],
+    ["extendedProperties", canonicalExtendedProperties(entity.extendedProperties)],
+    ["meta", entity.description],
+    ["temporal", canonicalTemporal(entity.temporal)]
+  ], ["attributes"]);
+}
+
+function canonicalModule(module: NormalizedModule): CanonicalObject {
+  return compact([
+    ["name", module.name],
+    ["isSystem", module.isSystem],
+    ["isActive", module.isActive],
+    ["entities", sortBy(module.entities, (entity) => entity.name, (entity) => entity.physicalName).map(canonicalEntity)],
+    ["extendedProperties", canonicalExtendedProperties(module.extendedProperties)]
+  ], ["entities"]);
+}
+
+function canonicalSequence(sequence: NormalizedSequence): CanonicalObject {
+  return compact([
+    ["schema", sequence.schema],
+    ["name", sequence.name],
+    ["dataType", sequence.dataType],
+    ["startValue", sequence.startValue],
+    ["increment", sequence.increment],
+    ["minValue", sequence.minValue],
+    ["maxValue", sequence.maxValue],
+    ["cycle", sequence.cycle],
+    ["cacheMode", sequence.cacheMode],
+    ["cacheSize", sequence.cacheSize],
+    ["extendedProperties", canonicalExtendedProperties(sequence.extendedProperties)]
+  ]);
+}
+
+/**
+ * Rewrites a parsed model as canonical CIR v1: keys in schema order, flags as booleans (or 0/1
+ * where CIR types them as integers), strings trimmed, collections whose order carries no meaning
+ * sorted by a stable key (attributes keep their column order), and nulls and empty collections left out. Canonicalizing the result again gives the same object.
+ */
+export function canonicalizeModel(model: NormalizedModel): CanonicalObject {
+  return compact([
+    // Whole-second timestamps keep the exporter's `...:00Z` form rather than gaining `.000`.
+    ["exportedAtUtc", model.exportedAtUtc?.toISOString().replace(".000Z", "Z") ?? null],
+    ["modules", sortBy(model.modules, (module) => module.name).map(canonicalModule)],
+    ["sequences", sortBy(model.sequences, (sequence) => sequence.schema, (sequence) => sequence.name).map(canonicalSequence)],
+    ["extendedProperties", canonicalExtendedProperties(model.extendedProperties)]
+  ], ["modules"]);
+}
+
+export function formatCanonicalModel(model: NormalizedModel): string {
+  return `${JSON.stringify(canonicalizeModel(model), null, 2)}\n`;
+}
+
+/**
+ * Properties of `raw` the canonical form would silently drop, formatted as `path: key`. The
+ * structural schema ignores them, so canonicalizing a file that has any would lose data.
+ */
+export function findDroppedProperties(raw: unknown): string[] {
+  return findUnknownProperties(structuralModelSchema, raw).flatMap(({ path, keys }) =>
+    keys.map((key) => (path.length > 0 ? `${formatIssuePath(path)}.${key}` : key))
+  );
+}
+
+/** 1-based number of the first line where `actual` and `expected` differ, or `null` when they match. */
+export function firstDifferingLine(actual: string, expected: string): number | null {
+  if (actual === expected) {
+    return null;
+  }
+
+  const actualLines = actual.split("\n");
+  const expectedLines = expected.split("\n");
+  const length = Math.max(actualLines.length, expectedLines.length);
+  for (let index = 0; index < length; index++) {
+    if (actualLines[index] !== expectedLines[index]) {
+      return index + 1;
+    }
+  }
+
+  return length;
+}
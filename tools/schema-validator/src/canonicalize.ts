@@ -0,0 +1,234 @@
+#!/usr/bin/env node
+import fs from "node:fs/promises";
+import process from "node:process";
+
+import { findDroppedProperties, firstDifferingLine, formatCanonicalModel } from "./canonicalModel.js";
+import { expandInputFiles } from "./inputFiles.js";
+import { formatZodErrors, safeParseModelStructure } from "./modelSchema.js";
+
+interface CliOptions {
+  readonly inputs: string[];
+  readonly check: boolean;
+  /** Where to write the canonical form of a single input; `null` rewrites inputs in place. */
+  readonly outputPath: string | null;
+  readonly stdout: boolean;
+}
+
+/** What happened to one input file. */
+type FileOutcome = "canonical" | "rewritten" | "not-canonical" | "failed";
+
+function parseArguments(argv: string[]): CliOptions | null {
+  const inputs: string[] = [];
+  let check = false;
+  let outputPath: string | null = null;
+  let stdout = false;
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--check" || argument === "-c") {
+      check = true;
+      continue;
+    }
+
+    if (argument === "--output" || argument === "-o") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--output expects a path to write the canonical model to.");
+      }
+
+      outputPath = value;
+      continue;
+    }
+
+    if (argument === "--stdout") {
+      stdout = true;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    inputs.push(argument);
+  }
+
+  if (inputs.length === 0) {
+    throw new Error("At least one model JSON file, directory or glob is required.");
+  }
+
+  if (check && (outputPath || stdout)) {
+    throw new Error("--check only reports; it cannot be combined with --output or --stdout.");
+  }
+
+  if (outputPath && stdout) {
+    throw new Error("--output and --stdout cannot be combined.");
+  }
+
+  return { inputs, check, outputPath, stdout };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run canonicalize -- <model.json | directory | glob>... [options]\n\n` +
+    `Rewrites model exports as canonical CIR v1 JSON: fixed key order, sorted collections,\n` +
+    `trimmed strings, and no null or empty optional fields.\n\n` +
+    `Options:\n` +
+    `  -h, --help           Show this message.\n` +
+    `  -c, --check          Report files that are not canonical instead of rewriting them.\n` +
+    `  -o, --output <path>  Write the canonical form of a single input to <path> instead of in place.\n` +
+    `      --stdout         Print the canonical form of a single input instead of writing it.\n` +
+    `\nExit codes:\n` +
+    `  0  Every file is (now) canonical.\n` +
+    `  1  Invalid arguments, an input failed to load or parse, or (with --check) a file is not canonical.\n` +
+    `\nExamples:\n` +
+    `  npm run canonicalize -- ../../tests/Fixtures\n` +
+    `  npm run canonicalize -- "../../tests/Fixtures/model.*.json" --check\n` +
+    `  npm run canonicalize -- export.json --output export.canonical.json\n`);
+}
+
+function formatIssueList(lines: string[]): string {
+  return lines.map((line, index) => `  ${index + 1}. ${line}`).join("\n");
+}
+
+/** Reads `filePath` and returns its text with the canonical form it should have. */
+async function canonicalFormOf(filePath: string): Promise<{ text: string; canonical: string }> {
+  const text = await fs.readFile(filePath, "utf8");
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`Failed to parse JSON from ${filePath}: ${error.message}`);
+    }
+
+    throw error;
+  }
+
+  const parsed = safeParseModelStructure(raw);
+  if (!parsed.success) {
+    const issues = formatZodErrors(parsed.error);
+    throw new Error(
+      `${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n${formatIssueList(issues)}`
+    );
+  }
+
+  const dropped = findDroppedProperties(raw);
+  if (dropped.length > 0) {
+    throw new Error(
+      `${filePath} has ${dropped.length} propert${dropped.length === 1 ? "y" : "ies"} CIR v1 does not define; ` +
+        `canonicalizing would drop ${dropped.length === 1 ? "it" : "them"}:\n${formatIssueList(dropped)}`
+    );
+  }
+
+  return { text, canonical: formatCanonicalModel(parsed.data) };
+}
+
+async function canonicalizeFile(filePath: string, options: CliOptions): Promise<FileOutcome> {
+  let result: { text: string; canonical: string };
+  try {
+    result = await canonicalFormOf(filePath);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error(`✖ Unable to canonicalize ${filePath}.`, error);
+    }
+    return "failed";
+  }
+
+  if (options.stdout) {
+    process.stdout.write(result.canonical);
+    return "canonical";
+  }
+
+  if (options.outputPath) {
+    await fs.writeFile(options.outputPath, result.canonical, "utf8");
+    console.log(`✅ Wrote the canonical form of ${filePath} to ${options.outputPath}.`);
+    return "rewritten";
+  }
+
+  const difference = firstDifferingLine(result.text, result.canonical);
+  if (difference === null) {
+    console.log(`✅ ${filePath} is canonical.`);
+    return "canonical";
+  }
+
+  if (options.check) {
+    console.log(`✖ ${filePath} is not canonical (first difference at line ${difference}).`);
+    return "not-canonical";
+  }
+
+  await fs.writeFile(filePath, result.canonical, "utf8");
+  console.log(`✅ Canonicalized ${filePath}.`);
+  return "rewritten";
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  let files: string[];
+  try {
+    files = await expandInputFiles(options.inputs);
+  } catch (error) {
+    console.error(`✖ ${error instanceof Error ? error.message : "Unable to expand the inputs."}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if ((options.outputPath || options.stdout) && files.length !== 1) {
+    console.error(`✖ --output and --stdout take exactly one input file (received ${files.length}).`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const outcomes: FileOutcome[] = [];
+  // One at a time: rewrites are cheap and the log stays in input order.
+  for (const file of files) {
+    outcomes.push(await canonicalizeFile(file, options));
+  }
+
+  const failed = outcomes.filter((outcome) => outcome === "failed").length;
+  const notCanonical = outcomes.filter((outcome) => outcome === "not-canonical").length;
+  if (files.length > 1 && !options.stdout) {
+    const rewritten = outcomes.filter((outcome) => outcome === "rewritten").length;
+    const parts = [
+      options.check ? `${notCanonical} not canonical` : `${rewritten} rewritten`,
+      `${outcomes.filter((outcome) => outcome === "canonical").length} already canonical`,
+      ...(failed > 0 ? [`${failed} failed`] : [])
+    ];
+    console.log(`\n${files.length} files: ${parts.join(", ")}.`);
+  }
+
+  if (notCanonical > 0) {
+    console.log(`Run \`npm run canonicalize -- <files>\` without --check to rewrite them.`);
+  }
+
+  if (failed > 0 || notCanonical > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
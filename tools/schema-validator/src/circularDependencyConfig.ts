@@ -0,0 +1,97 @@
+import { z } from "zod";
+
+export interface TableOrdering {
+  readonly tableName: string;
+  /** Load position within the cycle; lower loads first, like a z-index. */
+  readonly position: number;
+}
+
+export interface AllowedCycle {
+  readonly tableOrdering: TableOrdering[];
+}
+
+export interface CircularDependencyOptions {
+  readonly allowedCycles: AllowedCycle[];
+  /** When true every cycle fails, even the allowed ones. */
+  readonly strictMode: boolean;
+}
+
+/** `$schema` / `$comment` annotations are allowed anywhere, as in `docs/examples/circular-dependencies-example.json`. */
+const annotations = {
+  $schema: z.string().optional(),
+  $comment: z.string().optional()
+};
+
+const tableOrderingSchema = z
+  .object({
+    ...annotations,
+    tableName: z
+      .string({ required_error: "tableName is required." })
+      .trim()
+      .min(1, { message: "tableName must not be empty." }),
+    position: z
+      .number({ required_error: "position is required." })
+      .int({ message: "position must be an integer." })
+      .min(0, { message: "position must be non-negative." })
+  })
+  .strict()
+  .transform((ordering): TableOrdering => ({ tableName: ordering.tableName, position: ordering.position }));
+
+const allowedCycleSchema = z
+  .object({
+    ...annotations,
+    tableOrdering: z.array(tableOrderingSchema).min(1, { message: "tableOrdering must list at least one table." })
+  })
+  .strict()
+  .superRefine((cycle, ctx) => {
+    const tables = new Map<string, number>();
+    const positions = new Map<number, number>();
+    cycle.tableOrdering.forEach((ordering, index) => {
+      const table = ordering.tableName.toLowerCase();
+      const previousTable = tables.get(table);
+      if (previousTable !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Table "${ordering.tableName}" is listed more than once (first at index ${previousTable}).`,
+          path: ["tableOrdering", index, "tableName"]
+        });
+      } else {
+        tables.set(table, index);
+      }
+
+      const previousPosition = positions.get(ordering.position);
+      if (previousPosition !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Position ${ordering.position} is already used at index ${previousPosition}; positions must be unique within a cycle.`,
+          path: ["tableOrdering", index, "position"]
+        });
+      } else {
+        positions.set(ordering.position, index);
+      }
+    });
+  })
+  .transform((cycle): AllowedCycle => ({ tableOrdering: cycle.tableOrdering }));
+
+/** Schema for the circular dependency allowlist consumed by `build-ssdt --circular-deps-config`. */
+export const circularDependencyConfigSchema = z
+  .object({
+    ...annotations,
+    allowedCycles: z.array(allowedCycleSchema).default([]),
+    strictMode: z.boolean().default(false)
+  })
+  .strict()
+  .transform(
+    (config): CircularDependencyOptions => ({
+      allowedCycles: config.allowedCycles,
+      strictMode: config.strictMode
+    })
+  );
+
+export function parseCircularDependencyConfigJson(input: unknown): CircularDependencyOptions {
+  return circularDependencyConfigSchema.parse(input);
+}
+
+export function safeParseCircularDependencyConfigJson(input: unknown) {
+  return circularDependencyConfigSchema.safeParse(input);
+}
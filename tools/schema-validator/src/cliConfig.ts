@@ -0,0 +1,322 @@
+import { z } from "zod";
+
+import { tighteningConfigSchema, type NormalizedTighteningOptions } from "./tighteningConfig.js";
+import { typeMappingRuleSchema } from "./typeMapping.js";
+
+export const PROFILER_PROVIDERS = ["Fixture", "Sql"] as const;
+
+export type ProfilerProvider = (typeof PROFILER_PROVIDERS)[number];
+
+export const DYNAMIC_INSERT_MODES = ["PerEntity", "SingleFile"] as const;
+
+export const STATIC_SEED_PARENT_MODES = ["AutoLoad", "ValidateStaticSeedApplication"] as const;
+
+export const SQL_AUTHENTICATION_METHODS = [
+  "NotSpecified",
+  "SqlPassword",
+  "ActiveDirectoryPassword",
+  "ActiveDirectoryIntegrated",
+  "ActiveDirectoryInteractive",
+  "ActiveDirectoryServicePrincipal",
+  "ActiveDirectoryDeviceCodeFlow",
+  "ActiveDirectoryManagedIdentity",
+  "ActiveDirectoryMSI",
+  "ActiveDirectoryDefault",
+  "ActiveDirectoryWorkloadIdentity"
+] as const;
+
+export const USER_MATCHING_STRATEGIES = ["CaseInsensitiveEmail", "ExactAttribute", "Regex"] as const;
+
+export const USER_FALLBACK_MODES = ["Ignore", "SingleTarget", "RoundRobin"] as const;
+
+/** A module the `model.modules` filter selects. */
+export interface ModuleSelection {
+  readonly name: string;
+  /** `null` selects every entity (`true`, `null` or `"*"`); otherwise the logical entity names. */
+  readonly entities: string[] | null;
+  /** Entities allowed to skip the primary key check; `"*"` or `true` is kept as `["*"]`. */
+  readonly allowMissingPrimaryKey: string[];
+  readonly allowMissingSchema: string[];
+  readonly path: (string | number)[];
+}
+
+export interface ModelSection {
+  readonly path: string | null;
+  readonly modules: ModuleSelection[];
+  readonly includeSystemModules: boolean | null;
+  readonly includeInactiveModules: boolean | null;
+}
+
+/**
+ * The CLI configuration (`pipeline.json`, `config/appsettings.example.json`). Every section is
+ * checked; only the ones other commands cross-check against a model are normalized.
+ */
+export interface CliConfig {
+  readonly tighteningPath: string | null;
+  /** The inline `tightening` section, which takes precedence over `tighteningPath`. */
+  readonly tightening: NormalizedTighteningOptions | null;
+  readonly model: ModelSection | null;
+  readonly profilerProvider: ProfilerProvider | null;
+}
+
+const LIST_SEPARATORS = /[;,|]/;
+
+/** `bool.TryParse` accepts `"true"`/`"false"` in any case, so the .NET loader does too. */
+const flag = z
+  .union([z.boolean(), z.string().regex(/^\s*(true|false)\s*$/i, { message: 'Expected true, false, "true" or "false".' })])
+  .transform((value) => (typeof value === "boolean" ? value : value.trim().toLowerCase() === "true"));
+
+function enumValue<const T extends readonly [string, ...string[]]>(label: string, values: T) {
+  return z.enum(values, { errorMap: () => ({ message: `${label} must be one of ${values.join(", ")}.` }) });
+}
+
+function positiveInteger(label: string, minimum: number) {
+  return z
+    .number()
+    .int({ message: `${label} must be a whole number.` })
+    .min(minimum, { message: `${label} must be at least ${minimum}.` });
+}
+
+const path = z.string().trim().min(1, { message: "Path must not be empty." });
+
+/** Sections the loader reads through `TryReadPathProperty`: a path string, or an object with `path`. */
+const pathSection = z.union([path, z.object({ path }).strict()]);
+
+/** Entity lists are arrays or `;`, `,` or `|` separated strings; `"*"` means every entity. */
+function splitNames(value: string | readonly (string | true)[]): string[] | null {
+  const tokens = (typeof value === "string" ? [value] : value).flatMap((item) =>
+    item === true ? ["*"] : item.split(LIST_SEPARATORS).map((token) => token.trim())
+  );
+  const names = tokens.filter((token) => token.length > 0);
+  return names.includes("*") ? null : [...new Map(names.map((name) => [name.toLowerCase(), name])).values()];
+}
+
+const entityFilter = z
+  .union([z.boolean(), z.string(), z.array(z.string())])
+  .nullish()
+  .transform((value) => (value === undefined || value === null || value === true ? null : value === false ? [] : splitNames(value)));
+
+const validationOverride = z
+  .union([z.boolean(), z.string(), z.array(z.union([z.string(), z.literal(true)]))])
+  .nullish()
+  .transform((value) => {
+    if (value === undefined || value === null || value === false) {
+      return [];
+    }
+
+    return value === true ? ["*"] : splitNames(value) ?? ["*"];
+  });
+
+const moduleEntrySchema = z.union([
+  z.string(),
+  z
+    .object({
+      name: z.string().trim().min(1, { message: "Module name must not be empty." }),
+      entities: entityFilter,
+      allowMissingPrimaryKey: validationOverride,
+      allowMissingSchema: validationOverride
+    })
+    .strict()
+]);
+
+const modelSectionSchema = z.union([
+  path.transform(
+    (value): ModelSection => ({ path: value, modules: [], includeSystemModules: null, includeInactiveModules: null })
+  ),
+  z
+    .object({
+      path: path.nullish(),
+      modules: z.union([z.string(), z.array(moduleEntrySchema)]).nullish(),
+      includeSystemModules: flag.nullish(),
+      includeInactiveModules: flag.nullish()
+    })
+    .strict()
+    .transform((section): ModelSection => {
+      const entries = typeof section.modules === "string" ? section.modules.split(LIST_SEPARATORS) : section.modules ?? [];
+      const modules = entries.flatMap((entry, index): ModuleSelection[] => {
+        const modulePath = ["model", "modules", ...(typeof section.modules === "string" ? [] : [index])];
+        if (typeof entry === "string") {
+          const name = entry.trim();
+          return name
+            ? [{ name, entities: null, allowMissingPrimaryKey: [], allowMissingSchema: [], path: modulePath }]
+            : [];
+        }
+
+        return [
+          {
+            name: entry.name,
+            entities: entry.entities,
+            allowMissingPrimaryKey: entry.allowMissingPrimaryKey,
+            allowMissingSchema: entry.allowMissingSchema,
+            path: modulePath
+          }
+        ];
+      });
+      return {
+        path: section.path ?? null,
+        modules,
+        includeSystemModules: section.includeSystemModules ?? null,
+        includeInactiveModules: section.includeInactiveModules ?? null
+      };
+    })
+]);
+
+const cacheSchema = z
+  .object({
+    root: path.nullish(),
+    refresh: flag.nullish(),
+    ttlSeconds: z.union([positiveInteger("cache.ttlSeconds", 1), z.string().regex(/^\d+$/)]).nullish()
+  })
+  .strict();
+
+const profilerSchema = z
+  .object({
+    provider: z
+      .string()
+      .nullish()
+      .transform((value, ctx) => {
+        if (!value?.trim()) {
+          return null;
+        }
+
+        const provider = PROFILER_PROVIDERS.find((candidate) => candidate.toLowerCase() === value.trim().toLowerCase());
+        if (!provider) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `profiler.provider must be one of ${PROFILER_PROVIDERS.join(", ")} (any case).`
+          });
+          return z.NEVER;
+        }
+
+        return provider;
+      }),
+    profilePath: path.nullish(),
+    mockFolder: path.nullish()
+  })
+  .strict();
+
+const dynamicDataSchema = z
+  .object({
+    insertMode: enumValue("dynamicData.insertMode", DYNAMIC_INSERT_MODES).nullish(),
+    staticSeedParentMode: enumValue("dynamicData.staticSeedParentMode", STATIC_SEED_PARENT_MODES).nullish(),
+    deferJunctionTables: z.boolean().nullish()
+  })
+  .strict();
+
+const typeMappingSectionSchema = z
+  .object({
+    path: path.nullish(),
+    default: typeMappingRuleSchema.nullish(),
+    overrides: z.record(typeMappingRuleSchema).nullish()
+  })
+  .strict();
+
+const supplementalModelsSchema = z
+  .object({
+    includeUsers: flag.nullish(),
+    paths: z.array(path).nullish()
+  })
+  .strict();
+
+const sqlSchema = z
+  .object({
+    connectionString: z.string().nullish(),
+    commandTimeoutSeconds: positiveInteger("sql.commandTimeoutSeconds", 0).nullish(),
+    sampling: z
+      .object({
+        rowSamplingThreshold: positiveInteger("sql.sampling.rowSamplingThreshold", 1).nullish(),
+        sampleSize: positiveInteger("sql.sampling.sampleSize", 1).nullish()
+      })
+      .strict()
+      .nullish(),
+    authentication: z
+      .object({
+        method: enumValue("sql.authentication.method", SQL_AUTHENTICATION_METHODS).nullish(),
+        trustServerCertificate: flag.nullish(),
+        applicationName: z.string().nullish(),
+        accessToken: z.string().nullish()
+      })
+      .strict()
+      .nullish(),
+    metadataContract: z
+      .object({ optionalColumns: z.record(z.array(z.string().trim().min(1))).nullish() })
+      .strict()
+      .nullish(),
+    profilingConnectionStrings: z.array(z.string().trim().min(1)).nullish(),
+    tableNameMappings: z
+      .array(
+        z
+          .object({
+            sourceSchema: z.string().nullish(),
+            sourceTable: z.string().trim().min(1),
+            targetSchema: z.string().nullish(),
+            targetTable: z.string().trim().min(1)
+          })
+          .strict()
+      )
+      .nullish()
+  })
+  .strict();
+
+const columnList = z.union([z.string(), z.array(z.string())]);
+
+const uatUsersSchema = z
+  .object({
+    model: pathSection.nullish(),
+    output: pathSection.nullish(),
+    userMap: pathSection.nullish(),
+    uatUserInventory: pathSection.nullish(),
+    uatInventory: pathSection.nullish(),
+    qaInventory: pathSection.nullish(),
+    snapshot: pathSection.nullish(),
+    fromLiveMetadata: flag.nullish(),
+    schema: z.string().nullish(),
+    table: z.string().nullish(),
+    idColumn: z.string().nullish(),
+    entityId: z.string().nullish(),
+    includeColumns: columnList.nullish(),
+    matchStrategy: enumValue("uatUsers.matchStrategy", USER_MATCHING_STRATEGIES).nullish(),
+    matchAttribute: z.string().nullish(),
+    matchRegex: z.string().nullish(),
+    fallbackMode: enumValue("uatUsers.fallbackMode", USER_FALLBACK_MODES).nullish(),
+    fallbackTargets: columnList.nullish(),
+    idempotentEmission: flag.nullish(),
+    verifyArtifacts: flag.nullish(),
+    verificationReportPath: z.string().nullish(),
+    concurrency: positiveInteger("uatUsers.concurrency", 1).nullish()
+  })
+  .strict();
+
+/** Schema for the CLI configuration `CliConfigurationLoader` reads (`pipeline.json`, `appsettings.json`). */
+export const cliConfigSchema = z
+  .object({
+    tighteningPath: path.nullish(),
+    tightening: tighteningConfigSchema.nullish(),
+    model: modelSectionSchema.nullish(),
+    profile: pathSection.nullish(),
+    dmm: pathSection.nullish(),
+    cache: cacheSchema.nullish(),
+    profiler: profilerSchema.nullish(),
+    dynamicData: dynamicDataSchema.nullish(),
+    typeMapping: typeMappingSectionSchema.nullish(),
+    supplementalModels: supplementalModelsSchema.nullish(),
+    sql: sqlSchema.nullish(),
+    uatUsers: uatUsersSchema.nullish()
+  })
+  .strict()
+  .transform(
+    (config): CliConfig => ({
+      tighteningPath: config.tighteningPath ?? null,
+      tightening: config.tightening ?? null,
+      model: config.model ?? null,
+      profilerProvider: config.profiler?.provider ?? null
+    })
+  );
+
+export function parseCliConfigJson(input: unknown): CliConfig {
+  return cliConfigSchema.parse(input);
+}
+
+export function safeParseCliConfigJson(input: unknown) {
+  return cliConfigSchema.safeParse(input);
+}
@@ -0,0 +1,176 @@
+import type { CliConfig } from "./cliConfig.js";
+import type { NormalizedEntity, NormalizedModel, NormalizedModule } from "./modelSchema.js";
+import type { NormalizedTighteningOptions } from "./tighteningConfig.js";
+
+export type ConfigIssueCode =
+  | "config.sectionMissing"
+  | "config.moduleUnknown"
+  | "config.entityUnknown"
+  | "config.attributeUnknown"
+  | "config.tableUnknown";
+
+export interface ConfigIssue {
+  readonly code: ConfigIssueCode;
+  readonly message: string;
+  /** Path inside the configuration file (`emission.namingOverrides.rules[0]`). */
+  readonly path: (string | number)[];
+}
+
+/** Sections `TighteningOptionsDeserializer` rejects the configuration without. */
+const REQUIRED_TIGHTENING_SECTIONS = ["remediation", "emission", "mocking"] as const;
+
+const sameName = (left: string, right: string) => left.toLowerCase() === right.toLowerCase();
+
+// Module filters and overrides resolve names case-insensitively in the .NET pipeline.
+function findModule(model: NormalizedModel, name: string): NormalizedModule | null {
+  return model.modules.find((module) => sameName(module.name, name)) ?? null;
+}
+
+function findEntity(module: NormalizedModule, name: string): NormalizedEntity | null {
+  return module.entities.find((entity) => sameName(entity.name, name)) ?? null;
+}
+
+function definesEntity(model: NormalizedModel, name: string): boolean {
+  return model.modules.some((module) => findEntity(module, name) !== null);
+}
+
+function definesTable(model: NormalizedModel, schema: string, table: string): boolean {
+  return model.modules.some((module) =>
+    module.entities.some((entity) => sameName(entity.schema, schema) && sameName(entity.physicalName, table))
+  );
+}
+
+/**
+ * Checks a tightening configuration beyond its schema: the sections the .NET pipeline requires and,
+ * when a model is supplied, that every nullability and naming override still points at something in
+ * it. `basePath` prefixes issue paths when the configuration is embedded (the CLI's `tightening`).
+ */
+export function validateTighteningConfig(
+  options: NormalizedTighteningOptions,
+  model: NormalizedModel | null,
+  basePath: (string | number)[] = []
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  REQUIRED_TIGHTENING_SECTIONS.forEach((section) => {
+    if (options[section] === null) {
+      issues.push({
+        code: "config.sectionMissing",
+        message: `The .NET pipeline requires the ${section} section.`,
+        path: [...basePath, section]
+      });
+    }
+  });
+
+  if (!model) {
+    return issues;
+  }
+
+  options.policy.nullabilityOverrides.forEach((override) => {
+    const path = [...basePath, ...override.path];
+    const module = findModule(model, override.module);
+    if (!module) {
+      issues.push({ code: "config.moduleUnknown", message: `Nullability override names unknown module ${override.module}.`, path });
+      return;
+    }
+
+    const entity = findEntity(module, override.entity);
+    if (!entity) {
+      issues.push({
+        code: "config.entityUnknown",
+        message: `Nullability override names unknown entity ${module.name}.${override.entity}.`,
+        path
+      });
+      return;
+    }
+
+    if (!entity.attributes.some((attribute) => sameName(attribute.name, override.attribute))) {
+      issues.push({
+        code: "config.attributeUnknown",
+        message: `Nullability override names unknown attribute ${module.name}.${entity.name}.${override.attribute}.`,
+        path
+      });
+    }
+  });
+
+  (options.emission?.namingOverrides ?? []).forEach((override) => {
+    const path = [...basePath, ...override.path];
+    if (override.table && override.schema && !definesTable(model, override.schema, override.table)) {
+      issues.push({
+        code: "config.tableUnknown",
+        message: `Naming override ${override.override} targets table ${override.schema}.${override.table}, which the model does not define.`,
+        path
+      });
+    }
+
+    if (!override.entity) {
+      return;
+    }
+
+    if (override.module) {
+      const module = findModule(model, override.module);
+      if (!module) {
+        issues.push({ code: "config.moduleUnknown", message: `Naming override ${override.override} names unknown module ${override.module}.`, path });
+      } else if (!findEntity(module, override.entity)) {
+        issues.push({
+          code: "config.entityUnknown",
+          message: `Naming override ${override.override} names unknown entity ${module.name}.${override.entity}.`,
+          path
+        });
+      }
+      return;
+    }
+
+    if (!definesEntity(model, override.entity)) {
+      issues.push({
+        code: "config.entityUnknown",
+        message: `Naming override ${override.override} names entity ${override.entity}, which no module defines.`,
+        path
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Checks a CLI configuration beyond its schema: its inline tightening section, and, when a model is
+ * supplied, that the `model.modules` filter and its validation overrides select modules and
+ * entities the model defines.
+ */
+export function validateCliConfig(config: CliConfig, model: NormalizedModel | null): ConfigIssue[] {
+  const issues = config.tightening ? validateTighteningConfig(config.tightening, model, ["tightening"]) : [];
+  if (!model) {
+    return issues;
+  }
+
+  (config.model?.modules ?? []).forEach((selection) => {
+    const module = findModule(model, selection.name);
+    if (!module) {
+      issues.push({
+        code: "config.moduleUnknown",
+        message: `Module filter selects ${selection.name}, which the model does not define.`,
+        path: selection.path
+      });
+      return;
+    }
+
+    const lists = [
+      ["entities", selection.entities ?? []],
+      ["allowMissingPrimaryKey", selection.allowMissingPrimaryKey],
+      ["allowMissingSchema", selection.allowMissingSchema]
+    ] as const;
+    lists.forEach(([key, entities]) => {
+      entities
+        .filter((entity) => entity !== "*" && !findEntity(module, entity))
+        .forEach((entity) => {
+          issues.push({
+            code: "config.entityUnknown",
+            message: `Module filter ${key} names unknown entity ${module.name}.${entity}.`,
+            path: [...selection.path, key]
+          });
+        });
+    });
+  });
+
+  return issues;
+}
@@ -0,0 +1,802 @@
+import { createHash } from "node:crypto";
+
+import type {
+  NormalizedAttribute,
+  NormalizedEntity,
+  NormalizedExtendedProperty,
+  NormalizedIndex,
+  NormalizedModel,
+  NormalizedModule,
+  NormalizedRelationship
+} from "./modelSchema.js";
+import {
+  buildEntityLookup,
+  findEntityByLogicalName,
+  findEntityByPhysicalName,
+  type EntityLookup
+} from "./referenceResolution.js";
+import { parseSqlType, resolveAttributeType, type TypeMappingPolicy, type TypeResolutionIssue } from "./typeMapping.js";
+
+export interface DdlEmissionOptions {
+  /** Emit non-unique `isPlatformAuto` indexes too; platform unique indexes are always emitted. */
+  readonly includePlatformAutoIndexes: boolean;
+  /** Replace characters other than letters and digits in module directory names with `_`. */
+  readonly sanitizeModuleNames: boolean;
+}
+
+export interface TableDdl {
+  readonly module: string;
+  readonly schema: string;
+  readonly table: string;
+  /** Output path relative to the emission root, e.g. `Modules/AppCore/dbo.Customer.sql`. */
+  readonly tableFile: string;
+  readonly indexes: string[];
+  readonly foreignKeys: string[];
+  readonly includesExtendedProperties: boolean;
+  readonly script: string;
+}
+
+export interface DdlEmission {
+  readonly tables: TableDdl[];
+  /** Attributes without a type mapping; their columns fall back to the OutSystems data type. */
+  readonly issues: TypeResolutionIssue[];
+}
+
+/** Collation the platform creates columns with; only other collations are scripted. */
+const DEFAULT_COLLATION = "Latin1_General_CI_AI";
+const MAX_CONSTRAINT_NAME_LENGTH = 128;
+const NAME_HASH_LENGTH = 12;
+const STATEMENT_SEPARATOR = "\n\nGO\n\n";
+
+/** Types scripted with a length (`MAX` for -1); every other type is scripted bare, as SMO does. */
+const LENGTH_TYPES = new Set(["varchar", "nvarchar", "varbinary", "char", "nchar", "binary"]);
+const PRECISION_TYPES = new Set(["decimal", "numeric"]);
+
+interface EmittedColumn {
+  readonly attribute: NormalizedAttribute;
+  readonly sqlType: string;
+  readonly isNullable: boolean;
+  readonly isIdentity: boolean;
+}
+
+interface PlannedForeignKey {
+  readonly name: string;
+  readonly column: string;
+  readonly referencedSchema: string;
+  readonly referencedTable: string;
+  readonly referencedColumn: string;
+  readonly onDelete: string;
+}
+
+interface TableContext {
+  readonly entity: NormalizedEntity;
+  readonly columns: EmittedColumn[];
+  /** Logical column name keyed by lowercased physical column name. */
+  readonly logicalColumns: ReadonlyMap<string, string>;
+}
+
+/** Mirrors `ModuleNameSanitizer`: letters and digits are kept, everything else becomes `_`. */
+export function sanitizeModuleName(name: string): string {
+  const trimmed = name.trim();
+  if (trimmed.length === 0) {
+    return "Module";
+  }
+
+  return trimmed.replace(/[^\p{L}\p{N}]/gu, "_");
+}
+
+function bracket(identifier: string): string {
+  return `[${identifier.replace(/]/g, "]]")}]`;
+}
+
+function escapeLiteral(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+function replaceIgnoreCase(source: string, search: string, replacement: string): string {
+  if (source.length === 0 || search.length === 0) {
+    return source;
+  }
+
+  const haystack = source.toLowerCase();
+  const needle = search.toLowerCase();
+  let result = "";
+  let index = 0;
+  for (;;) {
+    const match = haystack.indexOf(needle, index);
+    if (match < 0) {
+      return result + source.slice(index);
+    }
+
+    result += source.slice(index, match) + replacement;
+    index = match + search.length;
+  }
+}
+
+/** Index just past the string literal opening at `start`, honouring `''` escapes. */
+function skipStringLiteral(value: string, start: number): number {
+  let index = start + 1;
+  while (index < value.length) {
+    if (value[index] !== "'") {
+      index++;
+    } else if (value[index + 1] === "'") {
+      index += 2;
+    } else {
+      return index;
+    }
+  }
+
+  return value.length - 1;
+}
+
+function hasRedundantOuterParentheses(value: string): boolean {
+  if (value.length < 2 || !value.startsWith("(") || !value.endsWith(")")) {
+    return false;
+  }
+
+  let depth = 0;
+  for (let index = 0; index < value.length; index++) {
+    const character = value[index];
+    if (character === "'") {
+      index = skipStringLiteral(value, index);
+    } else if (character === "(") {
+      depth++;
+    } else if (character === ")") {
+      depth--;
+      if (depth < 0 || (depth === 0 && index < value.length - 1)) {
+        return false;
+      }
+    }
+  }
+
+  return depth === 0;
+}
+
+/** Trims an expression and drops redundant outer parentheses, keeping them around string literals. */
+function normalizeSqlExpression(value: string | null): string | null {
+  let candidate = value?.trim() ?? "";
+  if (candidate.length === 0) {
+    return null;
+  }
+
+  while (hasRedundantOuterParentheses(candidate)) {
+    const inner = candidate.slice(1, -1).trim();
+    if (inner.length === 0 || inner.includes("'")) {
+      break;
+    }
+
+    candidate = inner;
+  }
+
+  return candidate;
+}
+
+/** `((1))`, `'True'` and friends become `1`/`0` for BIT columns. */
+function normalizeBitDefault(expression: string): string {
+  let candidate = expression.trim();
+  for (let attempt = 0; attempt < 4 && candidate.length > 0; attempt++) {
+    const literal = candidate.replace(/^'(.*)'$/, "$1").toLowerCase();
+    if (literal === "1" || literal === "true") {
+      return "1";
+    }
+
+    if (literal === "0" || literal === "false") {
+      return "0";
+    }
+
+    if (!candidate.startsWith("(") || !candidate.endsWith(")")) {
+      break;
+    }
+
+    candidate = candidate.slice(1, -1).trim();
+  }
+
+  return expression;
+}
+
+/** Adds the space after commas outside string literals that the ScriptDom generator writes. */
+function spaceCommas(expression: string): string {
+  let result = "";
+  for (let index = 0; index < expression.length; index++) {
+    const character = expression[index];
+    if (character === "'") {
+      const end = skipStringLiteral(expression, index);
+      result += expression.slice(index, end + 1);
+      index = end;
+    } else if (character === ",") {
+      result += ", ";
+      while (expression[index + 1] === " ") {
+        index++;
+      }
+    } else {
+      result += character;
+    }
+  }
+
+  return result;
+}
+
+function renameColumns(expression: string, context: TableContext): string {
+  let renamed = expression;
+  for (const [physical, logical] of context.logicalColumns) {
+    renamed = replaceIgnoreCase(renamed, bracket(physical), bracket(logical));
+  }
+
+  return renamed;
+}
+
+function normalizeToken(token: string): string {
+  const isUpper = /^\p{Lu}+$/u.test(token);
+  const isLower = /^\p{Ll}+$/u.test(token);
+  if (!isUpper && !isLower) {
+    return token;
+  }
+
+  return token.length === 1 ? token.toUpperCase() : token[0].toUpperCase() + token.slice(1).toLowerCase();
+}
+
+/** The part of `OSUSR_ABC_CUSTOMER` after its second `_` (or its last one), which FK names often use. */
+function tableSuffix(physicalName: string): string {
+  const first = physicalName.indexOf("_");
+  if (first < 0) {
+    return physicalName;
+  }
+
+  const second = physicalName.indexOf("_", first + 1);
+  return physicalName.slice((second >= 0 ? second : physicalName.lastIndexOf("_")) + 1);
+}
+
+/**
+ * Mirrors `ConstraintNameNormalizer`: physical table and column names become logical ones, then every
+ * all-upper or all-lower `_` token after the prefix is title-cased (`IX_OSUSR_A_ORDER_STATUS` →
+ * `IX_Order_Status`).
+ */
+function normalizeConstraintName(
+  name: string,
+  entity: NormalizedEntity,
+  attributes: NormalizedAttribute[],
+  referenced: NormalizedEntity | null = null
+): string {
+  let normalized = replaceIgnoreCase(name, entity.physicalName, entity.name);
+  if (referenced) {
+    normalized = replaceIgnoreCase(normalized, referenced.physicalName, referenced.name);
+    const suffix = tableSuffix(referenced.physicalName);
+    if (suffix.length > 0 && suffix.toLowerCase() !== referenced.physicalName.toLowerCase()) {
+      normalized = replaceIgnoreCase(normalized, suffix, referenced.name);
+    }
+  }
+
+  for (const attribute of attributes) {
+    normalized = replaceIgnoreCase(normalized, attribute.physicalName, attribute.name);
+  }
+
+  const separator = normalized.indexOf("_");
+  const prefix = separator > 0 ? normalized.slice(0, separator) : null;
+  const suffix = (separator > 0 ? normalized.slice(separator + 1) : normalized)
+    .split("_")
+    .filter((token) => token.length > 0)
+    .map(normalizeToken)
+    .join("_");
+  return prefix ? `${prefix}_${suffix}` : suffix;
+}
+
+function renderSqlType(sqlType: string): string {
+  const { baseType, parameters } = parseSqlType(sqlType);
+  const key = baseType.toLowerCase();
+  const base = baseType.toUpperCase();
+  if (LENGTH_TYPES.has(key) && parameters.length > 0) {
+    return `${base} (${parameters[0] < 0 ? "MAX" : parameters[0]})`;
+  }
+
+  if (PRECISION_TYPES.has(key) && parameters.length > 0) {
+    return `${base} (${parameters.slice(0, 2).join(", ")})`;
+  }
+
+  return base;
+}
+
+function describe(description: string | null, extendedProperties: NormalizedExtendedProperty[]): string | null {
+  const property = extendedProperties.find((candidate) => candidate.name === "MS_Description");
+  const value = typeof property?.value === "string" ? property.value : description;
+  return value && value.trim().length > 0 ? value : null;
+}
+
+function findReferencedEntity(lookup: EntityLookup, attribute: NormalizedAttribute): NormalizedEntity | null {
+  const { targetEntityPhysicalName, targetEntityName } = attribute.reference;
+  const location =
+    (targetEntityPhysicalName ? findEntityByPhysicalName(lookup, targetEntityPhysicalName) : null) ??
+    (targetEntityName ? findEntityByLogicalName(lookup, targetEntityName) : null);
+  return location && location.entity.isActive ? location.entity : null;
+}
+
+function identifierOf(entity: NormalizedEntity): NormalizedAttribute | null {
+  return entity.attributes.find((attribute) => attribute.isActive && attribute.isIdentifier) ?? null;
+}
+
+function mapDeleteRule(deleteRule: string | null): string {
+  switch (deleteRule?.trim()) {
+    case "Cascade":
+    case "Delete":
+      return "CASCADE";
+    case "SetNull":
+      return "SET NULL";
+    default:
+      return "NO ACTION";
+  }
+}
+
+function truncateWithHash(name: string): string {
+  const hash = createHash("sha256").update(name, "utf8").digest("hex").toUpperCase().slice(0, NAME_HASH_LENGTH);
+  const available = MAX_CONSTRAINT_NAME_LENGTH - NAME_HASH_LENGTH - 1;
+  const prefix = name.slice(0, available).replace(/_+$/, "") || name.slice(0, available);
+  return `${prefix}_${hash}`;
+}
+
+/** Mirrors `ForeignKeyNameFactory`: the extracted constraint name when there is one, else `FK_<owner>_<target>_<column>`. */
+function foreignKeyName(
+  entity: NormalizedEntity,
+  attribute: NormalizedAttribute,
+  referenced: NormalizedEntity,
+  relationship: NormalizedRelationship | undefined
+): string {
+  const constraint = relationship?.actualConstraints.find((candidate) => candidate.name);
+  const ownerColumns = constraint?.columns.length
+    ? constraint.columns.map((column) => column.ownerPhysical ?? attribute.physicalName)
+    : [attribute.physicalName];
+
+  let name: string;
+  if (constraint?.name) {
+    const provided = constraint.name.trim();
+    const contained = ownerColumns.every((column) => provided.toLowerCase().includes(column.toLowerCase()));
+    const withColumns = contained ? provided : `${provided}_${ownerColumns.join("_")}`;
+    const separator = withColumns.indexOf("_");
+    name = separator < 0 ? `FK_${withColumns}` : `FK_${withColumns.slice(separator + 1)}`;
+  } else {
+    name = `FK_${entity.physicalName}_${referenced.physicalName}_${attribute.physicalName}`;
+  }
+
+  if (name.length > MAX_CONSTRAINT_NAME_LENGTH) {
+    const logical = `FK_${entity.name}_${referenced.name}_${attribute.physicalName}`;
+    name = logical.length > MAX_CONSTRAINT_NAME_LENGTH ? truncateWithHash(logical) : logical;
+  }
+
+  return normalizeConstraintName(name, entity, [attribute], referenced);
+}
+
+/**
+ * Plans the FK for a reference attribute. Like the .NET emitter, a constraint is scripted when the
+ * target is in the model and either the database already has one or the delete rule is not `Ignore`.
+ */
+function planForeignKey(
+  entity: NormalizedEntity,
+  attribute: NormalizedAttribute,
+  lookup: EntityLookup
+): PlannedForeignKey | null {
+  if (!attribute.reference.isReference) {
+    return null;
+  }
+
+  const referenced = findReferencedEntity(lookup, attribute);
+  const referencedColumn = referenced ? identifierOf(referenced) : null;
+  if (!referenced || !referencedColumn) {
+    return null;
+  }
+
+  const relationship = entity.relationships.find(
+    (candidate) => candidate.viaAttributeName.toLowerCase() === attribute.name.toLowerCase()
+  );
+  const deleteRule = relationship?.deleteRuleCode ?? attribute.reference.deleteRuleCode ?? "Ignore";
+  const hasDbConstraint = (relationship?.hasDbConstraint ?? false) || attribute.reference.hasDbConstraint;
+  if (!hasDbConstraint && deleteRule === "Ignore") {
+    return null;
+  }
+
+  return {
+    name: foreignKeyName(entity, attribute, referenced, relationship),
+    column: attribute.name,
+    referencedSchema: referenced.schema,
+    referencedTable: referenced.name,
+    referencedColumn: referencedColumn.name,
+    onDelete: mapDeleteRule(deleteRule)
+  };
+}
+
+function buildColumns(
+  entity: NormalizedEntity,
+  entityPath: (string | number)[],
+  policy: TypeMappingPolicy,
+  lookup: EntityLookup,
+  issues: TypeResolutionIssue[]
+): EmittedColumn[] {
+  const columns: EmittedColumn[] = [];
+  entity.attributes.forEach((attribute, attributeIndex) => {
+    if (!attribute.isActive) {
+      return;
+    }
+
+    // References take the type of the identifier they point at.
+    const referenced = attribute.reference.isReference ? findReferencedEntity(lookup, attribute) : null;
+    const typed = (referenced && identifierOf(referenced)) ?? attribute;
+    const resolution = resolveAttributeType(typed, policy);
+    if (!resolution) {
+      issues.push({
+        code: "type.unmapped",
+        message: `Attribute "${attribute.name}" of entity "${entity.name}" has data type "${attribute.dataType}", which has no entry in the type mapping.`,
+        path: [...entityPath, "attributes", attributeIndex, "dataType"]
+      });
+    }
+
+    columns.push({
+      attribute,
+      sqlType: renderSqlType(resolution?.sqlType ?? attribute.dataType),
+      isNullable: !(attribute.isMandatory || attribute.isIdentifier || attribute.onDisk?.isNullable === false),
+      isIdentity: attribute.onDisk?.isIdentity ?? attribute.isAutoNumber
+    });
+  });
+
+  return columns;
+}
+
+function columnTypeText(column: EmittedColumn): string {
+  const collation = column.attribute.onDisk?.collation?.trim();
+  return collation && collation !== DEFAULT_COLLATION ? `${column.sqlType} COLLATE ${collation}` : column.sqlType;
+}
+
+function buildCreateTable(
+  context: TableContext,
+  primaryKey: string | null,
+  foreignKeys: ReadonlyMap<string, PlannedForeignKey>
+): string {
+  const { entity, columns } = context;
+  const identifiers = columns.filter((column) => column.attribute.isIdentifier);
+  const nameWidth = Math.max(...columns.map((column) => bracket(column.attribute.name).length)) + 1;
+  const typeWidth = Math.max(...columns.map((column) => columnTypeText(column).length)) + 1;
+
+  const definitions = columns.map((column) => {
+    const { attribute } = column;
+    const lines = [
+      `    ${bracket(attribute.name).padEnd(nameWidth)}${columnTypeText(column).padEnd(typeWidth)}` +
+        `${column.isIdentity ? "IDENTITY (1, 1) " : ""}${column.isNullable ? "NULL" : "NOT NULL"}`
+    ];
+
+    const onDisk = attribute.onDisk;
+    let defaultExpression = normalizeSqlExpression(onDisk?.defaultDefinition ?? attribute.defaultValue);
+    if (defaultExpression && column.sqlType === "BIT") {
+      defaultExpression = normalizeBitDefault(defaultExpression);
+    }
+
+    if (defaultExpression) {
+      const name = onDisk?.defaultConstraint?.name;
+      lines.push(`        ${name ? `CONSTRAINT ${bracket(name)} ` : ""}DEFAULT ${defaultExpression}`);
+    }
+
+    const checks = [...(onDisk?.checkConstraints ?? [])].sort((left, right) =>
+      (left.name ?? "").localeCompare(right.name ?? "")
+    );
+    for (const check of checks) {
+      const expression = normalizeSqlExpression(check.definition);
+      if (expression) {
+        const name = check.name ? `CONSTRAINT ${bracket(check.name)} ` : "";
+        lines.push(`        ${name}CHECK (${spaceCommas(renameColumns(expression, context))})`);
+      }
+    }
+
+    if (primaryKey && identifiers.length === 1 && identifiers[0] === column) {
+      lines.push(`        CONSTRAINT ${bracket(primaryKey)}`, `            PRIMARY KEY CLUSTERED`);
+    }
+
+    const foreignKey = foreignKeys.get(attribute.name);
+    if (foreignKey) {
+      lines.push(
+        `        CONSTRAINT ${bracket(foreignKey.name)}`,
+        `            FOREIGN KEY (${bracket(foreignKey.column)}) REFERENCES ` +
+          `${bracket(foreignKey.referencedSchema)}.${bracket(foreignKey.referencedTable)} (${bracket(foreignKey.referencedColumn)})`
+      );
+      if (foreignKey.onDelete !== "NO ACTION") {
+        lines.push(`                ON DELETE ${foreignKey.onDelete}`, `                ON UPDATE NO ACTION`);
+      }
+    }
+
+    return lines.join("\n");
+  });
+
+  if (primaryKey && identifiers.length > 1) {
+    const keyColumns = identifiers.map((column) => bracket(column.attribute.name)).join(", ");
+    definitions.push(`    CONSTRAINT ${bracket(primaryKey)}\n        PRIMARY KEY CLUSTERED (${keyColumns})`);
+  }
+
+  return `CREATE TABLE ${bracket(entity.schema)}.${bracket(entity.name)} (\n${definitions.join(",\n")}\n)`;
+}
+
+/** Collapses `[1, 2, 3, 5]` into `1 TO 3, 5`. */
+function formatPartitionRanges(partitions: number[]): string {
+  const ranges: string[] = [];
+  const sorted = [...partitions].sort((left, right) => left - right);
+  for (let index = 0; index < sorted.length; index++) {
+    const start = sorted[index];
+    while (sorted[index + 1] === sorted[index] + 1) {
+      index++;
+    }
+
+    ranges.push(sorted[index] === start ? `${start}` : `${start} TO ${sorted[index]}`);
+  }
+
+  return ranges.join(", ");
+}
+
+function indexOptions(index: NormalizedIndex): string[] {
+  const options: string[] = [];
+  if (index.fillFactor !== null && index.fillFactor > 0) {
+    options.push(`FILLFACTOR = ${index.fillFactor}`);
+  }
+
+  if (index.isPadded) {
+    options.push("PAD_INDEX = ON");
+  }
+
+  if (index.ignoreDupKey) {
+    options.push("IGNORE_DUP_KEY = ON");
+  }
+
+  if (index.noRecompute) {
+    options.push("STATISTICS_NORECOMPUTE = ON");
+  }
+
+  if (index.allowRowLocks === false) {
+    options.push("ALLOW_ROW_LOCKS = OFF");
+  }
+
+  if (index.allowPageLocks === false) {
+    options.push("ALLOW_PAGE_LOCKS = OFF");
+  }
+
+  const byCompression = new Map<string, number[]>();
+  for (const { partition, compression } of index.dataCompression) {
+    const level = compression?.trim().toUpperCase();
+    if (level && level !== "NONE") {
+      byCompression.set(level, [...(byCompression.get(level) ?? []), partition]);
+    }
+  }
+
+  for (const [level, partitions] of byCompression) {
+    options.push(`DATA_COMPRESSION = ${level} ON PARTITIONS (${formatPartitionRanges(partitions)})`);
+  }
+
+  return options;
+}
+
+function dataSpaceClause(index: NormalizedIndex, context: TableContext): string | null {
+  const name = index.dataSpace?.name?.trim();
+  if (!name) {
+    return null;
+  }
+
+  const partitionColumns = [...index.partitionColumns]
+    .sort((left, right) => left.ordinal - right.ordinal)
+    .map((column) => bracket(context.logicalColumns.get(column.name.toLowerCase()) ?? column.name));
+  if (partitionColumns.length > 0) {
+    return `ON ${bracket(name)}(${partitionColumns.join(", ")})`;
+  }
+
+  if (name.toUpperCase() === "PRIMARY" || index.dataSpace?.type === "PARTITION_SCHEME") {
+    return null;
+  }
+
+  return `ON ${bracket(name)}`;
+}
+
+/** Returns the index name and its statements, or `null` when the index is not emitted. */
+function buildIndex(
+  index: NormalizedIndex,
+  context: TableContext,
+  options: DdlEmissionOptions
+): { name: string; statements: string[] } | null {
+  const { entity } = context;
+  if (index.isPrimary || (index.isPlatformAuto && !index.isUnique && !options.includePlatformAutoIndexes)) {
+    return null;
+  }
+
+  const columns = [...index.columns].sort((left, right) => left.ordinal - right.ordinal);
+  const keyColumns = columns.filter((column) => !column.isIncluded);
+  if (keyColumns.length === 0) {
+    return null;
+  }
+
+  const attributes = keyColumns
+    .map((column) => context.columns.find((candidate) => candidate.attribute.name === column.attribute)?.attribute)
+    .filter((attribute): attribute is NormalizedAttribute => attribute !== undefined);
+  const baseName = `${index.isUnique ? "UIX" : "IX"}_${entity.physicalName}_${keyColumns.map((column) => column.attribute).join("_")}`;
+  const name = normalizeConstraintName(baseName, entity, attributes);
+  const table = `${bracket(entity.schema)}.${bracket(entity.name)}`;
+
+  const keyList = keyColumns
+    .map((column) => `${bracket(column.attribute)}${column.direction === "Descending" ? " DESC" : ""}`)
+    .join(", ");
+  const lines = [`CREATE ${index.isUnique ? "UNIQUE " : ""}INDEX ${bracket(name)}`, `    ON ${table}(${keyList})`];
+
+  const included = columns.filter((column) => column.isIncluded);
+  if (included.length > 0) {
+    lines.push(`    INCLUDE(${included.map((column) => bracket(column.attribute)).join(", ")})`);
+  }
+
+  const filter = normalizeSqlExpression(index.filterDefinition);
+  if (filter) {
+    lines[lines.length - 1] += ` WHERE (${renameColumns(filter, context)})`;
+  }
+
+  const withOptions = indexOptions(index);
+  if (withOptions.length > 0) {
+    lines[lines.length - 1] += ` WITH (${withOptions.join(", ")})`;
+  }
+
+  const dataSpace = dataSpaceClause(index, context);
+  if (dataSpace) {
+    lines.push(`    ${dataSpace}`);
+  }
+
+  const statements = [lines.join("\n")];
+  if (index.isDisabled) {
+    statements.push(`ALTER INDEX ${bracket(name)}\n    ON ${table} DISABLE`);
+  }
+
+  return { name, statements };
+}
+
+function buildExtendedProperties(context: TableContext): string[] {
+  const { entity } = context;
+  const target = `    @level0type=N'SCHEMA',@level0name=N'${escapeLiteral(entity.schema)}',\n` +
+    `    @level1type=N'TABLE',@level1name=N'${escapeLiteral(entity.name)}'`;
+  const statements: string[] = [];
+
+  const tableDescription = describe(entity.description, entity.extendedProperties);
+  if (tableDescription) {
+    statements.push(
+      `EXEC sys.sp_addextendedproperty @name=N'MS_Description', @value=N'${escapeLiteral(tableDescription)}',\n${target};`
+    );
+  }
+
+  for (const { attribute } of context.columns) {
+    const description = describe(attribute.description, attribute.extendedProperties);
+    if (description) {
+      statements.push(
+        `EXEC sys.sp_addextendedproperty @name=N'MS_Description', @value=N'${escapeLiteral(description)}',\n${target},\n` +
+          `    @level2type=N'COLUMN',@level2name=N'${escapeLiteral(attribute.name)}';`
+      );
+    }
+  }
+
+  return statements;
+}
+
+function buildTriggers(context: TableContext): string[] {
+  const { entity } = context;
+  return entity.triggers.map((trigger) => {
+    const lines = [`-- Trigger: ${trigger.name} (disabled: ${trigger.isDisabled})`];
+    let definition = trigger.definition.trim();
+    if (definition.length > 0) {
+      definition = replaceIgnoreCase(
+        definition,
+        `${bracket(entity.schema)}.${bracket(entity.physicalName)}`,
+        `${bracket(entity.schema)}.${bracket(entity.name)}`
+      );
+      definition = replaceIgnoreCase(definition, bracket(entity.physicalName), bracket(entity.name));
+      definition = replaceIgnoreCase(definition, entity.physicalName, entity.name);
+      for (const [physical, logical] of context.logicalColumns) {
+        definition = replaceIgnoreCase(definition, bracket(physical), bracket(logical));
+        definition = replaceIgnoreCase(definition, physical, logical);
+      }
+
+      lines.push(definition.trim());
+    }
+
+    if (trigger.isDisabled) {
+      lines.push(`ALTER TABLE ${bracket(entity.schema)}.${bracket(entity.name)} DISABLE TRIGGER ${bracket(trigger.name)};`);
+    }
+
+    return lines.join("\n");
+  });
+}
+
+function emitTable(
+  module: NormalizedModule,
+  entity: NormalizedEntity,
+  entityPath: (string | number)[],
+  policy: TypeMappingPolicy,
+  lookup: EntityLookup,
+  options: DdlEmissionOptions,
+  issues: TypeResolutionIssue[]
+): TableDdl {
+  const columns = buildColumns(entity, entityPath, policy, lookup, issues);
+  const logicalColumns = new Map(columns.map((column) => [column.attribute.physicalName.toLowerCase(), column.attribute.name]));
+  const context: TableContext = { entity, columns, logicalColumns };
+
+  const identifiers = columns.filter((column) => column.attribute.isIdentifier).map((column) => column.attribute);
+  const primaryKey = identifiers.length > 0
+    ? normalizeConstraintName(`PK_${entity.physicalName}_${identifiers.map((attribute) => attribute.name).join("_")}`, entity, identifiers)
+    : null;
+
+  const foreignKeys = new Map<string, PlannedForeignKey>();
+  for (const { attribute } of columns) {
+    const foreignKey = planForeignKey(entity, attribute, lookup);
+    if (foreignKey) {
+      foreignKeys.set(attribute.name, foreignKey);
+    }
+  }
+
+  const statements = [buildCreateTable(context, primaryKey, foreignKeys)];
+  const indexNames: string[] = [];
+  for (const index of entity.indexes) {
+    const built = buildIndex(index, context, options);
+    if (built) {
+      indexNames.push(built.name);
+      statements.push(...built.statements);
+    }
+  }
+
+  const extendedProperties = buildExtendedProperties(context);
+  statements.push(...extendedProperties, ...buildTriggers(context));
+
+  const moduleDirectory = options.sanitizeModuleNames ? sanitizeModuleName(module.name) : module.name;
+  const script = statements
+    .join(STATEMENT_SEPARATOR)
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n");
+  return {
+    module: moduleDirectory,
+    schema: entity.schema,
+    table: entity.name,
+    tableFile: `Modules/${moduleDirectory}/${entity.schema}.${entity.name}.sql`,
+    indexes: indexNames,
+    foreignKeys: [...foreignKeys.values()].map((foreignKey) => foreignKey.name),
+    includesExtendedProperties: extendedProperties.length > 0,
+    script: `${script}\n`
+  };
+}
+
+/**
+ * Scripts one `.sql` file per active entity the way the .NET per-table emitter lays them out:
+ * logical table and column names, inline PK/FK/default/check constraints, then indexes, extended
+ * properties and triggers separated by `GO`. Inactive attributes, entities and modules are skipped.
+ * Tightening decisions are not applied, so nullability follows the model and `onDisk` only.
+ */
+export function emitModelDdl(model: NormalizedModel, policy: TypeMappingPolicy, options: DdlEmissionOptions): DdlEmission {
+  const lookup = buildEntityLookup(model);
+  const tables: TableDdl[] = [];
+  const issues: TypeResolutionIssue[] = [];
+  model.modules.forEach((module, moduleIndex) => {
+    if (!module.isActive) {
+      return;
+    }
+
+    module.entities.forEach((entity, entityIndex) => {
+      if (entity.isActive && entity.attributes.some((attribute) => attribute.isActive)) {
+        tables.push(emitTable(module, entity, ["modules", moduleIndex, "entities", entityIndex], policy, lookup, options, issues));
+      }
+    });
+  });
+
+  return { tables, issues };
+}
+
+/** The `manifest.json` the .NET emitter writes next to `Modules/`, limited to what the preview knows. */
+export function formatDdlManifest(emission: DdlEmission, options: DdlEmissionOptions): string {
+  const manifest = {
+    Tables: emission.tables.map((table) => ({
+      Module: table.module,
+      Schema: table.schema,
+      Table: table.table,
+      TableFile: table.tableFile,
+      Indexes: table.indexes,
+      ForeignKeys: table.foreignKeys,
+      IncludesExtendedProperties: table.includesExtendedProperties
+    })),
+    Options: {
+      IncludePlatformAutoIndexes: options.includePlatformAutoIndexes,
+      EmitBareTableOnly: false,
+      SanitizeModuleNames: options.sanitizeModuleNames
+    }
+  };
+
+  return `${JSON.stringify(manifest, null, 2)}\n`;
+}
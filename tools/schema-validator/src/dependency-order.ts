@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+import process from "node:process";
+
+import { ZodError } from "zod";
+
+import { parseCircularDependencyConfigJson, type CircularDependencyOptions } from "./circularDependencyConfig.js";
+import { analyzeDependencies, formatDependencyAnalysis, type DependencyAnalysis } from "./dependencyGraph.js";
+import { loadJson } from "./jsonFile.js";
+import { formatZodErrors, parseModelJson } from "./modelSchema.js";
+
+type OutputFormat = "text" | "json";
+
+interface CliOptions {
+  readonly modelPath: string;
+  readonly allowlistPath: string | null;
+  readonly strict: boolean;
+  readonly format: OutputFormat;
+}
+
+/** Exit code used when the model parses but its tables cannot be loaded in dependency order. */
+const CYCLE_EXIT_CODE = 2;
+
+function parseArguments(argv: string[]): CliOptions | null {
+  let modelPath: string | undefined;
+  let allowlistPath: string | null = null;
+  let strict = false;
+  let format: OutputFormat = "text";
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--allowlist" || argument === "-a") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--allowlist expects a path to the circular dependency configuration JSON.");
+      }
+
+      allowlistPath = value;
+      continue;
+    }
+
+    if (argument === "--strict") {
+      strict = true;
+      continue;
+    }
+
+    if (argument === "--json") {
+      format = "json";
+      continue;
+    }
+
+    if (argument === "--format" || argument === "-f") {
+      const value = argv[++index];
+      if (value !== "text" && value !== "json") {
+        throw new Error(`--format expects "text" or "json" (received ${value ?? "nothing"}).`);
+      }
+
+      format = value;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    if (modelPath) {
+      throw new Error("Only one model JSON file path can be supplied.");
+    }
+
+    modelPath = argument;
+  }
+
+  if (!modelPath) {
+    throw new Error("Path to the model JSON is required.");
+  }
+
+  return { modelPath, allowlistPath, strict, format };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run dependency-order -- <model.json> [options]\n\n` +
+    `Options:\n` +
+    `  -h, --help              Show this message.\n` +
+    `  -a, --allowlist <path>  Circular dependency allowlist (shape of docs/examples/circular-dependencies-example.json).\n` +
+    `      --strict            Fail on every cycle, as if the allowlist set strictMode.\n` +
+    `  -f, --format <format>   Output format: text (default) or json.\n` +
+    `      --json              Shorthand for --format json.\n` +
+    `\nExit codes:\n` +
+    `  0  Every table can be loaded in the reported order.\n` +
+    `  1  Invalid arguments or an input failed validation.\n` +
+    `  ${CYCLE_EXIT_CODE}  Disallowed cycles, or an allowed cycle whose ordering breaks a NOT NULL foreign key.\n` +
+    `\nExamples:\n` +
+    `  npm run dependency-order -- ../../tests/Fixtures/model.micro-fk-protect.json\n` +
+    `  npm run dependency-order -- model.json --allowlist ../../docs/examples/circular-dependencies-example.json\n`);
+}
+
+async function loadInput<T>(label: string, filePath: string, parse: (input: unknown) => T): Promise<T> {
+  const raw = await loadJson(filePath);
+  try {
+    return parse(raw);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `${label} ${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
+    }
+
+    throw error;
+  }
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  let analysis: DependencyAnalysis;
+  let allowlist: CircularDependencyOptions = { allowedCycles: [], strictMode: false };
+  try {
+    const model = await loadInput("Model", options.modelPath, parseModelJson);
+    if (options.allowlistPath) {
+      allowlist = await loadInput("Allowlist", options.allowlistPath, parseCircularDependencyConfigJson);
+    }
+    if (options.strict) {
+      allowlist = { ...allowlist, strictMode: true };
+    }
+    analysis = analyzeDependencies(model, allowlist);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to load the dependency inputs.");
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options.format === "json") {
+    console.log(JSON.stringify(analysis, null, 2));
+  } else {
+    if (!analysis.canLoadInOrder) {
+      console.log("✖ Tables cannot be loaded in dependency order.");
+    } else if (analysis.cycles.length > 0) {
+      console.log("✅ Tables load in dependency order; every cycle is allowed or a self-reference.");
+    } else {
+      console.log("✅ Tables load in dependency order without cycles.");
+    }
+
+    formatDependencyAnalysis(analysis, allowlist.allowedCycles).forEach((line) => console.log(line));
+  }
+
+  if (!analysis.canLoadInOrder) {
+    process.exitCode = CYCLE_EXIT_CODE;
+  }
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,493 @@
+import type { AllowedCycle, CircularDependencyOptions } from "./circularDependencyConfig.js";
+import type { NormalizedEntity, NormalizedModel } from "./modelSchema.js";
+import {
+  buildEntityLookup,
+  findEntityByLogicalName,
+  findEntityByPhysicalName,
+  type EntityLocation,
+  type EntityLookup
+} from "./referenceResolution.js";
+
+export interface DependencyNode {
+  /** Lowercased physical table name; physical names are unique model-wide. */
+  readonly key: string;
+  readonly module: string;
+  readonly entity: string;
+  readonly schema: string;
+  readonly table: string;
+  readonly isStatic: boolean;
+}
+
+/** `from` references `to`, so `to` has to be loaded first. */
+export interface DependencyEdge {
+  readonly from: string;
+  readonly to: string;
+  readonly attribute: string;
+  /** A nullable FK can be inserted as NULL and back-filled, which is what makes phased loading possible. */
+  readonly isNullable: boolean;
+  readonly deleteRule: string | null;
+  readonly hasDbConstraint: boolean;
+  readonly constraintName: string | null;
+}
+
+export interface UnresolvedDependency {
+  readonly module: string;
+  readonly entity: string;
+  readonly attribute: string;
+  readonly target: string;
+  readonly path: (string | number)[];
+}
+
+export interface DependencyGraph {
+  readonly nodes: DependencyNode[];
+  readonly edges: DependencyEdge[];
+  /** References to tables outside the model (e.g. supplemental entities); they do not constrain the order. */
+  readonly unresolved: UnresolvedDependency[];
+}
+
+export type CycleStatus = "allowed" | "disallowed" | "selfReference";
+
+export interface DependencyCycle {
+  /** Physical table names in the order they load. */
+  readonly tables: string[];
+  readonly status: CycleStatus;
+  readonly isSelfReference: boolean;
+  /** True when the NOT NULL edges alone are acyclic, so the cycle loads with NULL-then-UPDATE phasing. */
+  readonly phasedLoadable: boolean;
+  /** Index into `allowedCycles` of the matching allowlist entry. */
+  readonly allowlistIndex: number | null;
+  readonly edges: DependencyEdge[];
+  readonly issues: string[];
+}
+
+export interface LoadOrderEntry {
+  readonly position: number;
+  readonly module: string;
+  readonly entity: string;
+  readonly schema: string;
+  readonly table: string;
+  /** Index into `cycles` when the table is part of a cycle. */
+  readonly cycle: number | null;
+}
+
+export interface DependencyAnalysis {
+  readonly graph: DependencyGraph;
+  readonly loadOrder: LoadOrderEntry[];
+  readonly cycles: DependencyCycle[];
+  /** Allowlist entries that matched no detected cycle. */
+  readonly unusedAllowlistEntries: number[];
+  readonly strictMode: boolean;
+  /** Whether seeds and data scripts can load in `loadOrder` without FK violations. */
+  readonly canLoadInOrder: boolean;
+}
+
+function lower(value: string): string {
+  return value.toLowerCase();
+}
+
+function compareKeys(left: string, right: string): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function resolveTable(lookup: EntityLookup, physicalName: string | null, logicalName: string | null): EntityLocation | null {
+  return (
+    (physicalName ? findEntityByPhysicalName(lookup, physicalName) : null) ??
+    (logicalName ? findEntityByLogicalName(lookup, logicalName) : null)
+  );
+}
+
+function entityEdges(
+  lookup: EntityLookup,
+  entity: NormalizedEntity,
+  path: (string | number)[],
+  moduleName: string,
+  unresolved: UnresolvedDependency[]
+): DependencyEdge[] {
+  const from = lower(entity.physicalName);
+  const edges: DependencyEdge[] = [];
+  const isNullable = (attributeName: string) =>
+    !(entity.attributes.find((attribute) => lower(attribute.name) === lower(attributeName))?.isMandatory ?? true);
+  const addTarget = (
+    attribute: string,
+    physicalName: string | null,
+    logicalName: string | null,
+    details: { deleteRule: string | null; hasDbConstraint: boolean; constraintName: string | null },
+    targetPath: (string | number)[]
+  ) => {
+    const target = resolveTable(lookup, physicalName, logicalName);
+    if (!target) {
+      unresolved.push({ module: moduleName, entity: entity.name, attribute, target: physicalName ?? logicalName ?? "<unknown>", path: targetPath });
+      return;
+    }
+
+    edges.push({ from, to: lower(target.entity.physicalName), attribute, isNullable: isNullable(attribute), ...details });
+  };
+
+  entity.relationships.forEach((relationship, relationshipIndex) => {
+    const relationshipPath = [...path, "relationships", relationshipIndex];
+    const constraints = relationship.actualConstraints.filter((constraint) => constraint.referencedTable);
+    if (constraints.length === 0) {
+      addTarget(
+        relationship.viaAttributeName,
+        relationship.toEntityPhysicalName,
+        relationship.toEntityName,
+        { deleteRule: relationship.deleteRuleCode, hasDbConstraint: relationship.hasDbConstraint, constraintName: null },
+        relationshipPath
+      );
+      return;
+    }
+
+    constraints.forEach((constraint) => {
+      addTarget(
+        relationship.viaAttributeName,
+        constraint.referencedTable,
+        relationship.toEntityName,
+        { deleteRule: constraint.onDelete ?? relationship.deleteRuleCode, hasDbConstraint: true, constraintName: constraint.name },
+        relationshipPath
+      );
+    });
+  });
+
+  const covered = new Set(entity.relationships.map((relationship) => lower(relationship.viaAttributeName)));
+  entity.attributes.forEach((attribute, attributeIndex) => {
+    const { reference } = attribute;
+    if (!reference.isReference || covered.has(lower(attribute.name))) {
+      return;
+    }
+
+    addTarget(
+      attribute.name,
+      reference.targetEntityPhysicalName,
+      reference.targetEntityName,
+      { deleteRule: reference.deleteRuleCode, hasDbConstraint: reference.hasDbConstraint, constraintName: null },
+      [...path, "attributes", attributeIndex]
+    );
+  });
+
+  return edges;
+}
+
+/**
+ * Builds the FK dependency graph across all modules from entity relationships (preferring the
+ * actual constraints' referenced tables) and from reference attributes no relationship covers.
+ */
+export function buildDependencyGraph(model: NormalizedModel): DependencyGraph {
+  const lookup = buildEntityLookup(model);
+  const nodes = new Map<string, DependencyNode>();
+  const edges = new Map<string, DependencyEdge>();
+  const unresolved: UnresolvedDependency[] = [];
+
+  model.modules.forEach((module, moduleIndex) => {
+    module.entities.forEach((entity, entityIndex) => {
+      const key = lower(entity.physicalName);
+      if (!nodes.has(key)) {
+        nodes.set(key, {
+          key,
+          module: module.name,
+          entity: entity.name,
+          schema: entity.schema,
+          table: entity.physicalName,
+          isStatic: entity.isStatic
+        });
+      }
+
+      entityEdges(lookup, entity, ["modules", moduleIndex, "entities", entityIndex], module.name, unresolved).forEach((edge) => {
+        const edgeKey = `${edge.from}|${edge.to}|${lower(edge.attribute)}`;
+        if (!edges.has(edgeKey)) {
+          edges.set(edgeKey, edge);
+        }
+      });
+    });
+  });
+
+  return {
+    nodes: [...nodes.values()].sort((left, right) => compareKeys(left.key, right.key)),
+    edges: [...edges.values()],
+    unresolved
+  };
+}
+
+function adjacency(graph: DependencyGraph): Map<string, string[]> {
+  const outgoing = new Map<string, string[]>(graph.nodes.map((node) => [node.key, []]));
+  graph.edges.forEach((edge) => {
+    const targets = outgoing.get(edge.from);
+    if (targets && !targets.includes(edge.to)) {
+      targets.push(edge.to);
+    }
+  });
+  outgoing.forEach((targets) => targets.sort(compareKeys));
+  return outgoing;
+}
+
+/**
+ * Tarjan's algorithm over node keys. Every node lands in exactly one component; components with
+ * a single node are only cycles when the node references itself.
+ */
+export function findStronglyConnectedComponents(graph: DependencyGraph): string[][] {
+  const outgoing = adjacency(graph);
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (key: string) => {
+    index.set(key, counter);
+    lowLink.set(key, counter);
+    counter++;
+    stack.push(key);
+    onStack.add(key);
+
+    (outgoing.get(key) ?? []).forEach((target) => {
+      if (!index.has(target)) {
+        visit(target);
+        lowLink.set(key, Math.min(lowLink.get(key)!, lowLink.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLink.set(key, Math.min(lowLink.get(key)!, index.get(target)!));
+      }
+    });
+
+    if (lowLink.get(key) === index.get(key)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== key);
+      components.push(component.sort(compareKeys));
+    }
+  };
+
+  graph.nodes.forEach((node) => {
+    if (!index.has(node.key)) {
+      visit(node.key);
+    }
+  });
+
+  return components;
+}
+
+/**
+ * Kahn's algorithm over `keys`, honouring only `edges`. Ties break on the key so the order is
+ * deterministic. Keys left over (because the edges are cyclic) are appended in key order.
+ */
+function kahn(keys: string[], edges: Array<{ from: string; to: string }>): { order: string[]; complete: boolean } {
+  const dependents = new Map<string, Set<string>>(keys.map((key) => [key, new Set()]));
+  const indegree = new Map<string, number>(keys.map((key) => [key, 0]));
+  edges.forEach(({ from, to }) => {
+    const set = dependents.get(to);
+    if (set && indegree.has(from) && from !== to && !set.has(from)) {
+      set.add(from);
+      indegree.set(from, indegree.get(from)! + 1);
+    }
+  });
+
+  const ready = keys.filter((key) => indegree.get(key) === 0).sort(compareKeys);
+  const order: string[] = [];
+  while (ready.length > 0) {
+    const key = ready.shift()!;
+    order.push(key);
+    [...dependents.get(key)!].sort(compareKeys).forEach((dependent) => {
+      const remaining = indegree.get(dependent)! - 1;
+      indegree.set(dependent, remaining);
+      if (remaining === 0) {
+        ready.push(dependent);
+        ready.sort(compareKeys);
+      }
+    });
+  }
+
+  const complete = order.length === keys.length;
+  if (!complete) {
+    const placed = new Set(order);
+    order.push(...keys.filter((key) => !placed.has(key)).sort(compareKeys));
+  }
+
+  return { order, complete };
+}
+
+function matchAllowlist(component: string[], allowedCycles: AllowedCycle[]): number | null {
+  const members = new Set(component);
+  const index = allowedCycles.findIndex(
+    (cycle) =>
+      cycle.tableOrdering.length === members.size &&
+      cycle.tableOrdering.every((ordering) => members.has(lower(ordering.tableName)))
+  );
+  return index >= 0 ? index : null;
+}
+
+function describeEdge(edge: DependencyEdge, nodes: Map<string, DependencyNode>): string {
+  return `${nodes.get(edge.from)!.table}.${edge.attribute} → ${nodes.get(edge.to)!.table}`;
+}
+
+interface OrderedComponent {
+  readonly order: string[];
+  readonly cycle: DependencyCycle | null;
+}
+
+function orderComponent(
+  component: string[],
+  graph: DependencyGraph,
+  nodes: Map<string, DependencyNode>,
+  options: CircularDependencyOptions
+): OrderedComponent {
+  const members = new Set(component);
+  const internal = graph.edges.filter((edge) => members.has(edge.from) && members.has(edge.to));
+  const isSelfReference = component.length === 1;
+  if (internal.length === 0) {
+    return { order: component, cycle: null };
+  }
+
+  const required = internal.filter((edge) => !edge.isNullable);
+  const phased = kahn(component, required);
+  const allowlistIndex = matchAllowlist(component, options.allowedCycles);
+  const issues: string[] = [];
+  let order = phased.order;
+
+  if (allowlistIndex !== null) {
+    const positions = new Map(
+      options.allowedCycles[allowlistIndex].tableOrdering.map((ordering) => [lower(ordering.tableName), ordering.position])
+    );
+    order = [...component].sort((left, right) => positions.get(left)! - positions.get(right)!);
+    required
+      .filter((edge) => edge.from !== edge.to && positions.get(edge.to)! > positions.get(edge.from)!)
+      .forEach((edge) => {
+        issues.push(`Allowlist loads ${nodes.get(edge.from)!.table} before ${nodes.get(edge.to)!.table}, but ${describeEdge(edge, nodes)} is NOT NULL.`);
+      });
+  } else if (!isSelfReference && !phased.complete) {
+    issues.push("Every path around the cycle has a NOT NULL foreign key, so no load order can satisfy it without schema changes.");
+  }
+
+  if (options.strictMode) {
+    issues.push("strictMode rejects every cycle, including allowed ones.");
+  }
+
+  const status: CycleStatus =
+    options.strictMode ? "disallowed" : allowlistIndex !== null ? "allowed" : isSelfReference ? "selfReference" : "disallowed";
+  return {
+    order,
+    cycle: {
+      tables: order.map((key) => nodes.get(key)!.table),
+      status,
+      isSelfReference,
+      phasedLoadable: phased.complete,
+      allowlistIndex,
+      edges: internal,
+      issues
+    }
+  };
+}
+
+/**
+ * Computes a deterministic global load order: strongly connected components are loaded in
+ * topological order (ties broken by table name), and tables inside a cycle follow the allowlist
+ * positions when the cycle is allowed, or the NOT NULL edges otherwise. Self-references do not
+ * block loading unless `strictMode` is set, because rows within one table can be ordered.
+ */
+export function analyzeDependencies(
+  model: NormalizedModel,
+  options: CircularDependencyOptions = { allowedCycles: [], strictMode: false }
+): DependencyAnalysis {
+  const graph = buildDependencyGraph(model);
+  const nodes = new Map(graph.nodes.map((node) => [node.key, node]));
+  const components = findStronglyConnectedComponents(graph);
+
+  const componentOf = new Map<string, number>();
+  components.forEach((component, index) => component.forEach((key) => componentOf.set(key, index)));
+  const ordered = components.map((component) => orderComponent(component, graph, nodes, options));
+
+  // Order components by their first table, then topologically over the condensed graph.
+  const componentKeys = ordered.map((component) => component.order[0]);
+  const condensedEdges = graph.edges
+    .filter((edge) => componentOf.get(edge.from) !== componentOf.get(edge.to))
+    .map((edge) => ({ from: componentKeys[componentOf.get(edge.from)!], to: componentKeys[componentOf.get(edge.to)!] }));
+  const componentOrder = kahn(componentKeys, condensedEdges).order.map((key) => componentOf.get(key)!);
+
+  const cycles: DependencyCycle[] = [];
+  const loadOrder: LoadOrderEntry[] = [];
+  componentOrder.forEach((componentIndex) => {
+    const { order, cycle } = ordered[componentIndex];
+    const cycleIndex = cycle ? cycles.push(cycle) - 1 : null;
+    order.forEach((key) => {
+      const node = nodes.get(key)!;
+      loadOrder.push({
+        position: loadOrder.length + 1,
+        module: node.module,
+        entity: node.entity,
+        schema: node.schema,
+        table: node.table,
+        cycle: cycleIndex
+      });
+    });
+  });
+
+  const matched = new Set(cycles.map((cycle) => cycle.allowlistIndex).filter((index): index is number => index !== null));
+  const unusedAllowlistEntries = options.allowedCycles.map((_, index) => index).filter((index) => !matched.has(index));
+  const canLoadInOrder = cycles.every(
+    (cycle) => cycle.status !== "disallowed" && (cycle.status !== "allowed" || cycle.issues.length === 0)
+  );
+
+  return { graph, loadOrder, cycles, unusedAllowlistEntries, strictMode: options.strictMode, canLoadInOrder };
+}
+
+const STATUS_LABELS: Record<CycleStatus, string> = {
+  allowed: "ALLOWED",
+  disallowed: "DISALLOWED",
+  selfReference: "SELF-REFERENCE"
+};
+
+export function formatDependencyAnalysis(analysis: DependencyAnalysis, allowedCycles: AllowedCycle[] = []): string[] {
+  const lines: string[] = [];
+  const { graph, cycles } = analysis;
+  const nodes = new Map(graph.nodes.map((node) => [node.key, node]));
+  lines.push(
+    `Tables: ${graph.nodes.length}, dependencies: ${graph.edges.length}, cycles: ${cycles.length}, unresolved references: ${graph.unresolved.length}`
+  );
+
+  if (cycles.length > 0) {
+    lines.push("", "Cycles:");
+    cycles.forEach((cycle, index) => {
+      const path = cycle.isSelfReference ? `${cycle.tables[0]} → ${cycle.tables[0]}` : [...cycle.tables, cycle.tables[0]].join(" → ");
+      lines.push(`  ${index + 1}. [${STATUS_LABELS[cycle.status]}] ${path}`);
+      cycle.edges.forEach((edge) => {
+        lines.push(
+          `       • ${describeEdge(edge, nodes)} (${edge.isNullable ? "nullable" : "NOT NULL"}${edge.deleteRule ? `, ${edge.deleteRule}` : ""})`
+        );
+      });
+      if (!cycle.isSelfReference && cycle.status !== "allowed") {
+        lines.push(
+          cycle.phasedLoadable
+            ? "       Phased loading is possible: INSERT with NULL → INSERT dependents → UPDATE with FK values."
+            : "       No nullable foreign key breaks this cycle."
+        );
+      }
+      cycle.issues.forEach((issue) => lines.push(`       ✖ ${issue}`));
+    });
+  }
+
+  if (analysis.unusedAllowlistEntries.length > 0) {
+    lines.push("", "Allowlist entries matching no cycle:");
+    analysis.unusedAllowlistEntries.forEach((index) => {
+      const tables = allowedCycles[index]?.tableOrdering.map((ordering) => ordering.tableName).join(", ") ?? "";
+      lines.push(`  • allowedCycles[${index}]${tables ? `: ${tables}` : ""}`);
+    });
+  }
+
+  if (graph.unresolved.length > 0) {
+    lines.push("", "Unresolved references (not part of the order):");
+    graph.unresolved.forEach((item) => {
+      lines.push(`  • ${item.module}.${item.entity}.${item.attribute} → ${item.target}`);
+    });
+  }
+
+  lines.push("", "Load order:");
+  const width = String(analysis.loadOrder.length).length;
+  analysis.loadOrder.forEach((entry) => {
+    const cycle = entry.cycle !== null ? ` [cycle ${entry.cycle + 1}]` : "";
+    lines.push(`  ${String(entry.position).padStart(width)}. ${entry.schema}.${entry.table} (${entry.module}.${entry.entity})${cycle}`);
+  });
+
+  return lines;
+}
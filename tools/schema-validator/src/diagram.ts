@@ -0,0 +1,181 @@
+#!/usr/bin/env node
+import fs from "node:fs/promises";
+import process from "node:process";
+
+import { ZodError } from "zod";
+
+import { loadJson } from "./jsonFile.js";
+import {
+  buildModelDiagram,
+  DIAGRAM_FORMATS,
+  renderDot,
+  renderMermaid,
+  type DiagramFormat,
+  type DiagramOptions
+} from "./modelDiagram.js";
+import { formatZodErrors, parseModelJson } from "./modelSchema.js";
+
+interface CliOptions {
+  readonly modelPath: string;
+  readonly format: DiagramFormat;
+  readonly outputPath: string | null;
+  readonly diagram: DiagramOptions;
+}
+
+function isDiagramFormat(value: string | undefined): value is DiagramFormat {
+  return (DIAGRAM_FORMATS as readonly string[]).includes(value ?? "");
+}
+
+function parseArguments(argv: string[]): CliOptions | null {
+  let modelPath: string | undefined;
+  let format: DiagramFormat = "mermaid";
+  let outputPath: string | null = null;
+  let groupByModule = false;
+  let focusModule: string | null = null;
+  let hops: number | null = null;
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--format" || argument === "-f") {
+      const value = argv[++index];
+      if (!isDiagramFormat(value)) {
+        throw new Error(`--format expects one of ${DIAGRAM_FORMATS.join(", ")} (received ${value ?? "nothing"}).`);
+      }
+
+      format = value;
+      continue;
+    }
+
+    if (argument === "--output" || argument === "-o") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--output expects a path to write the diagram to.");
+      }
+
+      outputPath = value;
+      continue;
+    }
+
+    if (argument === "--group-by-module" || argument === "-g") {
+      groupByModule = true;
+      continue;
+    }
+
+    if (argument === "--module" || argument === "-m") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--module expects the name of the module to focus on.");
+      }
+
+      focusModule = value;
+      continue;
+    }
+
+    if (argument === "--hops") {
+      const value = argv[++index];
+      const parsed = Number(value);
+      if (!value || !Number.isInteger(parsed) || parsed < 0) {
+        throw new Error(`--hops expects a non-negative integer (received ${value ?? "nothing"}).`);
+      }
+
+      hops = parsed;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    if (modelPath) {
+      throw new Error("Only one model JSON file path can be supplied.");
+    }
+
+    modelPath = argument;
+  }
+
+  if (!modelPath) {
+    throw new Error("Path to the model JSON is required.");
+  }
+
+  if (hops !== null && focusModule === null) {
+    throw new Error("--hops only applies together with --module.");
+  }
+
+  return { modelPath, format, outputPath, diagram: { groupByModule, focusModule, hops: hops ?? 1 } };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run diagram -- <model.json> [options]\n\n` +
+    `Renders entities, identifier and reference columns, and references as a Mermaid erDiagram or\n` +
+    `a Graphviz DOT graph.\n\n` +
+    `Options:\n` +
+    `  -h, --help             Show this message.\n` +
+    `  -f, --format <format>  Output format: ${DIAGRAM_FORMATS.join(" (default) or ")}.\n` +
+    `  -o, --output <path>    Write the diagram to <path> instead of stdout.\n` +
+    `  -g, --group-by-module  Cluster entities by module.\n` +
+    `  -m, --module <name>    Only draw this module and the entities it is connected to.\n` +
+    `      --hops <n>         With --module, how many references away neighbours are drawn (default: 1).\n` +
+    `\nExamples:\n` +
+    `  npm run diagram -- ../../tests/Fixtures/model.edge-case.json > model.mmd\n` +
+    `  npm run diagram -- model.json --format dot --group-by-module | dot -Tsvg > model.svg\n` +
+    `  npm run diagram -- model.json --module AppCore --hops 2\n`);
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  let output: string;
+  try {
+    const raw = await loadJson(options.modelPath);
+    const diagram = buildModelDiagram(parseModelJson(raw), options.diagram);
+    output = options.format === "dot" ? renderDot(diagram, options.diagram) : renderMermaid(diagram, options.diagram);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      console.error(
+        `✖ Model ${options.modelPath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
+    } else if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to render the diagram.");
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options.outputPath) {
+    await fs.writeFile(options.outputPath, output, "utf8");
+    console.log(`✅ Wrote the ${options.format} diagram to ${options.outputPath}.`);
+    return;
+  }
+
+  process.stdout.write(output);
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
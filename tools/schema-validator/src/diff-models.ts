@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+import process from "node:process";
+
+import { ZodError } from "zod";
+
+import { loadJson } from "./jsonFile.js";
+import { diffModels, formatModelDiff } from "./modelDiff.js";
+import { formatZodErrors, parseModelJson, type NormalizedModel } from "./modelSchema.js";
+
+type OutputFormat = "text" | "json";
+
+interface CliOptions {
+  readonly beforePath: string;
+  readonly afterPath: string;
+  readonly format: OutputFormat;
+}
+
+/** Exit code used when the comparison succeeds but contains breaking changes. */
+const BREAKING_EXIT_CODE = 2;
+
+function parseArguments(argv: string[]): CliOptions | null {
+  const paths: string[] = [];
+  let format: OutputFormat = "text";
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--json") {
+      format = "json";
+      continue;
+    }
+
+    if (argument === "--format" || argument === "-f") {
+      const value = argv[++index];
+      if (value !== "text" && value !== "json") {
+        throw new Error(`--format expects "text" or "json" (received ${value ?? "nothing"}).`);
+      }
+
+      format = value;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    paths.push(argument);
+  }
+
+  if (paths.length !== 2) {
+    throw new Error("Exactly two model JSON paths are required: <old.json> <new.json>.");
+  }
+
+  return { beforePath: paths[0], afterPath: paths[1], format };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run diff -- <old.json> <new.json> [options]\n\n` +
+    `Options:\n` +
+    `  -h, --help              Show this message.\n` +
+    `  -f, --format <format>   Output format: text (default) or json.\n` +
+    `      --json              Shorthand for --format json.\n` +
+    `\nExit codes:\n` +
+    `  0  No breaking changes.\n` +
+    `  1  Invalid arguments or an input failed validation.\n` +
+    `  ${BREAKING_EXIT_CODE}  Breaking changes detected.\n` +
+    `\nExamples:\n` +
+    `  npm run diff -- exports/2024-12.json exports/2025-01.json\n` +
+    `  npm run diff -- old.json new.json --json > diff.json\n`);
+}
+
+async function loadModel(filePath: string): Promise<NormalizedModel> {
+  const raw = await loadJson(filePath);
+  try {
+    return parseModelJson(raw);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
+    }
+
+    throw error;
+  }
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  let before: NormalizedModel;
+  let after: NormalizedModel;
+  try {
+    before = await loadModel(options.beforePath);
+    after = await loadModel(options.afterPath);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to load the model files.");
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  const diff = diffModels(before, after);
+  if (options.format === "json") {
+    console.log(JSON.stringify(diff, null, 2));
+  } else {
+    if (diff.changes.length === 0) {
+      console.log("✅ No structural differences.");
+    } else if (diff.hasBreakingChanges) {
+      console.log("✖ Breaking changes detected.");
+    } else {
+      console.log("✅ Only non-breaking changes detected.");
+    }
+
+    formatModelDiff(diff).forEach((line) => console.log(line));
+  }
+
+  if (diff.hasBreakingChanges) {
+    process.exitCode = BREAKING_EXIT_CODE;
+  }
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,146 @@
+#!/usr/bin/env node
+import process from "node:process";
+
+import { ZodError } from "zod";
+
+import { loadJson } from "./jsonFile.js";
+import { analyzeDrift, formatDriftReport } from "./modelDrift.js";
+import { formatZodErrors, parseModelJson, type NormalizedModel } from "./modelSchema.js";
+
+type OutputFormat = "text" | "json";
+
+interface CliOptions {
+  readonly modelPath: string;
+  readonly format: OutputFormat;
+}
+
+/** Exit code used when the model parses but disagrees with its on-disk metadata. */
+const DRIFT_EXIT_CODE = 2;
+
+function parseArguments(argv: string[]): CliOptions | null {
+  let modelPath: string | undefined;
+  let format: OutputFormat = "text";
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--json") {
+      format = "json";
+      continue;
+    }
+
+    if (argument === "--format" || argument === "-f") {
+      const value = argv[++index];
+      if (value !== "text" && value !== "json") {
+        throw new Error(`--format expects "text" or "json" (received ${value ?? "nothing"}).`);
+      }
+
+      format = value;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    if (modelPath) {
+      throw new Error("Only one model JSON file path can be supplied.");
+    }
+
+    modelPath = argument;
+  }
+
+  if (!modelPath) {
+    throw new Error("Path to the model JSON is required.");
+  }
+
+  return { modelPath, format };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run drift -- <model.json> [options]\n\n` +
+    `Options:\n` +
+    `  -h, --help              Show this message.\n` +
+    `  -f, --format <format>   Output format: text (default) or json.\n` +
+    `      --json              Shorthand for --format json.\n` +
+    `\nExit codes:\n` +
+    `  0  The model agrees with its on-disk metadata.\n` +
+    `  1  Invalid arguments or the model failed validation.\n` +
+    `  ${DRIFT_EXIT_CODE}  Drift detected.\n` +
+    `\nExamples:\n` +
+    `  npm run drift -- ../../tests/Fixtures/model.edge-case.json\n` +
+    `  npm run drift -- model.json --json > drift.json\n`);
+}
+
+async function loadModel(filePath: string): Promise<NormalizedModel> {
+  const raw = await loadJson(filePath);
+  try {
+    return parseModelJson(raw);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
+    }
+
+    throw error;
+  }
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  let model: NormalizedModel;
+  try {
+    model = await loadModel(options.modelPath);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to load the model file.");
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  const report = analyzeDrift(model);
+  if (options.format === "json") {
+    console.log(JSON.stringify(report, null, 2));
+  } else if (!report.hasDrift) {
+    console.log("✅ The logical model agrees with its on-disk metadata.");
+  } else {
+    console.log("✖ The logical model has drifted from the database.");
+    formatDriftReport(report).forEach((line) => console.log(line));
+  }
+
+  if (report.hasDrift) {
+    process.exitCode = DRIFT_EXIT_CODE;
+  }
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,256 @@
+#!/usr/bin/env node
+import process from "node:process";
+import { fileURLToPath } from "node:url";
+
+import { ZodError } from "zod";
+
+import {
+  planEmissionLayout,
+  type EmissionLayout,
+  type EmissionLayoutOptions,
+  type PlannedTable
+} from "./emissionLayout.js";
+import { loadJson } from "./jsonFile.js";
+import { formatIssuePath, formatZodErrors, parseModelJson } from "./modelSchema.js";
+import { parseTighteningConfigJson, type NormalizedTighteningOptions } from "./tighteningConfig.js";
+
+interface CliOptions {
+  readonly modelPath: string;
+  readonly configPath: string;
+  readonly baselinePath: string | null;
+  readonly json: boolean;
+}
+
+interface MovedTable {
+  readonly table: string;
+  readonly from: string[];
+  readonly to: string[];
+}
+
+const DEFAULT_CONFIG_PATH = fileURLToPath(new URL("../../../config/default-tightening.json", import.meta.url));
+
+function parseArguments(argv: string[]): CliOptions | null {
+  let modelPath: string | undefined;
+  let configPath = DEFAULT_CONFIG_PATH;
+  let baselinePath: string | null = null;
+  let json = false;
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--config" || argument === "-c") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--config expects a path to the tightening configuration.");
+      }
+
+      configPath = value;
+      continue;
+    }
+
+    if (argument === "--baseline" || argument === "-b") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--baseline expects a path to the tightening configuration to compare against.");
+      }
+
+      baselinePath = value;
+      continue;
+    }
+
+    if (argument === "--json") {
+      json = true;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    if (modelPath) {
+      throw new Error("Only one model JSON file path can be supplied.");
+    }
+
+    modelPath = argument;
+  }
+
+  if (!modelPath) {
+    throw new Error("Path to the model JSON is required.");
+  }
+
+  return { modelPath, configPath, baselinePath, json };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run emission-layout -- <model.json> [options]\n\n` +
+    `Applies the tightening configuration's naming overrides and module-name sanitization to the model and\n` +
+    `lists the Modules/<Module>/<schema>.<Table>.sql files the .NET emitter would write, without running an\n` +
+    `export. Tables that resolve to the same name and modules that share a directory are reported.\n\n` +
+    `Options:\n` +
+    `  -h, --help             Show this message.\n` +
+    `  -c, --config <path>    Tightening configuration (default: config/default-tightening.json).\n` +
+    `  -b, --baseline <path>  Also list the files that move compared with this tightening configuration.\n` +
+    `      --json             Print the layout as JSON.\n` +
+    `\nExit codes:\n` +
+    `  0  Every table has its own file and every module its own directory.\n` +
+    `  1  Invalid arguments, an input failed to load or parse, or the layout has collisions.\n` +
+    `\nExamples:\n` +
+    `  npm run emission-layout -- ../../tests/Fixtures/model.edge-case.json\n` +
+    `  npm run emission-layout -- model.json --config proposed-tightening.json --baseline ../../config/default-tightening.json\n`);
+}
+
+async function loadInput<T>(label: string, filePath: string, parse: (input: unknown) => T): Promise<T> {
+  const raw = await loadJson(filePath);
+  try {
+    return parse(raw);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `${label} ${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
+    }
+
+    throw error;
+  }
+}
+
+/** A configuration without an `emission` section gets the .NET defaults: no overrides, names kept, full tables. */
+function layoutOptions(config: NormalizedTighteningOptions): EmissionLayoutOptions {
+  return {
+    sanitizeModuleNames: config.emission?.sanitizeModuleNames ?? false,
+    emitTableMode: config.emission?.emitTableMode ?? "FullOnly",
+    namingOverrides: config.emission?.namingOverrides ?? []
+  };
+}
+
+function tableKey(table: PlannedTable): string {
+  return table.path.join("/");
+}
+
+function findMoves(baseline: EmissionLayout, layout: EmissionLayout): MovedTable[] {
+  const before = new Map(baseline.tables.map((table) => [tableKey(table), table]));
+  return layout.tables.flatMap((table) => {
+    const previous = before.get(tableKey(table));
+    if (!previous || previous.files.join("\n") === table.files.join("\n")) {
+      return [];
+    }
+
+    return [{ table: `${table.module}.${table.entity}`, from: previous.files, to: table.files }];
+  });
+}
+
+function describeSource(table: PlannedTable): string {
+  if (!table.override) {
+    return `${table.module}.${table.entity}`;
+  }
+
+  return `${table.module}.${table.entity} ← ${formatIssuePath(table.override.path)}`;
+}
+
+/** Rows of a table that collides with an earlier one say so inline, next to the file both would write. */
+function printLayout(layout: EmissionLayout): void {
+  const width = Math.max(0, ...layout.tables.flatMap((table) => table.files.map((file) => file.length)));
+  const byPath = new Map(layout.tables.map((table) => [tableKey(table), table]));
+  layout.tables.forEach((table) => {
+    const earlier = table.collidesWith && byPath.get(table.collidesWith.join("/"));
+    const marker = earlier ? `  ✖ same file as ${earlier.module}.${earlier.entity} [layout.tableCollision]` : "";
+    table.files.forEach((file) => {
+      console.log(`  ${file.padEnd(width)}  ${describeSource(table)}${marker}`);
+    });
+  });
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  let layout: EmissionLayout;
+  let moves: MovedTable[] | null = null;
+  try {
+    const model = await loadInput("Model", options.modelPath, parseModelJson);
+    const config = await loadInput("Tightening config", options.configPath, parseTighteningConfigJson);
+    layout = planEmissionLayout(model, layoutOptions(config));
+    if (options.baselinePath) {
+      const baseline = await loadInput("Baseline config", options.baselinePath, parseTighteningConfigJson);
+      moves = findMoves(planEmissionLayout(model, layoutOptions(baseline)), layout);
+    }
+  } catch (error) {
+    console.error(`✖ ${error instanceof Error ? error.message : "Unable to load the inputs."}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (layout.issues.length > 0) {
+    process.exitCode = 1;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ model: options.modelPath, config: options.configPath, ...layout, moves }, null, 2));
+    return;
+  }
+
+  const directories = new Set(layout.tables.map((table) => table.moduleDirectory)).size;
+  const renamed = layout.tables.filter((table) => table.override).length;
+  console.log(
+    `${layout.tables.length} table${layout.tables.length === 1 ? "" : "s"} in ${directories} module director${directories === 1 ? "y" : "ies"}` +
+      ` (${renamed} renamed by naming overrides):`
+  );
+  printLayout(layout);
+
+  if (moves) {
+    if (moves.length === 0) {
+      console.log(`No files move compared with ${options.baselinePath}.`);
+    } else {
+      console.log(`${moves.length} table${moves.length === 1 ? " moves" : "s move"} compared with ${options.baselinePath}:`);
+      moves.forEach((move) => {
+        console.log(`  ${move.table}: ${move.from.join(", ")} → ${move.to.join(", ")}`);
+      });
+    }
+  }
+
+  if (layout.unusedOverrides.length > 0) {
+    console.error(`⚠ ${layout.unusedOverrides.length} naming override${layout.unusedOverrides.length === 1 ? "" : "s"} did not apply to any table:`);
+    layout.unusedOverrides.forEach((rule, index) => {
+      const target = [rule.table && `${rule.schema}.${rule.table}`, rule.entity && [rule.module, rule.entity].filter(Boolean).join(".")]
+        .filter(Boolean)
+        .join(" / ");
+      console.error(`  ${index + 1}. ${formatIssuePath(rule.path)}: ${target} → ${rule.override}`);
+    });
+  }
+
+  if (layout.issues.length > 0) {
+    console.error(`✖ ${layout.issues.length} layout collision${layout.issues.length === 1 ? "" : "s"}:`);
+    layout.issues.forEach((issue, index) => {
+      console.error(`  ${index + 1}. ${formatIssuePath(issue.path)}: ${issue.message} [${issue.code}]`);
+    });
+    return;
+  }
+
+  console.log("✅ Every table has its own file and every module its own directory.");
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,153 @@
+import { sanitizeModuleName } from "./ddlEmission.js";
+import type { NormalizedEntity, NormalizedModel } from "./modelSchema.js";
+import type { NamingOverride, TableEmissionMode } from "./tighteningConfig.js";
+
+export interface EmissionLayoutOptions {
+  readonly sanitizeModuleNames: boolean;
+  readonly emitTableMode: TableEmissionMode;
+  readonly namingOverrides: readonly NamingOverride[];
+}
+
+/** Which lookup produced a table's name, in the order `NamingOverrideOptions.GetEffectiveTableName` tries them. */
+export type TableNameSource = "tableOverride" | "moduleEntityOverride" | "entityOverride" | "logicalName";
+
+export interface PlannedTable {
+  readonly module: string;
+  /** The directory under `Modules/`: the module name, sanitized when `sanitizeModuleNames` is on. */
+  readonly moduleDirectory: string;
+  readonly entity: string;
+  readonly schema: string;
+  readonly physicalName: string;
+  /** The name the emitter scripts and names the file after. */
+  readonly tableName: string;
+  readonly source: TableNameSource;
+  /** The naming override that supplied `tableName`, if any. */
+  readonly override: NamingOverride | null;
+  /** Output paths relative to the emission root; `Both` also writes a `Modules.Bare/` copy. */
+  readonly files: string[];
+  readonly path: (string | number)[];
+  /** Model path of the earlier table that emits the same `schema.name`, when this one collides with it. */
+  readonly collidesWith: (string | number)[] | null;
+}
+
+export type LayoutIssueCode = "layout.tableCollision" | "layout.moduleCollision";
+
+export interface LayoutIssue {
+  readonly code: LayoutIssueCode;
+  readonly message: string;
+  /** Model path of the entity or module that collided with an earlier one. */
+  readonly path: (string | number)[];
+}
+
+export interface EmissionLayout {
+  readonly tables: PlannedTable[];
+  readonly issues: LayoutIssue[];
+  /** Overrides no emitted table picked up: stale, or shadowed by a table-level override. */
+  readonly unusedOverrides: NamingOverride[];
+}
+
+const MODULES_DIRECTORY = "Modules";
+const BARE_MODULES_DIRECTORY = "Modules.Bare";
+
+const lower = (value: string) => value.toLowerCase();
+
+function findOverride(
+  overrides: readonly NamingOverride[],
+  module: string,
+  entity: NormalizedEntity
+): { source: TableNameSource; override: NamingOverride | null } {
+  const byTable = overrides.find(
+    (rule) => rule.table !== null && lower(`${rule.schema}.${rule.table}`) === lower(`${entity.schema}.${entity.physicalName}`)
+  );
+  if (byTable) {
+    return { source: "tableOverride", override: byTable };
+  }
+
+  const byModuleEntity = overrides.find(
+    (rule) => rule.module !== null && rule.entity !== null && lower(rule.module) === lower(module) && lower(rule.entity) === lower(entity.name)
+  );
+  if (byModuleEntity) {
+    return { source: "moduleEntityOverride", override: byModuleEntity };
+  }
+
+  const byEntity = overrides.find((rule) => rule.module === null && rule.entity !== null && lower(rule.entity) === lower(entity.name));
+  return byEntity ? { source: "entityOverride", override: byEntity } : { source: "logicalName", override: null };
+}
+
+function describeTable(table: PlannedTable): string {
+  return `${table.module}.${table.entity} (${table.schema}.${table.physicalName})`;
+}
+
+/**
+ * Works out the per-table files the .NET emitter would write: the table name comes from the naming
+ * overrides (table, module-scoped entity, then entity rules) or the logical entity name, and the
+ * module directory is sanitized when configured. Two tables resolving to the same `schema.name`, or
+ * two modules sharing a directory, are reported; names compare case-insensitively as SQL Server's
+ * default collation and Windows paths do. Inactive modules and entities are skipped like `emit-ddl`.
+ */
+export function planEmissionLayout(model: NormalizedModel, options: EmissionLayoutOptions): EmissionLayout {
+  const tables: PlannedTable[] = [];
+  const issues: LayoutIssue[] = [];
+  const used = new Set<NamingOverride>();
+  const directories = new Map<string, string>();
+  const tableNames = new Map<string, PlannedTable>();
+  const roots = options.emitTableMode === "Both" ? [BARE_MODULES_DIRECTORY, MODULES_DIRECTORY] : [MODULES_DIRECTORY];
+
+  model.modules.forEach((module, moduleIndex) => {
+    if (!module.isActive) {
+      return;
+    }
+
+    const moduleDirectory = options.sanitizeModuleNames ? sanitizeModuleName(module.name) : module.name;
+    const claimedBy = directories.get(lower(moduleDirectory));
+    if (claimedBy !== undefined && claimedBy !== module.name) {
+      issues.push({
+        code: "layout.moduleCollision",
+        message: `Modules ${claimedBy} and ${module.name} both write to ${MODULES_DIRECTORY}/${moduleDirectory}/.`,
+        path: ["modules", moduleIndex]
+      });
+    }
+    directories.set(lower(moduleDirectory), claimedBy ?? module.name);
+
+    module.entities.forEach((entity, entityIndex) => {
+      if (!entity.isActive || !entity.attributes.some((attribute) => attribute.isActive)) {
+        return;
+      }
+
+      const { source, override } = findOverride(options.namingOverrides, module.name, entity);
+      if (override) {
+        used.add(override);
+      }
+
+      const tableName = override?.override ?? entity.name.trim();
+      const key = lower(`${entity.schema}.${tableName}`);
+      const existing = tableNames.get(key);
+      const table: PlannedTable = {
+        module: module.name,
+        moduleDirectory,
+        entity: entity.name,
+        schema: entity.schema,
+        physicalName: entity.physicalName,
+        tableName,
+        source,
+        override,
+        files: roots.map((root) => `${root}/${moduleDirectory}/${entity.schema}.${tableName}.sql`),
+        path: ["modules", moduleIndex, "entities", entityIndex],
+        collidesWith: existing?.path ?? null
+      };
+      tables.push(table);
+
+      if (existing) {
+        issues.push({
+          code: "layout.tableCollision",
+          message: `${describeTable(existing)} and ${describeTable(table)} both emit ${entity.schema}.${tableName}.`,
+          path: table.path
+        });
+      } else {
+        tableNames.set(key, table);
+      }
+    });
+  });
+
+  return { tables, issues, unusedOverrides: options.namingOverrides.filter((rule) => !used.has(rule)) };
+}
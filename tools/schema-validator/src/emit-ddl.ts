@@ -0,0 +1,211 @@
+#!/usr/bin/env node
+import fs from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import { fileURLToPath } from "node:url";
+
+import { ZodError } from "zod";
+
+import { emitModelDdl, formatDdlManifest, type DdlEmission, type DdlEmissionOptions } from "./ddlEmission.js";
+import { loadJson } from "./jsonFile.js";
+import { formatIssuePath, formatZodErrors, parseModelJson } from "./modelSchema.js";
+import { parseTypeMappingJson } from "./typeMapping.js";
+
+interface CliOptions {
+  readonly modelPath: string;
+  readonly outputDirectory: string;
+  readonly typeMappingPath: string;
+  readonly emission: DdlEmissionOptions;
+  readonly json: boolean;
+}
+
+const DEFAULT_TYPE_MAPPING_PATH = fileURLToPath(new URL("../../../config/type-mapping.default.json", import.meta.url));
+
+function parseArguments(argv: string[]): CliOptions | null {
+  let modelPath: string | undefined;
+  let outputDirectory: string | undefined;
+  let typeMappingPath = DEFAULT_TYPE_MAPPING_PATH;
+  let includePlatformAutoIndexes = false;
+  let sanitizeModuleNames = true;
+  let json = false;
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--out" || argument === "-o") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--out expects a directory to write the scripts to.");
+      }
+
+      outputDirectory = value;
+      continue;
+    }
+
+    if (argument === "--type-mapping" || argument === "-t") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--type-mapping expects a path to the type mapping JSON.");
+      }
+
+      typeMappingPath = value;
+      continue;
+    }
+
+    if (argument === "--include-platform-auto-indexes") {
+      includePlatformAutoIndexes = true;
+      continue;
+    }
+
+    if (argument === "--keep-module-names") {
+      sanitizeModuleNames = false;
+      continue;
+    }
+
+    if (argument === "--json") {
+      json = true;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    if (modelPath) {
+      throw new Error("Only one model JSON file path can be supplied.");
+    }
+
+    modelPath = argument;
+  }
+
+  if (!modelPath) {
+    throw new Error("Path to the model JSON is required.");
+  }
+
+  if (!outputDirectory) {
+    throw new Error("--out is required.");
+  }
+
+  return {
+    modelPath,
+    outputDirectory,
+    typeMappingPath,
+    emission: { includePlatformAutoIndexes, sanitizeModuleNames },
+    json
+  };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run emit-ddl -- <model.json> --out <directory> [options]\n\n` +
+    `Writes a CREATE TABLE / index / FK preview per entity to <directory>/Modules/<Module>/<schema>.<Table>.sql,\n` +
+    `plus a manifest.json, laid out like the .NET emitter output so the two can be diffed.\n\n` +
+    `Options:\n` +
+    `  -h, --help                        Show this message.\n` +
+    `  -o, --out <directory>             Directory to write Modules/ and manifest.json to (required).\n` +
+    `  -t, --type-mapping <path>         Type mapping used to resolve SQL types (default: config/type-mapping.default.json).\n` +
+    `      --include-platform-auto-indexes  Also emit non-unique platform-generated (isPlatformAuto) indexes.\n` +
+    `      --keep-module-names           Use module names as-is for directories instead of sanitizing them.\n` +
+    `      --json                        Print the manifest as JSON instead of a summary.\n` +
+    `\nExit codes:\n` +
+    `  0  The scripts were written.\n` +
+    `  1  Invalid arguments, an input failed to load or parse, or an attribute has no type mapping.\n` +
+    `\nExamples:\n` +
+    `  npm run emit-ddl -- ../../tests/Fixtures/model.edge-case.json --out /tmp/ddl\n` +
+    `  diff -r /tmp/ddl/Modules ../../tests/Fixtures/emission/edge-case/Modules\n`);
+}
+
+async function loadInput<T>(label: string, filePath: string, parse: (input: unknown) => T): Promise<T> {
+  const raw = await loadJson(filePath);
+  try {
+    return parse(raw);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `${label} ${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
+    }
+
+    throw error;
+  }
+}
+
+async function writeEmission(emission: DdlEmission, options: CliOptions): Promise<void> {
+  for (const table of emission.tables) {
+    const filePath = path.join(options.outputDirectory, ...table.tableFile.split("/"));
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, table.script, "utf8");
+  }
+
+  await fs.mkdir(options.outputDirectory, { recursive: true });
+  await fs.writeFile(path.join(options.outputDirectory, "manifest.json"), formatDdlManifest(emission, options.emission), "utf8");
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  let emission: DdlEmission;
+  try {
+    const model = await loadInput("Model", options.modelPath, parseModelJson);
+    const typeMapping = await loadInput("Type mapping", options.typeMappingPath, parseTypeMappingJson);
+    emission = emitModelDdl(model, typeMapping, options.emission);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to load the emission inputs.");
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  if (emission.issues.length > 0) {
+    console.error(
+      `✖ ${emission.issues.length} attribute${emission.issues.length === 1 ? " has" : "s have"} no type mapping; nothing was written:\n` +
+        emission.issues.map((issue, index) => `  ${index + 1}. ${formatIssuePath(issue.path)}: ${issue.message}`).join("\n")
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  await writeEmission(emission, options);
+
+  if (options.json) {
+    process.stdout.write(formatDdlManifest(emission, options.emission));
+    return;
+  }
+
+  const indexes = emission.tables.reduce((total, table) => total + table.indexes.length, 0);
+  const foreignKeys = emission.tables.reduce((total, table) => total + table.foreignKeys.length, 0);
+  console.log(
+    `✅ Wrote ${emission.tables.length} table script${emission.tables.length === 1 ? "" : "s"} to ${options.outputDirectory} ` +
+      `(${indexes} index${indexes === 1 ? "" : "es"}, ${foreignKeys} foreign key${foreignKeys === 1 ? "" : "s"}).`
+  );
+  emission.tables.forEach((table) => console.log(`  • ${table.tableFile}`));
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,189 @@
+import path from "node:path";
+
+import { z } from "zod";
+
+/** The extraction filters a manifest case was produced with; the exported file should honour them. */
+export interface ExtractionExpectations {
+  /** Modules the extraction asked for; empty means every module. */
+  readonly modules: string[];
+  readonly includeSystemModules: boolean;
+  readonly includeInactiveModules: boolean;
+  readonly onlyActiveAttributes: boolean;
+}
+
+export interface ExtractionCase extends ExtractionExpectations {
+  /** `jsonPath` as written in the manifest, relative to the manifest's directory unless absolute. */
+  readonly jsonPath: string;
+}
+
+export interface ExtractionManifest {
+  readonly cases: ExtractionCase[];
+}
+
+export interface ExpectationIssue {
+  readonly code:
+    | "manifest.moduleMissing"
+    | "manifest.moduleUnexpected"
+    | "manifest.systemModule"
+    | "manifest.inactiveModule"
+    | "manifest.inactiveAttribute";
+  readonly message: string;
+  readonly path: (string | number)[];
+}
+
+const caseSchema = z
+  .object({
+    modules: z.array(z.string()).default([]),
+    includeSystemModules: z.boolean().default(false),
+    includeInactiveModules: z.boolean().default(true),
+    onlyActiveAttributes: z.boolean().default(false),
+    jsonPath: z
+      .string({ required_error: "Each fixture case must include a jsonPath." })
+      .trim()
+      .min(1, { message: "jsonPath must be a non-empty string." })
+  })
+  .strict()
+  .transform((entry, ctx): ExtractionCase => {
+    // Blank names are dropped and duplicates collapse case-insensitively, like the .NET fixture executor.
+    const modules: string[] = [];
+    const seen = new Set<string>();
+    entry.modules.forEach((module, index) => {
+      const name = module.trim();
+      if (name.length === 0) {
+        return;
+      }
+
+      if (seen.has(name.toLowerCase())) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["modules", index],
+          message: `Module "${name}" is listed more than once.`
+        });
+        return;
+      }
+
+      seen.add(name.toLowerCase());
+      modules.push(name);
+    });
+
+    return { ...entry, modules };
+  });
+
+const manifestSchema = z
+  .object({
+    cases: z.array(caseSchema, {
+      required_error: "Fixture manifest must contain an array property 'cases'.",
+      invalid_type_error: "Fixture manifest must contain an array property 'cases'."
+    })
+  })
+  .strict();
+
+export function parseExtractionManifestJson(input: unknown): ExtractionManifest {
+  return manifestSchema.parse(input);
+}
+
+export function safeParseExtractionManifestJson(input: unknown) {
+  return manifestSchema.safeParse(input);
+}
+
+/** Path of a case's export, resolved against the directory of the manifest that lists it. */
+export function resolveCasePath(manifestPath: string, extractionCase: ExtractionCase): string {
+  return path.isAbsolute(extractionCase.jsonPath)
+    ? extractionCase.jsonPath
+    : path.join(path.dirname(manifestPath), extractionCase.jsonPath);
+}
+
+function child(value: unknown, segment: string | number): unknown {
+  if (value === null || typeof value !== "object") {
+    return undefined;
+  }
+
+  return (value as Record<string | number, unknown>)[segment];
+}
+
+/** Reads a flag the way the schema does (`true`/`false` or `1`/`0`); anything else is unknown. */
+function flag(value: unknown): boolean | null {
+  if (value === true || value === 1) {
+    return true;
+  }
+
+  if (value === false || value === 0) {
+    return false;
+  }
+
+  return null;
+}
+
+function itemsOf(value: unknown, property: string): unknown[] {
+  const items = child(value, property);
+  return Array.isArray(items) ? items : [];
+}
+
+function nameOf(value: unknown): string {
+  const name = child(value, "name");
+  return typeof name === "string" ? name.trim() : "";
+}
+
+/**
+ * Checks the raw export against the filters of the extraction that produced it. Works on the
+ * unvalidated JSON so the filters are checked even when the file fails the schema.
+ */
+export function checkExtractionExpectations(raw: unknown, expectations: ExtractionExpectations): ExpectationIssue[] {
+  const issues: ExpectationIssue[] = [];
+  const modules = itemsOf(raw, "modules");
+  const requested = new Map(expectations.modules.map((name) => [name.toLowerCase(), name]));
+  const present = new Set(modules.map((module) => nameOf(module).toLowerCase()));
+
+  requested.forEach((name, key) => {
+    if (!present.has(key)) {
+      issues.push({
+        code: "manifest.moduleMissing",
+        message: `Module "${name}" is listed in the manifest but missing from the export.`,
+        path: ["modules"]
+      });
+    }
+  });
+
+  modules.forEach((module, moduleIndex) => {
+    const name = nameOf(module);
+    if (flag(child(module, "isSystem")) === true && !expectations.includeSystemModules) {
+      issues.push({
+        code: "manifest.systemModule",
+        message: `Module "${name}" is a system module, but the extraction excludes system modules.`,
+        path: ["modules", moduleIndex, "isSystem"]
+      });
+    } else if (requested.size > 0 && !requested.has(name.toLowerCase())) {
+      issues.push({
+        code: "manifest.moduleUnexpected",
+        message: `Module "${name}" is not listed in the manifest's modules.`,
+        path: ["modules", moduleIndex, "name"]
+      });
+    }
+
+    if (flag(child(module, "isActive")) === false && !expectations.includeInactiveModules) {
+      issues.push({
+        code: "manifest.inactiveModule",
+        message: `Module "${name}" is inactive, but the extraction excludes inactive modules.`,
+        path: ["modules", moduleIndex, "isActive"]
+      });
+    }
+
+    if (!expectations.onlyActiveAttributes) {
+      return;
+    }
+
+    itemsOf(module, "entities").forEach((entity, entityIndex) => {
+      itemsOf(entity, "attributes").forEach((attribute, attributeIndex) => {
+        if (flag(child(attribute, "isActive")) === false) {
+          issues.push({
+            code: "manifest.inactiveAttribute",
+            message: `Attribute "${nameOf(attribute)}" of entity "${nameOf(entity)}" is inactive, but the extraction only includes active attributes.`,
+            path: ["modules", moduleIndex, "entities", entityIndex, "attributes", attributeIndex, "isActive"]
+          });
+        }
+      });
+    });
+  });
+
+  return issues;
+}
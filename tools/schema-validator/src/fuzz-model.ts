@@ -0,0 +1,198 @@
+#!/usr/bin/env node
+import fs from "node:fs/promises";
+import process from "node:process";
+import { fileURLToPath } from "node:url";
+
+import { ZodError } from "zod";
+
+import { loadJson } from "./jsonFile.js";
+import { DEFAULT_GENERATOR_OPTIONS, generateModel } from "./modelGenerator.js";
+import { checkSeed, type PropertyFailure } from "./modelProperties.js";
+import { formatZodErrors } from "./modelSchema.js";
+import { parseTypeMappingJson, type TypeMappingPolicy } from "./typeMapping.js";
+
+interface CliOptions {
+  readonly iterations: number;
+  readonly seed: number;
+  /** Write the valid model generated from `seed` here instead of fuzzing. */
+  readonly writePath: string | null;
+  readonly typeMappingPath: string;
+}
+
+const DEFAULT_TYPE_MAPPING_PATH = fileURLToPath(new URL("../../../config/type-mapping.default.json", import.meta.url));
+
+const DEFAULT_ITERATIONS = 200;
+
+/** Failures printed, and details printed per failure; the rest are only counted. */
+const REPORTED_FAILURES = 10;
+
+const REPORTED_DETAILS = 5;
+
+function positiveInteger(option: string, value: string | undefined, minimum: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < minimum) {
+    throw new Error(`${option} expects a whole number of at least ${minimum} (received ${value ?? "nothing"}).`);
+  }
+
+  return parsed;
+}
+
+function parseArguments(argv: string[]): CliOptions | null {
+  let iterations = DEFAULT_ITERATIONS;
+  let seed = 1;
+  let writePath: string | null = null;
+  let typeMappingPath = DEFAULT_TYPE_MAPPING_PATH;
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--iterations" || argument === "-n") {
+      iterations = positiveInteger(argument, argv[++index], 1);
+      continue;
+    }
+
+    if (argument === "--seed" || argument === "-s") {
+      seed = positiveInteger(argument, argv[++index], 0);
+      continue;
+    }
+
+    if (argument === "--write" || argument === "-w") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--write expects a path to write the generated model to.");
+      }
+
+      writePath = value;
+      continue;
+    }
+
+    if (argument === "--type-mapping" || argument === "-t") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--type-mapping expects a path to the type mapping JSON.");
+      }
+
+      typeMappingPath = value;
+      continue;
+    }
+
+    throw new Error(`Unknown argument: ${argument}`);
+  }
+
+  return { iterations, seed, writePath, typeMappingPath };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run fuzz -- [options]\n\n` +
+    `Property checks for the schema and model rules over randomly generated models. For each seed, a valid\n` +
+    `model (modules, static entities, references, self-references, composite indexes) must pass every\n` +
+    `validation stage, and a copy with injected violations must report exactly the injected issues.\n\n` +
+    `Options:\n` +
+    `  -h, --help                 Show this message.\n` +
+    `  -n, --iterations <n>       Seeds to check (default: ${DEFAULT_ITERATIONS}).\n` +
+    `  -s, --seed <n>             First seed (default: 1); a failure's seed reproduces it with --iterations 1.\n` +
+    `  -w, --write <path>         Write the valid model generated from --seed to <path> instead of fuzzing.\n` +
+    `  -t, --type-mapping <path>  Type mapping for the types stage (default: config/type-mapping.default.json).\n` +
+    `\nExit codes:\n` +
+    `  0  Every property held for every seed (or the model was written).\n` +
+    `  1  Invalid arguments, the type mapping failed to load, or a property failed.\n` +
+    `\nExamples:\n` +
+    `  npm run fuzz\n` +
+    `  npm run fuzz -- --seed 4711 --iterations 1\n` +
+    `  npm run fuzz -- --seed 7 --write /tmp/generated.json\n`);
+}
+
+async function loadTypeMapping(filePath: string): Promise<TypeMappingPolicy> {
+  const raw = await loadJson(filePath);
+  try {
+    return parseTypeMappingJson(raw);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `Type mapping ${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
+    }
+
+    throw error;
+  }
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  if (options.writePath) {
+    const model = generateModel({ seed: options.seed, ...DEFAULT_GENERATOR_OPTIONS });
+    await fs.writeFile(options.writePath, `${JSON.stringify(model, null, 2)}\n`, "utf8");
+    const entities = model.modules.reduce((total, module) => total + module.entities.length, 0);
+    console.log(`✅ Wrote the model for seed ${options.seed} (${model.modules.length} module${model.modules.length === 1 ? "" : "s"}, ${entities} entit${entities === 1 ? "y" : "ies"}) to ${options.writePath}.`);
+    return;
+  }
+
+  let typeMapping: TypeMappingPolicy;
+  try {
+    typeMapping = await loadTypeMapping(options.typeMappingPath);
+  } catch (error) {
+    console.error(`✖ ${error instanceof Error ? error.message : "Unable to load the type mapping."}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const failures: PropertyFailure[] = [];
+  let injected = 0;
+  const lastSeed = options.seed + options.iterations - 1;
+  for (let seed = options.seed; seed <= lastSeed; seed++) {
+    const result = checkSeed(seed, typeMapping);
+    failures.push(...result.failures);
+    injected += result.injected;
+  }
+
+  const seeds = options.iterations === 1 ? `seed ${options.seed}` : `seeds ${options.seed}–${lastSeed}`;
+  if (failures.length === 0) {
+    console.log(
+      `✅ ${options.iterations} generated model${options.iterations === 1 ? "" : "s"} validated cleanly and their variants ` +
+        `reported exactly the ${injected} injected issue${injected === 1 ? "" : "s"} (${seeds}).`
+    );
+    return;
+  }
+
+  process.exitCode = 1;
+  console.error(`✖ ${failures.length} propert${failures.length === 1 ? "y" : "ies"} failed over ${seeds}:`);
+  failures.slice(0, REPORTED_FAILURES).forEach((failure, index) => {
+    console.error(`  ${index + 1}. seed ${failure.seed}: ${failure.property}`);
+    failure.details.slice(0, REPORTED_DETAILS).forEach((detail) => console.error(`       ${detail}`));
+    if (failure.details.length > REPORTED_DETAILS) {
+      console.error(`       … and ${failure.details.length - REPORTED_DETAILS} more.`);
+    }
+  });
+  if (failures.length > REPORTED_FAILURES) {
+    console.error(`  … and ${failures.length - REPORTED_FAILURES} more.`);
+  }
+  console.error("Rerun one with `npm run fuzz -- --seed <seed> --iterations 1`.");
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
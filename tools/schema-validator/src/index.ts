@@ -0,0 +1,41 @@
+// Package entry for tools that consume model exports: parsing, normalized types, lookups and the walker.
+export { createModelIndex, type AttributeLocation, type EntityReference, type ModelIndex } from "./modelIndex.js";
+export {
+  formatIssuePath,
+  formatZodErrors,
+  modelSchema,
+  parseModelJson,
+  safeParseModelJson,
+  safeParseModelStructure,
+  structuralModelSchema,
+  summarizeModel,
+  type AttributeOnDisk,
+  type AttributeReality,
+  type AttributeReference,
+  type NormalizedAttribute,
+  type NormalizedConstraintDefinition,
+  type NormalizedEntity,
+  type NormalizedExtendedProperty,
+  type NormalizedIndex,
+  type NormalizedIndexColumn,
+  type NormalizedIndexDataSpace,
+  type NormalizedIndexPartitionColumn,
+  type NormalizedIndexPartitionCompression,
+  type NormalizedModel,
+  type NormalizedModule,
+  type NormalizedRelationship,
+  type NormalizedRelationshipConstraint,
+  type NormalizedRelationshipConstraintColumn,
+  type NormalizedSequence,
+  type NormalizedTemporal,
+  type NormalizedTrigger
+} from "./modelSchema.js";
+export {
+  walkModel,
+  type EntityMemberContext,
+  type IndexMemberContext,
+  type ModelVisitor,
+  type ModuleMemberContext,
+  type VisitContext
+} from "./modelVisitor.js";
+export type { EntityLocation } from "./referenceResolution.js";
@@ -0,0 +1,151 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+const GLOB_CHARACTERS = /[*?]/;
+
+function isGlob(pattern: string): boolean {
+  return GLOB_CHARACTERS.test(pattern);
+}
+
+/** `*` and `?` match within one path segment; `**` on its own matches any number of segments. */
+function segmentPattern(segment: string): RegExp {
+  const source = segment.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*").replace(/\?/g, "[^/]");
+  return new RegExp(`^${source}$`);
+}
+
+async function readDirectory(directory: string): Promise<{ name: string; isDirectory: boolean; isFile: boolean }[]> {
+  try {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    return entries.map((entry) => ({ name: entry.name, isDirectory: entry.isDirectory(), isFile: entry.isFile() }));
+  } catch {
+    return [];
+  }
+}
+
+/** Matches `pattern`; `visited` collects every directory the walk reads. */
+async function expandGlob(pattern: string, visited?: Set<string>): Promise<string[]> {
+  const normalized = pattern.split(path.sep).join("/");
+  const segments = normalized.split("/");
+  // Everything before the first segment with a wildcard is a literal directory to start from.
+  const firstGlob = segments.findIndex(isGlob);
+  const root = segments.slice(0, firstGlob).join("/") || (normalized.startsWith("/") ? "/" : ".");
+  const matches: string[] = [];
+
+  const walk = async (directory: string, remaining: string[]): Promise<void> => {
+    const [segment, ...rest] = remaining;
+    visited?.add(path.resolve(directory));
+    const entries = await readDirectory(directory);
+    if (segment === "**") {
+      await walk(directory, rest);
+      for (const entry of entries.filter((candidate) => candidate.isDirectory)) {
+        await walk(path.join(directory, entry.name), remaining);
+      }
+      return;
+    }
+
+    const matcher = segmentPattern(segment);
+    for (const entry of entries.filter((candidate) => matcher.test(candidate.name))) {
+      const entryPath = path.join(directory, entry.name);
+      if (rest.length === 0) {
+        if (entry.isFile) {
+          matches.push(entryPath);
+        }
+      } else if (entry.isDirectory) {
+        await walk(entryPath, rest);
+      }
+    }
+  };
+
+  await walk(root, segments.slice(firstGlob));
+  return matches.sort();
+}
+
+/**
+ * Expands CLI inputs into the JSON files to validate: files are kept as given, directories
+ * contribute their `*.json` files (not recursively) and `*`/`?`/`**` globs are matched against
+ * the file system, so quoted patterns work without shell expansion. Order follows the inputs,
+ * duplicates are dropped, and an input that matches nothing is an error.
+ */
+export async function expandInputFiles(inputs: readonly string[]): Promise<string[]> {
+  const files: string[] = [];
+  const seen = new Set<string>();
+  const add = (file: string) => {
+    const key = path.resolve(file);
+    if (!seen.has(key)) {
+      seen.add(key);
+      files.push(file);
+    }
+  };
+
+  for (const input of inputs) {
+    if (isGlob(input)) {
+      const matches = await expandGlob(input);
+      if (matches.length === 0) {
+        throw new Error(`No files match ${input}.`);
+      }
+
+      matches.forEach(add);
+      continue;
+    }
+
+    const stats = await fs.stat(input).catch(() => null);
+    if (stats?.isDirectory()) {
+      const entries = await readDirectory(input);
+      const jsonFiles = entries
+        .filter((entry) => entry.isFile && entry.name.toLowerCase().endsWith(".json"))
+        .map((entry) => path.join(input, entry.name))
+        .sort();
+      if (jsonFiles.length === 0) {
+        throw new Error(`Directory ${input} contains no .json files.`);
+      }
+
+      jsonFiles.forEach(add);
+      continue;
+    }
+
+    // Missing files are reported by the validation itself, as a failed load.
+    add(input);
+  }
+
+  return files;
+}
+
+/**
+ * The directories whose contents decide what {@link expandInputFiles} returns: directory inputs
+ * and every directory a glob walks. Watching them is enough to notice files that start matching.
+ */
+export async function inputDirectories(inputs: readonly string[]): Promise<string[]> {
+  const directories = new Set<string>();
+  for (const input of inputs) {
+    if (isGlob(input)) {
+      await expandGlob(input, directories);
+      continue;
+    }
+
+    const stats = await fs.stat(input).catch(() => null);
+    if (stats?.isDirectory()) {
+      directories.add(path.resolve(input));
+    }
+  }
+
+  return [...directories].sort();
+}
+
+/** Runs `task` over `items` with at most `limit` in flight, keeping results in input order. */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
@@ -0,0 +1,34 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+
+import { JsonSourceError, parseJsonSource, type JsonSource } from "./jsonSource.js";
+
+export async function loadJson(filePath: string): Promise<unknown> {
+  const absolutePath = path.resolve(process.cwd(), filePath);
+  const payload = await fs.readFile(absolutePath, "utf8");
+  try {
+    return JSON.parse(payload);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`Failed to parse JSON from ${absolutePath}: ${error.message}`);
+    }
+
+    throw error;
+  }
+}
+
+/** Like {@link loadJson}, but keeps source positions so issues can point at `file:line:column`. */
+export async function loadJsonSource(filePath: string): Promise<JsonSource> {
+  const absolutePath = path.resolve(process.cwd(), filePath);
+  const payload = await fs.readFile(absolutePath, "utf8");
+  try {
+    return parseJsonSource(payload);
+  } catch (error) {
+    if (error instanceof JsonSourceError) {
+      throw new JsonSourceError(`Failed to parse JSON from ${absolutePath}: ${error.message}`, error.location, error.text);
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,238 @@
+export interface SourceLocation {
+  /** 1-based line. */
+  readonly line: number;
+  /** 1-based column, counted in UTF-16 code units like most editors. */
+  readonly column: number;
+}
+
+interface ValueSpan {
+  readonly start: number;
+  readonly end: number;
+  /** Offset of the property name when the value is an object member. */
+  readonly key: number | null;
+}
+
+/** Parsed JSON that remembers where every value came from. */
+export interface JsonSource {
+  readonly text: string;
+  readonly value: unknown;
+  readonly spans: ReadonlyMap<string, ValueSpan>;
+  readonly lineStarts: readonly number[];
+}
+
+/** A JSON syntax error that knows where it happened, so it can be shown with a code frame. */
+export class JsonSourceError extends SyntaxError {
+  readonly location: SourceLocation;
+  readonly text: string;
+
+  constructor(message: string, location: SourceLocation, text: string) {
+    super(message);
+    this.name = "JsonSourceError";
+    this.location = location;
+    this.text = text;
+  }
+}
+
+/** Key for an issue path in `spans`: `/modules/0/name` (JSON Pointer escaping). */
+export function pointerOf(path: readonly (string | number)[]): string {
+  return path.map((segment) => `/${String(segment).replace(/~/g, "~0").replace(/\//g, "~1")}`).join("");
+}
+
+function computeLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let index = 0; index < text.length; index++) {
+    if (text.charCodeAt(index) === 10) {
+      starts.push(index + 1);
+    }
+  }
+
+  return starts;
+}
+
+function locationAt(lineStarts: readonly number[], offset: number): SourceLocation {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const STRING_PATTERN = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+
+/**
+ * Parses JSON like `JSON.parse` (duplicate keys: last one wins) while recording the span of every
+ * value and the position of its property name, keyed by {@link pointerOf}.
+ */
+export function parseJsonSource(text: string): JsonSource {
+  const lineStarts = computeLineStarts(text);
+  const spans = new Map<string, ValueSpan>();
+  let offset = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const fail = (message: string, at = offset): never => {
+    const location = locationAt(lineStarts, Math.min(at, text.length));
+    throw new JsonSourceError(`${message} at line ${location.line}, column ${location.column}`, location, text);
+  };
+
+  const skipWhitespace = () => {
+    while (offset < text.length) {
+      const code = text.charCodeAt(offset);
+      if (code !== 32 && code !== 9 && code !== 10 && code !== 13) {
+        break;
+      }
+      offset++;
+    }
+  };
+
+  const describeToken = () => (offset >= text.length ? "end of input" : `token ${JSON.stringify(text[offset])}`);
+
+  const parseString = (): string => {
+    STRING_PATTERN.lastIndex = offset;
+    const match = STRING_PATTERN.exec(text);
+    if (!match) {
+      fail("Unterminated or invalid string");
+    }
+
+    offset += match![0].length;
+    return JSON.parse(match![0]) as string;
+  };
+
+  const parseValue = (pointer: string, key: number | null): unknown => {
+    skipWhitespace();
+    const start = offset;
+    let value: unknown;
+    const char = text[offset];
+
+    if (char === "{") {
+      offset++;
+      const object: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[offset] === "}") {
+        offset++;
+      } else {
+        for (;;) {
+          skipWhitespace();
+          if (text[offset] !== '"') {
+            fail(`Expected a property name but found ${describeToken()}`);
+          }
+          const keyStart = offset;
+          const name = parseString();
+          skipWhitespace();
+          if (text[offset] !== ":") {
+            fail(`Expected ':' after property name but found ${describeToken()}`);
+          }
+          offset++;
+          object[name] = parseValue(`${pointer}${pointerOf([name])}`, keyStart);
+          skipWhitespace();
+          if (text[offset] === ",") {
+            offset++;
+            continue;
+          }
+          if (text[offset] === "}") {
+            offset++;
+            break;
+          }
+          fail(`Expected ',' or '}' but found ${describeToken()}`);
+        }
+      }
+      value = object;
+    } else if (char === "[") {
+      offset++;
+      const array: unknown[] = [];
+      skipWhitespace();
+      if (text[offset] === "]") {
+        offset++;
+      } else {
+        for (;;) {
+          array.push(parseValue(`${pointer}/${array.length}`, null));
+          skipWhitespace();
+          if (text[offset] === ",") {
+            offset++;
+            continue;
+          }
+          if (text[offset] === "]") {
+            offset++;
+            break;
+          }
+          fail(`Expected ',' or ']' but found ${describeToken()}`);
+        }
+      }
+      value = array;
+    } else if (char === '"') {
+      value = parseString();
+    } else if (text.startsWith("true", offset)) {
+      offset += 4;
+      value = true;
+    } else if (text.startsWith("false", offset)) {
+      offset += 5;
+      value = false;
+    } else if (text.startsWith("null", offset)) {
+      offset += 4;
+      value = null;
+    } else {
+      NUMBER_PATTERN.lastIndex = offset;
+      const match = NUMBER_PATTERN.exec(text);
+      if (!match) {
+        fail(`Unexpected ${describeToken()}`);
+      }
+      offset += match![0].length;
+      value = Number(match![0]);
+    }
+
+    spans.set(pointer, { start, end: offset, key });
+    return value;
+  };
+
+  const value = parseValue("", null);
+  skipWhitespace();
+  if (offset < text.length) {
+    fail(`Unexpected ${describeToken()} after the JSON value`);
+  }
+
+  return { text, value, spans, lineStarts };
+}
+
+/**
+ * Position of the value an issue path points at: the property name for object members, the value
+ * itself for array items. Paths that do not exist (a missing required property, say) fall back to
+ * the closest existing ancestor.
+ */
+export function locatePath(source: JsonSource, path: readonly (string | number)[]): SourceLocation | null {
+  for (let length = path.length; length >= 0; length--) {
+    const span = source.spans.get(pointerOf(path.slice(0, length)));
+    if (span) {
+      return locationAt(source.lineStarts, span.key ?? span.start);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A few lines around `location` with a `>` gutter marker and a caret under the column. Takes the
+ * already split lines so callers framing many issues split a large file once.
+ */
+export function formatCodeFrame(lines: readonly string[], location: SourceLocation, contextLines = 2): string[] {
+  const first = Math.max(1, location.line - contextLines);
+  const last = Math.min(lines.length, location.line + contextLines);
+  const width = String(last).length;
+  const frame: string[] = [];
+  for (let line = first; line <= last; line++) {
+    const text = lines[line - 1];
+    const marker = line === location.line ? ">" : " ";
+    frame.push(`${marker} ${String(line).padStart(width)} | ${text.length > 160 ? `${text.slice(0, 157)}...` : text}`.trimEnd());
+    if (line === location.line) {
+      const caretColumn = Math.min(location.column, 160);
+      frame.push(`  ${" ".repeat(width)} | ${text.slice(0, caretColumn - 1).replace(/[^\t]/g, " ")}^`);
+    }
+  }
+
+  return frame;
+}
@@ -0,0 +1,334 @@
+import { JsonSourceError, pointerOf, type SourceLocation } from "./jsonSource.js";
+
+type Path = (string | number)[];
+
+/** A value {@link parseJsonStream} handed over as soon as it completed. */
+export interface StreamedValue {
+  readonly path: Path;
+  readonly value: unknown;
+  /** Containers enclosing the value, outermost first, as parsed so far. */
+  readonly ancestors: readonly unknown[];
+  /** Positions of the value and everything inside it, keyed by {@link pointerOf} of the full path. */
+  readonly locations: ReadonlyMap<string, SourceLocation>;
+}
+
+export interface JsonStreamOptions {
+  /** Values at accepted paths go to `onValue` and are left out of their parent, so they can be garbage collected. */
+  readonly capture: (path: readonly (string | number)[]) => boolean;
+  readonly onValue: (value: StreamedValue) => void;
+}
+
+export interface JsonStreamResult {
+  /** The document without the captured values: captured members are omitted, captured array items skipped. */
+  readonly value: unknown;
+  /** Positions of the values that were not captured. */
+  readonly locations: ReadonlyMap<string, SourceLocation>;
+}
+
+/** Property name position for members, value position otherwise; missing paths fall back to the closest ancestor. */
+export function locateStreamedPath(
+  locations: ReadonlyMap<string, SourceLocation>,
+  path: readonly (string | number)[]
+): SourceLocation | null {
+  for (let length = path.length; length >= 0; length--) {
+    const location = locations.get(pointerOf(path.slice(0, length)));
+    if (location) {
+      return location;
+    }
+  }
+
+  return null;
+}
+
+type FrameState = "first" | "key" | "colon" | "value" | "comma";
+
+interface Frame {
+  readonly kind: "object" | "array";
+  readonly container: Record<string, unknown> | unknown[];
+  readonly path: Path;
+  readonly captured: boolean;
+  state: FrameState;
+  index: number;
+  key: string | null;
+  keyLocation: SourceLocation | null;
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const STRING_PATTERN = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+/** Everything a number could still grow into; a number touching the end of the buffer may continue in the next chunk. */
+const NUMBER_PREFIX_PATTERN = /-?\d*(?:\.\d*)?(?:[eE][+-]?\d*)?/y;
+/** Any quoted run, valid or not; tells an unfinished string (wait for more input) from an invalid one. */
+const LOOSE_STRING_PATTERN = /"(?:[^"\\]|\\[^])*"/y;
+const LITERALS: ReadonlyArray<readonly [string, unknown]> = [
+  ["true", true],
+  ["false", false],
+  ["null", null]
+];
+
+/**
+ * Parses JSON incrementally from text chunks (a `utf8` read stream, say) with the same grammar and
+ * error messages as {@link parseJsonSource}. Values at captured paths are handed to `onValue` as
+ * they complete, with the positions inside them, and are not retained; memory is bounded by the
+ * largest captured value plus whatever is not captured.
+ */
+export async function parseJsonStream(chunks: AsyncIterable<string>, options: JsonStreamOptions): Promise<JsonStreamResult> {
+  const rootLocations = new Map<string, SourceLocation>();
+  const locationStack: Map<string, SourceLocation>[] = [rootLocations];
+  const stack: Frame[] = [];
+  let buffer = "";
+  let position = 0;
+  let bufferOffset = 0;
+  let line = 1;
+  let lineStart = 0;
+  let root: unknown;
+  let rootDone = false;
+  let first = true;
+
+  const here = (): SourceLocation => ({ line, column: bufferOffset + position - lineStart + 1 });
+
+  const fail = (message: string): never => {
+    const location = here();
+    throw new JsonSourceError(`${message} at line ${location.line}, column ${location.column}`, location, "");
+  };
+
+  const describeToken = (final: boolean) =>
+    position >= buffer.length && final ? "end of input" : `token ${JSON.stringify(buffer[position])}`;
+
+  const deliver = (path: Path, value: unknown, captured: boolean, locations: Map<string, SourceLocation> | null) => {
+    const parent = stack[stack.length - 1];
+    if (captured) {
+      options.onValue({ path, value, ancestors: stack.map((frame) => frame.container), locations: locations ?? new Map() });
+    } else if (!parent) {
+      root = value;
+    } else if (parent.kind === "array") {
+      (parent.container as unknown[]).push(value);
+    } else {
+      (parent.container as Record<string, unknown>)[parent.key!] = value;
+    }
+
+    if (!parent) {
+      rootDone = true;
+    } else {
+      parent.index++;
+      parent.state = "comma";
+    }
+  };
+
+  /** Path and reported position of the value about to start in the top frame. */
+  const nextValue = (): { path: Path; location: SourceLocation } => {
+    const parent = stack[stack.length - 1];
+    if (!parent) {
+      return { path: [], location: here() };
+    }
+
+    return parent.kind === "array"
+      ? { path: [...parent.path, parent.index], location: here() }
+      : { path: [...parent.path, parent.key!], location: parent.keyLocation! };
+  };
+
+  /** Consumes one value token (or the start of a container); returns false when more input is needed. */
+  const startValue = (final: boolean): boolean => {
+    const char = buffer[position];
+    const { path, location } = nextValue();
+    if (char === "{" || char === "[") {
+      const captured = options.capture(path);
+      if (captured) {
+        locationStack.push(new Map());
+      }
+      locationStack[locationStack.length - 1].set(pointerOf(path), location);
+      stack.push({
+        kind: char === "{" ? "object" : "array",
+        container: char === "{" ? {} : [],
+        path,
+        captured,
+        state: "first",
+        index: 0,
+        key: null,
+        keyLocation: null
+      });
+      position++;
+      return true;
+    }
+
+    let value: unknown;
+    if (char === '"') {
+      const text = readString(final);
+      if (text === null) {
+        return false;
+      }
+      value = text;
+    } else if (char === "-" || (char >= "0" && char <= "9")) {
+      NUMBER_PREFIX_PATTERN.lastIndex = position;
+      if (!final && position + NUMBER_PREFIX_PATTERN.exec(buffer)![0].length >= buffer.length) {
+        return false;
+      }
+      NUMBER_PATTERN.lastIndex = position;
+      const match = NUMBER_PATTERN.exec(buffer);
+      if (!match) {
+        fail(`Unexpected ${describeToken(final)}`);
+      }
+      position += match![0].length;
+      value = Number(match![0]);
+    } else {
+      const rest = buffer.slice(position, position + 5);
+      const literal = LITERALS.find(([word]) => rest.startsWith(word));
+      if (!literal) {
+        if (!final && LITERALS.some(([word]) => rest.length < word.length && word.startsWith(rest))) {
+          return false;
+        }
+        fail(`Unexpected ${describeToken(final)}`);
+      }
+      position += literal![0].length;
+      value = literal![1];
+    }
+
+    const captured = options.capture(path);
+    const locations = captured ? new Map<string, SourceLocation>() : locationStack[locationStack.length - 1];
+    locations.set(pointerOf(path), location);
+    deliver(path, value, captured, captured ? locations : null);
+    return true;
+  };
+
+  /** Reads the string at `position`; `null` when it continues in the next chunk. */
+  const readString = (final: boolean): string | null => {
+    STRING_PATTERN.lastIndex = position;
+    const match = STRING_PATTERN.exec(buffer);
+    if (match) {
+      position += match[0].length;
+      return JSON.parse(match[0]) as string;
+    }
+
+    LOOSE_STRING_PATTERN.lastIndex = position;
+    if (!LOOSE_STRING_PATTERN.test(buffer) && !final) {
+      return null;
+    }
+
+    return fail("Unterminated or invalid string");
+  };
+
+  const closeContainer = () => {
+    const frame = stack.pop()!;
+    position++;
+    const locations = frame.captured ? locationStack.pop()! : null;
+    deliver(frame.path, frame.container, frame.captured, locations);
+  };
+
+  const skipWhitespace = () => {
+    while (position < buffer.length) {
+      const code = buffer.charCodeAt(position);
+      if (code === 10) {
+        line++;
+        lineStart = bufferOffset + position + 1;
+      } else if (code !== 32 && code !== 9 && code !== 13) {
+        break;
+      }
+      position++;
+    }
+  };
+
+  /** Consumes as many tokens as the buffer holds; `final` marks the end of input. */
+  const consume = (final: boolean) => {
+    for (;;) {
+      skipWhitespace();
+      if (position >= buffer.length) {
+        break;
+      }
+
+      const char = buffer[position];
+      const frame = stack[stack.length - 1];
+      if (!frame) {
+        if (rootDone) {
+          fail(`Unexpected ${describeToken(final)} after the JSON value`);
+        }
+        if (!startValue(final)) {
+          break;
+        }
+        continue;
+      }
+
+      if (frame.kind === "object") {
+        if (frame.state === "first" && char === "}") {
+          closeContainer();
+        } else if (frame.state === "first" || frame.state === "key") {
+          if (char !== '"') {
+            fail(`Expected a property name but found ${describeToken(final)}`);
+          }
+          const keyLocation = here();
+          const key = readString(final);
+          if (key === null) {
+            break;
+          }
+          frame.key = key;
+          frame.keyLocation = keyLocation;
+          frame.state = "colon";
+        } else if (frame.state === "colon") {
+          if (char !== ":") {
+            fail(`Expected ':' after property name but found ${describeToken(final)}`);
+          }
+          position++;
+          frame.state = "value";
+        } else if (frame.state === "value") {
+          if (!startValue(final)) {
+            break;
+          }
+        } else if (char === ",") {
+          position++;
+          frame.state = "key";
+        } else if (char === "}") {
+          closeContainer();
+        } else {
+          fail(`Expected ',' or '}' but found ${describeToken(final)}`);
+        }
+        continue;
+      }
+
+      if (frame.state === "first" && char === "]") {
+        closeContainer();
+      } else if (frame.state === "first" || frame.state === "value") {
+        if (!startValue(final)) {
+          break;
+        }
+      } else if (char === ",") {
+        position++;
+        frame.state = "value";
+      } else if (char === "]") {
+        closeContainer();
+      } else {
+        fail(`Expected ',' or ']' but found ${describeToken(final)}`);
+      }
+    }
+
+    bufferOffset += position;
+    buffer = buffer.slice(position);
+    position = 0;
+  };
+
+  for await (const chunk of chunks) {
+    buffer += first && chunk.charCodeAt(0) === 0xfeff ? chunk.slice(1) : chunk;
+    if (first && chunk.charCodeAt(0) === 0xfeff) {
+      // Offsets still count the byte order mark, as parseJsonSource does.
+      bufferOffset = 1;
+    }
+    first = false;
+    consume(false);
+  }
+
+  consume(true);
+  const frame = stack[stack.length - 1];
+  if (frame) {
+    const expected: Record<FrameState, string> = {
+      first: frame.kind === "object" ? "Expected a property name but found end of input" : "Unexpected end of input",
+      key: "Expected a property name but found end of input",
+      colon: "Expected ':' after property name but found end of input",
+      value: "Unexpected end of input",
+      comma: `Expected ',' or '${frame.kind === "object" ? "}" : "]"}' but found end of input`
+    };
+    fail(expected[frame.state]);
+  }
+
+  if (!rootDone) {
+    fail("Unexpected end of input");
+  }
+
+  return { value: root, locations: rootLocations };
+}
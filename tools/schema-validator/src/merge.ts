@@ -0,0 +1,226 @@
+#!/usr/bin/env node
+import fs from "node:fs/promises";
+import process from "node:process";
+import { fileURLToPath } from "node:url";
+
+import { ZodError } from "zod";
+
+import { findDroppedProperties, formatCanonicalModel } from "./canonicalModel.js";
+import { expandInputFiles } from "./inputFiles.js";
+import { loadJson } from "./jsonFile.js";
+import { MERGE_PRECEDENCES, mergeModels, type MergePrecedence, type MergeSource } from "./modelMerge.js";
+import { formatIssuePath, formatZodErrors, parseModelJson } from "./modelSchema.js";
+
+const USERS_SUPPLEMENTAL_PATH = fileURLToPath(new URL("../../../config/supplemental/ossys-user.json", import.meta.url));
+
+interface CliOptions {
+  readonly inputs: string[];
+  readonly supplementalPaths: string[];
+  readonly precedence: MergePrecedence;
+  readonly outputPath: string | null;
+}
+
+function isMergePrecedence(value: string | undefined): value is MergePrecedence {
+  return (MERGE_PRECEDENCES as readonly string[]).includes(value ?? "");
+}
+
+function parseArguments(argv: string[]): CliOptions | null {
+  const inputs: string[] = [];
+  const supplementalPaths: string[] = [];
+  let precedence: MergePrecedence = "fail";
+  let outputPath: string | null = null;
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--supplemental" || argument === "-s") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--supplemental expects a path to a supplemental model JSON.");
+      }
+
+      supplementalPaths.push(value);
+      continue;
+    }
+
+    if (argument === "--include-users") {
+      supplementalPaths.push(USERS_SUPPLEMENTAL_PATH);
+      continue;
+    }
+
+    if (argument === "--precedence" || argument === "-p") {
+      const value = argv[++index];
+      if (!isMergePrecedence(value)) {
+        throw new Error(`--precedence expects one of ${MERGE_PRECEDENCES.join(", ")} (received ${value ?? "nothing"}).`);
+      }
+
+      precedence = value;
+      continue;
+    }
+
+    if (argument === "--output" || argument === "-o") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--output expects a path to write the merged model to.");
+      }
+
+      outputPath = value;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    inputs.push(argument);
+  }
+
+  if (inputs.length === 0) {
+    throw new Error("At least one model JSON file, directory or glob is required.");
+  }
+
+  return { inputs, supplementalPaths, precedence, outputPath };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run merge -- <model.json | directory | glob>... [options]\n\n` +
+    `Combines partial model exports, plus supplemental definitions, into one model, checks the\n` +
+    `references across the result and writes it as canonical CIR v1 JSON.\n\n` +
+    `Options:\n` +
+    `  -h, --help                Show this message.\n` +
+    `  -s, --supplemental <path> Add a supplemental model; its tables yield to the inputs' (repeatable).\n` +
+    `      --include-users       Add config/supplemental/ossys-user.json as a supplemental model.\n` +
+    `  -p, --precedence <mode>   On conflicts: fail (default), or keep the first or last input's definition.\n` +
+    `  -o, --output <path>       Write the merged model to <path> instead of stdout.\n` +
+    `\nExit codes:\n` +
+    `  0  The inputs merged and every reference resolves.\n` +
+    `  1  Invalid arguments, an input failed to load or parse, unresolved conflicts, or unresolved references.\n` +
+    `\nExamples:\n` +
+    `  npm run merge -- exports/ --include-users --output model.json\n` +
+    `  npm run merge -- core.json orders.json --supplemental extra-entities.json\n` +
+    `  npm run merge -- "exports/*.json" --precedence last -o model.json\n`);
+}
+
+function formatIssueList(lines: string[]): string {
+  return lines.map((line, index) => `  ${index + 1}. ${line}`).join("\n");
+}
+
+async function loadSource(filePath: string, supplemental: boolean): Promise<MergeSource> {
+  const raw = await loadJson(filePath);
+  let model;
+  try {
+    model = parseModelJson(raw);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n${formatIssueList(issues)}`
+      );
+    }
+
+    throw error;
+  }
+
+  // The merged model is written in canonical form, which only carries what CIR v1 defines.
+  const dropped = findDroppedProperties(raw);
+  if (dropped.length > 0) {
+    throw new Error(
+      `${filePath} has ${dropped.length} propert${dropped.length === 1 ? "y" : "ies"} CIR v1 does not define; ` +
+        `merging would drop ${dropped.length === 1 ? "it" : "them"}:\n${formatIssueList(dropped)}`
+    );
+  }
+
+  return { label: filePath, model, supplemental };
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  const sources: MergeSource[] = [];
+  try {
+    const files = await expandInputFiles(options.inputs);
+    for (const file of files) {
+      sources.push(await loadSource(file, false));
+    }
+
+    for (const file of options.supplementalPaths) {
+      sources.push(await loadSource(file, true));
+    }
+  } catch (error) {
+    console.error(`✖ ${error instanceof Error ? error.message : "Unable to load the inputs."}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const result = mergeModels(sources, options.precedence);
+  result.yielded.forEach((entry) => {
+    console.error(`  ${entry.module}.${entry.entity} (${entry.table}) from ${entry.source} skipped: ${entry.definedBy} defines the table.`);
+  });
+
+  const unresolved = result.conflicts.filter((conflict) => conflict.resolution === null);
+  if (unresolved.length > 0) {
+    console.error(
+      `✖ ${unresolved.length} merge conflict${unresolved.length === 1 ? "" : "s"} (use --precedence first|last to resolve them):\n` +
+        formatIssueList(unresolved.map((conflict) => `${conflict.message} [${conflict.code}]`))
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const resolved = result.conflicts.filter((conflict) => conflict.resolution !== null);
+  if (resolved.length > 0) {
+    console.error(
+      `⚠ ${resolved.length} conflict${resolved.length === 1 ? "" : "s"} resolved by --precedence ${options.precedence}:\n` +
+        formatIssueList(resolved.map((conflict) => `${conflict.message} [${conflict.code}]`))
+    );
+  }
+
+  if (result.references.length > 0) {
+    console.error(
+      `✖ The merged model has ${result.references.length} unresolved reference${result.references.length === 1 ? "" : "s"}:\n` +
+        formatIssueList(result.references.map((issue) => `${formatIssuePath(issue.path)}: ${issue.message} [${issue.code}]`))
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const output = formatCanonicalModel(result.model);
+  const entities = result.model.modules.reduce((total, module) => total + module.entities.length, 0);
+  const modules = result.model.modules.length;
+  const summary =
+    `${sources.length} source${sources.length === 1 ? "" : "s"} → ` +
+    `${modules} module${modules === 1 ? "" : "s"}, ${entities} entit${entities === 1 ? "y" : "ies"}`;
+  if (options.outputPath) {
+    await fs.writeFile(options.outputPath, output, "utf8");
+    console.log(`✅ Merged ${summary} into ${options.outputPath}.`);
+    return;
+  }
+
+  process.stdout.write(output);
+  console.error(`✅ Merged ${summary}.`);
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
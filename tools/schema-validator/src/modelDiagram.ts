@@ -0,0 +1,370 @@
+import type { NormalizedAttribute, NormalizedEntity, NormalizedModel } from "./modelSchema.js";
+import { buildEntityLookup, findEntityByLogicalName, findEntityByPhysicalName, type EntityLookup } from "./referenceResolution.js";
+
+export const DIAGRAM_FORMATS = ["mermaid", "dot"] as const;
+
+export type DiagramFormat = (typeof DIAGRAM_FORMATS)[number];
+
+export interface DiagramOptions {
+  /** Cluster entities by module (DOT subgraphs; module-qualified labels in Mermaid). */
+  readonly groupByModule: boolean;
+  /** Only draw this module's entities and their neighbours; `null` draws the whole model. */
+  readonly focusModule: string | null;
+  /** How many references away from `focusModule` neighbours are still drawn. */
+  readonly hops: number;
+}
+
+export interface DiagramColumn {
+  readonly name: string;
+  readonly dataType: string;
+  readonly isIdentifier: boolean;
+  readonly isReference: boolean;
+}
+
+export interface DiagramNode {
+  /** Lowercased physical table name, or `?<target>` for a reference target outside the model. */
+  readonly key: string;
+  readonly module: string | null;
+  readonly entity: string;
+  readonly table: string;
+  readonly isStatic: boolean;
+  readonly isExternal: boolean;
+  /** Referenced but not part of the model (e.g. supplemental entities such as `User`). */
+  readonly isMissing: boolean;
+  readonly columns: DiagramColumn[];
+}
+
+/** `from` has a reference attribute pointing at `to`. */
+export interface DiagramEdge {
+  readonly from: string;
+  readonly to: string;
+  readonly attribute: string;
+  /** Mandatory references point at exactly one row; optional ones at zero or one. */
+  readonly isMandatory: boolean;
+  readonly deleteRule: string;
+  readonly hasDbConstraint: boolean;
+}
+
+export interface ModelDiagram {
+  readonly nodes: DiagramNode[];
+  readonly edges: DiagramEdge[];
+}
+
+function lower(value: string): string {
+  return value.toLowerCase();
+}
+
+function resolveTarget(lookup: EntityLookup, physicalName: string | null, logicalName: string | null): NormalizedEntity | null {
+  const location =
+    (physicalName ? findEntityByPhysicalName(lookup, physicalName) : null) ??
+    (logicalName ? findEntityByLogicalName(lookup, logicalName) : null);
+  return location?.entity ?? null;
+}
+
+function diagramColumns(entity: NormalizedEntity): DiagramColumn[] {
+  return entity.attributes
+    .filter((attribute) => attribute.isActive && (attribute.isIdentifier || attribute.reference.isReference))
+    .map((attribute) => ({
+      name: attribute.name,
+      dataType: attribute.dataType,
+      isIdentifier: attribute.isIdentifier,
+      isReference: attribute.reference.isReference
+    }));
+}
+
+/**
+ * Collects the references of one entity: its relationships, then reference attributes no
+ * relationship covers. Targets outside the model become `isMissing` nodes.
+ */
+function entityEdges(lookup: EntityLookup, entity: NormalizedEntity, missing: Map<string, DiagramNode>): DiagramEdge[] {
+  const from = lower(entity.physicalName);
+  const attributeNamed = (name: string): NormalizedAttribute | undefined =>
+    entity.attributes.find((attribute) => lower(attribute.name) === lower(name));
+  const edges: DiagramEdge[] = [];
+  const addEdge = (
+    attribute: string,
+    physicalName: string | null,
+    logicalName: string | null,
+    deleteRule: string | null,
+    hasDbConstraint: boolean
+  ) => {
+    const target = resolveTarget(lookup, physicalName, logicalName);
+    let to: string;
+    if (target) {
+      to = lower(target.physicalName);
+    } else {
+      const table = physicalName ?? logicalName ?? "<unknown>";
+      to = `?${lower(table)}`;
+      if (!missing.has(to)) {
+        missing.set(to, {
+          key: to,
+          module: null,
+          entity: logicalName ?? table,
+          table,
+          isStatic: false,
+          isExternal: false,
+          isMissing: true,
+          columns: []
+        });
+      }
+    }
+
+    edges.push({
+      from,
+      to,
+      attribute,
+      isMandatory: attributeNamed(attribute)?.isMandatory ?? false,
+      deleteRule: deleteRule ?? "Ignore",
+      hasDbConstraint
+    });
+  };
+
+  for (const relationship of entity.relationships) {
+    addEdge(
+      relationship.viaAttributeName,
+      relationship.toEntityPhysicalName,
+      relationship.toEntityName,
+      relationship.deleteRuleCode,
+      relationship.hasDbConstraint || relationship.actualConstraints.length > 0
+    );
+  }
+
+  const covered = new Set(entity.relationships.map((relationship) => lower(relationship.viaAttributeName)));
+  for (const attribute of entity.attributes) {
+    const { reference } = attribute;
+    if (attribute.isActive && reference.isReference && !covered.has(lower(attribute.name))) {
+      addEdge(attribute.name, reference.targetEntityPhysicalName, reference.targetEntityName, reference.deleteRuleCode, reference.hasDbConstraint);
+    }
+  }
+
+  return edges;
+}
+
+/** Keys within `hops` references (in either direction) of the `seeds`. */
+function neighbourhood(seeds: string[], edges: DiagramEdge[], hops: number): Set<string> {
+  const neighbours = new Map<string, string[]>();
+  for (const edge of edges) {
+    neighbours.set(edge.from, [...(neighbours.get(edge.from) ?? []), edge.to]);
+    neighbours.set(edge.to, [...(neighbours.get(edge.to) ?? []), edge.from]);
+  }
+
+  const reached = new Set(seeds);
+  let frontier = seeds;
+  for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const key of frontier) {
+      for (const neighbour of neighbours.get(key) ?? []) {
+        if (!reached.has(neighbour)) {
+          reached.add(neighbour);
+          next.push(neighbour);
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return reached;
+}
+
+/**
+ * Builds the entity/reference graph drawn by `npm run diagram`. Nodes keep model order (missing
+ * targets last). Throws when `focusModule` names no module.
+ */
+export function buildModelDiagram(model: NormalizedModel, options: DiagramOptions): ModelDiagram {
+  const lookup = buildEntityLookup(model);
+  const nodes = new Map<string, DiagramNode>();
+  const missing = new Map<string, DiagramNode>();
+  const edges: DiagramEdge[] = [];
+
+  for (const module of model.modules) {
+    for (const entity of module.entities) {
+      const key = lower(entity.physicalName);
+      if (nodes.has(key)) {
+        continue;
+      }
+
+      nodes.set(key, {
+        key,
+        module: module.name,
+        entity: entity.name,
+        table: entity.physicalName,
+        isStatic: entity.isStatic,
+        isExternal: entity.isExternal,
+        isMissing: false,
+        columns: diagramColumns(entity)
+      });
+      edges.push(...entityEdges(lookup, entity, missing));
+    }
+  }
+
+  const allNodes = [...nodes.values(), ...missing.values()];
+  if (options.focusModule === null) {
+    return { nodes: allNodes, edges };
+  }
+
+  const focus = model.modules.find((module) => module.name === options.focusModule);
+  if (!focus) {
+    throw new Error(
+      `Module "${options.focusModule}" is not in the model; expected one of ${model.modules.map((module) => module.name).join(", ")}.`
+    );
+  }
+
+  const reached = neighbourhood(focus.entities.map((entity) => lower(entity.physicalName)), edges, options.hops);
+  return {
+    nodes: allNodes.filter((node) => reached.has(node.key)),
+    edges: edges.filter((edge) => reached.has(edge.from) && reached.has(edge.to))
+  };
+}
+
+function nodeLabel(node: DiagramNode, qualify: boolean): string {
+  const name = qualify && node.module ? `${node.module}.${node.entity}` : node.entity;
+  const tags = [node.isStatic ? "static" : null, node.isExternal ? "external" : null, node.isMissing ? "not in model" : null]
+    .filter((tag): tag is string => tag !== null);
+  return tags.length > 0 ? `${name} (${tags.join(", ")})` : name;
+}
+
+function groupByModule(nodes: DiagramNode[]): Map<string | null, DiagramNode[]> {
+  const groups = new Map<string | null, DiagramNode[]>();
+  for (const node of nodes) {
+    groups.set(node.module, [...(groups.get(node.module) ?? []), node]);
+  }
+
+  return groups;
+}
+
+/** Mermaid entity names are restricted to word characters, so labels go in the `name["label"]` alias. */
+function mermaidIds(nodes: DiagramNode[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+  for (const node of nodes) {
+    const base = node.entity.replace(/[^A-Za-z0-9_]/g, "_") || "Entity";
+    let id = used.has(base) && node.module ? `${node.module.replace(/[^A-Za-z0-9_]/g, "_")}_${base}` : base;
+    for (let suffix = 2; used.has(id); suffix++) {
+      id = `${base}_${suffix}`;
+    }
+
+    used.add(id);
+    ids.set(node.key, id);
+  }
+
+  return ids;
+}
+
+/**
+ * Renders a Mermaid `erDiagram`. References are drawn many-to-one (`}o--||` when mandatory,
+ * `}o--o|` when optional); references without a database constraint use a dashed line.
+ */
+export function renderMermaid(diagram: ModelDiagram, options: DiagramOptions): string {
+  const ids = mermaidIds(diagram.nodes);
+  const lines = ["erDiagram"];
+
+  for (const [module, nodes] of groupByModule(diagram.nodes)) {
+    if (options.groupByModule) {
+      lines.push(`    %% ${module === null ? "Not in model" : `Module ${module}`}`);
+    }
+
+    for (const node of nodes) {
+      const header = `    ${ids.get(node.key)}["${nodeLabel(node, options.groupByModule).replace(/"/g, "'")}"]`;
+      if (node.columns.length === 0) {
+        lines.push(header);
+        continue;
+      }
+
+      lines.push(`${header} {`);
+      for (const column of node.columns) {
+        const keys = [column.isIdentifier ? "PK" : null, column.isReference ? "FK" : null].filter((key) => key !== null);
+        const type = column.dataType.replace(/[^A-Za-z0-9_]/g, "_") || "Unknown";
+        lines.push(`        ${type} ${column.name.replace(/[^A-Za-z0-9_]/g, "_")} ${keys.join(", ")}`.trimEnd());
+      }
+
+      lines.push("    }");
+    }
+  }
+
+  for (const edge of diagram.edges) {
+    const line = edge.hasDbConstraint ? "--" : "..";
+    const target = edge.isMandatory ? "||" : "o|";
+    lines.push(`    ${ids.get(edge.from)} }o${line}${target} ${ids.get(edge.to)} : "${edge.attribute} (${edge.deleteRule})"`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/** Quotes a DOT ID; backslashes are left alone so label escapes such as `\\l` keep working. */
+function dotString(value: string): string {
+  return `"${value.replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+/** Escapes the characters that structure a `shape=record` label. */
+function recordText(value: string): string {
+  return value.replace(/[\\{}|<>]/g, (character) => `\\${character}`);
+}
+
+function dotNode(node: DiagramNode, indent: string): string {
+  const columns = node.columns
+    .map((column) => {
+      const keys = [column.isIdentifier ? "PK" : null, column.isReference ? "FK" : null].filter((key) => key !== null);
+      return `${recordText(`${column.name} : ${column.dataType}${keys.length > 0 ? ` (${keys.join(", ")})` : ""}`)}\\l`;
+    })
+    .join("");
+  const label = node.isMissing
+    ? `{${recordText(nodeLabel(node, false))}|${recordText(node.table)}\\l}`
+    : `{${recordText(nodeLabel(node, false))}|${columns}}`;
+
+  const attributes = [`label=${dotString(label)}`];
+  if (node.isMissing) {
+    attributes.push(`style="dotted"`);
+  } else if (node.isStatic) {
+    attributes.push(`style="filled${node.isExternal ? ",dashed" : ""}"`, `fillcolor="#fff2cc"`);
+  } else if (node.isExternal) {
+    attributes.push(`style="dashed"`);
+  }
+
+  return `${indent}${dotString(node.key)} [${attributes.join(", ")}];`;
+}
+
+/**
+ * Renders a Graphviz `digraph` of record nodes. Static entities are filled, external ones dashed and
+ * targets outside the model dotted; edges carry `*` → `1`/`0..1` cardinality and the delete rule.
+ */
+export function renderDot(diagram: ModelDiagram, options: DiagramOptions): string {
+  const lines = [
+    "digraph model {",
+    "  rankdir=LR;",
+    `  node [shape=record, fontname="Helvetica", fontsize=10];`,
+    `  edge [fontname="Helvetica", fontsize=9];`,
+    ""
+  ];
+
+  let cluster = 0;
+  for (const [module, nodes] of groupByModule(diagram.nodes)) {
+    if (options.groupByModule && module !== null) {
+      lines.push(`  subgraph cluster_${cluster++} {`, `    label=${dotString(module)};`);
+      nodes.forEach((node) => lines.push(dotNode(node, "    ")));
+      lines.push("  }");
+    } else {
+      nodes.forEach((node) => lines.push(dotNode(node, "  ")));
+    }
+  }
+
+  if (diagram.edges.length > 0) {
+    lines.push("");
+  }
+
+  for (const edge of diagram.edges) {
+    const attributes = [
+      `label=${dotString(`${edge.attribute}\n${edge.deleteRule}`)}`,
+      `taillabel="*"`,
+      `headlabel=${dotString(edge.isMandatory ? "1" : "0..1")}`
+    ];
+    if (!edge.hasDbConstraint) {
+      attributes.push(`style="dashed"`);
+    }
+
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)} [${attributes.join(", ")}];`);
+  }
+
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
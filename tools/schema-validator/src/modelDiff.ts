@@ -0,0 +1,417 @@
+import type {
+  NormalizedAttribute,
+  NormalizedEntity,
+  NormalizedIndex,
+  NormalizedModel,
+  NormalizedModule,
+  NormalizedRelationship
+} from "./modelSchema.js";
+
+export type DiffObjectType = "module" | "entity" | "attribute" | "index" | "relationship";
+
+export type DiffChangeKind = "added" | "removed" | "renamed" | "changed";
+
+export interface PropertyChange {
+  readonly property: string;
+  readonly before: unknown;
+  readonly after: unknown;
+  readonly breaking: boolean;
+}
+
+export interface ModelChange {
+  readonly kind: DiffChangeKind;
+  readonly objectType: DiffObjectType;
+  readonly module: string;
+  readonly entity: string | null;
+  readonly name: string;
+  readonly previousName: string | null;
+  readonly breaking: boolean;
+  /** Renames of physical objects need a refactorlog entry so SSDT does not drop and re-create them. */
+  readonly requiresRefactorLog: boolean;
+  readonly changes: PropertyChange[];
+}
+
+export interface ModelDiffSummary {
+  readonly added: number;
+  readonly removed: number;
+  readonly renamed: number;
+  readonly changed: number;
+  readonly breaking: number;
+}
+
+export interface ModelDiff {
+  readonly changes: ModelChange[];
+  readonly summary: ModelDiffSummary;
+  readonly hasBreakingChanges: boolean;
+}
+
+interface Pairing<T> {
+  readonly matched: Array<{ before: T; after: T; renamed: boolean }>;
+  readonly removed: T[];
+  readonly added: T[];
+}
+
+/**
+ * Pairs items by their primary key first, then lets `renameOf` claim leftovers so that a
+ * renamed object is reported once as a rename instead of as a drop plus an add.
+ */
+function pairItems<T>(
+  before: readonly T[],
+  after: readonly T[],
+  key: (item: T) => string,
+  renameOf?: (candidate: T, remainingBefore: readonly T[]) => T | undefined
+): Pairing<T> {
+  const remainingBefore = new Map<string, T>();
+  before.forEach((item) => {
+    if (!remainingBefore.has(key(item))) {
+      remainingBefore.set(key(item), item);
+    }
+  });
+
+  const matched: Array<{ before: T; after: T; renamed: boolean }> = [];
+  const unmatchedAfter: T[] = [];
+  after.forEach((item) => {
+    const existing = remainingBefore.get(key(item));
+    if (existing !== undefined) {
+      matched.push({ before: existing, after: item, renamed: false });
+      remainingBefore.delete(key(item));
+    } else {
+      unmatchedAfter.push(item);
+    }
+  });
+
+  const added: T[] = [];
+  unmatchedAfter.forEach((item) => {
+    const previous = renameOf?.(item, [...remainingBefore.values()]);
+    if (previous !== undefined) {
+      matched.push({ before: previous, after: item, renamed: true });
+      remainingBefore.delete(key(previous));
+    } else {
+      added.push(item);
+    }
+  });
+
+  return { matched, removed: [...remainingBefore.values()], added };
+}
+
+const lower = (value: string) => value.toLowerCase();
+
+function compare(
+  changes: PropertyChange[],
+  property: string,
+  before: unknown,
+  after: unknown,
+  breaking: (before: unknown, after: unknown) => boolean = () => false
+): void {
+  if (before !== after) {
+    changes.push({ property, before, after, breaking: breaking(before, after) });
+  }
+}
+
+const always = () => true;
+
+const becameTrue = (before: unknown, after: unknown) => before === false && after === true;
+
+const becameFalse = (before: unknown, after: unknown) => before === true && after === false;
+
+/** Narrowing a size (or dropping it to "unbounded → bounded") can truncate existing data. */
+const shrinks = (before: unknown, after: unknown) => {
+  if (typeof after !== "number") {
+    return false;
+  }
+
+  return typeof before !== "number" || after < before;
+};
+
+/** Moving away from `Ignore` adds an enforced constraint that existing orphans can violate. */
+const tightensDeleteRule = (_before: unknown, after: unknown) => after !== null && after !== "Ignore";
+
+function changeOf(
+  kind: DiffChangeKind,
+  objectType: DiffObjectType,
+  module: string,
+  entity: string | null,
+  name: string,
+  options: {
+    previousName?: string | null;
+    breaking?: boolean;
+    requiresRefactorLog?: boolean;
+    changes?: PropertyChange[];
+  } = {}
+): ModelChange {
+  const changes = options.changes ?? [];
+  return {
+    kind,
+    objectType,
+    module,
+    entity,
+    name,
+    previousName: options.previousName ?? null,
+    breaking: options.breaking ?? changes.some((change) => change.breaking),
+    requiresRefactorLog: options.requiresRefactorLog ?? false,
+    changes
+  };
+}
+
+function diffAttribute(before: NormalizedAttribute, after: NormalizedAttribute): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+  compare(changes, "physicalName", before.physicalName, after.physicalName);
+  compare(changes, "dataType", before.dataType, after.dataType, always);
+  compare(changes, "length", before.length, after.length, shrinks);
+  compare(changes, "precision", before.precision, after.precision, shrinks);
+  compare(changes, "scale", before.scale, after.scale, always);
+  compare(changes, "isMandatory", before.isMandatory, after.isMandatory, becameTrue);
+  compare(changes, "isIdentifier", before.isIdentifier, after.isIdentifier, always);
+  compare(changes, "isAutoNumber", before.isAutoNumber, after.isAutoNumber, always);
+  compare(changes, "isActive", before.isActive, after.isActive, becameFalse);
+  compare(changes, "defaultValue", before.defaultValue, after.defaultValue);
+  compare(changes, "externalDbType", before.externalDbType, after.externalDbType, always);
+  compare(changes, "reference.targetEntityName", before.reference.targetEntityName, after.reference.targetEntityName, always);
+  compare(changes, "reference.deleteRuleCode", before.reference.deleteRuleCode, after.reference.deleteRuleCode, tightensDeleteRule);
+  compare(changes, "reference.hasDbConstraint", before.reference.hasDbConstraint, after.reference.hasDbConstraint, becameTrue);
+  return changes;
+}
+
+function indexSignature(index: NormalizedIndex): string {
+  return [...index.columns]
+    .sort((left, right) => left.ordinal - right.ordinal)
+    .map((column) => `${column.physicalColumn.toLowerCase()}${column.isIncluded ? "+" : ""}`)
+    .join(",");
+}
+
+function diffIndex(before: NormalizedIndex, after: NormalizedIndex): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+  compare(changes, "columns", indexSignature(before), indexSignature(after), () => after.isUnique);
+  compare(changes, "isUnique", before.isUnique, after.isUnique, becameTrue);
+  compare(changes, "isPrimary", before.isPrimary, after.isPrimary, always);
+  compare(changes, "isDisabled", before.isDisabled, after.isDisabled);
+  compare(changes, "filterDefinition", before.filterDefinition, after.filterDefinition, () => after.isUnique);
+  return changes;
+}
+
+function diffRelationship(before: NormalizedRelationship, after: NormalizedRelationship): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+  compare(changes, "toEntityName", before.toEntityName, after.toEntityName, always);
+  compare(changes, "toEntityPhysicalName", before.toEntityPhysicalName, after.toEntityPhysicalName, always);
+  compare(changes, "deleteRuleCode", before.deleteRuleCode, after.deleteRuleCode, tightensDeleteRule);
+  compare(changes, "hasDbConstraint", before.hasDbConstraint, after.hasDbConstraint, becameTrue);
+  return changes;
+}
+
+function diffEntity(moduleName: string, before: NormalizedEntity, after: NormalizedEntity, renamed: boolean): ModelChange[] {
+  const results: ModelChange[] = [];
+  const entityChanges: PropertyChange[] = [];
+  compare(entityChanges, "physicalName", before.physicalName, after.physicalName);
+  compare(entityChanges, "schema", before.schema, after.schema, always);
+  compare(entityChanges, "catalog", before.catalog, after.catalog, always);
+  compare(entityChanges, "isStatic", before.isStatic, after.isStatic);
+  compare(entityChanges, "isExternal", before.isExternal, after.isExternal, always);
+  compare(entityChanges, "isActive", before.isActive, after.isActive, becameFalse);
+
+  const physicalRename = lower(before.physicalName) !== lower(after.physicalName);
+  if (renamed || entityChanges.length > 0) {
+    results.push(
+      changeOf(renamed || physicalRename ? "renamed" : "changed", "entity", moduleName, null, after.name, {
+        previousName: renamed ? before.name : physicalRename ? before.physicalName : null,
+        requiresRefactorLog: physicalRename,
+        changes: entityChanges
+      })
+    );
+  }
+
+  const attributes = pairItems(
+    before.attributes,
+    after.attributes,
+    (attribute) => attribute.name,
+    (candidate, remaining) =>
+      remaining.find((attribute) => candidate.originalName !== null && attribute.name === candidate.originalName) ??
+      remaining.find((attribute) => lower(attribute.physicalName) === lower(candidate.physicalName))
+  );
+
+  attributes.removed.forEach((attribute) => {
+    results.push(changeOf("removed", "attribute", moduleName, after.name, attribute.name, { breaking: true }));
+  });
+  attributes.added.forEach((attribute) => {
+    results.push(
+      changeOf("added", "attribute", moduleName, after.name, attribute.name, {
+        // Existing rows cannot satisfy a new NOT NULL column without a default.
+        breaking: attribute.isMandatory && attribute.defaultValue === null && !attribute.isAutoNumber
+      })
+    );
+  });
+  attributes.matched.forEach(({ before: previous, after: current, renamed: attributeRenamed }) => {
+    const changes = diffAttribute(previous, current);
+    const columnRenamed = lower(previous.physicalName) !== lower(current.physicalName);
+    if (attributeRenamed || columnRenamed) {
+      results.push(
+        changeOf("renamed", "attribute", moduleName, after.name, current.name, {
+          previousName: previous.name,
+          requiresRefactorLog: columnRenamed,
+          changes
+        })
+      );
+    } else if (changes.length > 0) {
+      results.push(changeOf("changed", "attribute", moduleName, after.name, current.name, { changes }));
+    }
+  });
+
+  const indexes = pairItems(
+    before.indexes,
+    after.indexes,
+    (index) => lower(index.name),
+    (candidate, remaining) => remaining.find((index) => indexSignature(index) === indexSignature(candidate))
+  );
+  indexes.removed.forEach((index) => {
+    results.push(changeOf("removed", "index", moduleName, after.name, index.name, { breaking: false }));
+  });
+  indexes.added.forEach((index) => {
+    results.push(changeOf("added", "index", moduleName, after.name, index.name, { breaking: index.isUnique }));
+  });
+  indexes.matched.forEach(({ before: previous, after: current, renamed: indexRenamed }) => {
+    const changes = diffIndex(previous, current);
+    if (indexRenamed) {
+      results.push(
+        changeOf("renamed", "index", moduleName, after.name, current.name, {
+          previousName: previous.name,
+          requiresRefactorLog: true,
+          changes
+        })
+      );
+    } else if (changes.length > 0) {
+      results.push(changeOf("changed", "index", moduleName, after.name, current.name, { changes }));
+    }
+  });
+
+  const renamedAttributes = new Map(
+    attributes.matched.filter((pair) => pair.renamed).map((pair) => [pair.after.name, pair.before.name])
+  );
+  const relationships = pairItems(
+    before.relationships,
+    after.relationships,
+    (relationship) => relationship.viaAttributeName,
+    (candidate, remaining) =>
+      remaining.find((relationship) => relationship.viaAttributeName === renamedAttributes.get(candidate.viaAttributeName))
+  );
+  relationships.removed.forEach((relationship) => {
+    results.push(changeOf("removed", "relationship", moduleName, after.name, relationship.viaAttributeName, { breaking: false }));
+  });
+  relationships.added.forEach((relationship) => {
+    results.push(
+      changeOf("added", "relationship", moduleName, after.name, relationship.viaAttributeName, {
+        breaking: relationship.hasDbConstraint
+      })
+    );
+  });
+  relationships.matched.forEach(({ before: previous, after: current }) => {
+    const changes = diffRelationship(previous, current);
+    if (changes.length > 0) {
+      results.push(changeOf("changed", "relationship", moduleName, after.name, current.viaAttributeName, { changes }));
+    }
+  });
+
+  return results;
+}
+
+function diffModule(before: NormalizedModule, after: NormalizedModule): ModelChange[] {
+  const results: ModelChange[] = [];
+  const moduleChanges: PropertyChange[] = [];
+  compare(moduleChanges, "isActive", before.isActive, after.isActive, becameFalse);
+  compare(moduleChanges, "isSystem", before.isSystem, after.isSystem);
+  if (moduleChanges.length > 0) {
+    results.push(changeOf("changed", "module", after.name, null, after.name, { changes: moduleChanges }));
+  }
+
+  const entities = pairItems(
+    before.entities,
+    after.entities,
+    (entity) => entity.name,
+    (candidate, remaining) => remaining.find((entity) => lower(entity.physicalName) === lower(candidate.physicalName))
+  );
+  entities.removed.forEach((entity) => {
+    results.push(changeOf("removed", "entity", after.name, null, entity.name, { breaking: true }));
+  });
+  entities.added.forEach((entity) => {
+    results.push(changeOf("added", "entity", after.name, null, entity.name));
+  });
+  entities.matched.forEach(({ before: previous, after: current, renamed }) => {
+    results.push(...diffEntity(after.name, previous, current, renamed));
+  });
+
+  return results;
+}
+
+export function diffModels(before: NormalizedModel, after: NormalizedModel): ModelDiff {
+  const changes: ModelChange[] = [];
+  const modules = pairItems(before.modules, after.modules, (module) => lower(module.name));
+  modules.removed.forEach((module) => {
+    changes.push(changeOf("removed", "module", module.name, null, module.name, { breaking: true }));
+  });
+  modules.added.forEach((module) => {
+    changes.push(changeOf("added", "module", module.name, null, module.name));
+  });
+  modules.matched.forEach(({ before: previous, after: current }) => {
+    changes.push(...diffModule(previous, current));
+  });
+
+  const count = (kind: DiffChangeKind) => changes.filter((change) => change.kind === kind).length;
+  const breaking = changes.filter((change) => change.breaking).length;
+  return {
+    changes,
+    summary: {
+      added: count("added"),
+      removed: count("removed"),
+      renamed: count("renamed"),
+      changed: count("changed"),
+      breaking
+    },
+    hasBreakingChanges: breaking > 0
+  };
+}
+
+function qualifiedName(change: ModelChange): string {
+  if (change.objectType === "module") {
+    return change.module;
+  }
+
+  return change.entity ? `${change.module}.${change.entity}.${change.name}` : `${change.module}.${change.name}`;
+}
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined ? "<null>" : JSON.stringify(value);
+}
+
+const KIND_MARKERS: Record<DiffChangeKind, string> = {
+  added: "+",
+  removed: "-",
+  renamed: "→",
+  changed: "~"
+};
+
+export function formatModelDiff(diff: ModelDiff): string[] {
+  const lines: string[] = [];
+  const { summary } = diff;
+  lines.push(
+    `Changes: ${diff.changes.length} (added: ${summary.added}, removed: ${summary.removed}, renamed: ${summary.renamed}, changed: ${summary.changed}, breaking: ${summary.breaking})`
+  );
+
+  diff.changes.forEach((change) => {
+    const flags = [change.breaking ? "BREAKING" : null, change.requiresRefactorLog ? "refactorlog" : null].filter(
+      (flag): flag is string => flag !== null
+    );
+    const renamedFrom = change.previousName ? ` (from ${change.previousName})` : "";
+    lines.push(
+      `  ${KIND_MARKERS[change.kind]} ${change.objectType} ${qualifiedName(change)}${renamedFrom}${
+        flags.length > 0 ? ` [${flags.join(", ")}]` : ""
+      }`
+    );
+    change.changes.forEach((property) => {
+      lines.push(
+        `      • ${property.property}: ${formatValue(property.before)} → ${formatValue(property.after)}${
+          property.breaking ? " [BREAKING]" : ""
+        }`
+      );
+    });
+  });
+
+  return lines;
+}
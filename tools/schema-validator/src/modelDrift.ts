@@ -0,0 +1,292 @@
+import type {
+  NormalizedAttribute,
+  NormalizedEntity,
+  NormalizedModel,
+  NormalizedModule,
+  NormalizedRelationship,
+  NormalizedRelationshipConstraint
+} from "./modelSchema.js";
+
+export const DRIFT_CATEGORIES = [
+  "nullability",
+  "length",
+  "precision",
+  "scale",
+  "missingForeignKey",
+  "deleteRule",
+  "disabledUniqueIndex"
+] as const;
+
+export type DriftCategory = (typeof DRIFT_CATEGORIES)[number];
+
+export interface DriftFinding {
+  readonly category: DriftCategory;
+  readonly module: string;
+  readonly entity: string;
+  /** Attribute, index or via-attribute name the finding is about. */
+  readonly name: string;
+  readonly table: string;
+  readonly path: (string | number)[];
+  readonly message: string;
+  readonly declared: unknown;
+  readonly actual: unknown;
+}
+
+export interface DriftReport {
+  readonly findings: DriftFinding[];
+  readonly counts: Record<DriftCategory, number>;
+  readonly hasDrift: boolean;
+}
+
+/** `length` at or above this is emitted as `nvarchar(max)`, so an on-disk `max` column is not drift. */
+const MAX_LENGTH_THRESHOLD = 2000;
+
+const CATEGORY_TITLES: Record<DriftCategory, string> = {
+  nullability: "Nullability",
+  length: "Length",
+  precision: "Precision",
+  scale: "Scale",
+  missingForeignKey: "Missing foreign keys",
+  deleteRule: "Delete rule",
+  disabledUniqueIndex: "Disabled unique indexes"
+};
+
+interface EntityContext {
+  readonly module: NormalizedModule;
+  readonly entity: NormalizedEntity;
+  readonly path: (string | number)[];
+}
+
+function lower(value: string | null | undefined): string {
+  return (value ?? "").toLowerCase();
+}
+
+function finding(
+  context: EntityContext,
+  category: DriftCategory,
+  name: string,
+  path: (string | number)[],
+  message: string,
+  declared: unknown,
+  actual: unknown
+): DriftFinding {
+  return {
+    category,
+    module: context.module.name,
+    entity: context.entity.name,
+    name,
+    table: `${context.entity.schema}.${context.entity.physicalName}`,
+    path,
+    message,
+    declared,
+    actual
+  };
+}
+
+function analyzeAttribute(context: EntityContext, attribute: NormalizedAttribute, attributeIndex: number): DriftFinding[] {
+  const onDisk = attribute.onDisk;
+  if (!onDisk) {
+    return [];
+  }
+
+  const findings: DriftFinding[] = [];
+  const path = [...context.path, "attributes", attributeIndex];
+  const column = `${attribute.name} (${attribute.physicalName})`;
+
+  if (onDisk.isNullable === true && attribute.isMandatory) {
+    findings.push(
+      finding(context, "nullability", attribute.name, [...path, "isMandatory"], `${column} is mandatory but the column allows NULL.`, "NOT NULL", "NULL")
+    );
+  } else if (onDisk.isNullable === false && !attribute.isMandatory && !attribute.isIdentifier) {
+    findings.push(
+      finding(context, "nullability", attribute.name, [...path, "isMandatory"], `${column} is optional but the column is NOT NULL.`, "NULL", "NOT NULL")
+    );
+  }
+
+  if (attribute.length !== null && onDisk.maxLength !== null) {
+    const isMax = onDisk.maxLength === -1;
+    if (isMax ? attribute.length < MAX_LENGTH_THRESHOLD : attribute.length !== onDisk.maxLength) {
+      findings.push(
+        finding(
+          context,
+          "length",
+          attribute.name,
+          [...path, "length"],
+          `${column} declares length ${attribute.length} but the column is ${isMax ? "max" : onDisk.maxLength}.`,
+          attribute.length,
+          isMax ? "max" : onDisk.maxLength
+        )
+      );
+    }
+  }
+
+  if (attribute.precision !== null && onDisk.precision !== null && attribute.precision !== onDisk.precision) {
+    findings.push(
+      finding(
+        context,
+        "precision",
+        attribute.name,
+        [...path, "precision"],
+        `${column} declares precision ${attribute.precision} but the column has ${onDisk.precision}.`,
+        attribute.precision,
+        onDisk.precision
+      )
+    );
+  }
+
+  if (attribute.scale !== null && onDisk.scale !== null && attribute.scale !== onDisk.scale) {
+    findings.push(
+      finding(
+        context,
+        "scale",
+        attribute.name,
+        [...path, "scale"],
+        `${column} declares scale ${attribute.scale} but the column has ${onDisk.scale}.`,
+        attribute.scale,
+        onDisk.scale
+      )
+    );
+  }
+
+  return findings;
+}
+
+/**
+ * Maps an OutSystems delete rule or a SQL Server referential action to the action emitted for it,
+ * mirroring `SmoEntityEmitter.MapDeleteRule`: Protect and Ignore both become `NO_ACTION`.
+ */
+export function toForeignKeyAction(rule: string | null): string {
+  switch (lower(rule).replace(/[\s_]/g, "")) {
+    case "delete":
+    case "cascade":
+      return "CASCADE";
+    case "setnull":
+      return "SET_NULL";
+    case "setdefault":
+      return "SET_DEFAULT";
+    default:
+      return "NO_ACTION";
+  }
+}
+
+function constraintCovers(constraint: NormalizedRelationshipConstraint, attribute: NormalizedAttribute | undefined, viaName: string): boolean {
+  if (constraint.columns.length === 0) {
+    return true;
+  }
+
+  return constraint.columns.some(
+    (column) =>
+      (attribute !== undefined && lower(column.ownerPhysical) === lower(attribute.physicalName)) ||
+      lower(column.ownerAttribute) === lower(viaName)
+  );
+}
+
+function analyzeRelationship(context: EntityContext, relationship: NormalizedRelationship, relationshipIndex: number): DriftFinding[] {
+  // Exports without physical metadata carry no actual constraints either; absence there is not drift.
+  if (!relationship.hasDbConstraint || !context.entity.attributes.some((attribute) => attribute.onDisk !== null)) {
+    return [];
+  }
+
+  const path = [...context.path, "relationships", relationshipIndex];
+  const attribute = context.entity.attributes.find((candidate) => lower(candidate.name) === lower(relationship.viaAttributeName));
+  const constraints = relationship.actualConstraints.filter((constraint) =>
+    constraintCovers(constraint, attribute, relationship.viaAttributeName)
+  );
+  if (constraints.length === 0) {
+    return [
+      finding(
+        context,
+        "missingForeignKey",
+        relationship.viaAttributeName,
+        [...path, "actualConstraints"],
+        `${relationship.viaAttributeName} → ${relationship.toEntityName} has hasDbConstraint set but no matching foreign key exists in the database.`,
+        relationship.toEntityPhysicalName,
+        null
+      )
+    ];
+  }
+
+  const expected = toForeignKeyAction(relationship.deleteRuleCode);
+  return constraints.flatMap((constraint) => {
+    if (constraint.onDelete === null || toForeignKeyAction(constraint.onDelete) === expected) {
+      return [];
+    }
+
+    const name = constraint.name ? ` ${constraint.name}` : "";
+    return [
+      finding(
+        context,
+        "deleteRule",
+        relationship.viaAttributeName,
+        [...path, "deleteRuleCode"],
+        `${relationship.viaAttributeName} → ${relationship.toEntityName} uses delete rule ${relationship.deleteRuleCode} (${expected}) but foreign key${name} is ON DELETE ${toForeignKeyAction(constraint.onDelete)}.`,
+        relationship.deleteRuleCode,
+        constraint.onDelete
+      )
+    ];
+  });
+}
+
+function analyzeEntity(context: EntityContext): DriftFinding[] {
+  const { entity } = context;
+  const findings = entity.attributes.flatMap((attribute, index) => analyzeAttribute(context, attribute, index));
+  findings.push(...entity.relationships.flatMap((relationship, index) => analyzeRelationship(context, relationship, index)));
+  entity.indexes.forEach((index, indexPosition) => {
+    if (index.isUnique && index.isDisabled === true) {
+      findings.push(
+        finding(
+          context,
+          "disabledUniqueIndex",
+          index.name,
+          [...context.path, "indexes", indexPosition, "isDisabled"],
+          `Unique index ${index.name} is disabled, so uniqueness is not enforced.`,
+          "enabled",
+          "disabled"
+        )
+      );
+    }
+  });
+  return findings;
+}
+
+/**
+ * Compares the logical model with the physical metadata carried alongside it (`onDisk`,
+ * `actualConstraints`, index `isDisabled`). Attributes without `onDisk` data are not checked, and
+ * missing foreign keys are only reported for entities whose export includes `onDisk` metadata.
+ */
+export function analyzeDrift(model: NormalizedModel): DriftReport {
+  const findings = model.modules.flatMap((module, moduleIndex) =>
+    module.entities.flatMap((entity, entityIndex) =>
+      analyzeEntity({ module, entity, path: ["modules", moduleIndex, "entities", entityIndex] })
+    )
+  );
+
+  const counts = Object.fromEntries(DRIFT_CATEGORIES.map((category) => [category, 0])) as Record<DriftCategory, number>;
+  findings.forEach((item) => {
+    counts[item.category] += 1;
+  });
+
+  return { findings, counts, hasDrift: findings.length > 0 };
+}
+
+export function formatDriftReport(report: DriftReport): string[] {
+  const lines: string[] = [];
+  const summary = DRIFT_CATEGORIES.filter((category) => report.counts[category] > 0)
+    .map((category) => `${category}: ${report.counts[category]}`)
+    .join(", ");
+  lines.push(`Drift: ${report.findings.length}${summary ? ` (${summary})` : ""}`);
+
+  DRIFT_CATEGORIES.forEach((category) => {
+    const items = report.findings.filter((item) => item.category === category);
+    if (items.length === 0) {
+      return;
+    }
+
+    lines.push("", `${CATEGORY_TITLES[category]} (${items.length})`);
+    items.forEach((item) => {
+      lines.push(`  • ${item.module}.${item.entity} [${item.table}]: ${item.message}`);
+    });
+  });
+
+  return lines;
+}
@@ -0,0 +1,415 @@
+import { ATTRIBUTE_SHAPES } from "./benchmarkModel.js";
+import type { ValidationStage } from "./modelValidation.js";
+
+export interface CountRange {
+  readonly min: number;
+  readonly max: number;
+}
+
+export interface ModelGeneratorOptions {
+  /** Same seed and options, same model. */
+  readonly seed: number;
+  readonly modules: CountRange;
+  readonly entitiesPerModule: CountRange;
+  /** Attributes per entity besides the identifier and the reference attributes. */
+  readonly attributesPerEntity: CountRange;
+  /** Chance (0–1) for each of an entity's three reference slots to point at another entity. */
+  readonly referenceDensity: number;
+  /** Chance (0–1) that an entity gets a composite index over two or three of its attributes. */
+  readonly compositeIndexRatio: number;
+  readonly staticEntityRatio: number;
+  /** Chance (0–1) that an entity gets a `Parent` reference to itself. */
+  readonly selfReferenceRatio: number;
+}
+
+/** Ranges a fuzz iteration draws its sizes from when it does not pick its own. */
+export const DEFAULT_GENERATOR_OPTIONS: Omit<ModelGeneratorOptions, "seed"> = {
+  modules: { min: 1, max: 4 },
+  entitiesPerModule: { min: 2, max: 8 },
+  attributesPerEntity: { min: 1, max: 8 },
+  referenceDensity: 0.3,
+  compositeIndexRatio: 0.3,
+  staticEntityRatio: 0.15,
+  selfReferenceRatio: 0.1
+};
+
+export interface GeneratedAttribute {
+  name: string;
+  physicalName: string;
+  dataType: string;
+  length: number | null;
+  precision: number | null;
+  scale: number | null;
+  isMandatory: boolean;
+  isIdentifier: boolean;
+  isAutoNumber: boolean;
+  isActive: boolean;
+  isReference: 0 | 1;
+  refEntityId: number | null;
+  refEntity_name: string | null;
+  refEntity_physicalName: string | null;
+  reference_deleteRuleCode: string | null;
+  reference_hasDbConstraint: 0 | 1;
+  physical_isPresentButInactive: 0 | 1;
+}
+
+export interface GeneratedIndexColumn {
+  attribute: string;
+  physicalColumn: string;
+  ordinal: number;
+}
+
+export interface GeneratedIndex {
+  name: string;
+  isUnique: boolean;
+  isPrimary: boolean;
+  isPlatformAuto: 0 | 1;
+  columns: GeneratedIndexColumn[];
+}
+
+export interface GeneratedRelationship {
+  viaAttributeName: string;
+  toEntity_name: string;
+  toEntity_physicalName: string;
+  deleteRuleCode: string;
+  hasDbConstraint: 0 | 1;
+}
+
+export interface GeneratedEntity {
+  name: string;
+  physicalName: string;
+  isStatic: boolean;
+  isExternal: boolean;
+  isActive: boolean;
+  db_schema: string;
+  attributes: GeneratedAttribute[];
+  indexes: GeneratedIndex[];
+  relationships: GeneratedRelationship[];
+}
+
+export interface GeneratedModule {
+  name: string;
+  isSystem: boolean;
+  isActive: boolean;
+  entities: GeneratedEntity[];
+}
+
+/** A model export in the shape the exporter writes, ready for `JSON.stringify` or `parseModelJson`. */
+export interface GeneratedModel {
+  exportedAtUtc: string;
+  modules: GeneratedModule[];
+}
+
+export const MODEL_VIOLATION_KINDS = [
+  "duplicateEntityPhysicalName",
+  "duplicateAttributePhysicalName",
+  "missingIdentifier",
+  "duplicateOrdinal",
+  "danglingReference"
+] as const;
+
+export type ModelViolationKind = (typeof MODEL_VIOLATION_KINDS)[number];
+
+/**
+ * The stage that reports each violation. Validation stops at the first failing stage, so only
+ * violations of the same stage can be injected together.
+ */
+export const VIOLATION_STAGES: Record<ModelViolationKind, ValidationStage> = {
+  duplicateEntityPhysicalName: "rules",
+  duplicateAttributePhysicalName: "rules",
+  missingIdentifier: "rules",
+  duplicateOrdinal: "rules",
+  danglingReference: "references"
+};
+
+/** An issue validation must report for an injected violation, and only then. */
+export interface ExpectedIssue {
+  readonly kind: ModelViolationKind;
+  readonly ruleId: string;
+  readonly path: (string | number)[];
+}
+
+export interface ModelVariant {
+  readonly model: GeneratedModel;
+  readonly expected: ExpectedIssue[];
+}
+
+export interface Random {
+  /** Uniform in [0, 1). */
+  next(): number;
+  /** Uniform whole number in [min, max]. */
+  integer(min: number, max: number): number;
+  chance(probability: number): boolean;
+  pick<T>(items: readonly T[]): T;
+}
+
+const ENTITY_WORDS = ["Customer", "Order", "Invoice", "Product", "Shipment", "Account", "Ticket", "Contract", "Payment", "Region"];
+
+const ATTRIBUTE_WORDS = ["Name", "Code", "Amount", "Status", "Note", "Created", "Quantity", "Email", "Flag", "Phone"];
+
+const MODULE_WORDS = ["Core", "Sales", "Billing", "Support", "Logistics", "Catalog"];
+
+const DELETE_RULES = ["Protect", "Delete", "Ignore"] as const;
+
+const IDENTIFIER_SHAPE = { dataType: "Identifier", length: null, precision: null, scale: null };
+
+/** mulberry32: small, fast and good enough to spread fuzz cases; not for anything secret. */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    integer: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)]
+  };
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function attribute(name: string, shape: (typeof ATTRIBUTE_SHAPES)[number], overrides: Partial<GeneratedAttribute> = {}): GeneratedAttribute {
+  return {
+    name,
+    physicalName: name.toUpperCase(),
+    dataType: shape.dataType,
+    length: shape.length,
+    precision: shape.precision,
+    scale: shape.scale,
+    isMandatory: false,
+    isIdentifier: false,
+    isAutoNumber: false,
+    isActive: true,
+    isReference: 0,
+    refEntityId: null,
+    refEntity_name: null,
+    refEntity_physicalName: null,
+    reference_deleteRuleCode: null,
+    reference_hasDbConstraint: 0,
+    physical_isPresentButInactive: 0,
+    ...overrides
+  };
+}
+
+interface EntityTarget {
+  readonly id: number;
+  readonly name: string;
+  readonly physicalName: string;
+}
+
+function addReference(entity: GeneratedEntity, attributeName: string, target: EntityTarget | null, random: Random): void {
+  const deleteRule = random.pick(DELETE_RULES);
+  const hasDbConstraint = deleteRule === "Ignore" ? 0 : 1;
+  const name = target?.name ?? "MissingEntity";
+  const physicalName = target?.physicalName ?? "OSUSR_MISSING_ENTITY";
+  entity.attributes.push(
+    attribute(attributeName, IDENTIFIER_SHAPE, {
+      isReference: 1,
+      refEntityId: target?.id ?? null,
+      refEntity_name: name,
+      refEntity_physicalName: physicalName,
+      reference_deleteRuleCode: deleteRule,
+      reference_hasDbConstraint: hasDbConstraint
+    })
+  );
+  entity.relationships.push({
+    viaAttributeName: attributeName,
+    toEntity_name: name,
+    toEntity_physicalName: physicalName,
+    deleteRuleCode: deleteRule,
+    hasDbConstraint
+  });
+}
+
+function indexColumns(attributes: readonly GeneratedAttribute[]): GeneratedIndexColumn[] {
+  return attributes.map((column, index) => ({ attribute: column.name, physicalColumn: column.physicalName, ordinal: index + 1 }));
+}
+
+/**
+ * Builds a random model that passes every validation stage with the default type mapping: logical
+ * names are unique model-wide, each entity has an `Id` identifier, every reference attribute has a
+ * matching relationship and a consistent `refEntityId`, and index columns name real attributes.
+ */
+export function generateModel(options: ModelGeneratorOptions): GeneratedModel {
+  const random = createRandom(options.seed);
+  const layout = Array.from({ length: random.integer(options.modules.min, options.modules.max) }, (_, moduleIndex) => ({
+    name: `${random.pick(MODULE_WORDS)}${pad(moduleIndex)}`,
+    tag: `M${pad(moduleIndex)}`,
+    entities: random.integer(options.entitiesPerModule.min, options.entitiesPerModule.max)
+  }));
+
+  // Targets are named up front so references can point at entities generated later.
+  const targets: EntityTarget[][] = [];
+  let nextId = 1;
+  layout.forEach((module, moduleIndex) => {
+    targets.push(
+      Array.from({ length: module.entities }, (_, entityIndex) => {
+        const name = `${random.pick(ENTITY_WORDS)}${pad(moduleIndex)}${pad(entityIndex)}`;
+        return { id: nextId++, name, physicalName: `OSUSR_${module.tag}_${name.toUpperCase()}` };
+      })
+    );
+  });
+  const allTargets = targets.flat();
+
+  const modules = layout.map((module, moduleIndex): GeneratedModule => ({
+    name: module.name,
+    isSystem: false,
+    isActive: true,
+    entities: targets[moduleIndex].map((target) => {
+      const entity: GeneratedEntity = {
+        name: target.name,
+        physicalName: target.physicalName,
+        isStatic: random.chance(options.staticEntityRatio),
+        isExternal: false,
+        isActive: true,
+        db_schema: "dbo",
+        attributes: [attribute("Id", IDENTIFIER_SHAPE, { isMandatory: true, isIdentifier: true, isAutoNumber: true })],
+        indexes: [],
+        relationships: []
+      };
+
+      const count = random.integer(options.attributesPerEntity.min, options.attributesPerEntity.max);
+      for (let index = 0; index < count; index++) {
+        entity.attributes.push(
+          attribute(`${random.pick(ATTRIBUTE_WORDS)}${pad(index)}`, random.pick(ATTRIBUTE_SHAPES), { isMandatory: random.chance(0.5) })
+        );
+      }
+
+      for (let slot = 0; slot < 3; slot++) {
+        if (random.chance(options.referenceDensity)) {
+          const other = random.pick(allTargets);
+          addReference(entity, `Ref${slot}${other.name}Id`, other, random);
+        }
+      }
+
+      if (random.chance(options.selfReferenceRatio)) {
+        addReference(entity, "ParentId", target, random);
+      }
+
+      const fields = entity.attributes.slice(1);
+      if (random.chance(0.5)) {
+        const field = random.pick(fields);
+        entity.indexes.push({
+          name: `IDX_${target.physicalName}_${field.physicalName}`,
+          isUnique: random.chance(0.3),
+          isPrimary: false,
+          isPlatformAuto: 0,
+          columns: indexColumns([field])
+        });
+      }
+
+      if (fields.length >= 2 && random.chance(options.compositeIndexRatio)) {
+        const pool = [...fields];
+        const columns = Array.from(
+          { length: Math.min(fields.length, random.integer(2, 3)) },
+          () => pool.splice(random.integer(0, pool.length - 1), 1)[0]
+        );
+        entity.indexes.push({
+          name: `IDX_${target.physicalName}_COMPOSITE`,
+          isUnique: random.chance(0.5),
+          isPrimary: false,
+          isPlatformAuto: 0,
+          columns: indexColumns(columns)
+        });
+      }
+
+      return entity;
+    })
+  }));
+
+  return { exportedAtUtc: "2025-01-01T00:00:00Z", modules };
+}
+
+interface EntityLocation {
+  readonly entity: GeneratedEntity;
+  readonly path: (string | number)[];
+}
+
+function entityLocations(model: GeneratedModel): EntityLocation[] {
+  return model.modules.flatMap((module, moduleIndex) =>
+    module.entities.map((entity, entityIndex) => ({ entity, path: ["modules", moduleIndex, "entities", entityIndex] }))
+  );
+}
+
+function pickEntity(model: GeneratedModel, random: Random, kind: ModelViolationKind, fits: (entity: GeneratedEntity) => boolean): EntityLocation {
+  const candidates = entityLocations(model).filter((location) => fits(location.entity));
+  if (candidates.length === 0) {
+    throw new Error(`The model has no entity to inject ${kind} into.`);
+  }
+
+  return random.pick(candidates);
+}
+
+function inject(model: GeneratedModel, kind: ModelViolationKind, random: Random): ExpectedIssue[] {
+  switch (kind) {
+    case "duplicateEntityPhysicalName": {
+      const candidates = model.modules.flatMap((module, moduleIndex) => (module.entities.length >= 2 ? [moduleIndex] : []));
+      if (candidates.length === 0) {
+        throw new Error(`The model has no module with two entities to inject ${kind} into.`);
+      }
+
+      const moduleIndex = random.pick(candidates);
+      const entities = model.modules[moduleIndex].entities;
+      const duplicateIndex = random.integer(1, entities.length - 1);
+      // Lower-cased, as the check is case-insensitive like SQL Server's default collation.
+      entities[duplicateIndex].physicalName = entities[0].physicalName.toLowerCase();
+      return [{ kind, ruleId: "module.duplicateEntityPhysicalName", path: ["modules", moduleIndex, "entities", duplicateIndex, "physicalName"] }];
+    }
+    case "duplicateAttributePhysicalName": {
+      const { entity, path } = pickEntity(model, random, kind, (candidate) => candidate.attributes.length >= 2);
+      const duplicateIndex = entity.attributes.length - 1;
+      entity.attributes[duplicateIndex].physicalName = entity.attributes[0].physicalName.toLowerCase();
+      return [{ kind, ruleId: "entity.duplicateAttributePhysicalName", path: [...path, "attributes", duplicateIndex, "physicalName"] }];
+    }
+    case "missingIdentifier": {
+      const { entity, path } = pickEntity(model, random, kind, () => true);
+      entity.attributes.forEach((candidate) => {
+        candidate.isIdentifier = false;
+      });
+      return [{ kind, ruleId: "entity.identifierRequired", path: [...path, "attributes"] }];
+    }
+    case "duplicateOrdinal": {
+      const { entity, path } = pickEntity(model, random, kind, (candidate) => candidate.attributes.length >= 2);
+      const columns = indexColumns(entity.attributes.slice(-2)).map((column) => ({ ...column, ordinal: 1 }));
+      entity.indexes.push({ name: `IDX_${entity.physicalName}_DUPLICATE_ORDINAL`, isUnique: false, isPrimary: false, isPlatformAuto: 0, columns });
+      return [{ kind, ruleId: "index.duplicateOrdinal", path: [...path, "indexes", entity.indexes.length - 1, "columns", 1, "ordinal"] }];
+    }
+    case "danglingReference": {
+      const { entity, path } = pickEntity(model, random, kind, () => true);
+      addReference(entity, "DanglingId", null, random);
+      const attributePath = [...path, "attributes", entity.attributes.length - 1];
+      const relationshipPath = [...path, "relationships", entity.relationships.length - 1];
+      return [
+        { kind, ruleId: "reference.targetMissing", path: [...attributePath, "refEntity_name"] },
+        { kind, ruleId: "reference.targetPhysicalMissing", path: [...attributePath, "refEntity_physicalName"] },
+        { kind, ruleId: "reference.targetMissing", path: [...relationshipPath, "toEntity_name"] },
+        { kind, ruleId: "reference.targetPhysicalMissing", path: [...relationshipPath, "toEntity_physicalName"] }
+      ];
+    }
+  }
+}
+
+/**
+ * Copies a valid model and breaks it in controlled ways, each kind at most once, returning the
+ * issues validation must report. The kinds must share a {@link VIOLATION_STAGES} stage, since a
+ * failing stage hides the ones after it.
+ */
+export function injectViolations(model: GeneratedModel, kinds: readonly ModelViolationKind[], seed: number): ModelVariant {
+  const stages = new Set(kinds.map((kind) => VIOLATION_STAGES[kind]));
+  if (stages.size > 1) {
+    throw new Error(`Violations reported by different stages (${[...stages].join(", ")}) cannot be injected together.`);
+  }
+
+  const random = createRandom(seed);
+  const variant = structuredClone(model);
+  const expected = [...new Set(kinds)].flatMap((kind) => inject(variant, kind, random));
+  return { model: variant, expected };
+}
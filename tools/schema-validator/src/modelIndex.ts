@@ -0,0 +1,172 @@
+import type { NormalizedAttribute, NormalizedEntity, NormalizedModel, NormalizedRelationship } from "./modelSchema.js";
+import {
+  buildEntityLookup,
+  findEntityByLogicalName,
+  findEntityByPhysicalName,
+  type EntityLocation
+} from "./referenceResolution.js";
+
+export interface AttributeLocation extends EntityLocation {
+  readonly attribute: NormalizedAttribute;
+  readonly attributeIndex: number;
+}
+
+/** One entity pointing at another through a reference attribute, a relationship, or both. */
+export interface EntityReference {
+  readonly from: EntityLocation;
+  /** The attribute holding the foreign key; `null` when a relationship names an attribute the entity lacks. */
+  readonly attribute: AttributeLocation | null;
+  readonly relationship: NormalizedRelationship | null;
+  readonly targetName: string | null;
+  readonly targetPhysicalName: string | null;
+  /** `null` when the target is not in the model (for example a supplemental entity). */
+  readonly target: EntityLocation | null;
+  /** Path of the relationship, or of the attribute when no relationship covers it. */
+  readonly path: (string | number)[];
+}
+
+export interface ModelIndex {
+  readonly model: NormalizedModel;
+  /** Every entity, in module and entity order. */
+  readonly entities: readonly EntityLocation[];
+  /** Logical names match case-sensitively, as in reference resolution. */
+  findEntity(logicalName: string): EntityLocation | null;
+  findEntityByPhysicalName(physicalName: string): EntityLocation | null;
+  /** `schema.table`, optionally bracketed (`[dbo].[OSUSR_ABC_CUSTOMER]`); matched case-insensitively. */
+  findEntityByTable(qualifiedName: string): EntityLocation | null;
+  findAttributeByColumn(entity: EntityLocation, physicalColumn: string): AttributeLocation | null;
+  /** References the entity holds, including those whose target is not in the model. */
+  outboundReferences(entity: EntityLocation): readonly EntityReference[];
+  /** References other entities (and the entity itself) hold to it. */
+  inboundReferences(entity: EntityLocation): readonly EntityReference[];
+}
+
+const NO_REFERENCES: readonly EntityReference[] = [];
+
+function lower(value: string): string {
+  return value.toLowerCase();
+}
+
+function push<K, T>(map: Map<K, T[]>, key: K, value: T): void {
+  const existing = map.get(key);
+  if (existing) {
+    existing.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+function tableKey(schema: string, table: string): string {
+  return `${lower(schema)}.${lower(table)}`;
+}
+
+function unbracket(part: string): string {
+  const trimmed = part.trim();
+  return trimmed.startsWith("[") && trimmed.endsWith("]") ? trimmed.slice(1, -1) : trimmed;
+}
+
+function entityPath(location: EntityLocation): (string | number)[] {
+  return ["modules", location.moduleIndex, "entities", location.entityIndex];
+}
+
+/**
+ * Indexes a parsed model for navigation. Lookups follow {@link buildEntityLookup}: the first entity
+ * registered under a name wins. References are collected the way the dependency graph does:
+ * relationships first, then reference attributes no relationship covers; targets resolve by
+ * physical name, falling back to the logical name.
+ */
+export function createModelIndex(model: NormalizedModel): ModelIndex {
+  const lookup = buildEntityLookup(model);
+  const entities: EntityLocation[] = [];
+  const byTable = new Map<string, EntityLocation>();
+  const columns = new Map<NormalizedEntity, Map<string, AttributeLocation>>();
+  const outbound = new Map<NormalizedEntity, EntityReference[]>();
+  const inbound = new Map<NormalizedEntity, EntityReference[]>();
+
+  model.modules.forEach((module, moduleIndex) => {
+    module.entities.forEach((entity, entityIndex) => {
+      const location: EntityLocation = { module, entity, moduleIndex, entityIndex };
+      entities.push(location);
+      if (!byTable.has(tableKey(entity.schema, entity.physicalName))) {
+        byTable.set(tableKey(entity.schema, entity.physicalName), location);
+      }
+
+      const byColumn = new Map<string, AttributeLocation>();
+      entity.attributes.forEach((attribute, attributeIndex) => {
+        if (!byColumn.has(lower(attribute.physicalName))) {
+          byColumn.set(lower(attribute.physicalName), { ...location, attribute, attributeIndex });
+        }
+      });
+      columns.set(entity, byColumn);
+    });
+  });
+
+  const resolve = (physicalName: string | null, logicalName: string | null): EntityLocation | null =>
+    (physicalName ? findEntityByPhysicalName(lookup, physicalName) : null) ??
+    (logicalName ? findEntityByLogicalName(lookup, logicalName) : null);
+
+  const record = (reference: EntityReference) => {
+    push(outbound, reference.from.entity, reference);
+    if (reference.target) {
+      push(inbound, reference.target.entity, reference);
+    }
+  };
+
+  entities.forEach((location) => {
+    const { entity } = location;
+    const attributeNamed = (name: string): AttributeLocation | null => {
+      const attributeIndex = entity.attributes.findIndex((attribute) => lower(attribute.name) === lower(name));
+      return attributeIndex === -1 ? null : { ...location, attribute: entity.attributes[attributeIndex], attributeIndex };
+    };
+
+    entity.relationships.forEach((relationship, relationshipIndex) => {
+      record({
+        from: location,
+        attribute: attributeNamed(relationship.viaAttributeName),
+        relationship,
+        targetName: relationship.toEntityName,
+        targetPhysicalName: relationship.toEntityPhysicalName,
+        target: resolve(relationship.toEntityPhysicalName, relationship.toEntityName),
+        path: [...entityPath(location), "relationships", relationshipIndex]
+      });
+    });
+
+    const covered = new Set(entity.relationships.map((relationship) => lower(relationship.viaAttributeName)));
+    entity.attributes.forEach((attribute, attributeIndex) => {
+      const { reference } = attribute;
+      if (!reference.isReference || covered.has(lower(attribute.name))) {
+        return;
+      }
+
+      record({
+        from: location,
+        attribute: { ...location, attribute, attributeIndex },
+        relationship: null,
+        targetName: reference.targetEntityName,
+        targetPhysicalName: reference.targetEntityPhysicalName,
+        target: resolve(reference.targetEntityPhysicalName, reference.targetEntityName),
+        path: [...entityPath(location), "attributes", attributeIndex]
+      });
+    });
+  });
+
+  return {
+    model,
+    entities,
+    findEntity: (logicalName) => findEntityByLogicalName(lookup, logicalName),
+    findEntityByPhysicalName: (physicalName) => findEntityByPhysicalName(lookup, physicalName),
+    findEntityByTable(qualifiedName) {
+      const separator = qualifiedName.indexOf(".");
+      if (separator === -1) {
+        throw new Error(`findEntityByTable expects schema.table (received "${qualifiedName}").`);
+      }
+
+      const schema = unbracket(qualifiedName.slice(0, separator));
+      const table = unbracket(qualifiedName.slice(separator + 1));
+      return byTable.get(tableKey(schema, table)) ?? null;
+    },
+    findAttributeByColumn: (entity, physicalColumn) => columns.get(entity.entity)?.get(lower(physicalColumn)) ?? null,
+    outboundReferences: (entity) => outbound.get(entity.entity) ?? NO_REFERENCES,
+    inboundReferences: (entity) => inbound.get(entity.entity) ?? NO_REFERENCES
+  };
+}
@@ -0,0 +1,314 @@
+import { formatCanonicalModel } from "./canonicalModel.js";
+import { diffModels, type ModelChange } from "./modelDiff.js";
+import type {
+  NormalizedEntity,
+  NormalizedExtendedProperty,
+  NormalizedModel,
+  NormalizedModule,
+  NormalizedSequence
+} from "./modelSchema.js";
+import { resolveModelReferences, type ReferenceIssue } from "./referenceResolution.js";
+
+export const MERGE_PRECEDENCES = ["fail", "first", "last"] as const;
+
+/** What to do when two sources disagree: report it, or keep the earlier / later source's definition. */
+export type MergePrecedence = (typeof MERGE_PRECEDENCES)[number];
+
+export interface MergeSource {
+  /** How the source is named in conflicts, usually its file path. */
+  readonly label: string;
+  readonly model: NormalizedModel;
+  /**
+   * Supplemental sources (such as `config/supplemental/ossys-user.json`) only add tables the
+   * primary sources do not define, like the .NET `SupplementalEntityLoader`.
+   */
+  readonly supplemental: boolean;
+}
+
+export type MergeConflictCode =
+  | "merge.moduleConflict"
+  | "merge.tableConflict"
+  | "merge.attributeConflict"
+  | "merge.sequenceConflict";
+
+export interface MergeConflict {
+  readonly code: MergeConflictCode;
+  readonly message: string;
+  /** The source whose definition was kept, then the one that disagreed with it. */
+  readonly sources: readonly [string, string];
+  readonly module: string | null;
+  readonly entity: string | null;
+  readonly attribute: string | null;
+  /** Label of the source the precedence kept; `null` when conflicts fail the merge. */
+  readonly resolution: string | null;
+}
+
+export interface YieldedEntity {
+  readonly source: string;
+  readonly module: string;
+  readonly entity: string;
+  readonly table: string;
+  /** The primary source that already defines the table. */
+  readonly definedBy: string;
+}
+
+export interface ModelMerge {
+  readonly model: NormalizedModel;
+  readonly conflicts: MergeConflict[];
+  /** Supplemental entities left out because a primary source already defines their table. */
+  readonly yielded: YieldedEntity[];
+  /** Reference resolution over the combined model; partial exports only resolve once merged. */
+  readonly references: ReferenceIssue[];
+}
+
+interface AcceptedModule {
+  /** The module as its source defines it; later definitions are compared against this. */
+  readonly definition: NormalizedModule;
+  /** What goes into the merged model: the definition minus tables another module kept. */
+  readonly module: NormalizedModule;
+  readonly source: MergeSource;
+  /** Where the module came from, so the result keeps the input order whatever the precedence. */
+  readonly sourceIndex: number;
+  readonly moduleIndex: number;
+}
+
+interface TableClaim {
+  readonly module: string;
+  readonly entity: string;
+  readonly source: MergeSource;
+}
+
+const lower = (value: string) => value.toLowerCase();
+
+/** `schema.table`, case-insensitive like SQL Server's default collation. */
+function tableKey(entity: NormalizedEntity): string {
+  return lower(`${entity.schema}.${entity.physicalName}`);
+}
+
+function wrap(parts: Partial<Pick<NormalizedModel, "modules" | "sequences">>): NormalizedModel {
+  return { exportedAtUtc: null, modules: parts.modules ?? [], sequences: parts.sequences ?? [], extendedProperties: [] };
+}
+
+/** Two definitions are the same when their canonical forms are, so ordering and 0/1 flags do not count. */
+function sameDefinition(left: Partial<Pick<NormalizedModel, "modules" | "sequences">>, right: typeof left): boolean {
+  return formatCanonicalModel(wrap(left)) === formatCanonicalModel(wrap(right));
+}
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined ? "<null>" : JSON.stringify(value);
+}
+
+function describeChange(change: ModelChange, kept: string, incoming: string): string {
+  const name = change.entity ? `${change.entity}.${change.name}` : change.name;
+  switch (change.kind) {
+    case "added":
+      return `${change.objectType} ${name} is only in ${incoming}`;
+    case "removed":
+      return `${change.objectType} ${name} is only in ${kept}`;
+    case "renamed":
+      return `${change.objectType} ${change.previousName} is named ${change.name} in ${incoming}`;
+    case "changed":
+      return `${change.objectType} ${name} differs (${change.changes.map((property) => property.property).join(", ")})`;
+  }
+}
+
+function moduleConflicts(
+  kept: AcceptedModule,
+  incoming: MergeSource,
+  module: NormalizedModule,
+  resolution: string | null
+): MergeConflict[] {
+  const keptLabel = kept.source.label;
+  const suffix = resolution ? ` Kept ${resolution}.` : "";
+  const changes = diffModels(wrap({ modules: [kept.definition] }), wrap({ modules: [module] })).changes;
+  const conflicts: MergeConflict[] = [];
+  const other: ModelChange[] = [];
+  changes.forEach((change) => {
+    if (change.objectType !== "attribute") {
+      other.push(change);
+      return;
+    }
+
+    const qualified = `${module.name}.${change.entity}.${change.name}`;
+    const detail =
+      change.kind === "changed"
+        ? `is defined differently in ${keptLabel} and ${incoming.label} (${change.changes
+            .map((property) => `${property.property}: ${formatValue(property.before)} → ${formatValue(property.after)}`)
+            .join(", ")})`
+        : change.kind === "added"
+          ? `is only defined in ${incoming.label}`
+          : change.kind === "removed"
+            ? `is only defined in ${keptLabel}`
+            : `is named ${change.previousName} in ${keptLabel} and ${change.name} in ${incoming.label}`;
+    conflicts.push({
+      code: "merge.attributeConflict",
+      message: `Attribute ${qualified} ${detail}.${suffix}`,
+      sources: [keptLabel, incoming.label],
+      module: module.name,
+      entity: change.entity,
+      attribute: change.name,
+      resolution
+    });
+  });
+
+  // Differences the structural diff does not itemize (descriptions, extended properties, ...) still
+  // make the module conflict, so the module itself is reported when nothing else explains it.
+  if (other.length > 0 || conflicts.length === 0) {
+    const details = other.map((change) => describeChange(change, keptLabel, incoming.label));
+    conflicts.unshift({
+      code: "merge.moduleConflict",
+      message:
+        `Module ${module.name} differs between ${keptLabel} and ${incoming.label}` +
+        (details.length > 0 ? `: ${details.join("; ")}.` : ".") +
+        suffix,
+      sources: [keptLabel, incoming.label],
+      module: module.name,
+      entity: null,
+      attribute: null,
+      resolution
+    });
+  }
+
+  return conflicts;
+}
+
+function mergeExtendedProperties(sources: readonly MergeSource[]): NormalizedExtendedProperty[] {
+  const properties = new Map<string, NormalizedExtendedProperty>();
+  sources.forEach((source) =>
+    source.model.extendedProperties.forEach((property) => {
+      if (!properties.has(property.name)) {
+        properties.set(property.name, property);
+      }
+    })
+  );
+  return [...properties.values()];
+}
+
+function latestExport(sources: readonly MergeSource[]): Date | null {
+  return sources.reduce<Date | null>((latest, source) => {
+    const exported = source.model.exportedAtUtc;
+    return exported && (!latest || exported > latest) ? exported : latest;
+  }, null);
+}
+
+/**
+ * Combines partial exports (and supplemental definitions) into one model. Modules are matched by
+ * name and tables by `schema.table`; a module defined twice must be identical, and a table may
+ * only belong to one module. With `precedence: "fail"` every disagreement is a conflict and the
+ * model keeps the first definition; `"first"` and `"last"` resolve them in favour of the earlier
+ * or later source and still list what they overrode. Supplemental sources always come after the
+ * primary ones and silently yield tables the primary sources define.
+ */
+export function mergeModels(sources: readonly MergeSource[], precedence: MergePrecedence = "fail"): ModelMerge {
+  const primary = sources.filter((source) => !source.supplemental);
+  const supplemental = sources.filter((source) => source.supplemental);
+  // Processing later sources first lets "last" reuse the first-one-wins bookkeeping below.
+  const ordered = precedence === "last" ? [...primary].reverse().concat([...supplemental].reverse()) : [...primary, ...supplemental];
+
+  const modules = new Map<string, AcceptedModule>();
+  const tables = new Map<string, TableClaim>();
+  const sequences = new Map<string, { sequence: NormalizedSequence; source: MergeSource }>();
+  const conflicts: MergeConflict[] = [];
+  const yielded: YieldedEntity[] = [];
+  const resolution = (kept: MergeSource) => (precedence === "fail" ? null : kept.label);
+
+  ordered.forEach((source) => {
+    source.model.modules.forEach((sourceModule, moduleIndex) => {
+      let module = sourceModule;
+      if (source.supplemental) {
+        const entities = module.entities.filter((entity) => {
+          const claim = tables.get(tableKey(entity));
+          if (claim && !claim.source.supplemental) {
+            yielded.push({
+              source: source.label,
+              module: module.name,
+              entity: entity.name,
+              table: `${entity.schema}.${entity.physicalName}`,
+              definedBy: claim.source.label
+            });
+            return false;
+          }
+
+          return true;
+        });
+        if (entities.length === 0) {
+          return;
+        }
+
+        module = { ...module, entities };
+      }
+
+      const existing = modules.get(lower(module.name));
+      if (existing) {
+        if (!sameDefinition({ modules: [existing.definition] }, { modules: [module] })) {
+          conflicts.push(...moduleConflicts(existing, source, module, resolution(existing.source)));
+        }
+        return;
+      }
+
+      const entities = module.entities.filter((entity) => {
+        const claim = tables.get(tableKey(entity));
+        if (!claim) {
+          return true;
+        }
+
+        conflicts.push({
+          code: "merge.tableConflict",
+          message:
+            `Table ${entity.schema}.${entity.physicalName} is claimed by ${claim.module}.${claim.entity} (${claim.source.label}) ` +
+            `and ${module.name}.${entity.name} (${source.label}).${precedence === "fail" ? "" : ` Kept ${claim.source.label}.`}`,
+          sources: [claim.source.label, source.label],
+          module: module.name,
+          entity: entity.name,
+          attribute: null,
+          resolution: resolution(claim.source)
+        });
+        return false;
+      });
+      entities.forEach((entity) => tables.set(tableKey(entity), { module: module.name, entity: entity.name, source }));
+      modules.set(lower(module.name), {
+        definition: module,
+        module: entities.length === module.entities.length ? module : { ...module, entities },
+        source,
+        sourceIndex: sources.indexOf(source),
+        moduleIndex
+      });
+    });
+
+    source.model.sequences.forEach((sequence) => {
+      const key = lower(`${sequence.schema}.${sequence.name}`);
+      const existing = sequences.get(key);
+      if (!existing) {
+        sequences.set(key, { sequence, source });
+        return;
+      }
+
+      if (!sameDefinition({ sequences: [existing.sequence] }, { sequences: [sequence] })) {
+        conflicts.push({
+          code: "merge.sequenceConflict",
+          message:
+            `Sequence ${sequence.schema}.${sequence.name} differs between ${existing.source.label} and ${source.label}.` +
+            (precedence === "fail" ? "" : ` Kept ${existing.source.label}.`),
+          sources: [existing.source.label, source.label],
+          module: null,
+          entity: null,
+          attribute: null,
+          resolution: resolution(existing.source)
+        });
+      }
+    });
+  });
+
+  const model: NormalizedModel = {
+    exportedAtUtc: latestExport(sources),
+    // A module whose every table went to another module has nothing left to contribute.
+    modules: [...modules.values()]
+      .filter((accepted) => accepted.module.entities.length > 0 || accepted.definition.entities.length === 0)
+      .sort((left, right) => left.sourceIndex - right.sourceIndex || left.moduleIndex - right.moduleIndex)
+      .map((accepted) => accepted.module),
+    sequences: [...sequences.values()].map((entry) => entry.sequence),
+    extendedProperties: mergeExtendedProperties(ordered)
+  };
+
+  return { model, conflicts, yielded, references: resolveModelReferences(model) };
+}
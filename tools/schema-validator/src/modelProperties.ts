@@ -0,0 +1,129 @@
+import { ZodError } from "zod";
+
+import {
+  createRandom,
+  DEFAULT_GENERATOR_OPTIONS,
+  generateModel,
+  injectViolations,
+  MODEL_VIOLATION_KINDS,
+  VIOLATION_STAGES,
+  type GeneratedModel,
+  type ModelVariant,
+  type ModelViolationKind
+} from "./modelGenerator.js";
+import { formatIssuePath, formatZodErrors, parseModelJson } from "./modelSchema.js";
+import { validateModel } from "./modelValidation.js";
+import type { TypeMappingPolicy } from "./typeMapping.js";
+
+/** One property that did not hold for one seed. */
+export interface PropertyFailure {
+  readonly seed: number;
+  readonly property: string;
+  readonly details: string[];
+}
+
+/** An invariant checked against the model generated from a seed and its variant with injected violations. */
+export interface ModelProperty {
+  readonly name: string;
+  /** `null` when the property holds for the seed. */
+  check(seed: number, typeMapping: TypeMappingPolicy): PropertyFailure | null;
+}
+
+function describe(ruleId: string, path: (string | number)[]): string {
+  return `${ruleId} at ${formatIssuePath(path)}`;
+}
+
+/** Entries in one list but not the other, marked `-` (expected only) and `+` (reported only). */
+function compare(expected: readonly string[], reported: readonly string[]): string[] {
+  const missing = expected.filter((entry) => !reported.includes(entry)).map((entry) => `- ${entry}`);
+  const extra = reported.filter((entry) => !expected.includes(entry)).map((entry) => `+ ${entry}`);
+  return [...missing, ...extra];
+}
+
+/** A quarter of the seeds break references; the rest get a random set of the rule violations. */
+export function pickViolations(seed: number): ModelViolationKind[] {
+  const random = createRandom(seed ^ 0x5bd1e995);
+  if (random.chance(0.25)) {
+    return ["danglingReference"];
+  }
+
+  const ruleKinds = MODEL_VIOLATION_KINDS.filter((kind) => VIOLATION_STAGES[kind] === "rules");
+  const picked = ruleKinds.filter(() => random.chance(0.5));
+  return picked.length > 0 ? picked : [random.pick(ruleKinds)];
+}
+
+function generated(seed: number): GeneratedModel {
+  return generateModel({ seed, ...DEFAULT_GENERATOR_OPTIONS });
+}
+
+/** The seed's variant: the generated model with the violations {@link pickViolations} chose. */
+export function generateVariant(seed: number): ModelVariant {
+  return injectViolations(generated(seed), pickViolations(seed), seed);
+}
+
+export const MODEL_PROPERTIES: readonly ModelProperty[] = [
+  {
+    name: "parseModelJson accepts the generated model",
+    check(seed) {
+      try {
+        parseModelJson(generated(seed));
+        return null;
+      } catch (error) {
+        const details = error instanceof ZodError ? formatZodErrors(error) : [String(error)];
+        return { seed, property: this.name, details };
+      }
+    }
+  },
+  {
+    name: "the generated model passes every validation stage",
+    check(seed, typeMapping) {
+      const report = validateModel(generated(seed), `seed ${seed}`, typeMapping);
+      return report.issues.length === 0
+        ? null
+        : { seed, property: this.name, details: report.issues.map((issue) => describe(issue.ruleId, issue.path)) };
+    }
+  },
+  {
+    name: "validation reports exactly the injected violations",
+    check(seed, typeMapping) {
+      const variant = generateVariant(seed);
+      const expected = variant.expected.map((issue) => describe(issue.ruleId, issue.path));
+      const reported = validateModel(variant.model, `seed ${seed}`, typeMapping).issues.map((issue) =>
+        describe(issue.ruleId, issue.path)
+      );
+      const differences = compare(expected, reported);
+      return differences.length === 0
+        ? null
+        : { seed, property: `validation reports exactly the injected ${pickViolations(seed).join(", ")}`, details: differences };
+    }
+  },
+  {
+    name: "parseModelJson rejects exactly the injected rule violations",
+    check(seed) {
+      // parseModelJson stops after the rules; reference violations only show up in validation.
+      const kinds = pickViolations(seed);
+      if (VIOLATION_STAGES[kinds[0]] !== "rules") {
+        return null;
+      }
+
+      const variant = generateVariant(seed);
+      let thrown: string[] = [];
+      try {
+        parseModelJson(variant.model);
+      } catch (error) {
+        thrown = error instanceof ZodError ? error.issues.map((issue) => formatIssuePath(issue.path)) : [String(error)];
+      }
+
+      const paths = compare(variant.expected.map((issue) => formatIssuePath(issue.path)), thrown);
+      return paths.length === 0 ? null : { seed, property: `parseModelJson rejects exactly the injected ${kinds.join(", ")}`, details: paths };
+    }
+  }
+];
+
+/** Every property for one seed, with the number of issues injected into its variant. */
+export function checkSeed(seed: number, typeMapping: TypeMappingPolicy): { failures: PropertyFailure[]; injected: number } {
+  const failures = MODEL_PROPERTIES.map((property) => property.check(seed, typeMapping)).filter(
+    (failure): failure is PropertyFailure => failure !== null
+  );
+  return { failures, injected: generateVariant(seed).expected.length };
+}
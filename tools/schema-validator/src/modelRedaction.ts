@@ -0,0 +1,305 @@
+import { createHash } from "node:crypto";
+
+import { z } from "zod";
+
+export const REDACTED_NAME_KINDS = [
+  "module",
+  "entity",
+  "table",
+  "attribute",
+  "column",
+  "index",
+  "constraint",
+  "trigger",
+  "sequence"
+] as const;
+
+export type RedactedNameKind = (typeof REDACTED_NAME_KINDS)[number];
+
+/** Pseudonym → original name for each kind of name; keep it next to a redacted export to restore its names. */
+export type RedactionMapping = Record<RedactedNameKind, Record<string, string>>;
+
+export interface ModelRedaction {
+  readonly model: unknown;
+  readonly mapping: RedactionMapping;
+  /** Descriptions, SQL definitions and extended property values that were removed. */
+  readonly stripped: number;
+}
+
+export interface ModelRestoration {
+  readonly model: unknown;
+  readonly restored: number;
+  /** Names the mapping does not know, left as they are (added after redaction, or another salt's mapping). */
+  readonly unresolved: number;
+}
+
+/** Replaces trigger, default, check, computed and filter definitions, which must stay present but not readable. */
+export const REDACTED_DEFINITION = "/* redacted */";
+
+const PREFIXES: Record<RedactedNameKind, string> = {
+  module: "Module_",
+  entity: "Entity_",
+  table: "TBL_",
+  attribute: "Attr_",
+  column: "COL_",
+  index: "IX_",
+  constraint: "CON_",
+  trigger: "TRG_",
+  sequence: "SEQ_"
+};
+
+/** Tables keep the OutSystems prefix so `entity.osusrPrefix` flags the same entities. */
+const OSUSR_PREFIX = "OSUSR_";
+
+const PSEUDONYM_LENGTH = 10;
+
+const LETTERS = "abcdefghijklmnopqrstuvwxyz";
+
+type Rename = (kind: RedactedNameKind, name: string) => string;
+
+interface RewriteContext {
+  readonly rename: Rename;
+  /** Whether to drop descriptions, definitions and extended property values. */
+  readonly strip: boolean;
+  stripped: number;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function objectsOf(value: unknown, property: string): JsonObject[] {
+  const items = isObject(value) ? value[property] : undefined;
+  return Array.isArray(items) ? items.filter(isObject) : [];
+}
+
+function childObject(value: JsonObject, property: string): JsonObject | null {
+  const child = value[property];
+  return isObject(child) ? child : null;
+}
+
+/** Blank and non-string names are left alone so the redacted export fails the schema the same way. */
+function renameProperty(target: JsonObject, property: string, kind: RedactedNameKind, context: RewriteContext): void {
+  const value = target[property];
+  if (typeof value === "string" && value.trim().length > 0) {
+    target[property] = context.rename(kind, value.trim());
+  }
+}
+
+function stripDefinition(target: JsonObject | null, property: string, context: RewriteContext): void {
+  const value = target?.[property];
+  if (context.strip && target && typeof value === "string" && value.trim().length > 0 && value !== REDACTED_DEFINITION) {
+    target[property] = REDACTED_DEFINITION;
+    context.stripped++;
+  }
+}
+
+function stripValue(target: JsonObject, property: string, context: RewriteContext): void {
+  if (context.strip && target[property] !== undefined && target[property] !== null) {
+    target[property] = null;
+    context.stripped++;
+  }
+}
+
+function rewriteExtendedProperties(owner: JsonObject, context: RewriteContext): void {
+  objectsOf(owner, "extendedProperties").forEach((property) => stripValue(property, "value", context));
+}
+
+function rewriteAttribute(attribute: JsonObject, context: RewriteContext): void {
+  renameProperty(attribute, "name", "attribute", context);
+  renameProperty(attribute, "originalName", "attribute", context);
+  renameProperty(attribute, "physicalName", "column", context);
+  renameProperty(attribute, "refEntity_name", "entity", context);
+  renameProperty(attribute, "refEntity_physicalName", "table", context);
+  stripDefinition(attribute, "default", context);
+  stripValue(attribute, "meta", context);
+  rewriteExtendedProperties(attribute, context);
+
+  const onDisk = childObject(attribute, "onDisk");
+  if (!onDisk) {
+    return;
+  }
+
+  stripDefinition(onDisk, "defaultDefinition", context);
+  stripDefinition(onDisk, "computedDefinition", context);
+  const defaultConstraint = childObject(onDisk, "defaultConstraint");
+  [...(defaultConstraint ? [defaultConstraint] : []), ...objectsOf(onDisk, "checkConstraints")].forEach((constraint) => {
+    renameProperty(constraint, "name", "constraint", context);
+    stripDefinition(constraint, "definition", context);
+  });
+}
+
+function rewriteEntity(entity: JsonObject, context: RewriteContext): void {
+  renameProperty(entity, "name", "entity", context);
+  renameProperty(entity, "physicalName", "table", context);
+  stripValue(entity, "meta", context);
+  rewriteExtendedProperties(entity, context);
+  objectsOf(entity, "attributes").forEach((attribute) => rewriteAttribute(attribute, context));
+
+  objectsOf(entity, "indexes").forEach((index) => {
+    renameProperty(index, "name", "index", context);
+    stripDefinition(index, "filterDefinition", context);
+    rewriteExtendedProperties(index, context);
+    objectsOf(index, "columns").forEach((column) => {
+      renameProperty(column, "attribute", "attribute", context);
+      renameProperty(column, "physicalColumn", "column", context);
+    });
+    objectsOf(index, "partitionColumns").forEach((column) => renameProperty(column, "name", "column", context));
+  });
+
+  objectsOf(entity, "relationships").forEach((relationship) => {
+    renameProperty(relationship, "viaAttributeName", "attribute", context);
+    renameProperty(relationship, "toEntity_name", "entity", context);
+    renameProperty(relationship, "toEntity_physicalName", "table", context);
+    objectsOf(relationship, "actualConstraints").forEach((constraint) => {
+      renameProperty(constraint, "name", "constraint", context);
+      renameProperty(constraint, "referencedTable", "table", context);
+      objectsOf(constraint, "columns").forEach((column) => {
+        renameProperty(column, "owner.physical", "column", context);
+        renameProperty(column, "owner.attribute", "attribute", context);
+        renameProperty(column, "referenced.physical", "column", context);
+        renameProperty(column, "referenced.attribute", "attribute", context);
+      });
+    });
+  });
+
+  objectsOf(entity, "triggers").forEach((trigger) => {
+    renameProperty(trigger, "name", "trigger", context);
+    stripDefinition(trigger, "definition", context);
+  });
+
+  const temporal = childObject(entity, "temporal");
+  if (temporal) {
+    const historyTable = childObject(temporal, "historyTable");
+    if (historyTable) {
+      renameProperty(historyTable, "name", "table", context);
+    }
+    renameProperty(temporal, "periodStartColumn", "column", context);
+    renameProperty(temporal, "periodEndColumn", "column", context);
+    rewriteExtendedProperties(temporal, context);
+  }
+}
+
+/**
+ * Walks the raw export and rewrites every name in place: declarations and the references to them
+ * (`refEntity_*`, `toEntity_*`, `viaAttributeName`, index and constraint columns) go through the
+ * same `rename`, so they keep matching. Schemas, data types, flags and unknown properties are kept.
+ */
+function rewriteModel(raw: unknown, context: RewriteContext): void {
+  if (!isObject(raw)) {
+    return;
+  }
+
+  rewriteExtendedProperties(raw, context);
+  objectsOf(raw, "sequences").forEach((sequence) => {
+    renameProperty(sequence, "name", "sequence", context);
+    rewriteExtendedProperties(sequence, context);
+  });
+  objectsOf(raw, "modules").forEach((module) => {
+    renameProperty(module, "name", "module", context);
+    rewriteExtendedProperties(module, context);
+    objectsOf(module, "entities").forEach((entity) => rewriteEntity(entity, context));
+  });
+}
+
+function emptyMapping(): RedactionMapping {
+  return Object.fromEntries(REDACTED_NAME_KINDS.map((kind) => [kind, {}])) as RedactionMapping;
+}
+
+/** Letters derived from the salted hash, as many as `length` asks for. */
+function hashLetters(seed: string, length: number): string {
+  let letters = "";
+  for (let block = 0; letters.length < length; block++) {
+    const digest = createHash("sha256").update(`${seed}\u0000${block}`).digest();
+    letters += Array.from(digest, (byte) => LETTERS[byte % LETTERS.length]).join("");
+  }
+
+  return letters.slice(0, length);
+}
+
+/**
+ * Hashes the lower-cased name, so names that only differ in case get the same letters, then gives
+ * each letter the case of the original character at the same position (after a kept OSUSR_ prefix): case-insensitive duplicates
+ * stay duplicates and case-sensitive lookups still tell the spellings apart. Long names keep their
+ * length so the schema's length limits flag the same names.
+ */
+function pseudonymFor(salt: string, kind: RedactedNameKind, name: string): string {
+  const keepsPrefix = kind === "table" && name.toUpperCase().startsWith(OSUSR_PREFIX);
+  const prefix = keepsPrefix ? OSUSR_PREFIX : PREFIXES[kind];
+  const offset = keepsPrefix ? OSUSR_PREFIX.length : 0;
+  const letters = hashLetters(`${salt}\u0000${kind}\u0000${name.toLowerCase()}`, Math.max(PSEUDONYM_LENGTH, name.length - prefix.length));
+  const cased = Array.from(letters, (letter, index) => {
+    const original = name[offset + index] ?? "";
+    return original !== original.toLowerCase() ? letter.toUpperCase() : letter;
+  }).join("");
+  return `${prefix}${cased}`;
+}
+
+/**
+ * Pseudonymizes every module, entity, table, attribute, column, index, constraint, trigger and
+ * sequence name with a salted hash, and drops descriptions, SQL definitions and extended property
+ * values. The same salt always gives the same pseudonyms, so redacted exports of the same model can
+ * still be diffed. Works on the raw JSON, so exports that fail the schema can be shared too.
+ */
+export function redactModel(raw: unknown, salt: string): ModelRedaction {
+  const model = structuredClone(raw);
+  const mapping = emptyMapping();
+  const claimed = new Map<string, string>();
+  const context: RewriteContext = {
+    rename: (kind, name) => {
+      const pseudonym = pseudonymFor(salt, kind, name);
+      const key = `${kind}\u0000${pseudonym.toLowerCase()}`;
+      const owner = claimed.get(key);
+      if (owner !== undefined && owner !== name.toLowerCase()) {
+        throw new Error(`The salt gives ${kind} names "${owner}" and "${name}" the same pseudonym ${pseudonym}; choose another salt.`);
+      }
+
+      claimed.set(key, name.toLowerCase());
+      mapping[kind][pseudonym] = name;
+      return pseudonym;
+    },
+    strip: true,
+    stripped: 0
+  };
+
+  rewriteModel(model, context);
+  return { model, mapping, stripped: context.stripped };
+}
+
+/** Puts the original names back into a redacted export; descriptions and definitions stay redacted. */
+export function restoreModel(raw: unknown, mapping: RedactionMapping): ModelRestoration {
+  const model = structuredClone(raw);
+  let restored = 0;
+  let unresolved = 0;
+  rewriteModel(model, {
+    rename: (kind, name) => {
+      const original = mapping[kind][name];
+      if (original === undefined) {
+        unresolved++;
+        return name;
+      }
+
+      restored++;
+      return original;
+    },
+    strip: false,
+    stripped: 0
+  });
+
+  return { model, restored, unresolved };
+}
+
+const redactionMappingSchema = z
+  .object(
+    Object.fromEntries(REDACTED_NAME_KINDS.map((kind) => [kind, z.record(z.string()).default({})])) as Record<
+      RedactedNameKind,
+      z.ZodDefault<z.ZodRecord<z.ZodString, z.ZodString>>
+    >
+  )
+  .strict();
+
+export function parseRedactionMappingJson(input: unknown): RedactionMapping {
+  return redactionMappingSchema.parse(input);
+}
@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+import { MODEL_RULES, RULE_SEVERITIES, type RuleSeverity } from "./modelRules.js";
+
+export interface RuleSuppression {
+  /** Rule id the suppression applies to; `null` for any rule. */
+  readonly rule: string | null;
+  readonly module: string | null;
+  readonly entity: string | null;
+  /** Issue path (`modules[0].entities[2]`) that matches itself and everything beneath it. */
+  readonly path: string | null;
+  readonly reason: string | null;
+}
+
+export interface ModelRuleConfig {
+  /** Severity overrides keyed by rule id; rules not listed keep their default. */
+  readonly severities: Readonly<Record<string, RuleSeverity>>;
+  readonly suppressions: RuleSuppression[];
+}
+
+const RULE_IDS = MODEL_RULES.map((rule) => rule.id);
+
+function optionalName(label: string) {
+  return z
+    .string()
+    .trim()
+    .min(1, { message: `${label} must not be empty.` })
+    .optional()
+    .transform((value) => value ?? null);
+}
+
+const ruleIdSchema = z.string().refine(
+  (id) => RULE_IDS.includes(id),
+  (id) => ({ message: `Unknown rule id "${id}"; expected one of ${RULE_IDS.join(", ")}.` })
+);
+
+const suppressionSchema = z
+  .object({
+    rule: ruleIdSchema.optional().transform((value) => value ?? null),
+    module: optionalName("module"),
+    entity: optionalName("entity"),
+    path: optionalName("path"),
+    reason: optionalName("reason")
+  })
+  .strict()
+  .superRefine((suppression, ctx) => {
+    if (!suppression.module && !suppression.entity && !suppression.path) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "A suppression needs at least one of module, entity or path; set the rule to \"off\" to silence it everywhere."
+      });
+    }
+  })
+  .transform((suppression): RuleSuppression => suppression);
+
+/** Schema for a model rule configuration, as passed to `npm run validate -- --rules`. */
+export const modelRuleConfigSchema = z
+  .object({
+    $schema: z.string().optional(),
+    $comment: z.string().optional(),
+    rules: z
+      .record(
+        ruleIdSchema,
+        z.enum(RULE_SEVERITIES, {
+          errorMap: () => ({ message: `Rule severity must be one of ${RULE_SEVERITIES.join(", ")}.` })
+        })
+      )
+      .default({}),
+    suppressions: z.array(suppressionSchema).default([])
+  })
+  .strict()
+  .transform(
+    (config): ModelRuleConfig => ({
+      severities: config.rules,
+      suppressions: config.suppressions
+    })
+  );
+
+export function parseModelRuleConfigJson(input: unknown): ModelRuleConfig {
+  return modelRuleConfigSchema.parse(input);
+}
+
+export function safeParseModelRuleConfigJson(input: unknown) {
+  return modelRuleConfigSchema.safeParse(input);
+}
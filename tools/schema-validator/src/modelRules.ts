@@ -0,0 +1,405 @@
+import { z } from "zod";
+
+import {
+  entitySchema,
+  findUnknownProperties,
+  formatIssuePath,
+  modelShellSchema,
+  moduleShellSchema,
+  type NormalizedEntity,
+  type NormalizedModel
+} from "./modelStructure.js";
+import type { ModelRuleConfig, RuleSuppression } from "./modelRuleConfig.js";
+import type { IssueSeverity, ValidationIssue } from "./modelValidation.js";
+
+export const RULE_SEVERITIES = ["error", "warn", "off"] as const;
+
+export type RuleSeverity = (typeof RULE_SEVERITIES)[number];
+
+/** A rule violation, with `path` relative to the object the rule checked. */
+export interface RuleFinding {
+  readonly message: string;
+  readonly path: (string | number)[];
+}
+
+/** A finding with its rule, configured severity and full `modules[i]...` path. */
+export interface RuleIssue {
+  readonly ruleId: string;
+  readonly severity: IssueSeverity;
+  readonly message: string;
+  readonly path: (string | number)[];
+}
+
+/** What module-level rules see: the names of each entity, `null` for entities that failed their schema. */
+export interface ModuleOutline {
+  readonly name: string;
+  readonly entities: readonly (Pick<NormalizedEntity, "name" | "physicalName"> | null)[];
+}
+
+/**
+ * A named model rule. Each hook receives the parsed object and the raw JSON it came from; the
+ * module and model hooks only get outlines, so the streaming validator can run them after the
+ * entities are gone. Rules without hooks name the checks of the reference resolution pass, which
+ * reports them in the `references` stage with the severity configured here.
+ */
+export interface ModelRule {
+  readonly id: string;
+  readonly description: string;
+  readonly defaultSeverity: RuleSeverity;
+  readonly entity?: (entity: NormalizedEntity, raw: unknown) => RuleFinding[];
+  readonly module?: (module: ModuleOutline, raw: unknown) => RuleFinding[];
+  readonly model?: (moduleNames: readonly (string | null)[], raw: unknown) => RuleFinding[];
+}
+
+/** `null` entries (items that failed their own schema) are skipped but keep their index. */
+function findDuplicates(values: readonly (string | null)[], options?: { caseInsensitive?: boolean }) {
+  const seen = new Map<string, number>();
+  const duplicates: Array<{ value: string; firstIndex: number; duplicateIndex: number }> = [];
+  values.forEach((value, index) => {
+    if (value === null) {
+      return;
+    }
+
+    const key = options?.caseInsensitive ? value.toLowerCase() : value;
+    const existing = seen.get(key);
+    if (existing !== undefined) {
+      duplicates.push({ value, firstIndex: existing, duplicateIndex: index });
+    } else {
+      seen.set(key, index);
+    }
+  });
+  return duplicates;
+}
+
+function unknownProperties(schema: z.ZodTypeAny, raw: unknown): RuleFinding[] {
+  return findUnknownProperties(schema, raw).map(({ path, keys }) => ({
+    message: `Unrecognized key(s) in object: ${keys.map((key) => `'${key}'`).join(", ")}`,
+    path
+  }));
+}
+
+/** Whether an index leads with the attribute, so lookups on it (and FK checks) can seek. */
+function leadsWith(index: NormalizedEntity["indexes"][number], attribute: NormalizedEntity["attributes"][number]): boolean {
+  const leading = index.columns
+    .filter((column) => !column.isIncluded)
+    .reduce<(typeof index.columns)[number] | null>((first, column) => (!first || column.ordinal < first.ordinal ? column : first), null);
+  return (
+    leading !== null &&
+    (leading.attribute === attribute.name || leading.physicalColumn.toUpperCase() === attribute.physicalName.toUpperCase())
+  );
+}
+
+/**
+ * Every rule the validator knows, in the order findings are reported. The contract rules default to
+ * `error`, as the .NET pipeline rejects what they flag; project rules default to `off`. Reference
+ * targets missing from the export default to `warn`: they are usually entities the pipeline layers
+ * in later, such as the supplemental `User`.
+ */
+export const MODEL_RULES: readonly ModelRule[] = [
+  {
+    id: "object.unknownProperty",
+    description: "Objects must not carry properties the model contract does not define.",
+    defaultSeverity: "error",
+    entity: (_entity, raw) => unknownProperties(entitySchema, raw),
+    module: (_module, raw) => unknownProperties(moduleShellSchema, raw),
+    model: (_moduleNames, raw) => unknownProperties(modelShellSchema, raw)
+  },
+  {
+    id: "model.modulesRequired",
+    description: "The model must contain at least one module.",
+    defaultSeverity: "error",
+    model: (moduleNames) => (moduleNames.length === 0 ? [{ message: "Model must contain at least one module.", path: ["modules"] }] : [])
+  },
+  {
+    id: "model.duplicateModuleName",
+    description: "Module names must be unique (case-insensitive).",
+    defaultSeverity: "error",
+    model: (moduleNames) =>
+      findDuplicates(moduleNames, { caseInsensitive: true }).map((duplicate) => ({
+        message: `Duplicate module name "${duplicate.value}" (first at index ${duplicate.firstIndex}).`,
+        path: ["modules", duplicate.duplicateIndex, "name"]
+      }))
+  },
+  {
+    id: "module.entitiesRequired",
+    description: "Every module must contain at least one entity.",
+    defaultSeverity: "error",
+    module: (module) =>
+      module.entities.length === 0 ? [{ message: `Module "${module.name}" must include at least one entity.`, path: ["entities"] }] : []
+  },
+  {
+    id: "module.duplicateEntityName",
+    description: "Entity logical names must be unique within a module.",
+    defaultSeverity: "error",
+    module: (module) =>
+      findDuplicates(module.entities.map((entity) => entity?.name ?? null)).map((duplicate) => ({
+        message: `Duplicate entity logical name "${duplicate.value}" within module "${module.name}" (first at index ${duplicate.firstIndex}).`,
+        path: ["entities", duplicate.duplicateIndex, "name"]
+      }))
+  },
+  {
+    id: "module.duplicateEntityPhysicalName",
+    description: "Entity physical names must be unique within a module (case-insensitive).",
+    defaultSeverity: "error",
+    module: (module) =>
+      findDuplicates(
+        module.entities.map((entity) => entity?.physicalName ?? null),
+        { caseInsensitive: true }
+      ).map((duplicate) => ({
+        message: `Duplicate entity physical name "${duplicate.value}" within module "${module.name}" (first at index ${duplicate.firstIndex}).`,
+        path: ["entities", duplicate.duplicateIndex, "physicalName"]
+      }))
+  },
+  {
+    id: "entity.attributesRequired",
+    description: "Every entity must contain at least one attribute.",
+    defaultSeverity: "error",
+    entity: (entity) =>
+      entity.attributes.length === 0
+        ? [{ message: `Entity "${entity.name}" must contain at least one attribute.`, path: ["attributes"] }]
+        : []
+  },
+  {
+    id: "entity.identifierRequired",
+    description: "Every entity must have an attribute marked as identifier.",
+    defaultSeverity: "error",
+    entity: (entity) =>
+      entity.attributes.some((attribute) => attribute.isIdentifier)
+        ? []
+        : [{ message: `Entity "${entity.name}" must include at least one attribute marked as identifier.`, path: ["attributes"] }]
+  },
+  {
+    id: "entity.duplicateAttributeName",
+    description: "Attribute logical names must be unique within an entity.",
+    defaultSeverity: "error",
+    entity: (entity) =>
+      findDuplicates(entity.attributes.map((attribute) => attribute.name)).map((duplicate) => ({
+        message: `Duplicate attribute logical name "${duplicate.value}" in entity "${entity.name}" (first at index ${duplicate.firstIndex}).`,
+        path: ["attributes", duplicate.duplicateIndex, "name"]
+      }))
+  },
+  {
+    id: "entity.duplicateAttributePhysicalName",
+    description: "Attribute physical names must be unique within an entity (case-insensitive).",
+    defaultSeverity: "error",
+    entity: (entity) =>
+      findDuplicates(
+        entity.attributes.map((attribute) => attribute.physicalName),
+        { caseInsensitive: true }
+      ).map((duplicate) => ({
+        message: `Duplicate attribute physical name "${duplicate.value}" in entity "${entity.name}" (first at index ${duplicate.firstIndex}).`,
+        path: ["attributes", duplicate.duplicateIndex, "physicalName"]
+      }))
+  },
+  {
+    id: "index.columnsRequired",
+    description: "Every index must include at least one column.",
+    defaultSeverity: "error",
+    entity: (entity) =>
+      entity.indexes.flatMap((index, indexPosition) =>
+        index.columns.length === 0 ? [{ message: "Index must include at least one column.", path: ["indexes", indexPosition, "columns"] }] : []
+      )
+  },
+  {
+    id: "index.duplicateOrdinal",
+    description: "Index column ordinals must be unique within an index.",
+    defaultSeverity: "error",
+    entity: (entity) =>
+      entity.indexes.flatMap((index, indexPosition) => {
+        const seenOrdinals = new Map<number, number>();
+        const findings: RuleFinding[] = [];
+        index.columns.forEach((column, columnIndex) => {
+          const existing = seenOrdinals.get(column.ordinal);
+          if (existing !== undefined) {
+            findings.push({
+              message: `Duplicate index column ordinal ${column.ordinal}; first seen at index ${existing}.`,
+              path: ["indexes", indexPosition, "columns", columnIndex, "ordinal"]
+            });
+          } else {
+            seenOrdinals.set(column.ordinal, columnIndex);
+          }
+        });
+        return findings;
+      })
+  },
+  {
+    id: "entity.osusrPrefix",
+    description: "Physical table names of non-external entities must start with OSUSR_.",
+    defaultSeverity: "off",
+    entity: (entity) =>
+      entity.isExternal || entity.physicalName.toUpperCase().startsWith("OSUSR_")
+        ? []
+        : [{ message: `Physical name "${entity.physicalName}" of entity "${entity.name}" does not start with OSUSR_.`, path: ["physicalName"] }]
+  },
+  {
+    id: "attribute.mandatoryReferenceIgnore",
+    description: "Mandatory reference attributes must not use the Ignore delete rule, which leaves them pointing at deleted rows.",
+    defaultSeverity: "off",
+    entity: (entity) =>
+      entity.attributes.flatMap((attribute, attributeIndex) => {
+        if (!attribute.isMandatory || !attribute.reference.isReference) {
+          return [];
+        }
+
+        // The attribute's own rule wins; otherwise the relationship's, which defaults to Ignore.
+        const relationshipIndex = entity.relationships.findIndex((relationship) => relationship.viaAttributeName === attribute.name);
+        const path =
+          attribute.reference.deleteRuleCode !== null || relationshipIndex < 0
+            ? ["attributes", attributeIndex, "reference_deleteRuleCode"]
+            : ["relationships", relationshipIndex, "deleteRuleCode"];
+        const deleteRule = attribute.reference.deleteRuleCode ?? entity.relationships[relationshipIndex]?.deleteRuleCode ?? null;
+        return deleteRule?.toLowerCase() === "ignore"
+          ? [{ message: `Mandatory reference attribute "${attribute.name}" on entity "${entity.name}" uses the Ignore delete rule.`, path }]
+          : [];
+      })
+  },
+  {
+    id: "attribute.foreignKeyWithoutIndex",
+    description: "Active reference attributes should lead an index, so joins and delete checks on them can seek.",
+    defaultSeverity: "off",
+    entity: (entity) =>
+      entity.attributes.flatMap((attribute, attributeIndex) =>
+        attribute.isActive && attribute.reference.isReference && !entity.indexes.some((index) => leadsWith(index, attribute))
+          ? [
+              {
+                message: `Reference attribute "${attribute.name}" on entity "${entity.name}" is not the leading column of any index.`,
+                path: ["attributes", attributeIndex]
+              }
+            ]
+          : []
+      )
+  },
+  {
+    id: "reference.targetMissing",
+    description: "Reference attributes and relationships must name an entity the export defines.",
+    defaultSeverity: "warn"
+  },
+  {
+    id: "reference.targetPhysicalMissing",
+    description: "Reference attributes and relationships must name a physical table the export defines.",
+    defaultSeverity: "warn"
+  },
+  {
+    id: "reference.targetMismatch",
+    description: "The logical and physical target names of a reference must point at the same entity.",
+    defaultSeverity: "error"
+  },
+  {
+    id: "reference.entityIdConflict",
+    description: "Each refEntityId must stand for one entity, and each entity must be referenced with one refEntityId.",
+    defaultSeverity: "error"
+  },
+  {
+    id: "relationship.viaAttributeMissing",
+    description: "A relationship's viaAttributeName must name an attribute of its entity.",
+    defaultSeverity: "error"
+  },
+  {
+    id: "relationship.targetMismatch",
+    description: "A relationship must target the entity its via attribute references.",
+    defaultSeverity: "error"
+  },
+  {
+    id: "index.columnMissing",
+    description: "Index columns must name an attribute of their entity.",
+    defaultSeverity: "error"
+  },
+  {
+    id: "index.columnMismatch",
+    description: "The logical and physical names of an index column must point at the same attribute.",
+    defaultSeverity: "error"
+  }
+];
+
+export function describeModelRule(id: string): string | null {
+  return MODEL_RULES.find((rule) => rule.id === id)?.description ?? null;
+}
+
+/** The rules with their configured severities and suppressions, ready to run. */
+export interface ModelRuleSet {
+  severityOf(ruleId: string): RuleSeverity;
+  /** The severity the rule's issues are reported with; `null` when the rule is off. */
+  issueSeverityOf(ruleId: string): IssueSeverity | null;
+  checkEntity(entity: NormalizedEntity, raw: unknown, entityPath: (string | number)[]): RuleIssue[];
+  checkModule(module: ModuleOutline, raw: unknown, modulePath: (string | number)[]): RuleIssue[];
+  checkModel(moduleNames: readonly (string | null)[], raw: unknown): RuleIssue[];
+  /** Whether a suppression covers the issue; only `rules` and `references` stage issues can be suppressed. */
+  suppresses(issue: Pick<ValidationIssue, "ruleId" | "path" | "module" | "entity">): boolean;
+}
+
+function matchesSuppression(suppression: RuleSuppression, issue: Pick<ValidationIssue, "ruleId" | "path" | "module" | "entity">): boolean {
+  if (suppression.rule !== null && suppression.rule !== issue.ruleId) {
+    return false;
+  }
+
+  if (suppression.module !== null && suppression.module !== issue.module) {
+    return false;
+  }
+
+  if (suppression.entity !== null && suppression.entity !== issue.entity) {
+    return false;
+  }
+
+  if (suppression.path !== null) {
+    const path = formatIssuePath(issue.path);
+    return path === suppression.path || path.startsWith(`${suppression.path}.`) || path.startsWith(`${suppression.path}[`);
+  }
+
+  return true;
+}
+
+export function createModelRuleSet(config: ModelRuleConfig = { severities: {}, suppressions: [] }): ModelRuleSet {
+  const severityOf = (ruleId: string): RuleSeverity =>
+    config.severities[ruleId] ?? MODEL_RULES.find((rule) => rule.id === ruleId)?.defaultSeverity ?? "off";
+  const issueSeverityOf = (ruleId: string): IssueSeverity | null => {
+    const severity = severityOf(ruleId);
+    return severity === "off" ? null : severity === "error" ? "error" : "warning";
+  };
+  const enabled = MODEL_RULES.filter((rule) => severityOf(rule.id) !== "off");
+  const run = (
+    hook: (rule: ModelRule) => RuleFinding[] | undefined,
+    basePath: (string | number)[]
+  ): RuleIssue[] =>
+    enabled.flatMap((rule) =>
+      (hook(rule) ?? []).map((finding) => ({
+        ruleId: rule.id,
+        severity: issueSeverityOf(rule.id)!,
+        message: finding.message,
+        path: [...basePath, ...finding.path]
+      }))
+    );
+
+  return {
+    severityOf,
+    issueSeverityOf,
+    checkEntity: (entity, raw, entityPath) => run((rule) => rule.entity?.(entity, raw), entityPath),
+    checkModule: (module, raw, modulePath) => run((rule) => rule.module?.(module, raw), modulePath),
+    checkModel: (moduleNames, raw) => run((rule) => rule.model?.(moduleNames, raw), []),
+    suppresses: (issue) => config.suppressions.some((suppression) => matchesSuppression(suppression, issue))
+  };
+}
+
+/** Every rule at its default severity, nothing suppressed. */
+export const defaultModelRuleSet = createModelRuleSet();
+
+function child(value: unknown, ...segments: (string | number)[]): unknown {
+  return segments.reduce<unknown>(
+    (current, segment) => (current !== null && typeof current === "object" ? (current as Record<string | number, unknown>)[segment] : undefined),
+    value
+  );
+}
+
+/** Runs the rules over a parsed model; `raw` is the JSON it was parsed from, read by the unknown-property rule. */
+export function lintModel(model: NormalizedModel, raw: unknown, rules: ModelRuleSet): RuleIssue[] {
+  const issues: RuleIssue[] = [];
+  model.modules.forEach((module, moduleIndex) => {
+    module.entities.forEach((entity, entityIndex) => {
+      const entityPath = ["modules", moduleIndex, "entities", entityIndex];
+      issues.push(...rules.checkEntity(entity, child(raw, ...entityPath), entityPath));
+    });
+    const modulePath = ["modules", moduleIndex];
+    issues.push(...rules.checkModule(module, child(raw, ...modulePath), modulePath));
+  });
+  issues.push(...rules.checkModel(model.modules.map((module) => module.name), raw));
+  return issues;
+}
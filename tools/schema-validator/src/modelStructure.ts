@@ -0,0 +1,1041 @@
+import { z } from "zod";
+
+export interface AttributeReality {
+  readonly isNullableInDatabase: boolean | null;
+  readonly hasNulls: boolean | null;
+  readonly hasDuplicates: boolean | null;
+  readonly hasOrphans: boolean | null;
+  readonly isPresentButInactive: boolean;
+}
+
+export interface NormalizedExtendedProperty {
+  readonly name: string;
+  readonly value: unknown;
+}
+
+export interface NormalizedConstraintDefinition {
+  readonly name: string | null;
+  readonly definition: string | null;
+  readonly isNotTrusted: boolean | null;
+}
+
+export interface AttributeOnDisk {
+  readonly isNullable: boolean | null;
+  readonly sqlType: string | null;
+  readonly maxLength: number | null;
+  readonly precision: number | null;
+  readonly scale: number | null;
+  readonly collation: string | null;
+  readonly isIdentity: boolean | null;
+  readonly isComputed: boolean | null;
+  readonly computedDefinition: string | null;
+  readonly defaultDefinition: string | null;
+  readonly defaultConstraint: NormalizedConstraintDefinition | null;
+  readonly checkConstraints: NormalizedConstraintDefinition[];
+}
+
+export interface AttributeReference {
+  readonly isReference: boolean;
+  readonly targetEntityId: number | null;
+  readonly targetEntityName: string | null;
+  readonly targetEntityPhysicalName: string | null;
+  readonly deleteRuleCode: string | null;
+  readonly hasDbConstraint: boolean;
+}
+
+export interface NormalizedAttribute {
+  readonly name: string;
+  readonly physicalName: string;
+  readonly originalName: string | null;
+  readonly dataType: string;
+  readonly length: number | null;
+  readonly precision: number | null;
+  readonly scale: number | null;
+  readonly defaultValue: string | null;
+  readonly isMandatory: boolean;
+  readonly isIdentifier: boolean;
+  readonly isAutoNumber: boolean;
+  readonly isActive: boolean;
+  readonly externalDbType: string | null;
+  /** Concrete SQL Server type from the type-mapping policy; `null` until types are resolved. */
+  readonly resolvedType: string | null;
+  readonly description: string | null;
+  readonly reference: AttributeReference;
+  readonly reality: AttributeReality;
+  readonly onDisk: AttributeOnDisk | null;
+  readonly extendedProperties: NormalizedExtendedProperty[];
+}
+
+export interface NormalizedIndexColumn {
+  readonly attribute: string;
+  readonly physicalColumn: string;
+  readonly ordinal: number;
+  readonly isIncluded: boolean;
+  readonly direction: string | null;
+}
+
+export interface NormalizedIndexDataSpace {
+  readonly name: string | null;
+  readonly type: string | null;
+}
+
+export interface NormalizedIndexPartitionColumn {
+  readonly name: string;
+  readonly ordinal: number;
+}
+
+export interface NormalizedIndexPartitionCompression {
+  readonly partition: number;
+  readonly compression: string | null;
+}
+
+export interface NormalizedIndex {
+  readonly name: string;
+  readonly isUnique: boolean;
+  readonly isPrimary: boolean;
+  readonly isPlatformAuto: boolean;
+  readonly kind: string | null;
+  readonly isDisabled: boolean | null;
+  readonly isPadded: boolean | null;
+  readonly fillFactor: number | null;
+  readonly ignoreDupKey: boolean | null;
+  readonly allowRowLocks: boolean | null;
+  readonly allowPageLocks: boolean | null;
+  readonly noRecompute: boolean | null;
+  readonly filterDefinition: string | null;
+  readonly dataSpace: NormalizedIndexDataSpace | null;
+  readonly partitionColumns: NormalizedIndexPartitionColumn[];
+  readonly dataCompression: NormalizedIndexPartitionCompression[];
+  readonly columns: NormalizedIndexColumn[];
+  readonly extendedProperties: NormalizedExtendedProperty[];
+}
+
+export interface NormalizedRelationshipConstraintColumn {
+  readonly ordinal: number;
+  readonly ownerPhysical: string | null;
+  readonly ownerAttribute: string | null;
+  readonly referencedPhysical: string | null;
+  readonly referencedAttribute: string | null;
+}
+
+export interface NormalizedRelationshipConstraint {
+  readonly name: string | null;
+  readonly referencedSchema: string | null;
+  readonly referencedTable: string | null;
+  readonly onDelete: string | null;
+  readonly onUpdate: string | null;
+  readonly columns: NormalizedRelationshipConstraintColumn[];
+}
+
+export interface NormalizedRelationship {
+  readonly viaAttributeName: string;
+  readonly toEntityName: string;
+  readonly toEntityPhysicalName: string;
+  readonly deleteRuleCode: string;
+  readonly hasDbConstraint: boolean;
+  readonly actualConstraints: NormalizedRelationshipConstraint[];
+}
+
+export interface NormalizedTrigger {
+  readonly name: string;
+  readonly isDisabled: boolean;
+  readonly definition: string;
+}
+
+export interface NormalizedTemporal {
+  readonly type: string | null;
+  readonly historyTable: { readonly schema: string | null; readonly name: string | null } | null;
+  readonly periodStartColumn: string | null;
+  readonly periodEndColumn: string | null;
+  readonly retention: {
+    readonly kind: string | null;
+    readonly unit: string | null;
+    readonly value: number | null;
+  } | null;
+  readonly extendedProperties: NormalizedExtendedProperty[];
+}
+
+export interface NormalizedSequence {
+  readonly schema: string;
+  readonly name: string;
+  readonly dataType: string;
+  readonly startValue: number | null;
+  readonly increment: number | null;
+  readonly minValue: number | null;
+  readonly maxValue: number | null;
+  readonly cycle: boolean;
+  readonly cacheMode: string | null;
+  readonly cacheSize: number | null;
+  readonly extendedProperties: NormalizedExtendedProperty[];
+}
+
+export interface NormalizedEntity {
+  readonly name: string;
+  readonly physicalName: string;
+  readonly schema: string;
+  readonly catalog: string | null;
+  readonly isStatic: boolean;
+  readonly isExternal: boolean;
+  readonly isActive: boolean;
+  readonly description: string | null;
+  readonly attributes: NormalizedAttribute[];
+  readonly indexes: NormalizedIndex[];
+  readonly relationships: NormalizedRelationship[];
+  readonly triggers: NormalizedTrigger[];
+  readonly temporal: NormalizedTemporal | null;
+  readonly extendedProperties: NormalizedExtendedProperty[];
+}
+
+export interface NormalizedModule {
+  readonly name: string;
+  readonly isSystem: boolean;
+  readonly isActive: boolean;
+  readonly entities: NormalizedEntity[];
+  readonly extendedProperties: NormalizedExtendedProperty[];
+}
+
+export interface NormalizedModel {
+  readonly exportedAtUtc: Date | null;
+  readonly modules: NormalizedModule[];
+  readonly sequences: NormalizedSequence[];
+  readonly extendedProperties: NormalizedExtendedProperty[];
+}
+
+const BOOL_ZERO_ONE = [0, 1] as const;
+
+type BoolZeroOne = (typeof BOOL_ZERO_ONE)[number];
+
+const boolish = z
+  .union([z.boolean(), z.number().int().refine((value) => BOOL_ZERO_ONE.includes(value as BoolZeroOne), {
+    message: "Expected 0 or 1 for boolean flag."
+  })])
+  .transform((value) => (typeof value === "number" ? value === 1 : value));
+
+const optionalBoolean = z
+  .union([boolish, z.null(), z.undefined()])
+  .transform((value) => (value === null || value === undefined ? null : value));
+
+function optionalTrimmedString(label: string, options?: { maxLength?: number }) {
+  const maxLength = options?.maxLength ?? 512;
+  return z
+    .union([z.string(), z.number(), z.null(), z.undefined()])
+    .transform((value, ctx) => {
+      if (value === null || value === undefined) {
+        return null;
+      }
+
+      const stringValue = typeof value === "number" ? value.toString() : value;
+      const trimmed = stringValue.trim();
+      if (trimmed.length === 0) {
+        return null;
+      }
+
+      if (trimmed.length > maxLength) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.too_big,
+          maximum: maxLength,
+          type: "string",
+          inclusive: true,
+          message: `${label} must be ${maxLength} characters or fewer.`
+        });
+        return z.NEVER;
+      }
+
+      return trimmed;
+    });
+}
+
+function requiredIdentifier(label: string, options?: { maxLength?: number }) {
+  const maxLength = options?.maxLength ?? 256;
+  return z
+    .string({ required_error: `${label} is required.` })
+    .trim()
+    .min(1, { message: `${label} is required.` })
+    .max(maxLength, { message: `${label} must be ${maxLength} characters or fewer.` });
+}
+
+function optionalNonNegativeInt(label: string) {
+  return z
+    .union([z.number(), z.string(), z.null(), z.undefined()])
+    .transform((value, ctx) => {
+      if (value === null || value === undefined || value === "") {
+        return null;
+      }
+
+      const numeric = typeof value === "string" ? Number(value) : value;
+      if (!Number.isInteger(numeric)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${label} must be an integer.`
+        });
+        return z.NEVER;
+      }
+
+      if (numeric < 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.too_small,
+          minimum: 0,
+          type: "number",
+          inclusive: true,
+          message: `${label} must be zero or positive.`
+        });
+        return z.NEVER;
+      }
+
+      return numeric;
+    });
+}
+
+function positiveInt(label: string) {
+  return z
+    .union([z.number(), z.string()])
+    .transform((value, ctx) => {
+      const numeric = typeof value === "string" ? Number(value) : value;
+      if (!Number.isInteger(numeric)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${label} must be an integer.`
+        });
+        return z.NEVER;
+      }
+
+      if (numeric <= 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.too_small,
+          minimum: 1,
+          type: "number",
+          inclusive: true,
+          message: `${label} must be greater than zero.`
+        });
+        return z.NEVER;
+      }
+
+      return numeric;
+    });
+}
+
+function nonNegativeInt(label: string) {
+  return z
+    .union([z.number(), z.string()], { required_error: `${label} is required.` })
+    .transform((value, ctx) => {
+      const numeric = typeof value === "string" ? Number(value) : value;
+      if (!Number.isInteger(numeric)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${label} must be an integer.`
+        });
+        return z.NEVER;
+      }
+
+      if (numeric < 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.too_small,
+          minimum: 0,
+          type: "number",
+          inclusive: true,
+          message: `${label} must be zero or positive.`
+        });
+        return z.NEVER;
+      }
+
+      return numeric;
+    });
+}
+
+function optionalArray<T extends z.ZodTypeAny>(schema: T) {
+  return z.union([z.array(schema), z.null(), z.undefined()]).transform((value) => {
+    if (Array.isArray(value)) {
+      return value;
+    }
+
+    return [] as z.infer<T>[];
+  });
+}
+
+function optionalInteger(label: string) {
+  return z
+    .union([z.number(), z.string(), z.null(), z.undefined()])
+    .transform((value, ctx) => {
+      if (value === null || value === undefined || value === "") {
+        return null;
+      }
+
+      const numeric = typeof value === "string" ? Number(value) : value;
+      if (!Number.isInteger(numeric)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${label} must be an integer.`
+        });
+        return z.NEVER;
+      }
+
+      return numeric;
+    });
+}
+
+function optionalNumber(label: string) {
+  return z
+    .union([z.number(), z.string(), z.null(), z.undefined()])
+    .transform((value, ctx) => {
+      if (value === null || value === undefined || value === "") {
+        return null;
+      }
+
+      const numeric = typeof value === "string" ? Number(value) : value;
+      if (!Number.isFinite(numeric)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${label} must be a number.`
+        });
+        return z.NEVER;
+      }
+
+      return numeric;
+    });
+}
+
+const extendedPropertySchema = z
+  .object({
+    name: requiredIdentifier("Extended property name"),
+    value: z.unknown()
+  })
+  .transform((property) => ({
+    name: property.name,
+    value: property.value === undefined ? null : property.value
+  } satisfies NormalizedExtendedProperty));
+
+const extendedPropertiesSchema = optionalArray(extendedPropertySchema);
+
+/**
+ * The exporter emits `meta` either as a bare description string or as `{ description }`.
+ * Both shapes collapse to the trimmed description (or null).
+ */
+function metaDescription(label: string) {
+  return z
+    .union([
+      z
+        .object({
+          description: optionalTrimmedString(`${label} description`, { maxLength: 4000 })
+        })
+        .transform((meta) => meta.description),
+      optionalTrimmedString(`${label} description`, { maxLength: 4000 })
+    ])
+    .transform((value) => value ?? null);
+}
+
+const constraintDefinitionSchema = z
+  .object({
+    name: optionalTrimmedString("Constraint name"),
+    definition: optionalTrimmedString("Constraint definition", { maxLength: 4000 }),
+    isNotTrusted: optionalBoolean
+  })
+  .transform((constraint) => ({
+    name: constraint.name,
+    definition: constraint.definition,
+    isNotTrusted: constraint.isNotTrusted
+  } satisfies NormalizedConstraintDefinition));
+
+const attributeOnDiskSchema = z
+  .object({
+    isNullable: optionalBoolean,
+    sqlType: optionalTrimmedString("On-disk SQL type"),
+    maxLength: optionalInteger("On-disk max length"),
+    precision: optionalNonNegativeInt("On-disk precision"),
+    scale: optionalNonNegativeInt("On-disk scale"),
+    collation: optionalTrimmedString("On-disk collation"),
+    isIdentity: optionalBoolean,
+    isComputed: optionalBoolean,
+    computedDefinition: optionalTrimmedString("On-disk computed definition", { maxLength: 4000 }),
+    defaultDefinition: optionalTrimmedString("On-disk default definition", { maxLength: 4000 }),
+    defaultConstraint: z
+      .union([constraintDefinitionSchema, z.null(), z.undefined()])
+      .transform((value) => value ?? null),
+    checkConstraints: optionalArray(constraintDefinitionSchema)
+  })
+  .transform((onDisk) => ({
+    isNullable: onDisk.isNullable,
+    sqlType: onDisk.sqlType,
+    maxLength: onDisk.maxLength,
+    precision: onDisk.precision,
+    scale: onDisk.scale,
+    collation: onDisk.collation,
+    isIdentity: onDisk.isIdentity,
+    isComputed: onDisk.isComputed,
+    computedDefinition: onDisk.computedDefinition,
+    defaultDefinition: onDisk.defaultDefinition,
+    defaultConstraint: onDisk.defaultConstraint,
+    checkConstraints: onDisk.checkConstraints
+  } satisfies AttributeOnDisk));
+
+const attributeRealitySchema = z
+  .object({
+    isNullableInDatabase: optionalBoolean,
+    hasNulls: optionalBoolean,
+    hasDuplicates: optionalBoolean,
+    hasOrphans: optionalBoolean
+  })
+  .transform(
+    (value): AttributeReality => ({
+      isNullableInDatabase: value.isNullableInDatabase,
+      hasNulls: value.hasNulls,
+      hasDuplicates: value.hasDuplicates,
+      hasOrphans: value.hasOrphans,
+      isPresentButInactive: false
+    })
+  );
+
+const attributeSchema = z
+  .object({
+    name: requiredIdentifier("Attribute logical name"),
+    physicalName: requiredIdentifier("Attribute physical name"),
+    originalName: optionalTrimmedString("Attribute original name"),
+    dataType: z
+      .string({ required_error: "Attribute dataType is required." })
+      .trim()
+      .min(1, { message: "Attribute dataType is required." })
+      .max(256, { message: "Attribute dataType must be 256 characters or fewer." }),
+    length: optionalNonNegativeInt("Attribute length"),
+    precision: optionalNonNegativeInt("Attribute precision"),
+    scale: optionalNonNegativeInt("Attribute scale"),
+    default: optionalTrimmedString("Attribute default value", { maxLength: 4000 }),
+    isMandatory: boolish,
+    isIdentifier: boolish,
+    isAutoNumber: z.union([boolish, z.undefined()]).transform((value) =>
+      value === undefined ? false : value
+    ),
+    isActive: boolish,
+    isReference: boolish,
+    refEntityId: z.union([z.number().int(), z.string(), z.null(), z.undefined()]).transform((value, ctx) => {
+      if (value === null || value === undefined || value === "") {
+        return null;
+      }
+
+      const numeric = typeof value === "string" ? Number(value) : value;
+      if (!Number.isInteger(numeric)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Referenced entity id must be an integer."
+        });
+        return z.NEVER;
+      }
+
+      return numeric;
+    }),
+    refEntity_name: optionalTrimmedString("Referenced entity logical name"),
+    refEntity_physicalName: optionalTrimmedString("Referenced entity physical name"),
+    reference_deleteRuleCode: optionalTrimmedString("Reference delete rule code"),
+    reference_hasDbConstraint: z
+      .union([boolish, z.null(), z.undefined()])
+      .transform((value) => (value === null || value === undefined ? null : value)),
+    external_dbType: optionalTrimmedString("External database type"),
+    physical_isPresentButInactive: boolish,
+    reality: z.union([attributeRealitySchema, z.null(), z.undefined()]),
+    onDisk: z.union([attributeOnDiskSchema, z.null(), z.undefined()]).transform((value) => value ?? null),
+    meta: metaDescription("Attribute"),
+    extendedProperties: extendedPropertiesSchema
+  })
+  .superRefine((attribute, ctx) => {
+    if (attribute.isReference) {
+      if (!attribute.refEntity_name) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Referenced entity logical name is required when isReference is true.",
+          path: ["refEntity_name"]
+        });
+      }
+
+      if (!attribute.refEntity_physicalName) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Referenced entity physical name is required when isReference is true.",
+          path: ["refEntity_physicalName"]
+        });
+      }
+    }
+  })
+  .transform((attribute) => {
+    const isReference = attribute.isReference;
+
+    const reality: AttributeReality = {
+      ...(attribute.reality ?? {
+        isNullableInDatabase: null,
+        hasNulls: null,
+        hasDuplicates: null,
+        hasOrphans: null
+      }),
+      isPresentButInactive: attribute.physical_isPresentButInactive
+    };
+
+    const reference: AttributeReference = isReference
+      ? {
+          isReference: true,
+          targetEntityId: attribute.refEntityId,
+          targetEntityName: attribute.refEntity_name!,
+          targetEntityPhysicalName: attribute.refEntity_physicalName!,
+          deleteRuleCode: attribute.reference_deleteRuleCode ?? null,
+          hasDbConstraint:
+            attribute.reference_hasDbConstraint === null
+              ? false
+              : attribute.reference_hasDbConstraint!
+        }
+      : {
+          isReference: false,
+          targetEntityId: null,
+          targetEntityName: null,
+          targetEntityPhysicalName: null,
+          deleteRuleCode: null,
+          hasDbConstraint: false
+        };
+
+    const normalized: NormalizedAttribute = {
+      name: attribute.name,
+      physicalName: attribute.physicalName,
+      originalName: attribute.originalName,
+      dataType: attribute.dataType,
+      length: attribute.length,
+      precision: attribute.precision,
+      scale: attribute.scale,
+      defaultValue: attribute.default,
+      isMandatory: attribute.isMandatory,
+      isIdentifier: attribute.isIdentifier,
+      isAutoNumber: attribute.isAutoNumber,
+      isActive: attribute.isActive,
+      externalDbType: attribute.external_dbType,
+      resolvedType: null,
+      description: attribute.meta,
+      reference,
+      reality,
+      onDisk: attribute.onDisk,
+      extendedProperties: attribute.extendedProperties
+    };
+
+    return normalized;
+  });
+
+const indexColumnSchema = z
+  .object({
+    attribute: requiredIdentifier("Index column attribute name"),
+    physicalColumn: requiredIdentifier("Index column physical name"),
+    ordinal: positiveInt("Index column ordinal"),
+    isIncluded: z.union([boolish, z.undefined()]).transform((value) => (value === undefined ? false : value)),
+    direction: optionalTrimmedString("Index column direction")
+  })
+  .transform((column) => ({
+    attribute: column.attribute,
+    physicalColumn: column.physicalColumn,
+    ordinal: column.ordinal,
+    isIncluded: column.isIncluded,
+    direction: column.direction
+  } satisfies NormalizedIndexColumn));
+
+const indexDataSpaceSchema = z
+  .object({
+    name: optionalTrimmedString("Index data space name"),
+    type: optionalTrimmedString("Index data space type")
+  })
+  .transform((dataSpace) => ({
+    name: dataSpace.name,
+    type: dataSpace.type
+  } satisfies NormalizedIndexDataSpace));
+
+const indexPartitionColumnSchema = z
+  .object({
+    name: requiredIdentifier("Index partition column name"),
+    ordinal: nonNegativeInt("Index partition column ordinal")
+  })
+  .transform((column) => ({
+    name: column.name,
+    ordinal: column.ordinal
+  } satisfies NormalizedIndexPartitionColumn));
+
+const indexPartitionCompressionSchema = z
+  .object({
+    partition: nonNegativeInt("Index compression partition"),
+    compression: optionalTrimmedString("Index compression")
+  })
+  .transform((compression) => ({
+    partition: compression.partition,
+    compression: compression.compression
+  } satisfies NormalizedIndexPartitionCompression));
+
+function fillFactor(label: string) {
+  return optionalNonNegativeInt(label).refine((value) => value === null || value <= 100, {
+    message: `${label} must be between 0 and 100.`
+  });
+}
+
+const indexSchema = z
+  .object({
+    name: requiredIdentifier("Index name"),
+    isUnique: boolish,
+    isPrimary: z.union([boolish, z.undefined()]).transform((value) =>
+      value === undefined ? false : value
+    ),
+    isPlatformAuto: boolish,
+    kind: optionalTrimmedString("Index kind"),
+    isDisabled: optionalBoolean,
+    isPadded: optionalBoolean,
+    fill_factor: fillFactor("Index fill factor"),
+    fillFactor: fillFactor("Index fill factor"),
+    ignoreDupKey: optionalBoolean,
+    allowRowLocks: optionalBoolean,
+    allowPageLocks: optionalBoolean,
+    noRecompute: optionalBoolean,
+    filterDefinition: optionalTrimmedString("Index filter definition", { maxLength: 4000 }),
+    dataSpace: z.union([indexDataSpaceSchema, z.null(), z.undefined()]).transform((value) => value ?? null),
+    partitionColumns: optionalArray(indexPartitionColumnSchema),
+    dataCompression: optionalArray(indexPartitionCompressionSchema),
+    columns: z.array(indexColumnSchema),
+    extendedProperties: extendedPropertiesSchema
+  })
+  .transform((index) => ({
+    name: index.name,
+    isUnique: index.isUnique,
+    isPrimary: index.isPrimary,
+    isPlatformAuto: index.isPlatformAuto,
+    kind: index.kind,
+    isDisabled: index.isDisabled,
+    isPadded: index.isPadded,
+    // The exporter writes `fill_factor`; `fillFactor` is the legacy spelling kept in cir-v1.json.
+    fillFactor: index.fill_factor ?? index.fillFactor,
+    ignoreDupKey: index.ignoreDupKey,
+    allowRowLocks: index.allowRowLocks,
+    allowPageLocks: index.allowPageLocks,
+    noRecompute: index.noRecompute,
+    filterDefinition: index.filterDefinition,
+    dataSpace: index.dataSpace,
+    partitionColumns: index.partitionColumns,
+    dataCompression: index.dataCompression,
+    columns: index.columns,
+    extendedProperties: index.extendedProperties
+  } satisfies NormalizedIndex));
+
+const relationshipConstraintColumnSchema = z
+  .object({
+    ordinal: nonNegativeInt("Constraint column ordinal"),
+    "owner.physical": optionalTrimmedString("Constraint owner physical column"),
+    "owner.attribute": optionalTrimmedString("Constraint owner attribute"),
+    "referenced.physical": optionalTrimmedString("Constraint referenced physical column"),
+    "referenced.attribute": optionalTrimmedString("Constraint referenced attribute")
+  })
+  .transform((column) => ({
+    ordinal: column.ordinal,
+    ownerPhysical: column["owner.physical"],
+    ownerAttribute: column["owner.attribute"],
+    referencedPhysical: column["referenced.physical"],
+    referencedAttribute: column["referenced.attribute"]
+  } satisfies NormalizedRelationshipConstraintColumn));
+
+const relationshipConstraintSchema = z
+  .object({
+    name: optionalTrimmedString("Constraint name"),
+    referencedSchema: optionalTrimmedString("Constraint referenced schema"),
+    referencedTable: optionalTrimmedString("Constraint referenced table"),
+    onDelete: optionalTrimmedString("Constraint delete action"),
+    onUpdate: optionalTrimmedString("Constraint update action"),
+    columns: optionalArray(relationshipConstraintColumnSchema)
+  })
+  .transform((constraint) => ({
+    name: constraint.name,
+    referencedSchema: constraint.referencedSchema,
+    referencedTable: constraint.referencedTable,
+    onDelete: constraint.onDelete,
+    onUpdate: constraint.onUpdate,
+    columns: constraint.columns
+  } satisfies NormalizedRelationshipConstraint));
+
+const relationshipSchema = z
+  .object({
+    viaAttributeId: z.union([z.number(), z.string(), z.null(), z.undefined()]).optional(),
+    viaAttributeName: requiredIdentifier("Relationship attribute name"),
+    toEntity_name: requiredIdentifier("Relationship target entity name"),
+    toEntity_physicalName: requiredIdentifier("Relationship target entity physical name"),
+    deleteRuleCode: optionalTrimmedString("Relationship delete rule code"),
+    hasDbConstraint: z.union([boolish, z.null(), z.undefined()]).transform((value) =>
+      value === null || value === undefined ? false : value
+    ),
+    actualConstraints: optionalArray(relationshipConstraintSchema)
+  })
+  .transform((relationship) => ({
+    viaAttributeName: relationship.viaAttributeName,
+    toEntityName: relationship.toEntity_name,
+    toEntityPhysicalName: relationship.toEntity_physicalName,
+    deleteRuleCode:
+      relationship.deleteRuleCode && relationship.deleteRuleCode.length > 0
+        ? relationship.deleteRuleCode
+        : "Ignore",
+    hasDbConstraint: relationship.hasDbConstraint,
+    actualConstraints: relationship.actualConstraints
+  } satisfies NormalizedRelationship));
+
+const triggerSchema = z
+  .object({
+    name: requiredIdentifier("Trigger name"),
+    isDisabled: z.union([boolish, z.undefined()]).transform((value) => (value === undefined ? false : value)),
+    definition: z
+      .string({ required_error: "Trigger definition is required." })
+      .trim()
+      .min(1, { message: "Trigger definition is required." })
+  })
+  .transform((trigger) => ({
+    name: trigger.name,
+    isDisabled: trigger.isDisabled,
+    definition: trigger.definition
+  } satisfies NormalizedTrigger));
+
+const temporalSchema = z
+  .object({
+    type: optionalTrimmedString("Temporal type"),
+    historyTable: z
+      .union([
+        z
+          .object({
+            schema: optionalTrimmedString("Temporal history schema"),
+            name: optionalTrimmedString("Temporal history table name")
+          }),
+        z.null(),
+        z.undefined()
+      ])
+      .transform((value) => value ?? null),
+    periodStartColumn: optionalTrimmedString("Temporal period start column"),
+    periodEndColumn: optionalTrimmedString("Temporal period end column"),
+    retention: z
+      .union([
+        z
+          .object({
+            kind: optionalTrimmedString("Temporal retention kind"),
+            unit: optionalTrimmedString("Temporal retention unit"),
+            value: optionalNonNegativeInt("Temporal retention value")
+          }),
+        z.null(),
+        z.undefined()
+      ])
+      .transform((value) => value ?? null),
+    extendedProperties: extendedPropertiesSchema
+  })
+  .transform((temporal) => ({
+    type: temporal.type,
+    historyTable: temporal.historyTable,
+    periodStartColumn: temporal.periodStartColumn,
+    periodEndColumn: temporal.periodEndColumn,
+    retention: temporal.retention,
+    extendedProperties: temporal.extendedProperties
+  } satisfies NormalizedTemporal));
+
+export const entitySchema = z
+  .object({
+    name: requiredIdentifier("Entity logical name"),
+    physicalName: requiredIdentifier("Entity physical name"),
+    isStatic: boolish,
+    isExternal: boolish,
+    isActive: boolish,
+    db_catalog: optionalTrimmedString("Entity catalog"),
+    db_schema: requiredIdentifier("Entity schema"),
+    attributes: z.array(attributeSchema),
+    indexes: optionalArray(indexSchema),
+    relationships: optionalArray(relationshipSchema),
+    triggers: optionalArray(triggerSchema),
+    meta: metaDescription("Entity"),
+    extendedProperties: extendedPropertiesSchema,
+    temporal: z.union([temporalSchema, z.null(), z.undefined()]).transform((value) => value ?? null)
+  })
+  .transform((entity) => ({
+    name: entity.name,
+    physicalName: entity.physicalName,
+    schema: entity.db_schema,
+    catalog: entity.db_catalog,
+    isStatic: entity.isStatic,
+    isExternal: entity.isExternal,
+    isActive: entity.isActive,
+    description: entity.meta,
+    attributes: entity.attributes,
+    indexes: entity.indexes,
+    relationships: entity.relationships,
+    triggers: entity.triggers,
+    temporal: entity.temporal,
+    extendedProperties: entity.extendedProperties
+  } satisfies NormalizedEntity));
+
+const moduleFields = {
+  name: requiredIdentifier("Module name"),
+  isSystem: boolish,
+  isActive: boolish,
+  extendedProperties: extendedPropertiesSchema
+};
+
+const moduleSchema = z
+  .object({ ...moduleFields, entities: z.array(entitySchema) })
+  .transform((module) => ({
+    name: module.name,
+    isSystem: module.isSystem,
+    isActive: module.isActive,
+    entities: module.entities,
+    extendedProperties: module.extendedProperties
+  } satisfies NormalizedModule));
+
+const exportedAtUtcSchema = z
+  .union([z.string(), z.date(), z.null(), z.undefined()])
+  .transform((value, ctx) => {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    if (value instanceof Date) {
+      return value;
+    }
+
+    const trimmed = value.trim();
+    if (trimmed.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "exportedAtUtc must be a valid ISO-8601 timestamp when provided."
+      });
+      return z.NEVER;
+    }
+
+    const parsed = new Date(trimmed);
+    if (Number.isNaN(parsed.getTime())) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "exportedAtUtc must be a valid ISO-8601 timestamp when provided."
+      });
+      return z.NEVER;
+    }
+
+    return parsed;
+  });
+
+const sequenceSchema = z
+  .object({
+    schema: requiredIdentifier("Sequence schema"),
+    name: requiredIdentifier("Sequence name"),
+    dataType: requiredIdentifier("Sequence dataType"),
+    startValue: optionalNumber("Sequence start value"),
+    increment: optionalNumber("Sequence increment"),
+    minValue: optionalNumber("Sequence minimum value"),
+    maxValue: optionalNumber("Sequence maximum value"),
+    cycle: z.union([boolish, z.undefined()]).transform((value) => (value === undefined ? false : value)),
+    cacheMode: optionalTrimmedString("Sequence cache mode"),
+    cacheSize: optionalNonNegativeInt("Sequence cache size"),
+    extendedProperties: extendedPropertiesSchema
+  })
+  .transform((sequence) => ({
+    schema: sequence.schema,
+    name: sequence.name,
+    dataType: sequence.dataType,
+    startValue: sequence.startValue,
+    increment: sequence.increment,
+    minValue: sequence.minValue,
+    maxValue: sequence.maxValue,
+    cycle: sequence.cycle,
+    cacheMode: sequence.cacheMode,
+    cacheSize: sequence.cacheSize,
+    extendedProperties: sequence.extendedProperties
+  } satisfies NormalizedSequence));
+
+const modelFields = {
+  exportedAtUtc: exportedAtUtcSchema.optional(),
+  sequences: optionalArray(sequenceSchema),
+  extendedProperties: extendedPropertiesSchema
+};
+
+/**
+ * Shapes, types and required fields only. Unknown properties are dropped and the contract rules
+ * (identifiers, duplicate names, ...) are not checked; `modelSchema` in modelSchema.ts adds both.
+ */
+export const structuralModelSchema = z
+  .object({ ...modelFields, modules: z.array(moduleSchema) })
+  .transform((model) => ({
+    exportedAtUtc: model.exportedAtUtc ?? null,
+    modules: model.modules,
+    sequences: model.sequences,
+    extendedProperties: model.extendedProperties
+  } satisfies NormalizedModel));
+
+/**
+ * The module and model objects with their children left unchecked. The streaming validator checks
+ * each entity with {@link entitySchema} as it completes, then the shells once their children are gone.
+ */
+export const moduleShellSchema = z.object({ ...moduleFields, entities: z.array(z.unknown()) });
+
+export const modelShellSchema = z.object({ ...modelFields, modules: z.array(z.unknown()) });
+
+/** Unwraps effects, optionals and unions down to the object or array schema that would parse `value`. */
+function containerSchemaFor(schema: z.ZodTypeAny, value: unknown): z.AnyZodObject | z.ZodArray<z.ZodTypeAny> | null {
+  if (schema instanceof z.ZodEffects) {
+    return containerSchemaFor(schema.innerType(), value);
+  }
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return containerSchemaFor(schema.unwrap(), value);
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return containerSchemaFor(schema.removeDefault(), value);
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    for (const option of schema.options as z.ZodTypeAny[]) {
+      const match = containerSchemaFor(option, value);
+      if (match) {
+        return match;
+      }
+    }
+
+    return null;
+  }
+
+  if (schema instanceof z.ZodObject) {
+    return value !== null && typeof value === "object" && !Array.isArray(value) ? schema : null;
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return Array.isArray(value) ? schema : null;
+  }
+
+  return null;
+}
+
+/**
+ * Objects in `value` that carry properties `schema` does not declare, with those property names.
+ * The schemas strip such properties; the `object.unknownProperty` rule decides whether they matter.
+ */
+export function findUnknownProperties(
+  schema: z.ZodTypeAny,
+  value: unknown,
+  path: (string | number)[] = []
+): Array<{ path: (string | number)[]; keys: string[] }> {
+  const container = containerSchemaFor(schema, value);
+  if (container instanceof z.ZodArray) {
+    return (value as unknown[]).flatMap((item, index) => findUnknownProperties(container.element, item, [...path, index]));
+  }
+
+  if (!container) {
+    return [];
+  }
+
+  const record = value as Record<string, unknown>;
+  const shape = container.shape as Record<string, z.ZodTypeAny>;
+  const keys = Object.keys(record).filter((key) => !(key in shape));
+  const found = keys.length > 0 ? [{ path, keys }] : [];
+  Object.keys(shape)
+    .filter((key) => key in record)
+    .forEach((key) => found.push(...findUnknownProperties(shape[key], record[key], [...path, key])));
+  return found;
+}
+
+export function formatIssuePath(path: (string | number)[]): string {
+  if (path.length === 0) {
+    return "";
+  }
+
+  return path
+    .map((segment, index) => {
+      if (typeof segment === "number") {
+        return `[${segment}]`;
+      }
+
+      return index === 0 ? segment : `.${segment}`;
+    })
+    .join("");
+}
@@ -0,0 +1,280 @@
+import { checkExtractionExpectations, type ExtractionExpectations } from "./extractionManifest.js";
+import { locatePath, type JsonSource, type SourceLocation } from "./jsonSource.js";
+import { defaultModelRuleSet, lintModel, type ModelRuleSet } from "./modelRules.js";
+import { safeParseModelStructure, type NormalizedModel } from "./modelSchema.js";
+import { resolveModelReferences, type ReferenceIssue } from "./referenceResolution.js";
+import { resolveModelTypes, type TypeMappingPolicy } from "./typeMapping.js";
+
+/** `manifest` only runs for files listed in an extraction manifest; see {@link validateModel}. */
+export const VALIDATION_STAGES = ["load", "schema", "rules", "references", "types", "manifest"] as const;
+
+export type ValidationStage = (typeof VALIDATION_STAGES)[number];
+
+export type IssueSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  /** `schema.<zod code>` for schema issues, the rule id for rule issues, the checker's code (`reference.targetMissing`, `type.unmapped`, `manifest.moduleMissing`, ...) otherwise. */
+  readonly ruleId: string;
+  readonly severity: IssueSeverity;
+  readonly stage: ValidationStage;
+  readonly message: string;
+  readonly path: (string | number)[];
+  readonly module: string | null;
+  readonly entity: string | null;
+  readonly attribute: string | null;
+  /** Where the path points in the source file; `null` when positions were not tracked. */
+  readonly location: SourceLocation | null;
+}
+
+export interface ValidationSummary {
+  readonly file: string;
+  readonly valid: boolean;
+  /** First stage that reported errors; later stages did not run, except `manifest`. */
+  readonly failedStage: ValidationStage | null;
+  /** Extraction filters the file was checked against; `null` when it was not listed in a manifest. */
+  readonly expectations: ExtractionExpectations | null;
+  readonly errors: number;
+  readonly warnings: number;
+  /** Rule and reference issues dropped by a suppression in the rule configuration. */
+  readonly suppressed: number;
+  readonly modules: number;
+  readonly entities: number;
+  readonly attributes: number;
+}
+
+export interface ValidationReport {
+  readonly file: string;
+  readonly issues: ValidationIssue[];
+  readonly summary: ValidationSummary;
+  /** The normalized model with resolved types; `null` unless every stage passed. */
+  readonly model: NormalizedModel | null;
+  /** The validated file's text, kept for code frames; `null` when positions were not tracked. */
+  readonly sourceText: string | null;
+}
+
+function child(value: unknown, segment: string | number): unknown {
+  if (value === null || typeof value !== "object") {
+    return undefined;
+  }
+
+  return (value as Record<string | number, unknown>)[segment];
+}
+
+function nameOf(value: unknown, property: string): string | null {
+  const name = child(value, property);
+  return typeof name === "string" && name.trim().length > 0 ? name.trim() : null;
+}
+
+/** Reads the module/entity/attribute names a `modules[i].entities[j]...` path points into from the raw JSON. */
+export function describeIssuePath(raw: unknown, path: (string | number)[]): Pick<ValidationIssue, "module" | "entity" | "attribute"> {
+  let module: string | null = null;
+  let entity: string | null = null;
+  let attribute: string | null = null;
+  let current = raw;
+  for (let index = 0; index < path.length; index++) {
+    const segment = path[index];
+    const container = path[index - 1];
+    current = child(current, segment);
+    if (typeof segment !== "number") {
+      continue;
+    }
+
+    if (container === "modules") {
+      module = nameOf(current, "name");
+    } else if (container === "entities") {
+      entity = nameOf(current, "name");
+    } else if (container === "attributes") {
+      attribute = nameOf(current, "name");
+    } else if (container === "relationships") {
+      attribute = nameOf(current, "viaAttributeName");
+    }
+  }
+
+  return { module, entity, attribute };
+}
+
+export interface ModelCounts {
+  readonly modules: number;
+  readonly entities: number;
+  readonly attributes: number;
+}
+
+function countModel(model: NormalizedModel | null): ModelCounts {
+  const entities = model?.modules.flatMap((module) => module.entities) ?? [];
+  return {
+    modules: model?.modules.length ?? 0,
+    entities: entities.length,
+    attributes: entities.reduce((total, entity) => total + entity.attributes.length, 0)
+  };
+}
+
+/** Assembles a report; exported for validators that count the model themselves (the streaming one). */
+export function createValidationReport(
+  file: string,
+  issues: ValidationIssue[],
+  model: NormalizedModel | null,
+  counts: ModelCounts,
+  sourceText: string | null,
+  expectations: ExtractionExpectations | null = null,
+  suppressed = 0
+): ValidationReport {
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+  const failedStage = VALIDATION_STAGES.find((stage) =>
+    issues.some((issue) => issue.severity === "error" && issue.stage === stage)
+  );
+  return {
+    file,
+    issues,
+    model,
+    sourceText,
+    summary: {
+      file,
+      valid: errors === 0,
+      failedStage: failedStage ?? null,
+      expectations,
+      errors,
+      warnings: issues.length - errors,
+      suppressed,
+      ...counts
+    }
+  };
+}
+
+function report(
+  file: string,
+  issues: ValidationIssue[],
+  model: NormalizedModel | null,
+  counted: NormalizedModel | null,
+  sourceText: string | null,
+  expectations: ExtractionExpectations | null = null,
+  suppressed = 0
+): ValidationReport {
+  return createValidationReport(file, issues, model, countModel(counted), sourceText, expectations, suppressed);
+}
+
+/** Report for a file that could not be read or is not JSON; syntax errors carry their position. */
+export function loadFailureReport(
+  file: string,
+  message: string,
+  location: SourceLocation | null = null,
+  sourceText: string | null = null,
+  expectations: ExtractionExpectations | null = null
+): ValidationReport {
+  return report(
+    file,
+    [{ ruleId: "load.json", severity: "error", stage: "load", message, path: [], module: null, entity: null, attribute: null, location }],
+    null,
+    null,
+    sourceText,
+    expectations
+  );
+}
+
+/**
+ * Gives reference issues the severity of their rule in `rules`, dropping those whose rule is off.
+ * Suppressions are left to the caller, which counts them.
+ */
+export function classifyReferenceIssues(
+  issues: readonly ReferenceIssue[],
+  rules: ModelRuleSet,
+  context: (path: (string | number)[]) => Pick<ValidationIssue, "module" | "entity" | "attribute" | "location">
+): ValidationIssue[] {
+  return issues.flatMap((issue): ValidationIssue[] => {
+    const severity = rules.issueSeverityOf(issue.code);
+    return severity
+      ? [{ ruleId: issue.code, severity, stage: "references", message: issue.message, path: issue.path, ...context(issue.path) }]
+      : [];
+  });
+}
+
+/**
+ * Runs the validation stages the `validate` command performs (schema, model rules, reference
+ * resolution, type resolution), stopping at the first stage that reports errors; warnings do not
+ * stop it. Pass the {@link JsonSource} the raw value came from to get `file:line:column`
+ * locations, and a {@link ModelRuleSet} to change rule and reference check severities and
+ * suppressions.
+ *
+ * With `expectations` (the filters of the extraction manifest case that produced the file), the
+ * `manifest` stage checks the raw JSON against them as well. It runs whatever the other stages
+ * report, so a file that fails the schema still shows which filters it breaks.
+ */
+export function validateModel(
+  raw: unknown,
+  file: string,
+  typeMapping: TypeMappingPolicy,
+  source: JsonSource | null = null,
+  expectations: ExtractionExpectations | null = null,
+  rules: ModelRuleSet = defaultModelRuleSet
+): ValidationReport {
+  const sourceText = source?.text ?? null;
+  const context = (path: (string | number)[]) => ({
+    ...describeIssuePath(raw, path),
+    location: source ? locatePath(source, path) : null
+  });
+  const manifestIssues = expectations
+    ? checkExtractionExpectations(raw, expectations).map(
+        (issue): ValidationIssue => ({
+          ruleId: issue.code,
+          severity: "error",
+          stage: "manifest",
+          message: issue.message,
+          path: issue.path,
+          ...context(issue.path)
+        })
+      )
+    : [];
+  const parsed = safeParseModelStructure(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(
+      (issue): ValidationIssue => ({
+        ruleId: `schema.${issue.code}`,
+        severity: "error",
+        stage: "schema",
+        message: issue.message,
+        path: issue.path,
+        ...context(issue.path)
+      })
+    );
+    return report(file, [...issues, ...manifestIssues], null, null, sourceText, expectations);
+  }
+
+  const model = parsed.data;
+  const ruleIssues = lintModel(model, raw, rules).map(
+    (issue): ValidationIssue => ({ ...issue, stage: "rules", ...context(issue.path) })
+  );
+  const reportedRuleIssues = ruleIssues.filter((issue) => !rules.suppresses(issue));
+  let suppressed = ruleIssues.length - reportedRuleIssues.length;
+  if (reportedRuleIssues.some((issue) => issue.severity === "error")) {
+    return report(file, [...reportedRuleIssues, ...manifestIssues], null, model, sourceText, expectations, suppressed);
+  }
+
+  const referenceIssues = classifyReferenceIssues(resolveModelReferences(model), rules, context);
+  const reportedReferenceIssues = referenceIssues.filter((issue) => !rules.suppresses(issue));
+  suppressed += referenceIssues.length - reportedReferenceIssues.length;
+  const checkedIssues = [...reportedRuleIssues, ...reportedReferenceIssues];
+  if (reportedReferenceIssues.some((issue) => issue.severity === "error")) {
+    return report(file, [...checkedIssues, ...manifestIssues], null, model, sourceText, expectations, suppressed);
+  }
+
+  const typed = resolveModelTypes(model, typeMapping);
+  const issues = typed.issues.map(
+    (issue): ValidationIssue => ({
+      ruleId: issue.code,
+      severity: "error",
+      stage: "types",
+      message: issue.message,
+      path: issue.path,
+      ...context(issue.path)
+    })
+  );
+  const failed = issues.length + manifestIssues.length > 0;
+  return report(
+    file,
+    [...checkedIssues, ...issues, ...manifestIssues],
+    failed ? null : typed.model,
+    typed.model,
+    sourceText,
+    expectations,
+    suppressed
+  );
+}
@@ -0,0 +1,92 @@
+import type {
+  NormalizedAttribute,
+  NormalizedEntity,
+  NormalizedIndex,
+  NormalizedIndexColumn,
+  NormalizedModel,
+  NormalizedModule,
+  NormalizedRelationship,
+  NormalizedSequence,
+  NormalizedTrigger
+} from "./modelSchema.js";
+
+/** Where a node sits in the export, as the same `modules[i].entities[j]...` path validation issues use. */
+export interface VisitContext {
+  readonly path: readonly (string | number)[];
+}
+
+export interface ModuleMemberContext extends VisitContext {
+  readonly module: NormalizedModule;
+}
+
+export interface EntityMemberContext extends ModuleMemberContext {
+  readonly entity: NormalizedEntity;
+}
+
+export interface IndexMemberContext extends EntityMemberContext {
+  readonly index: NormalizedIndex;
+}
+
+/**
+ * Callbacks per kind of node, all optional. Returning `false` from a callback for a node with
+ * children (module, entity, index) skips those children.
+ */
+export interface ModelVisitor {
+  module?(module: NormalizedModule, context: VisitContext): void | false;
+  entity?(entity: NormalizedEntity, context: ModuleMemberContext): void | false;
+  attribute?(attribute: NormalizedAttribute, context: EntityMemberContext): void;
+  index?(index: NormalizedIndex, context: EntityMemberContext): void | false;
+  indexColumn?(column: NormalizedIndexColumn, context: IndexMemberContext): void;
+  relationship?(relationship: NormalizedRelationship, context: EntityMemberContext): void;
+  trigger?(trigger: NormalizedTrigger, context: EntityMemberContext): void;
+  sequence?(sequence: NormalizedSequence, context: VisitContext): void;
+}
+
+/**
+ * Visits a parsed model depth-first in export order: each module, then its entities, and within an
+ * entity its attributes, indexes (and their columns), relationships and triggers; top-level
+ * sequences come last. Paths index the arrays of the original export, so they can be passed to
+ * `formatIssuePath` or used to locate the node in the source JSON.
+ */
+export function walkModel(model: NormalizedModel, visitor: ModelVisitor): void {
+  model.modules.forEach((module, moduleIndex) => {
+    const modulePath = ["modules", moduleIndex];
+    if (visitor.module?.(module, { path: modulePath }) === false) {
+      return;
+    }
+
+    module.entities.forEach((entity, entityIndex) => {
+      const entityPath = [...modulePath, "entities", entityIndex];
+      if (visitor.entity?.(entity, { path: entityPath, module }) === false) {
+        return;
+      }
+
+      entity.attributes.forEach((attribute, attributeIndex) => {
+        visitor.attribute?.(attribute, { path: [...entityPath, "attributes", attributeIndex], module, entity });
+      });
+
+      entity.indexes.forEach((index, indexIndex) => {
+        const indexPath = [...entityPath, "indexes", indexIndex];
+        if (visitor.index?.(index, { path: indexPath, module, entity }) === false) {
+          return;
+        }
+
+        index.columns.forEach((column, columnIndex) => {
+          visitor.indexColumn?.(column, { path: [...indexPath, "columns", columnIndex], module, entity, index });
+        });
+      });
+
+      entity.relationships.forEach((relationship, relationshipIndex) => {
+        visitor.relationship?.(relationship, { path: [...entityPath, "relationships", relationshipIndex], module, entity });
+      });
+
+      entity.triggers.forEach((trigger, triggerIndex) => {
+        visitor.trigger?.(trigger, { path: [...entityPath, "triggers", triggerIndex], module, entity });
+      });
+    });
+  });
+
+  model.sequences.forEach((sequence, sequenceIndex) => {
+    visitor.sequence?.(sequence, { path: ["sequences", sequenceIndex] });
+  });
+}
@@ -0,0 +1,444 @@
+import { z } from "zod";
+
+import { probeStatusSchema, type ProbeStatus } from "./profileSchema.js";
+import type { OpportunityCategory, OpportunityType, RiskLevel } from "./tighteningPreview.js";
+
+export const OPPORTUNITY_TYPES = ["Nullability", "UniqueIndex", "ForeignKey"] as const satisfies readonly OpportunityType[];
+export const OPPORTUNITY_DISPOSITIONS = ["Unknown", "ReadyToApply", "NeedsRemediation"] as const;
+export const OPPORTUNITY_CATEGORIES = [
+  "Unknown",
+  "Contradiction",
+  "Recommendation",
+  "Validation"
+] as const satisfies readonly OpportunityCategory[];
+export const RISK_LEVELS = ["Unknown", "Low", "Moderate", "High"] as const satisfies readonly RiskLevel[];
+
+/** `OpportunityDisposition` as the .NET report writes it, including the `Unknown` default. */
+export type ReportedDisposition = (typeof OPPORTUNITY_DISPOSITIONS)[number];
+
+export interface ColumnLocation {
+  readonly schema: string;
+  readonly table: string;
+  readonly column: string;
+}
+
+export interface IndexLocation {
+  readonly schema: string;
+  readonly table: string;
+  readonly index: string;
+}
+
+export interface OrphanSample {
+  readonly primaryKeyColumns: string[];
+  readonly foreignKeyColumn: string;
+  /** Display strings for the sampled rows, e.g. `(101) -> 'MissingCustomer'`. */
+  readonly rows: string[];
+  readonly totalOrphans: number;
+  readonly isTruncated: boolean;
+}
+
+/** Per-column profiling detail attached to a finding (`OpportunityColumn` in .NET). */
+export interface FindingColumn extends ColumnLocation {
+  readonly module: string;
+  readonly entity: string;
+  readonly attribute: string;
+  readonly dataType: string;
+  readonly sqlType: string | null;
+  readonly physicalNullable: boolean | null;
+  readonly physicalUnique: boolean | null;
+  readonly rowCount: number | null;
+  readonly nullCount: number | null;
+  readonly nullProbe: ProbeStatus | null;
+  readonly hasDuplicates: boolean | null;
+  readonly uniqueProbe: ProbeStatus | null;
+  readonly hasOrphans: boolean | null;
+  readonly orphanCount: number | null;
+  readonly orphanSample: OrphanSample | null;
+  readonly hasDatabaseConstraint: boolean | null;
+  readonly deleteRule: string | null;
+}
+
+export interface ValidationFinding {
+  readonly type: OpportunityType;
+  readonly title: string;
+  readonly summary: string;
+  readonly evidence: string[];
+  readonly rationales: string[];
+  readonly column: ColumnLocation | null;
+  readonly index: IndexLocation | null;
+  readonly schema: string | null;
+  readonly table: string | null;
+  readonly constraintName: string | null;
+  readonly columns: FindingColumn[];
+}
+
+export interface FindingRisk {
+  readonly level: RiskLevel;
+  readonly label: string;
+  readonly description: string;
+}
+
+export interface EvidenceSummary {
+  readonly requiresRemediation: boolean;
+  readonly evidenceAvailable: boolean;
+  readonly dataClean: boolean | null;
+  readonly hasDuplicates: boolean | null;
+  readonly hasOrphans: boolean | null;
+}
+
+export interface OpportunityFinding extends ValidationFinding {
+  readonly risk: FindingRisk;
+  readonly disposition: ReportedDisposition;
+  readonly category: OpportunityCategory;
+  readonly statements: string[];
+  readonly evidenceSummary: EvidenceSummary | null;
+}
+
+export interface OpportunitiesReport {
+  readonly opportunities: OpportunityFinding[];
+  readonly generatedAtUtc: string;
+}
+
+export interface ValidationsReport {
+  readonly validations: ValidationFinding[];
+  readonly generatedAtUtc: string;
+}
+
+function requiredName(label: string) {
+  return z
+    .string({ required_error: `${label} is required.`, invalid_type_error: `${label} must be a string.` })
+    .trim()
+    .min(1, { message: `${label} must not be empty.` });
+}
+
+function count(label: string) {
+  return z
+    .number({ required_error: `${label} is required.`, invalid_type_error: `${label} must be a number.` })
+    .int({ message: `${label} must be an integer.` })
+    .min(0, { message: `${label} must be zero or positive.` });
+}
+
+function optionalValue<T extends z.ZodTypeAny>(schema: T) {
+  return z.union([schema, z.null(), z.undefined()]).transform((value): z.output<T> | null => value ?? null);
+}
+
+function optionalArray<T extends z.ZodTypeAny>(schema: T) {
+  return z.union([z.array(schema), z.null(), z.undefined()]).transform((value) => value ?? ([] as z.output<T>[]));
+}
+
+function wrapped(label: string) {
+  return z
+    .object({ Value: requiredName(label) })
+    .strict()
+    .transform((value) => value.Value);
+}
+
+const timestampSchema = z
+  .string({ required_error: "GeneratedAtUtc is required." })
+  .refine((value) => !Number.isNaN(new Date(value).getTime()), {
+    message: "GeneratedAtUtc must be a valid ISO-8601 timestamp."
+  });
+
+const columnCoordinateSchema = z
+  .object({ Schema: wrapped("Schema"), Table: wrapped("Table"), Column: wrapped("Column") })
+  .strict()
+  .transform((coordinate): ColumnLocation => ({
+    schema: coordinate.Schema,
+    table: coordinate.Table,
+    column: coordinate.Column
+  }));
+
+const indexCoordinateSchema = z
+  .object({ Schema: wrapped("Schema"), Table: wrapped("Table"), Index: wrapped("Index") })
+  .strict()
+  .transform((coordinate): IndexLocation => ({
+    schema: coordinate.Schema,
+    table: coordinate.Table,
+    index: coordinate.Index
+  }));
+
+// ModuleName, EntityName, TableName and AttributeName are computed properties the serializer echoes.
+const columnIdentitySchema = z
+  .object({
+    Coordinate: columnCoordinateSchema,
+    Module: wrapped("Module"),
+    EntityLogicalName: wrapped("EntityLogicalName"),
+    EntityPhysicalName: wrapped("EntityPhysicalName"),
+    AttributeLogicalName: wrapped("AttributeLogicalName"),
+    ModuleName: z.string().optional(),
+    EntityName: z.string().optional(),
+    TableName: z.string().optional(),
+    AttributeName: z.string().optional()
+  })
+  .strict();
+
+const orphanSampleSchema = z
+  .object({
+    PrimaryKeyColumns: optionalArray(z.string()),
+    ForeignKeyColumn: requiredName("ForeignKeyColumn"),
+    Rows: optionalArray(
+      z
+        .object({
+          PrimaryKeyValues: optionalArray(z.unknown()),
+          ForeignKeyValue: z.unknown(),
+          Display: z.string({ required_error: "Display is required." })
+        })
+        .strict()
+    ),
+    TotalOrphans: count("TotalOrphans"),
+    IsTruncated: z.boolean(),
+    DisplayedRowCount: count("DisplayedRowCount").optional()
+  })
+  .strict()
+  .transform(
+    (sample): OrphanSample => ({
+      primaryKeyColumns: sample.PrimaryKeyColumns,
+      foreignKeyColumn: sample.ForeignKeyColumn,
+      rows: sample.Rows.map((row) => row.Display),
+      totalOrphans: sample.TotalOrphans,
+      isTruncated: sample.IsTruncated
+    })
+  );
+
+const findingColumnSchema = z
+  .object({
+    Identity: columnIdentitySchema,
+    DataType: requiredName("DataType"),
+    SqlType: optionalValue(z.string()),
+    PhysicalNullable: optionalValue(z.boolean()),
+    PhysicalUnique: optionalValue(z.boolean()),
+    RowCount: optionalValue(count("RowCount")),
+    NullCount: optionalValue(count("NullCount")),
+    NullProbeStatus: optionalValue(probeStatusSchema),
+    HasDuplicates: optionalValue(z.boolean()),
+    UniqueProbeStatus: optionalValue(probeStatusSchema),
+    HasOrphans: optionalValue(z.boolean()),
+    OrphanCount: optionalValue(count("OrphanCount")),
+    OrphanSample: optionalValue(orphanSampleSchema),
+    HasDatabaseConstraint: optionalValue(z.boolean()),
+    DeleteRule: optionalValue(z.string()),
+    Coordinate: columnCoordinateSchema.optional(),
+    Module: z.string().optional(),
+    Entity: z.string().optional(),
+    Attribute: z.string().optional()
+  })
+  .strict()
+  .transform(
+    (column): FindingColumn => ({
+      module: column.Identity.Module,
+      entity: column.Identity.EntityLogicalName,
+      attribute: column.Identity.AttributeLogicalName,
+      ...column.Identity.Coordinate,
+      dataType: column.DataType,
+      sqlType: column.SqlType,
+      physicalNullable: column.PhysicalNullable,
+      physicalUnique: column.PhysicalUnique,
+      rowCount: column.RowCount,
+      nullCount: column.NullCount,
+      nullProbe: column.NullProbeStatus,
+      hasDuplicates: column.HasDuplicates,
+      uniqueProbe: column.UniqueProbeStatus,
+      hasOrphans: column.HasOrphans,
+      orphanCount: column.OrphanCount,
+      orphanSample: column.OrphanSample,
+      hasDatabaseConstraint: column.HasDatabaseConstraint,
+      deleteRule: column.DeleteRule
+    })
+  );
+
+const findingShape = {
+  Type: z.enum(OPPORTUNITY_TYPES),
+  Title: requiredName("Title"),
+  Summary: requiredName("Summary"),
+  Evidence: optionalArray(z.string()),
+  Rationales: optionalArray(z.string()),
+  Column: optionalValue(columnCoordinateSchema),
+  Index: optionalValue(indexCoordinateSchema),
+  Schema: optionalValue(z.string()),
+  Table: optionalValue(z.string()),
+  ConstraintName: optionalValue(z.string()),
+  Columns: optionalArray(findingColumnSchema)
+};
+
+type FindingInput = z.output<z.ZodObject<typeof findingShape>>;
+
+function toValidationFinding(finding: FindingInput): ValidationFinding {
+  return {
+    type: finding.Type,
+    title: finding.Title,
+    summary: finding.Summary,
+    evidence: finding.Evidence,
+    rationales: finding.Rationales,
+    column: finding.Column,
+    index: finding.Index,
+    schema: finding.Schema,
+    table: finding.Table,
+    constraintName: finding.ConstraintName,
+    columns: finding.Columns
+  };
+}
+
+const validationFindingSchema = z.object(findingShape).strict().transform(toValidationFinding);
+
+const opportunityFindingSchema = z
+  .object({
+    ...findingShape,
+    Risk: z
+      .object({
+        Level: z.enum(RISK_LEVELS),
+        Label: requiredName("Risk.Label"),
+        Description: requiredName("Risk.Description")
+      })
+      .strict(),
+    Disposition: z.enum(OPPORTUNITY_DISPOSITIONS),
+    Category: z.enum(OPPORTUNITY_CATEGORIES),
+    Statements: optionalArray(z.string()),
+    HasStatements: z.boolean().optional(),
+    EvidenceSummary: optionalValue(
+      z
+        .object({
+          RequiresRemediation: z.boolean(),
+          EvidenceAvailable: z.boolean(),
+          DataClean: optionalValue(z.boolean()),
+          HasDuplicates: optionalValue(z.boolean()),
+          HasOrphans: optionalValue(z.boolean())
+        })
+        .strict()
+    ),
+    // `npm run tightening-preview -- --json` adds the model location of each decision.
+    Module: z.string().optional(),
+    Entity: z.string().optional(),
+    Path: z.string().optional()
+  })
+  .strict()
+  .transform(
+    (finding): OpportunityFinding => ({
+      ...toValidationFinding(finding),
+      risk: { level: finding.Risk.Level, label: finding.Risk.Label, description: finding.Risk.Description },
+      disposition: finding.Disposition,
+      category: finding.Category,
+      statements: finding.Statements,
+      evidenceSummary: finding.EvidenceSummary && {
+        requiresRemediation: finding.EvidenceSummary.RequiresRemediation,
+        evidenceAvailable: finding.EvidenceSummary.EvidenceAvailable,
+        dataClean: finding.EvidenceSummary.DataClean,
+        hasDuplicates: finding.EvidenceSummary.HasDuplicates,
+        hasOrphans: finding.EvidenceSummary.HasOrphans
+      }
+    })
+  );
+
+/**
+ * The counts dictionaries are derived from the findings by the writer; a mismatch means the file was
+ * edited by hand or truncated, so it is reported rather than trusted.
+ */
+function checkCounts(
+  ctx: z.RefinementCtx,
+  label: string,
+  declared: Readonly<Partial<Record<string, number>>> | undefined,
+  values: readonly string[]
+): void {
+  if (declared === undefined) {
+    return;
+  }
+
+  const actual = new Map<string, number>();
+  values.forEach((value) => actual.set(value, (actual.get(value) ?? 0) + 1));
+  const keys = new Set([...Object.keys(declared), ...actual.keys()]);
+  keys.forEach((key) => {
+    const expected = actual.get(key) ?? 0;
+    const found = declared[key] ?? 0;
+    if (found !== expected) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [label, key],
+        message: `${label}.${key} is ${found} but ${expected} finding${expected === 1 ? " has" : "s have"} that value.`
+      });
+    }
+  });
+}
+
+function checkTotal(ctx: z.RefinementCtx, label: string, declared: number | undefined, actual: number): void {
+  if (declared !== undefined && declared !== actual) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [label],
+      message: `${label} is ${declared} but the report lists ${actual} finding${actual === 1 ? "" : "s"}.`
+    });
+  }
+}
+
+/**
+ * Schema for the `opportunities.json` report the .NET pipeline writes next to the suggestion scripts
+ * (`tests/Fixtures/opportunities/opportunities.json`). Output of `npm run tightening-preview -- --json`
+ * is accepted too.
+ */
+export const opportunitiesReportSchema = z
+  .object({
+    Opportunities: z.array(opportunityFindingSchema, {
+      required_error: "Opportunities report must contain an 'Opportunities' array.",
+      invalid_type_error: "Opportunities report must contain an 'Opportunities' array."
+    }),
+    DispositionCounts: z.record(z.enum(OPPORTUNITY_DISPOSITIONS), count("DispositionCounts entry")).optional(),
+    CategoryCounts: z.record(z.enum(OPPORTUNITY_CATEGORIES), count("CategoryCounts entry")).optional(),
+    TypeCounts: z.record(z.enum(OPPORTUNITY_TYPES), count("TypeCounts entry")).optional(),
+    RiskCounts: z.record(z.enum(RISK_LEVELS), count("RiskCounts entry")).optional(),
+    GeneratedAtUtc: timestampSchema,
+    TotalCount: count("TotalCount").optional(),
+    ContradictionCount: count("ContradictionCount").optional(),
+    RecommendationCount: count("RecommendationCount").optional(),
+    ValidationCount: count("ValidationCount").optional(),
+    Mode: z.string().optional()
+  })
+  .strict()
+  .superRefine((report, ctx) => {
+    const findings = report.Opportunities;
+    checkCounts(ctx, "DispositionCounts", report.DispositionCounts, findings.map((finding) => finding.disposition));
+    checkCounts(ctx, "CategoryCounts", report.CategoryCounts, findings.map((finding) => finding.category));
+    checkCounts(ctx, "TypeCounts", report.TypeCounts, findings.map((finding) => finding.type));
+    checkCounts(ctx, "RiskCounts", report.RiskCounts, findings.map((finding) => finding.risk.level));
+    checkTotal(ctx, "TotalCount", report.TotalCount, findings.length);
+    const byCategory = (category: OpportunityCategory) => findings.filter((finding) => finding.category === category).length;
+    checkTotal(ctx, "ContradictionCount", report.ContradictionCount, byCategory("Contradiction"));
+    checkTotal(ctx, "RecommendationCount", report.RecommendationCount, byCategory("Recommendation"));
+    checkTotal(ctx, "ValidationCount", report.ValidationCount, byCategory("Validation"));
+  })
+  .transform(
+    (report): OpportunitiesReport => ({ opportunities: report.Opportunities, generatedAtUtc: report.GeneratedAtUtc })
+  );
+
+/** Schema for the `validations.json` report: constraints profiling confirmed are already enforced. */
+export const validationsReportSchema = z
+  .object({
+    Validations: z.array(validationFindingSchema, {
+      required_error: "Validations report must contain a 'Validations' array.",
+      invalid_type_error: "Validations report must contain a 'Validations' array."
+    }),
+    TypeCounts: z.record(z.enum(OPPORTUNITY_TYPES), count("TypeCounts entry")).optional(),
+    GeneratedAtUtc: timestampSchema,
+    TotalCount: count("TotalCount").optional()
+  })
+  .strict()
+  .superRefine((report, ctx) => {
+    checkCounts(ctx, "TypeCounts", report.TypeCounts, report.Validations.map((finding) => finding.type));
+    checkTotal(ctx, "TotalCount", report.TotalCount, report.Validations.length);
+  })
+  .transform(
+    (report): ValidationsReport => ({ validations: report.Validations, generatedAtUtc: report.GeneratedAtUtc })
+  );
+
+export function parseOpportunitiesJson(input: unknown): OpportunitiesReport {
+  return opportunitiesReportSchema.parse(input);
+}
+
+export function safeParseOpportunitiesJson(input: unknown) {
+  return opportunitiesReportSchema.safeParse(input);
+}
+
+export function parseValidationsJson(input: unknown): ValidationsReport {
+  return validationsReportSchema.parse(input);
+}
+
+export function safeParseValidationsJson(input: unknown) {
+  return validationsReportSchema.safeParse(input);
+}
@@ -0,0 +1,391 @@
+import type {
+  OpportunitiesReport,
+  OpportunityFinding,
+  ReportedDisposition,
+  ValidationFinding,
+  ValidationsReport
+} from "./opportunitiesSchema.js";
+import type { OpportunityCategory, RiskLevel } from "./tighteningPreview.js";
+
+export const REPORT_FORMATS = ["markdown", "html"] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface RiskGroup {
+  readonly level: RiskLevel;
+  readonly findings: OpportunityFinding[];
+}
+
+export interface CategoryGroup {
+  readonly category: OpportunityCategory;
+  readonly risks: RiskGroup[];
+  readonly count: number;
+}
+
+export interface DispositionGroup {
+  readonly disposition: ReportedDisposition;
+  readonly categories: CategoryGroup[];
+  readonly count: number;
+  readonly riskCounts: Readonly<Record<RiskLevel, number>>;
+}
+
+export interface FindingsReport {
+  readonly generatedAtUtc: string;
+  readonly opportunityCount: number;
+  /** Non-empty groups only, remediation first. */
+  readonly dispositions: DispositionGroup[];
+  /** `null` when no validations report was supplied. */
+  readonly validations: ValidationFinding[] | null;
+}
+
+// Most urgent first: what blocks the change, then what can ship, then what is already enforced.
+const DISPOSITION_ORDER: readonly ReportedDisposition[] = ["NeedsRemediation", "ReadyToApply", "Unknown"];
+const CATEGORY_ORDER: readonly OpportunityCategory[] = ["Contradiction", "Recommendation", "Validation", "Unknown"];
+const RISK_ORDER: readonly RiskLevel[] = ["High", "Moderate", "Low", "Unknown"];
+
+const DISPOSITION_HEADINGS: Record<ReportedDisposition, string> = {
+  NeedsRemediation: "Needs remediation",
+  ReadyToApply: "Safe to apply",
+  Unknown: "Unclassified"
+};
+
+// Same wording as the headers of the .NET suggestion scripts.
+const CATEGORY_DESCRIPTIONS: Record<OpportunityCategory, string> = {
+  Contradiction: "Data violates model expectations and requires manual remediation.",
+  Recommendation: "New constraints that could be safely applied.",
+  Validation: "Existing constraints that profiling confirmed.",
+  Unknown: "Findings the pipeline could not classify."
+};
+
+export function buildFindingsReport(
+  opportunities: OpportunitiesReport,
+  validations: ValidationsReport | null
+): FindingsReport {
+  const dispositions = DISPOSITION_ORDER.map((disposition): DispositionGroup => {
+    const findings = opportunities.opportunities.filter((finding) => finding.disposition === disposition);
+    const categories = CATEGORY_ORDER.map((category): CategoryGroup => {
+      const inCategory = findings.filter((finding) => finding.category === category);
+      const risks = RISK_ORDER.map((level) => ({
+        level,
+        findings: inCategory.filter((finding) => finding.risk.level === level)
+      })).filter((group) => group.findings.length > 0);
+      return { category, risks, count: inCategory.length };
+    }).filter((group) => group.count > 0);
+
+    const riskCounts = Object.fromEntries(
+      RISK_ORDER.map((level) => [level, findings.filter((finding) => finding.risk.level === level).length])
+    ) as Record<RiskLevel, number>;
+    return { disposition, categories, count: findings.length, riskCounts };
+  }).filter((group) => group.count > 0);
+
+  return {
+    generatedAtUtc: opportunities.generatedAtUtc,
+    opportunityCount: opportunities.opportunities.length,
+    dispositions,
+    validations: validations?.validations ?? null
+  };
+}
+
+function plural(count: number, noun: string, pluralNoun = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : pluralNoun}`;
+}
+
+/** `schema.table.column`, or `schema.table` plus the index or constraint name when no single column applies. */
+function findingTarget(finding: ValidationFinding): string {
+  if (finding.column) {
+    return `${finding.column.schema}.${finding.column.table}.${finding.column.column}`;
+  }
+
+  if (finding.index) {
+    return `${finding.index.schema}.${finding.index.table}`;
+  }
+
+  return [finding.schema, finding.table].filter((part) => part).join(".");
+}
+
+function findingConstraint(finding: ValidationFinding): string | null {
+  const name = finding.index?.index ?? finding.constraintName;
+  // Nullability findings repeat the column name as their constraint name.
+  if (!name || name === finding.column?.column) {
+    return null;
+  }
+
+  return name;
+}
+
+/** `Module › Entity.Attribute` for each profiled column, when the finding carries column detail. */
+function findingModelLocation(finding: ValidationFinding): string | null {
+  if (finding.columns.length === 0) {
+    return null;
+  }
+
+  return finding.columns.map((column) => `${column.module} › ${column.entity}.${column.attribute}`).join(", ");
+}
+
+function summaryRows(report: FindingsReport): Array<[string, ...number[]]> {
+  return report.dispositions.map((group) => [
+    DISPOSITION_HEADINGS[group.disposition],
+    group.count,
+    ...RISK_ORDER.map((level) => group.riskCounts[level])
+  ]);
+}
+
+// ---------------------------------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------------------------------
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/[\\`*_[\]|<>#]/g, (character) => `\\${character}`);
+}
+
+function inlineCode(value: string): string {
+  const longestRun = Math.max(0, ...(value.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  const padding = longestRun > 0 ? " " : "";
+  return `${fence}${padding}${value}${padding}${fence}`;
+}
+
+function sqlBlock(statements: readonly string[]): string {
+  const body = statements.join("\n\n");
+  const longestRun = Math.max(2, ...(body.match(/`{3,}/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  return `${fence}sql\n${body}\n${fence}`;
+}
+
+function markdownEvidence(evidence: readonly string[]): string {
+  return evidence.length === 0 ? "_No evidence recorded._" : evidence.map((entry) => `- ${inlineCode(entry)}`).join("\n");
+}
+
+function markdownFinding(finding: OpportunityFinding): string[] {
+  const constraint = findingConstraint(finding);
+  const lines = [
+    `##### ${escapeMarkdown(finding.title)} · ${inlineCode(findingTarget(finding))}${constraint ? ` (${inlineCode(constraint)})` : ""}`,
+    "",
+    escapeMarkdown(finding.summary),
+    "",
+    `- **Risk:** ${escapeMarkdown(finding.risk.label)} — ${escapeMarkdown(finding.risk.description)}`
+  ];
+
+  const location = findingModelLocation(finding);
+  if (location) {
+    lines.push(`- **Model:** ${escapeMarkdown(location)}`);
+  }
+
+  if (finding.rationales.length > 0) {
+    lines.push(`- **Rationales:** ${finding.rationales.map(inlineCode).join(", ")}`);
+  }
+
+  // An HTML table keeps the evidence beside the statements it justifies; GitHub and Azure DevOps
+  // render the Markdown inside each cell because of the blank lines around it.
+  lines.push(
+    "",
+    "<table>",
+    "<tr><th>Evidence</th><th>Statements</th></tr>",
+    "<tr>",
+    "<td>",
+    "",
+    markdownEvidence(finding.evidence),
+    "",
+    "</td>",
+    "<td>",
+    "",
+    finding.statements.length === 0 ? "_No statements._" : sqlBlock(finding.statements),
+    "",
+    "</td>",
+    "</tr>",
+    "</table>",
+    ""
+  );
+  return lines;
+}
+
+function markdownValidation(finding: ValidationFinding): string[] {
+  const constraint = findingConstraint(finding);
+  const lines = [
+    `- **${escapeMarkdown(finding.title)}** ${inlineCode(findingTarget(finding))}${constraint ? ` (${inlineCode(constraint)})` : ""} — ${escapeMarkdown(finding.summary)}`
+  ];
+  finding.evidence.forEach((entry) => lines.push(`  - ${inlineCode(entry)}`));
+  return lines;
+}
+
+/**
+ * Renders the findings as GitHub-flavoured Markdown meant to be pasted as a comment on (or into the
+ * "Data remediation" section of) a schema-change pull request.
+ */
+export function renderMarkdown(report: FindingsReport): string {
+  const lines = [
+    "## Tightening findings",
+    "",
+    `Generated ${report.generatedAtUtc} · ${plural(report.opportunityCount, "opportunity", "opportunities")}` +
+      (report.validations ? ` · ${plural(report.validations.length, "validation")}` : ""),
+    ""
+  ];
+
+  if (report.dispositions.length === 0) {
+    lines.push("No tightening opportunities were found.", "");
+  } else {
+    lines.push(
+      `| Disposition | Findings | ${RISK_ORDER.join(" | ")} |`,
+      `|---|---:|${RISK_ORDER.map(() => "---:").join("|")}|`,
+      ...summaryRows(report).map((row) => `| ${row.join(" | ")} |`),
+      ""
+    );
+  }
+
+  report.dispositions.forEach((group) => {
+    lines.push(`### ${DISPOSITION_HEADINGS[group.disposition]} (${group.count})`, "");
+    group.categories.forEach((category) => {
+      lines.push(`#### ${category.category} (${category.count})`, "", `_${CATEGORY_DESCRIPTIONS[category.category]}_`, "");
+      category.risks.forEach((risk) => {
+        lines.push(`**${risk.level} risk (${risk.findings.length})**`, "");
+        risk.findings.forEach((finding) => lines.push(...markdownFinding(finding)));
+      });
+    });
+  });
+
+  if (report.validations) {
+    lines.push(`### Already enforced (${report.validations.length})`, "");
+    if (report.validations.length === 0) {
+      lines.push("No constraints were validated.");
+    } else {
+      report.validations.forEach((finding) => lines.push(...markdownValidation(finding)));
+    }
+    lines.push("");
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+// ---------------------------------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------------------------------
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 72rem; padding: 0 1rem; color: #1f2328; }
+  table.summary { border-collapse: collapse; margin-bottom: 1.5rem; }
+  table.summary th, table.summary td { border: 1px solid #d0d7de; padding: 0.25rem 0.75rem; text-align: right; }
+  table.summary th:first-child, table.summary td:first-child { text-align: left; }
+  section.finding { border: 1px solid #d0d7de; border-radius: 6px; margin: 0 0 1rem; padding: 0.75rem 1rem; }
+  section.finding h5 { font-size: 1rem; margin: 0 0 0.5rem; }
+  .risk-High { border-left: 6px solid #cf222e; }
+  .risk-Moderate { border-left: 6px solid #bf8700; }
+  .risk-Low { border-left: 6px solid #1a7f37; }
+  .risk-Unknown { border-left: 6px solid #8c959f; }
+  .columns { display: grid; grid-template-columns: minmax(0, 1fr) minmax(0, 1.5fr); gap: 1rem; }
+  .columns h6 { font-size: 0.85rem; margin: 0.5rem 0; text-transform: uppercase; color: #59636e; }
+  pre { background: #f6f8fa; padding: 0.5rem; overflow-x: auto; white-space: pre-wrap; }
+  code { font-family: ui-monospace, monospace; font-size: 0.85rem; }
+  .meta { color: #59636e; }
+`;
+
+function htmlList(items: readonly string[], empty: string): string {
+  if (items.length === 0) {
+    return `<p class="meta">${empty}</p>`;
+  }
+
+  return `<ul>${items.map((item) => `<li><code>${escapeHtml(item)}</code></li>`).join("")}</ul>`;
+}
+
+function htmlHeading(finding: ValidationFinding): string {
+  const constraint = findingConstraint(finding);
+  return `${escapeHtml(finding.title)} · <code>${escapeHtml(findingTarget(finding))}</code>` +
+    (constraint ? ` (<code>${escapeHtml(constraint)}</code>)` : "");
+}
+
+function htmlFinding(finding: OpportunityFinding): string {
+  const location = findingModelLocation(finding);
+  const statements = finding.statements.length === 0
+    ? `<p class="meta">No statements.</p>`
+    : `<pre><code>${escapeHtml(finding.statements.join("\n\n"))}</code></pre>`;
+  return [
+    `<section class="finding risk-${finding.risk.level}">`,
+    `<h5>${htmlHeading(finding)}</h5>`,
+    `<p>${escapeHtml(finding.summary)}</p>`,
+    `<p class="meta"><strong>Risk:</strong> ${escapeHtml(finding.risk.label)} — ${escapeHtml(finding.risk.description)}` +
+      (location ? `<br><strong>Model:</strong> ${escapeHtml(location)}` : "") +
+      (finding.rationales.length > 0
+        ? `<br><strong>Rationales:</strong> ${finding.rationales.map((rationale) => `<code>${escapeHtml(rationale)}</code>`).join(", ")}`
+        : "") +
+      `</p>`,
+    `<div class="columns">`,
+    `<div><h6>Evidence</h6>${htmlList(finding.evidence, "No evidence recorded.")}</div>`,
+    `<div><h6>Statements</h6>${statements}</div>`,
+    `</div>`,
+    `</section>`
+  ].join("\n");
+}
+
+/** Renders the findings as a standalone HTML page with inline styles and no external assets. */
+export function renderHtml(report: FindingsReport): string {
+  const body: string[] = [
+    `<h1>Tightening findings</h1>`,
+    `<p class="meta">Generated ${escapeHtml(report.generatedAtUtc)} · ` +
+      plural(report.opportunityCount, "opportunity", "opportunities") +
+      (report.validations ? ` · ${plural(report.validations.length, "validation")}` : "") +
+      `</p>`
+  ];
+
+  if (report.dispositions.length === 0) {
+    body.push(`<p>No tightening opportunities were found.</p>`);
+  } else {
+    body.push(
+      `<table class="summary">`,
+      `<tr><th>Disposition</th><th>Findings</th>${RISK_ORDER.map((level) => `<th>${level}</th>`).join("")}</tr>`,
+      ...summaryRows(report).map(
+        ([label, ...counts]) => `<tr><td>${escapeHtml(label)}</td>${counts.map((value) => `<td>${value}</td>`).join("")}</tr>`
+      ),
+      `</table>`
+    );
+  }
+
+  report.dispositions.forEach((group) => {
+    body.push(`<h2>${DISPOSITION_HEADINGS[group.disposition]} (${group.count})</h2>`);
+    group.categories.forEach((category) => {
+      body.push(
+        `<h3>${category.category} (${category.count})</h3>`,
+        `<p class="meta">${CATEGORY_DESCRIPTIONS[category.category]}</p>`
+      );
+      category.risks.forEach((risk) => {
+        body.push(`<h4>${risk.level} risk (${risk.findings.length})</h4>`, ...risk.findings.map(htmlFinding));
+      });
+    });
+  });
+
+  if (report.validations) {
+    body.push(`<h2>Already enforced (${report.validations.length})</h2>`);
+    if (report.validations.length === 0) {
+      body.push(`<p>No constraints were validated.</p>`);
+    } else {
+      body.push(
+        `<ul>`,
+        ...report.validations.map(
+          (finding) =>
+            `<li>${htmlHeading(finding)} — ${escapeHtml(finding.summary)}${htmlList(finding.evidence, "No evidence recorded.")}</li>`
+        ),
+        `</ul>`
+      );
+    }
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="en">`,
+    "<head>",
+    `<meta charset="utf-8">`,
+    "<title>Tightening findings</title>",
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+    ""
+  ].join("\n");
+}
@@ -0,0 +1,169 @@
+import type {
+  AttributeReality,
+  NormalizedAttribute,
+  NormalizedEntity,
+  NormalizedModel,
+  NormalizedModule
+} from "./modelSchema.js";
+import { columnKey, type ColumnProfile, type NormalizedProfileSnapshot } from "./profileSchema.js";
+
+export interface ProfiledAttribute {
+  readonly module: NormalizedModule;
+  readonly entity: NormalizedEntity;
+  readonly attribute: NormalizedAttribute;
+  readonly profile: ColumnProfile;
+  /** Path of the attribute inside the model JSON, e.g. `["modules", 0, "entities", 2, "attributes", 4]`. */
+  readonly path: (string | number)[];
+}
+
+export interface UnmatchedProfileColumn {
+  readonly profile: ColumnProfile;
+  readonly path: (string | number)[];
+  readonly reason: "tableMissing" | "columnMissing";
+}
+
+/** A profile entry for a column that an earlier entry of the snapshot already profiled. */
+export interface DuplicateProfileColumn {
+  readonly profile: ColumnProfile;
+  readonly path: (string | number)[];
+  /** Path of the earlier entry, which is the one used for matching. */
+  readonly firstPath: (string | number)[];
+}
+
+export interface UnprofiledAttribute {
+  readonly module: NormalizedModule;
+  readonly entity: NormalizedEntity;
+  readonly attribute: NormalizedAttribute;
+  readonly path: (string | number)[];
+}
+
+export interface ProfileAlignment {
+  readonly matched: ProfiledAttribute[];
+  readonly unmatchedProfileColumns: UnmatchedProfileColumn[];
+  readonly duplicateProfileColumns: DuplicateProfileColumn[];
+  readonly unprofiledAttributes: UnprofiledAttribute[];
+  /** The input model with each matched attribute's `reality` filled in from the profiling evidence. */
+  readonly model: NormalizedModel;
+}
+
+function tableKey(schema: string, table: string): string {
+  return `${schema}.${table}`.toLowerCase();
+}
+
+/** Attributes that are inactive and not physically present have no column to profile. */
+function expectsColumn(attribute: NormalizedAttribute): boolean {
+  return attribute.isActive || attribute.reality.isPresentButInactive;
+}
+
+/** Null evidence only counts when the probe actually ran to completion. */
+function isTrustworthy(profile: ColumnProfile): boolean {
+  return profile.nullCountStatus.outcome === "Succeeded" || profile.nullCountStatus.outcome === "TrustedConstraint";
+}
+
+function deriveReality(
+  attribute: NormalizedAttribute,
+  profile: ColumnProfile,
+  hasDuplicates: boolean | undefined,
+  hasOrphans: boolean | undefined
+): AttributeReality {
+  return {
+    isNullableInDatabase: profile.isNullablePhysical,
+    hasNulls: isTrustworthy(profile) ? profile.nullCount > 0 : attribute.reality.hasNulls,
+    hasDuplicates: hasDuplicates ?? attribute.reality.hasDuplicates,
+    hasOrphans: hasOrphans ?? attribute.reality.hasOrphans,
+    isPresentButInactive: attribute.reality.isPresentButInactive
+  };
+}
+
+/**
+ * Maps every profiled column onto the model by `schema.table.column` (case-insensitive physical
+ * names) and reports both directions of misalignment. When the snapshot profiles a column more than
+ * once, the first entry is used and the later ones are reported as duplicates.
+ */
+export function alignProfileWithModel(model: NormalizedModel, profile: NormalizedProfileSnapshot): ProfileAlignment {
+  const profilesByColumn = new Map<string, { profile: ColumnProfile; index: number }>();
+  const duplicateProfileColumns: DuplicateProfileColumn[] = [];
+  profile.columns.forEach((column, index) => {
+    const key = columnKey(column.schema, column.table, column.column);
+    const first = profilesByColumn.get(key);
+    if (first) {
+      duplicateProfileColumns.push({ profile: column, path: ["columns", index], firstPath: ["columns", first.index] });
+      return;
+    }
+
+    profilesByColumn.set(key, { profile: column, index });
+  });
+
+  const duplicatesByColumn = new Map<string, boolean>();
+  profile.uniqueCandidates.forEach((candidate) => {
+    if (candidate.probeStatus.outcome === "Succeeded") {
+      duplicatesByColumn.set(columnKey(candidate.schema, candidate.table, candidate.column), candidate.hasDuplicate);
+    }
+  });
+
+  const orphansByColumn = new Map<string, boolean>();
+  profile.foreignKeys.forEach((foreignKey) => {
+    if (foreignKey.probeStatus.outcome !== "Succeeded") {
+      return;
+    }
+
+    const key = columnKey(foreignKey.reference.fromSchema, foreignKey.reference.fromTable, foreignKey.reference.fromColumn);
+    orphansByColumn.set(key, (orphansByColumn.get(key) ?? false) || foreignKey.hasOrphan);
+  });
+
+  const knownTables = new Set<string>();
+  const matchedKeys = new Set<string>();
+  const matched: ProfiledAttribute[] = [];
+  const unprofiledAttributes: UnprofiledAttribute[] = [];
+
+  const modules = model.modules.map((module, moduleIndex) => ({
+    ...module,
+    entities: module.entities.map((entity, entityIndex) => {
+      knownTables.add(tableKey(entity.schema, entity.physicalName));
+      return {
+        ...entity,
+        attributes: entity.attributes.map((attribute, attributeIndex) => {
+          const path = ["modules", moduleIndex, "entities", entityIndex, "attributes", attributeIndex];
+          const key = columnKey(entity.schema, entity.physicalName, attribute.physicalName);
+          const entry = profilesByColumn.get(key);
+          if (!entry) {
+            if (entity.isActive && expectsColumn(attribute)) {
+              unprofiledAttributes.push({ module, entity, attribute, path });
+            }
+            return attribute;
+          }
+
+          matchedKeys.add(key);
+          const enriched: NormalizedAttribute = {
+            ...attribute,
+            reality: deriveReality(attribute, entry.profile, duplicatesByColumn.get(key), orphansByColumn.get(key))
+          };
+          matched.push({ module, entity, attribute: enriched, profile: entry.profile, path });
+          return enriched;
+        })
+      };
+    })
+  }));
+
+  const unmatchedProfileColumns: UnmatchedProfileColumn[] = [];
+  profilesByColumn.forEach(({ profile: column, index }, key) => {
+    if (matchedKeys.has(key)) {
+      return;
+    }
+
+    unmatchedProfileColumns.push({
+      profile: column,
+      path: ["columns", index],
+      reason: knownTables.has(tableKey(column.schema, column.table)) ? "columnMissing" : "tableMissing"
+    });
+  });
+  unmatchedProfileColumns.sort((left, right) => (left.path[1] as number) - (right.path[1] as number));
+
+  return {
+    matched,
+    unmatchedProfileColumns,
+    duplicateProfileColumns,
+    unprofiledAttributes,
+    model: { ...model, modules }
+  };
+}
@@ -0,0 +1,370 @@
+import { z } from "zod";
+
+export const PROBE_OUTCOMES = [
+  "Unknown",
+  "Succeeded",
+  "FallbackTimeout",
+  "Cancelled",
+  "TrustedConstraint",
+  "AmbiguousMapping"
+] as const;
+
+export type ProbeOutcome = (typeof PROBE_OUTCOMES)[number];
+
+export interface ProbeStatus {
+  readonly capturedAtUtc: Date | null;
+  readonly sampleSize: number | null;
+  readonly outcome: ProbeOutcome;
+}
+
+export interface NullRowSample {
+  readonly primaryKeyColumns: string[];
+  readonly rows: Array<Array<string | null>>;
+  readonly totalNullRows: number;
+  readonly isTruncated: boolean;
+}
+
+export interface ColumnProfile {
+  readonly schema: string;
+  readonly table: string;
+  readonly column: string;
+  readonly isNullablePhysical: boolean;
+  readonly isComputed: boolean;
+  readonly isPrimaryKey: boolean;
+  readonly isUniqueKey: boolean;
+  readonly defaultDefinition: string | null;
+  readonly rowCount: number;
+  readonly nullCount: number;
+  readonly nullCountStatus: ProbeStatus;
+  readonly nullSample: NullRowSample | null;
+}
+
+export interface UniqueCandidateProfile {
+  readonly schema: string;
+  readonly table: string;
+  readonly column: string;
+  readonly hasDuplicate: boolean;
+  readonly probeStatus: ProbeStatus;
+}
+
+export interface CompositeUniqueCandidateProfile {
+  readonly schema: string;
+  readonly table: string;
+  readonly columns: string[];
+  readonly hasDuplicate: boolean;
+}
+
+export interface ForeignKeyReference {
+  readonly fromSchema: string;
+  readonly fromTable: string;
+  readonly fromColumn: string;
+  readonly toSchema: string;
+  readonly toTable: string;
+  readonly toColumn: string;
+  readonly hasDbConstraint: boolean;
+}
+
+/** Sampled key values keep their JSON type: profiles carry strings, hand-built snapshots may use numbers. */
+export type OrphanSampleValue = string | number | null;
+
+export interface ForeignKeyOrphanRow {
+  readonly primaryKeyValues: OrphanSampleValue[];
+  readonly foreignKeyValue: OrphanSampleValue;
+}
+
+export interface ForeignKeyOrphanSample {
+  readonly primaryKeyColumns: string[];
+  readonly foreignKeyColumn: string;
+  readonly rows: ForeignKeyOrphanRow[];
+  readonly totalOrphans: number;
+  readonly isTruncated: boolean;
+}
+
+export interface ForeignKeyReality {
+  readonly reference: ForeignKeyReference;
+  readonly hasOrphan: boolean;
+  readonly orphanCount: number;
+  readonly isNoCheck: boolean;
+  readonly probeStatus: ProbeStatus;
+  readonly orphanSample: ForeignKeyOrphanSample | null;
+}
+
+export interface NormalizedProfileSnapshot {
+  readonly columns: ColumnProfile[];
+  readonly uniqueCandidates: UniqueCandidateProfile[];
+  readonly compositeUniqueCandidates: CompositeUniqueCandidateProfile[];
+  readonly foreignKeys: ForeignKeyReality[];
+}
+
+function requiredName(label: string) {
+  return z
+    .string({ required_error: `${label} is required.` })
+    .trim()
+    .min(1, { message: `${label} is required.` })
+    .max(128, { message: `${label} must be 128 characters or fewer.` });
+}
+
+function count(label: string) {
+  return z
+    .number({ required_error: `${label} is required.` })
+    .int({ message: `${label} must be an integer.` })
+    .min(0, { message: `${label} must be zero or positive.` });
+}
+
+function optionalArray<T extends z.ZodTypeAny>(schema: T) {
+  return z.union([z.array(schema), z.null(), z.undefined()]).transform((value) => value ?? ([] as z.infer<T>[]));
+}
+
+export const probeStatusSchema = z
+  .object({
+    CapturedAtUtc: z
+      .union([z.string(), z.null(), z.undefined()])
+      .transform((value, ctx) => {
+        if (value === null || value === undefined) {
+          return null;
+        }
+
+        const parsed = new Date(value);
+        if (Number.isNaN(parsed.getTime())) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "CapturedAtUtc must be a valid ISO-8601 timestamp when provided."
+          });
+          return z.NEVER;
+        }
+
+        return parsed;
+      }),
+    SampleSize: z.union([count("SampleSize"), z.null(), z.undefined()]).transform((value) => value ?? null),
+    Outcome: z
+      .union([z.enum(PROBE_OUTCOMES), z.null(), z.undefined()])
+      .transform((value): ProbeOutcome => value ?? "Unknown")
+  })
+  .strict()
+  .transform(
+    (status): ProbeStatus => ({
+      capturedAtUtc: status.CapturedAtUtc,
+      sampleSize: status.SampleSize,
+      outcome: status.Outcome
+    })
+  );
+
+const UNKNOWN_STATUS: ProbeStatus = { capturedAtUtc: null, sampleSize: null, outcome: "Unknown" };
+
+const optionalProbeStatus = z
+  .union([probeStatusSchema, z.null(), z.undefined()])
+  .transform((value) => value ?? UNKNOWN_STATUS);
+
+const nullRowSampleSchema = z
+  .object({
+    PrimaryKeyColumns: optionalArray(z.string()),
+    Rows: optionalArray(
+      z.object({ PrimaryKeyValues: optionalArray(z.union([z.string(), z.null()])) }).strict()
+    ),
+    TotalNullRows: count("TotalNullRows"),
+    IsTruncated: z.boolean()
+  })
+  .strict()
+  .transform(
+    (sample): NullRowSample => ({
+      primaryKeyColumns: sample.PrimaryKeyColumns,
+      rows: sample.Rows.map((row) => row.PrimaryKeyValues),
+      totalNullRows: sample.TotalNullRows,
+      isTruncated: sample.IsTruncated
+    })
+  );
+
+const columnProfileSchema = z
+  .object({
+    Schema: requiredName("Schema"),
+    Table: requiredName("Table"),
+    Column: requiredName("Column"),
+    IsNullablePhysical: z.boolean(),
+    IsComputed: z.boolean(),
+    IsPrimaryKey: z.boolean(),
+    IsUniqueKey: z.boolean(),
+    DefaultDefinition: z.union([z.string(), z.null(), z.undefined()]).transform((value) => value ?? null),
+    NullCount: count("NullCount"),
+    RowCount: count("RowCount"),
+    NullCountStatus: optionalProbeStatus,
+    NullSample: z.union([nullRowSampleSchema, z.null(), z.undefined()]).transform((value) => value ?? null)
+  })
+  .strict()
+  .superRefine((column, ctx) => {
+    if (column.NullCount > column.RowCount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `NullCount (${column.NullCount}) cannot exceed RowCount (${column.RowCount}) for ${column.Schema}.${column.Table}.${column.Column}.`,
+        path: ["NullCount"]
+      });
+    }
+  })
+  .transform(
+    (column): ColumnProfile => ({
+      schema: column.Schema,
+      table: column.Table,
+      column: column.Column,
+      isNullablePhysical: column.IsNullablePhysical,
+      isComputed: column.IsComputed,
+      isPrimaryKey: column.IsPrimaryKey,
+      isUniqueKey: column.IsUniqueKey,
+      defaultDefinition: column.DefaultDefinition,
+      rowCount: column.RowCount,
+      nullCount: column.NullCount,
+      nullCountStatus: column.NullCountStatus,
+      nullSample: column.NullSample
+    })
+  );
+
+const uniqueCandidateSchema = z
+  .object({
+    Schema: requiredName("Schema"),
+    Table: requiredName("Table"),
+    Column: requiredName("Column"),
+    HasDuplicate: z.boolean(),
+    ProbeStatus: optionalProbeStatus
+  })
+  .strict()
+  .transform(
+    (candidate): UniqueCandidateProfile => ({
+      schema: candidate.Schema,
+      table: candidate.Table,
+      column: candidate.Column,
+      hasDuplicate: candidate.HasDuplicate,
+      probeStatus: candidate.ProbeStatus
+    })
+  );
+
+const compositeUniqueCandidateSchema = z
+  .object({
+    Schema: requiredName("Schema"),
+    Table: requiredName("Table"),
+    Columns: z.array(requiredName("Column")).min(2, { message: "Composite candidates must list at least two columns." }),
+    HasDuplicate: z.boolean()
+  })
+  .strict()
+  .transform(
+    (candidate): CompositeUniqueCandidateProfile => ({
+      schema: candidate.Schema,
+      table: candidate.Table,
+      columns: candidate.Columns,
+      hasDuplicate: candidate.HasDuplicate
+    })
+  );
+
+const foreignKeyReferenceSchema = z
+  .object({
+    FromSchema: requiredName("FromSchema"),
+    FromTable: requiredName("FromTable"),
+    FromColumn: requiredName("FromColumn"),
+    ToSchema: requiredName("ToSchema"),
+    ToTable: requiredName("ToTable"),
+    ToColumn: requiredName("ToColumn"),
+    HasDbConstraint: z.boolean()
+  })
+  .strict()
+  .transform(
+    (reference): ForeignKeyReference => ({
+      fromSchema: reference.FromSchema,
+      fromTable: reference.FromTable,
+      fromColumn: reference.FromColumn,
+      toSchema: reference.ToSchema,
+      toTable: reference.ToTable,
+      toColumn: reference.ToColumn,
+      hasDbConstraint: reference.HasDbConstraint
+    })
+  );
+
+const orphanSampleValue = z.union([z.string(), z.number(), z.null()]);
+
+const foreignKeyOrphanSampleSchema = z
+  .object({
+    PrimaryKeyColumns: optionalArray(z.string()),
+    ForeignKeyColumn: requiredName("ForeignKeyColumn"),
+    Rows: optionalArray(
+      z
+        .object({
+          PrimaryKeyValues: optionalArray(orphanSampleValue),
+          ForeignKeyValue: z.union([orphanSampleValue, z.undefined()]).transform((value) => value ?? null)
+        })
+        .strict()
+    ),
+    TotalOrphans: count("TotalOrphans"),
+    IsTruncated: z.boolean()
+  })
+  .strict()
+  .transform(
+    // Like the .NET deserializer, a sample without orphans is no sample.
+    (sample): ForeignKeyOrphanSample | null =>
+      sample.TotalOrphans === 0
+        ? null
+        : {
+            primaryKeyColumns: sample.PrimaryKeyColumns,
+            foreignKeyColumn: sample.ForeignKeyColumn,
+            rows: sample.Rows.map((row) => ({ primaryKeyValues: row.PrimaryKeyValues, foreignKeyValue: row.ForeignKeyValue })),
+            totalOrphans: sample.TotalOrphans,
+            isTruncated: sample.IsTruncated
+          }
+  );
+
+const foreignKeyRealitySchema = z
+  .object({
+    // The .NET serializer accepts both spellings; snapshots in the wild use `Ref`.
+    Ref: foreignKeyReferenceSchema.optional(),
+    Reference: foreignKeyReferenceSchema.optional(),
+    HasOrphan: z.boolean(),
+    OrphanCount: z.union([count("OrphanCount"), z.undefined()]).transform((value) => value ?? 0),
+    IsNoCheck: z.boolean(),
+    ProbeStatus: optionalProbeStatus,
+    OrphanSample: z.union([foreignKeyOrphanSampleSchema, z.null(), z.undefined()]).transform((value) => value ?? null)
+  })
+  .strict()
+  .superRefine((foreignKey, ctx) => {
+    if (!foreignKey.Ref && !foreignKey.Reference) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Foreign key entries must include reference metadata (Ref).",
+        path: ["Ref"]
+      });
+    }
+  })
+  .transform(
+    (foreignKey): ForeignKeyReality => ({
+      reference: (foreignKey.Reference ?? foreignKey.Ref)!,
+      hasOrphan: foreignKey.HasOrphan,
+      orphanCount: foreignKey.OrphanCount,
+      isNoCheck: foreignKey.IsNoCheck,
+      probeStatus: foreignKey.ProbeStatus,
+      orphanSample: foreignKey.OrphanSample
+    })
+  );
+
+export const profileSchema = z
+  .object({
+    columns: z.array(columnProfileSchema, { required_error: "Profiling JSON must include a 'columns' array." }),
+    uniqueCandidates: optionalArray(uniqueCandidateSchema),
+    compositeUniqueCandidates: optionalArray(compositeUniqueCandidateSchema),
+    fkReality: optionalArray(foreignKeyRealitySchema)
+  })
+  .strict()
+  .transform(
+    (snapshot): NormalizedProfileSnapshot => ({
+      columns: snapshot.columns,
+      uniqueCandidates: snapshot.uniqueCandidates,
+      compositeUniqueCandidates: snapshot.compositeUniqueCandidates,
+      foreignKeys: snapshot.fkReality
+    })
+  );
+
+export function parseProfileJson(input: unknown): NormalizedProfileSnapshot {
+  return profileSchema.parse(input);
+}
+
+export function safeParseProfileJson(input: unknown) {
+  return profileSchema.safeParse(input);
+}
+
+/** Case-insensitive `schema.table.column` key, matching SQL Server's default collation semantics. */
+export function columnKey(schema: string, table: string, column: string): string {
+  return `${schema}.${table}.${column}`.toLowerCase();
+}
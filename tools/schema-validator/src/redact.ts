@@ -0,0 +1,284 @@
+#!/usr/bin/env node
+import fs from "node:fs/promises";
+import process from "node:process";
+import { fileURLToPath } from "node:url";
+
+import { ZodError } from "zod";
+
+import { loadJson } from "./jsonFile.js";
+import {
+  parseRedactionMappingJson,
+  redactModel,
+  restoreModel,
+  REDACTED_NAME_KINDS,
+  type RedactionMapping
+} from "./modelRedaction.js";
+import { formatIssuePath, formatZodErrors } from "./modelSchema.js";
+import { validateModel } from "./modelValidation.js";
+import { parseTypeMappingJson, type TypeMappingPolicy } from "./typeMapping.js";
+
+interface CliOptions {
+  readonly modelPath: string;
+  readonly outputPath: string;
+  readonly salt: string | null;
+  readonly mappingPath: string | null;
+  /** Mapping to restore names from; the input is then a redacted export. */
+  readonly reversePath: string | null;
+  readonly typeMappingPath: string;
+}
+
+const DEFAULT_TYPE_MAPPING_PATH = fileURLToPath(new URL("../../../config/type-mapping.default.json", import.meta.url));
+
+function parseArguments(argv: string[]): CliOptions | null {
+  let modelPath: string | undefined;
+  let outputPath: string | null = null;
+  let salt: string | null = null;
+  let mappingPath: string | null = null;
+  let reversePath: string | null = null;
+  let typeMappingPath = DEFAULT_TYPE_MAPPING_PATH;
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--salt" || argument === "-s") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--salt expects a secret value to derive the pseudonyms from.");
+      }
+
+      salt = value;
+      continue;
+    }
+
+    if (argument === "--output" || argument === "-o") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--output expects a path to write the rewritten model to.");
+      }
+
+      outputPath = value;
+      continue;
+    }
+
+    if (argument === "--mapping" || argument === "-m") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--mapping expects a path to write the pseudonym mapping to.");
+      }
+
+      mappingPath = value;
+      continue;
+    }
+
+    if (argument === "--reverse" || argument === "-r") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--reverse expects a path to the mapping written by --mapping.");
+      }
+
+      reversePath = value;
+      continue;
+    }
+
+    if (argument === "--type-mapping" || argument === "-t") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--type-mapping expects a path to the type mapping JSON.");
+      }
+
+      typeMappingPath = value;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    if (modelPath) {
+      throw new Error("Only one model JSON file path can be supplied.");
+    }
+
+    modelPath = argument;
+  }
+
+  if (!modelPath) {
+    throw new Error("Path to the model JSON is required.");
+  }
+
+  if (!outputPath) {
+    throw new Error("--output is required; the input is never rewritten in place.");
+  }
+
+  if (reversePath && (salt || mappingPath)) {
+    throw new Error("--reverse restores names from a mapping; it cannot be combined with --salt or --mapping.");
+  }
+
+  if (!reversePath && !salt) {
+    throw new Error("--salt is required to redact a model.");
+  }
+
+  return { modelPath, outputPath, salt, mappingPath, reversePath, typeMappingPath };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run redact -- <model.json> --salt <secret> --output <path> [options]\n` +
+    `       npm run redact -- <redacted.json> --reverse <mapping.json> --output <path>\n\n` +
+    `Rewrites a model export so it can be shared: module, entity, table, attribute, column, index, constraint,\n` +
+    `trigger and sequence names become salted-hash pseudonyms (references are rewritten to match), and\n` +
+    `descriptions, SQL definitions and extended property values are removed. Data types, flags and structure\n` +
+    `are kept, and the redacted export is validated to confirm it reports the same issues as the original.\n\n` +
+    `Options:\n` +
+    `  -h, --help                 Show this message.\n` +
+    `  -s, --salt <secret>        Secret the pseudonyms are derived from; the same salt gives the same names.\n` +
+    `  -o, --output <path>        Where to write the rewritten model.\n` +
+    `  -m, --mapping <path>       Also write the pseudonym → original name mapping (keep it private).\n` +
+    `  -r, --reverse <path>       Restore the original names in a redacted export from its mapping.\n` +
+    `  -t, --type-mapping <path>  Type mapping for the validation check (default: config/type-mapping.default.json).\n` +
+    `\nExit codes:\n` +
+    `  0  The model was rewritten (and, when redacting, validates exactly like the original).\n` +
+    `  1  Invalid arguments, an input failed to load or parse, or the redacted export validates differently.\n` +
+    `\nExamples:\n` +
+    `  npm run redact -- ../../tests/Fixtures/model.edge-case.json --salt s3cret --output shared.json --mapping shared.mapping.json\n` +
+    `  npm run redact -- shared.json --reverse shared.mapping.json --output restored.json\n`);
+}
+
+async function loadTypeMapping(filePath: string): Promise<TypeMappingPolicy> {
+  const raw = await loadJson(filePath);
+  try {
+    return parseTypeMappingJson(raw);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `Type mapping ${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
+    }
+
+    throw error;
+  }
+}
+
+async function loadMapping(filePath: string): Promise<RedactionMapping> {
+  const raw = await loadJson(filePath);
+  try {
+    return parseRedactionMappingJson(raw);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `Mapping ${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
+    }
+
+    throw error;
+  }
+}
+
+/** Issues compare by rule, severity and path: messages quote names, which redaction changes. */
+function validationFingerprint(raw: unknown, file: string, typeMapping: TypeMappingPolicy): string[] {
+  return validateModel(raw, file, typeMapping).issues.map(
+    (issue) => `${issue.severity} ${issue.ruleId} at ${formatIssuePath(issue.path) || "(root)"}`
+  );
+}
+
+function difference(left: readonly string[], right: readonly string[]): string[] {
+  const remaining = [...right];
+  return left.filter((entry) => {
+    const index = remaining.indexOf(entry);
+    if (index === -1) {
+      return true;
+    }
+
+    remaining.splice(index, 1);
+    return false;
+  });
+}
+
+function countNames(mapping: RedactionMapping): string {
+  return REDACTED_NAME_KINDS.map((kind) => [kind, Object.keys(mapping[kind]).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([kind, count]) => `${count} ${kind}`)
+    .join(", ");
+}
+
+async function writeJson(filePath: string, value: unknown): Promise<void> {
+  await fs.writeFile(filePath, `${JSON.stringify(value, null, 2)}\n`, "utf8");
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  try {
+    const raw = await loadJson(options.modelPath);
+    if (options.reversePath) {
+      const restoration = restoreModel(raw, await loadMapping(options.reversePath));
+      await writeJson(options.outputPath, restoration.model);
+      console.log(`✅ Restored ${restoration.restored} name${restoration.restored === 1 ? "" : "s"} into ${options.outputPath}.`);
+      if (restoration.unresolved > 0) {
+        console.error(
+          `⚠ ${restoration.unresolved} name${restoration.unresolved === 1 ? " is" : "s are"} not in ${options.reversePath} and ${restoration.unresolved === 1 ? "was" : "were"} left as is.`
+        );
+      }
+      return;
+    }
+
+    const typeMapping = await loadTypeMapping(options.typeMappingPath);
+    const redaction = redactModel(raw, options.salt!);
+    const original = validationFingerprint(raw, options.modelPath, typeMapping);
+    const redacted = validationFingerprint(redaction.model, options.outputPath, typeMapping);
+    const lost = difference(original, redacted);
+    const gained = difference(redacted, original);
+    if (lost.length > 0 || gained.length > 0) {
+      console.error(`✖ The redacted export validates differently from ${options.modelPath}; nothing was written.`);
+      lost.forEach((entry) => console.error(`  - ${entry}`));
+      gained.forEach((entry) => console.error(`  + ${entry}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    await writeJson(options.outputPath, redaction.model);
+    if (options.mappingPath) {
+      await writeJson(options.mappingPath, redaction.mapping);
+    }
+
+    console.log(`✅ Wrote the redacted model to ${options.outputPath} (pseudonymized ${countNames(redaction.mapping) || "no"} names; stripped ${redaction.stripped} value${redaction.stripped === 1 ? "" : "s"}).`);
+    console.log(
+      original.length === 0
+        ? "✅ Both exports validate cleanly."
+        : `✅ The redacted export reproduces the original's ${original.length} validation issue${original.length === 1 ? "" : "s"}.`
+    );
+    if (options.mappingPath) {
+      console.log(`Mapping written to ${options.mappingPath}; keep it private, it reverses the renaming.`);
+    }
+  } catch (error) {
+    console.error(`✖ ${error instanceof Error ? error.message : "Unable to rewrite the model."}`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,300 @@
+import {
+  formatIssuePath,
+  type NormalizedEntity,
+  type NormalizedModel,
+  type NormalizedModule
+} from "./modelSchema.js";
+
+export interface ReferenceIssue {
+  readonly code: string;
+  readonly message: string;
+  readonly path: (string | number)[];
+}
+
+export interface EntityLocation {
+  readonly module: NormalizedModule;
+  readonly entity: NormalizedEntity;
+  readonly moduleIndex: number;
+  readonly entityIndex: number;
+}
+
+export interface EntityLookup {
+  readonly byLogicalName: ReadonlyMap<string, EntityLocation[]>;
+  readonly byPhysicalName: ReadonlyMap<string, EntityLocation[]>;
+}
+
+function push<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const existing = map.get(key);
+  if (existing) {
+    existing.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+/**
+ * Builds model-wide entity lookups. Logical names match case-sensitively (as the .NET
+ * validator does); physical names match case-insensitively because SQL Server does.
+ */
+export function buildEntityLookup(model: NormalizedModel): EntityLookup {
+  const byLogicalName = new Map<string, EntityLocation[]>();
+  const byPhysicalName = new Map<string, EntityLocation[]>();
+  model.modules.forEach((module, moduleIndex) => {
+    module.entities.forEach((entity, entityIndex) => {
+      const location: EntityLocation = { module, entity, moduleIndex, entityIndex };
+      push(byLogicalName, entity.name, location);
+      push(byPhysicalName, entity.physicalName.toLowerCase(), location);
+    });
+  });
+
+  return { byLogicalName, byPhysicalName };
+}
+
+export function findEntityByLogicalName(lookup: EntityLookup, name: string): EntityLocation | null {
+  return lookup.byLogicalName.get(name)?.[0] ?? null;
+}
+
+export function findEntityByPhysicalName(lookup: EntityLookup, physicalName: string): EntityLocation | null {
+  return lookup.byPhysicalName.get(physicalName.toLowerCase())?.[0] ?? null;
+}
+
+/** What resolution needs to know about a target entity: enough to name it and tell targets apart. */
+interface ReferenceTarget {
+  /** Read when issues are reported, so a streamed module's name can be filled in after its entities. */
+  readonly module: { readonly name: string };
+  readonly name: string;
+  readonly physicalName: string;
+}
+
+/** A reference to another entity, checked once every entity of the model is known. */
+export interface CrossEntityReference {
+  readonly owner: string;
+  readonly logicalName: string;
+  readonly physicalName: string;
+  readonly logicalPath: (string | number)[];
+  readonly physicalPath: (string | number)[];
+  /** `refEntityId` of an attribute reference; relationships carry none. */
+  readonly targetEntityId: number | null;
+  readonly idPath: (string | number)[];
+}
+
+export interface EntityReferenceCheck {
+  /** Issues the entity decides on its own: relationship attributes and index columns. */
+  readonly issues: ReferenceIssue[];
+  readonly references: CrossEntityReference[];
+}
+
+/** Collects the entities of a model, then resolves cross-entity references against all of them. */
+export interface ReferenceResolver {
+  addEntity(module: { readonly name: string }, entity: Pick<NormalizedEntity, "name" | "physicalName">): void;
+  /** Resolves references in order; `refEntityId` consistency is tracked across calls. */
+  resolve(references: readonly CrossEntityReference[]): ReferenceIssue[];
+}
+
+function describe(target: ReferenceTarget): string {
+  return `${target.module.name}.${target.name} (${target.physicalName})`;
+}
+
+/**
+ * Same lookup rules as {@link buildEntityLookup}: logical names match case-sensitively, physical
+ * names case-insensitively, and the first entity registered under a name wins.
+ */
+export function createReferenceResolver(): ReferenceResolver {
+  const byLogicalName = new Map<string, ReferenceTarget>();
+  const byPhysicalName = new Map<string, ReferenceTarget>();
+  const idToTarget = new Map<number, { target: ReferenceTarget; path: (string | number)[] }>();
+  const targetToId = new Map<ReferenceTarget, { id: number; path: (string | number)[] }>();
+
+  const resolveTarget = (reference: CrossEntityReference, issues: ReferenceIssue[]): ReferenceTarget | null => {
+    const logicalTarget = byLogicalName.get(reference.logicalName) ?? null;
+    const physicalTarget = byPhysicalName.get(reference.physicalName.toLowerCase()) ?? null;
+
+    if (!logicalTarget) {
+      issues.push({
+        code: "reference.targetMissing",
+        message: `${reference.owner} points to unknown entity "${reference.logicalName}".`,
+        path: reference.logicalPath
+      });
+    }
+
+    if (!physicalTarget) {
+      issues.push({
+        code: "reference.targetPhysicalMissing",
+        message: `${reference.owner} points to unknown physical table "${reference.physicalName}".`,
+        path: reference.physicalPath
+      });
+    }
+
+    if (logicalTarget && physicalTarget && logicalTarget !== physicalTarget) {
+      issues.push({
+        code: "reference.targetMismatch",
+        message: `${reference.owner} names entity "${reference.logicalName}" (${describe(logicalTarget)}) but physical table "${reference.physicalName}" belongs to ${describe(physicalTarget)}.`,
+        path: reference.physicalPath
+      });
+    }
+
+    return logicalTarget ?? physicalTarget;
+  };
+
+  return {
+    addEntity(module, entity) {
+      const target: ReferenceTarget = { module, name: entity.name, physicalName: entity.physicalName };
+      if (!byLogicalName.has(entity.name)) {
+        byLogicalName.set(entity.name, target);
+      }
+
+      if (!byPhysicalName.has(entity.physicalName.toLowerCase())) {
+        byPhysicalName.set(entity.physicalName.toLowerCase(), target);
+      }
+    },
+
+    resolve(references) {
+      const issues: ReferenceIssue[] = [];
+      references.forEach((reference) => {
+        const target = resolveTarget(reference, issues);
+        if (reference.targetEntityId === null || !target) {
+          return;
+        }
+
+        const knownTarget = idToTarget.get(reference.targetEntityId);
+        if (knownTarget && knownTarget.target !== target) {
+          issues.push({
+            code: "reference.entityIdConflict",
+            message: `refEntityId ${reference.targetEntityId} resolves to ${describe(target)} here but to ${describe(knownTarget.target)} at ${formatIssuePath(knownTarget.path)}.`,
+            path: reference.idPath
+          });
+        } else if (!knownTarget) {
+          idToTarget.set(reference.targetEntityId, { target, path: reference.idPath });
+        }
+
+        const knownId = targetToId.get(target);
+        if (knownId && knownId.id !== reference.targetEntityId) {
+          issues.push({
+            code: "reference.entityIdConflict",
+            message: `${describe(target)} is referenced with refEntityId ${reference.targetEntityId} here but with ${knownId.id} at ${formatIssuePath(knownId.path)}.`,
+            path: reference.idPath
+          });
+        } else if (!knownId) {
+          targetToId.set(target, { id: reference.targetEntityId, path: reference.idPath });
+        }
+      });
+
+      return issues;
+    }
+  };
+}
+
+/**
+ * The checks one entity can make on its own (relationship attributes, index columns), plus the
+ * references to other entities for a {@link ReferenceResolver}. `entityPath` prefixes issue paths.
+ */
+export function checkEntityReferences(entity: NormalizedEntity, entityPath: (string | number)[]): EntityReferenceCheck {
+  const issues: ReferenceIssue[] = [];
+  const references: CrossEntityReference[] = [];
+  const attributesByName = new Map(entity.attributes.map((attribute) => [attribute.name, attribute]));
+  const attributesByPhysical = new Map(
+    entity.attributes.map((attribute) => [attribute.physicalName.toLowerCase(), attribute])
+  );
+
+  entity.attributes.forEach((attribute, attributeIndex) => {
+    const reference = attribute.reference;
+    if (!reference.isReference || !reference.targetEntityName || !reference.targetEntityPhysicalName) {
+      return;
+    }
+
+    const attributePath = [...entityPath, "attributes", attributeIndex];
+    references.push({
+      owner: `Reference attribute "${attribute.name}" on entity "${entity.name}"`,
+      logicalName: reference.targetEntityName,
+      physicalName: reference.targetEntityPhysicalName,
+      logicalPath: [...attributePath, "refEntity_name"],
+      physicalPath: [...attributePath, "refEntity_physicalName"],
+      targetEntityId: reference.targetEntityId,
+      idPath: [...attributePath, "refEntityId"]
+    });
+  });
+
+  entity.relationships.forEach((relationship, relationshipIndex) => {
+    const relationshipPath = [...entityPath, "relationships", relationshipIndex];
+    const owner = `Relationship via "${relationship.viaAttributeName}" on entity "${entity.name}"`;
+    const viaAttribute = attributesByName.get(relationship.viaAttributeName);
+    if (!viaAttribute) {
+      issues.push({
+        code: "relationship.viaAttributeMissing",
+        message: `${owner} names an attribute that does not exist on the entity.`,
+        path: [...relationshipPath, "viaAttributeName"]
+      });
+    }
+
+    references.push({
+      owner,
+      logicalName: relationship.toEntityName,
+      physicalName: relationship.toEntityPhysicalName,
+      logicalPath: [...relationshipPath, "toEntity_name"],
+      physicalPath: [...relationshipPath, "toEntity_physicalName"],
+      targetEntityId: null,
+      idPath: []
+    });
+
+    const viaReference = viaAttribute?.reference;
+    if (viaReference?.isReference && viaReference.targetEntityName && viaReference.targetEntityName !== relationship.toEntityName) {
+      issues.push({
+        code: "relationship.targetMismatch",
+        message: `${owner} targets "${relationship.toEntityName}" but the attribute references "${viaReference.targetEntityName}".`,
+        path: [...relationshipPath, "toEntity_name"]
+      });
+    }
+  });
+
+  entity.indexes.forEach((index, indexIndex) => {
+    index.columns.forEach((column, columnIndex) => {
+      const columnPath = [...entityPath, "indexes", indexIndex, "columns", columnIndex];
+      const byName = attributesByName.get(column.attribute);
+      const byPhysical = attributesByPhysical.get(column.physicalColumn.toLowerCase());
+      if (!byName && !byPhysical) {
+        issues.push({
+          code: "index.columnMissing",
+          message: `Index "${index.name}" references attribute "${column.attribute}"/"${column.physicalColumn}" that does not exist on entity "${entity.name}".`,
+          path: [...columnPath, "attribute"]
+        });
+        return;
+      }
+
+      if (!byName) {
+        issues.push({
+          code: "index.columnMismatch",
+          message: `Index "${index.name}" references attribute "${column.attribute}" but physical column "${column.physicalColumn}" belongs to attribute "${byPhysical!.name}".`,
+          path: [...columnPath, "attribute"]
+        });
+      } else if (byName.physicalName.toLowerCase() !== column.physicalColumn.toLowerCase()) {
+        issues.push({
+          code: "index.columnMismatch",
+          message: `Index "${index.name}" references physical column "${column.physicalColumn}" but attribute "${byName.name}" is mapped to "${byName.physicalName}".`,
+          path: [...columnPath, "physicalColumn"]
+        });
+      }
+    });
+  });
+
+  return { issues, references };
+}
+
+/**
+ * Cross-entity resolution pass run after the structural parse. It checks that every attribute
+ * reference, relationship and index column points at something that exists in the model and
+ * that the logical/physical/id coordinates of a reference agree with each other.
+ */
+export function resolveModelReferences(model: NormalizedModel): ReferenceIssue[] {
+  const resolver = createReferenceResolver();
+  model.modules.forEach((module) => module.entities.forEach((entity) => resolver.addEntity(module, entity)));
+
+  const issues: ReferenceIssue[] = [];
+  model.modules.forEach((module, moduleIndex) => {
+    module.entities.forEach((entity, entityIndex) => {
+      const check = checkEntityReferences(entity, ["modules", moduleIndex, "entities", entityIndex]);
+      issues.push(...resolver.resolve(check.references), ...check.issues);
+    });
+  });
+
+  return issues;
+}
@@ -0,0 +1,175 @@
+#!/usr/bin/env node
+import fs from "node:fs/promises";
+import process from "node:process";
+
+import { ZodError } from "zod";
+
+import { loadJson } from "./jsonFile.js";
+import { formatZodErrors } from "./modelSchema.js";
+import {
+  parseOpportunitiesJson,
+  parseValidationsJson,
+  type OpportunitiesReport,
+  type ValidationsReport
+} from "./opportunitiesSchema.js";
+import { buildFindingsReport, renderHtml, renderMarkdown, REPORT_FORMATS, type ReportFormat } from "./opportunityReport.js";
+
+interface CliOptions {
+  readonly opportunitiesPath: string;
+  readonly validationsPath: string | null;
+  readonly format: ReportFormat;
+  readonly outputPath: string | null;
+}
+
+function isReportFormat(value: string | undefined): value is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(value ?? "");
+}
+
+function parseArguments(argv: string[]): CliOptions | null {
+  let opportunitiesPath: string | undefined;
+  let validationsPath: string | null = null;
+  let format: ReportFormat = "markdown";
+  let outputPath: string | null = null;
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--validations" || argument === "-v") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--validations expects a path to validations.json.");
+      }
+
+      validationsPath = value;
+      continue;
+    }
+
+    if (argument === "--format" || argument === "-f") {
+      const value = argv[++index];
+      if (!isReportFormat(value)) {
+        throw new Error(`--format expects one of ${REPORT_FORMATS.join(", ")} (received ${value ?? "nothing"}).`);
+      }
+
+      format = value;
+      continue;
+    }
+
+    if (argument === "--output" || argument === "-o") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--output expects a path to write the report to.");
+      }
+
+      outputPath = value;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    if (opportunitiesPath) {
+      throw new Error("Only one opportunities JSON file path can be supplied.");
+    }
+
+    opportunitiesPath = argument;
+  }
+
+  if (!opportunitiesPath) {
+    throw new Error("Path to opportunities.json is required.");
+  }
+
+  return { opportunitiesPath, validationsPath, format, outputPath };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run report -- <opportunities.json> [options]\n\n` +
+    `Renders the tightening opportunities (and optionally validations) the pipeline writes as Markdown for\n` +
+    `a schema-change PR comment, or as a standalone HTML page. Findings are grouped by disposition,\n` +
+    `category and risk level.\n\n` +
+    `Options:\n` +
+    `  -h, --help               Show this message.\n` +
+    `  -v, --validations <path> Also list the constraints validations.json confirms are enforced.\n` +
+    `  -f, --format <format>    Output format: ${REPORT_FORMATS.join(" (default) or ")}.\n` +
+    `  -o, --output <path>      Write the report to <path> instead of stdout.\n` +
+    `\nExit codes:\n` +
+    `  0  The report was rendered.\n` +
+    `  1  Invalid arguments, or an input failed to load or match its schema.\n` +
+    `\nExamples:\n` +
+    `  npm run report -- ../../tests/Fixtures/opportunities/opportunities.json --validations ../../tests/Fixtures/opportunities/validations.json\n` +
+    `  npm run report -- out/opportunities.json -v out/validations.json --format html -o findings.html\n`);
+}
+
+async function loadInput<T>(label: string, path: string, parse: (input: unknown) => T): Promise<T | null> {
+  try {
+    return parse(await loadJson(path));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      console.error(`✖ ${label} ${path} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:`);
+      issues.forEach((issue, index) => {
+        console.error(`  ${index + 1}. ${issue}`);
+      });
+    } else if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error(`✖ Unable to read ${path}.`, error);
+    }
+    return null;
+  }
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  const opportunities = await loadInput<OpportunitiesReport>("Opportunities", options.opportunitiesPath, parseOpportunitiesJson);
+  if (!opportunities) {
+    process.exitCode = 1;
+    return;
+  }
+
+  let validations: ValidationsReport | null = null;
+  if (options.validationsPath) {
+    validations = await loadInput<ValidationsReport>("Validations", options.validationsPath, parseValidationsJson);
+    if (!validations) {
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  const report = buildFindingsReport(opportunities, validations);
+  const output = options.format === "html" ? renderHtml(report) : renderMarkdown(report);
+
+  if (options.outputPath) {
+    await fs.writeFile(options.outputPath, output, "utf8");
+    console.log(`✅ Wrote the ${options.format} report to ${options.outputPath}.`);
+    return;
+  }
+
+  process.stdout.write(output);
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,236 @@
+#!/usr/bin/env node
+import fs from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import { fileURLToPath } from "node:url";
+
+import { ZodError } from "zod";
+
+import { loadJson } from "./jsonFile.js";
+import { formatZodErrors, structuralModelSchema } from "./modelSchema.js";
+import {
+  checkParity,
+  compareSchemas,
+  parseParityBaselineJson,
+  zodToJsonSchema,
+  type AcceptedDifference,
+  type JsonSchemaNode,
+  type ParityBaseline,
+  type ParityIssue
+} from "./schemaParity.js";
+
+interface CliOptions {
+  readonly schemaPath: string;
+  readonly baselinePath: string;
+  /** Rewrite the baseline to the current differences instead of checking against it. */
+  readonly writeBaseline: boolean;
+  readonly emitPath: string | null;
+}
+
+const DEFAULT_SCHEMA_PATH = fileURLToPath(new URL("../../../schema/cir-v1.json", import.meta.url));
+
+const DEFAULT_BASELINE_PATH = fileURLToPath(new URL("../../../schema/cir-v1.parity-baseline.json", import.meta.url));
+
+/** Reason recorded for differences added by --write-baseline; the check rejects it until someone explains them. */
+const UNEXPLAINED_REASON = "TODO: explain why this difference is acceptable, or fix it.";
+
+function parseArguments(argv: string[]): CliOptions | null {
+  let schemaPath = DEFAULT_SCHEMA_PATH;
+  let baselinePath = DEFAULT_BASELINE_PATH;
+  let writeBaseline = false;
+  let emitPath: string | null = null;
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--schema" || argument === "-s") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--schema expects a path to the JSON Schema to compare with.");
+      }
+
+      schemaPath = value;
+      continue;
+    }
+
+    if (argument === "--baseline" || argument === "-b") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--baseline expects a path to the accepted differences JSON.");
+      }
+
+      baselinePath = value;
+      continue;
+    }
+
+    if (argument === "--write-baseline") {
+      writeBaseline = true;
+      continue;
+    }
+
+    if (argument === "--emit" || argument === "-e") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--emit expects a path to write the derived JSON Schema to.");
+      }
+
+      emitPath = value;
+      continue;
+    }
+
+    throw new Error(`Unknown argument: ${argument}`);
+  }
+
+  return { schemaPath, baselinePath, writeBaseline, emitPath };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run schema-parity -- [options]\n\n` +
+    `Derives a JSON Schema from the Zod model schema (modelStructure.ts) and compares it with schema/cir-v1.json:\n` +
+    `properties declared on one side only, properties required on one side only, and differences in\n` +
+    `nullability and enum values. Differences listed in the baseline, each with a reason, are accepted;\n` +
+    `any other difference, and any baseline entry that no longer occurs, fails the check.\n\n` +
+    `Options:\n` +
+    `  -h, --help                 Show this message.\n` +
+    `  -s, --schema <path>        JSON Schema to compare with (default: schema/cir-v1.json).\n` +
+    `  -b, --baseline <path>      Accepted differences (default: schema/cir-v1.parity-baseline.json).\n` +
+    `      --write-baseline       Rewrite the baseline to the current differences, keeping existing reasons.\n` +
+    `  -e, --emit <path>          Also write the JSON Schema derived from the Zod schema to <path>.\n` +
+    `\nExit codes:\n` +
+    `  0  The schemas differ only as the baseline records (or the baseline was written).\n` +
+    `  1  Invalid arguments, an input failed to load, a difference is not in the baseline, a baseline\n` +
+    `     entry is stale, or the written baseline has differences still waiting for a reason.\n` +
+    `\nExamples:\n` +
+    `  npm run schema-parity\n` +
+    `  npm run schema-parity -- --write-baseline\n` +
+    `  npm run schema-parity -- --emit /tmp/model-schema.json\n`);
+}
+
+async function loadBaseline(filePath: string): Promise<ParityBaseline> {
+  const raw = await loadJson(filePath);
+  try {
+    return parseParityBaselineJson(raw);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `Baseline ${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
+    }
+
+    throw error;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function writeJson(filePath: string, value: unknown): Promise<void> {
+  await fs.writeFile(filePath, `${JSON.stringify(value, null, 2)}\n`, "utf8");
+}
+
+function describe(issue: ParityIssue): string {
+  return `${issue.code} at ${issue.path || "(root)"}: ${issue.message}`;
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  try {
+    const derived: JsonSchemaNode = {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      title: "Model export (derived from modelStructure.ts)",
+      ...zodToJsonSchema(structuralModelSchema)
+    };
+    if (options.emitPath) {
+      await writeJson(options.emitPath, derived);
+      console.log(`✅ Wrote the JSON Schema derived from the Zod model schema to ${options.emitPath}.`);
+    }
+
+    const issues = compareSchemas(derived, (await loadJson(options.schemaPath)) as JsonSchemaNode);
+
+    if (options.writeBaseline) {
+      const previous = (await fileExists(options.baselinePath)) ? await loadBaseline(options.baselinePath) : { accepted: [] };
+      const accepted: AcceptedDifference[] = issues.map((issue) => ({
+        code: issue.code,
+        path: issue.path,
+        reason:
+          previous.accepted.find((entry) => entry.code === issue.code && entry.path === issue.path)?.reason ?? UNEXPLAINED_REASON
+      }));
+      await writeJson(options.baselinePath, { accepted });
+      const unexplained = accepted.filter((entry) => entry.reason === UNEXPLAINED_REASON).length;
+      console.log(`✅ Wrote ${accepted.length} accepted difference${accepted.length === 1 ? "" : "s"} to ${options.baselinePath}.`);
+      if (unexplained > 0) {
+        console.error(`⚠ ${unexplained} of them need${unexplained === 1 ? "s" : ""} a reason before the check passes.`);
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    const baseline = await loadBaseline(options.baselinePath);
+    const result = checkParity(issues, baseline);
+    const unexplained = baseline.accepted.filter((entry) => entry.reason === UNEXPLAINED_REASON);
+    if (result.unexpected.length === 0 && result.stale.length === 0 && unexplained.length === 0) {
+      console.log(
+        `✅ The Zod model schema and ${path.relative(process.cwd(), options.schemaPath)} agree apart from the ` +
+          `${baseline.accepted.length} accepted difference${baseline.accepted.length === 1 ? "" : "s"} in ${path.relative(process.cwd(), options.baselinePath)}.`
+      );
+      return;
+    }
+
+    process.exitCode = 1;
+    if (result.unexpected.length > 0) {
+      console.error(`✖ ${result.unexpected.length} difference${result.unexpected.length === 1 ? " is" : "s are"} not in the baseline:`);
+      result.unexpected.forEach((issue, index) => console.error(`  ${index + 1}. ${describe(issue)}`));
+    }
+
+    if (result.stale.length > 0) {
+      console.error(`✖ ${result.stale.length} baseline entr${result.stale.length === 1 ? "y no longer occurs" : "ies no longer occur"}; remove ${result.stale.length === 1 ? "it" : "them"}:`);
+      result.stale.forEach((entry, index) => console.error(`  ${index + 1}. ${entry.code} at ${entry.path || "(root)"}`));
+    }
+
+    if (unexplained.length > 0) {
+      console.error(`✖ ${unexplained.length} baseline entr${unexplained.length === 1 ? "y has" : "ies have"} no reason yet:`);
+      unexplained.forEach((entry, index) => console.error(`  ${index + 1}. ${entry.code} at ${entry.path || "(root)"}`));
+    }
+
+    console.error(
+      "Align modelStructure.ts and cir-v1.json, or accept an intended difference with `npm run schema-parity -- --write-baseline` and give it a reason."
+    );
+  } catch (error) {
+    console.error(`✖ ${error instanceof Error ? error.message : "Unable to compare the schemas."}`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,335 @@
+import { z } from "zod";
+
+/** The subset of JSON Schema 2020-12 that `schema/cir-v1.json` uses and {@link zodToJsonSchema} emits. */
+export interface JsonSchemaNode {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchemaNode>;
+  type?: string | string[];
+  format?: string;
+  properties?: Record<string, JsonSchemaNode>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchemaNode;
+  items?: JsonSchemaNode;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchemaNode[];
+  oneOf?: JsonSchemaNode[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  minItems?: number;
+  default?: unknown;
+}
+
+export const PARITY_ISSUE_CODES = [
+  "parity.propertyOnlyInZod",
+  "parity.propertyOnlyInJsonSchema",
+  "parity.requiredMismatch",
+  "parity.nullabilityMismatch",
+  "parity.enumMismatch"
+] as const;
+
+export type ParityIssueCode = (typeof PARITY_ISSUE_CODES)[number];
+
+export interface ParityIssue {
+  readonly code: ParityIssueCode;
+  readonly message: string;
+  /** Instance path with `[]` for array items: `modules[].entities[].temporal`. */
+  readonly path: string;
+}
+
+/** A difference both sides have agreed to keep, with why; the parity check only fails on the others. */
+export interface AcceptedDifference {
+  readonly code: ParityIssueCode;
+  readonly path: string;
+  readonly reason: string;
+}
+
+export interface ParityBaseline {
+  readonly accepted: AcceptedDifference[];
+}
+
+export interface ParityResult {
+  readonly issues: ParityIssue[];
+  /** Differences the baseline does not accept. */
+  readonly unexpected: ParityIssue[];
+  /** Baseline entries that no longer occur and should be removed. */
+  readonly stale: AcceptedDifference[];
+}
+
+/** What a (possibly composite) schema node allows, flattened across `anyOf` / `oneOf` / `$ref`. */
+interface NodeSummary {
+  /** No type constraint at all (`z.unknown()`, `{}`): nullability and enums are not compared. */
+  readonly any: boolean;
+  readonly types: Set<string>;
+  readonly enumValues: Set<string> | null;
+  readonly properties: Map<string, { node: JsonSchemaNode; required: boolean }> | null;
+  readonly items: JsonSchemaNode[];
+}
+
+function withNull(node: JsonSchemaNode): JsonSchemaNode {
+  return { anyOf: [node, { type: "null" }] };
+}
+
+/**
+ * Converts the input side of a Zod schema (what `safeParse` accepts, ignoring transforms and
+ * refinements) to JSON Schema. Keys whose schema accepts `undefined` are optional; `.strict()`
+ * objects get `additionalProperties: false`. Throws on Zod types the model schemas do not use.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchemaNode {
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return zodToJsonSchema(schema instanceof z.ZodOptional ? schema.unwrap() : schema.removeDefault());
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    return withNull(zodToJsonSchema(schema.unwrap()));
+  }
+
+  if (schema instanceof z.ZodLazy) {
+    return zodToJsonSchema(schema.schema);
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.entries(shape)
+      .filter(([, property]) => !property.isOptional())
+      .map(([key]) => key);
+    return {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, property]) => [key, zodToJsonSchema(property)])),
+      ...(required.length > 0 ? { required } : {}),
+      ...(schema._def.unknownKeys === "strict" ? { additionalProperties: false } : {})
+    };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    // `undefined` members only make the key optional, which the owning object already records.
+    const options = (schema.options as z.ZodTypeAny[]).filter((option) => !(option instanceof z.ZodUndefined));
+    return options.length === 1 ? zodToJsonSchema(options[0]) : { anyOf: options.map(zodToJsonSchema) };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", items: zodToJsonSchema(schema.element) };
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: "object", additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+
+  if (schema instanceof z.ZodString) {
+    const minimum = schema.minLength;
+    return { type: "string", ...(minimum !== null ? { minLength: minimum } : {}) };
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? "integer" : "number" };
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean" };
+  }
+
+  if (schema instanceof z.ZodDate) {
+    return { type: "string", format: "date-time" };
+  }
+
+  if (schema instanceof z.ZodNull) {
+    return { type: "null" };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: [...(schema.options as string[])] };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+
+  if (schema instanceof z.ZodUnknown || schema instanceof z.ZodAny) {
+    return {};
+  }
+
+  throw new Error(`zodToJsonSchema does not support ${schema._def.typeName ?? schema.constructor.name}.`);
+}
+
+function resolveReference(node: JsonSchemaNode, root: JsonSchemaNode): JsonSchemaNode {
+  if (!node.$ref) {
+    return node;
+  }
+
+  const match = /^#\/\$defs\/(.+)$/.exec(node.$ref);
+  const target = match ? root.$defs?.[match[1]] : undefined;
+  if (!target) {
+    throw new Error(`Cannot resolve ${node.$ref}; only local #/$defs references are supported.`);
+  }
+
+  return resolveReference(target, root);
+}
+
+function summarize(node: JsonSchemaNode, root: JsonSchemaNode): NodeSummary {
+  const types = new Set<string>();
+  let any = false;
+  let enumValues: Set<string> | null = null;
+  let properties: Map<string, { node: JsonSchemaNode; required: boolean }> | null = null;
+  const items: JsonSchemaNode[] = [];
+
+  const visit = (current: JsonSchemaNode) => {
+    const resolved = resolveReference(current, root);
+    const members = [...(resolved.anyOf ?? []), ...(resolved.oneOf ?? [])];
+    members.forEach(visit);
+
+    const typeList = resolved.type === undefined ? [] : Array.isArray(resolved.type) ? resolved.type : [resolved.type];
+    typeList.forEach((type) => types.add(type));
+    if (resolved.enum || resolved.const !== undefined) {
+      const values = resolved.enum ?? [resolved.const];
+      enumValues = new Set([...(enumValues ?? []), ...values.map((value) => JSON.stringify(value))]);
+      values.forEach((value) => types.add(value === null ? "null" : typeof value));
+    }
+
+    if (resolved.properties) {
+      properties ??= new Map();
+      const required = new Set(resolved.required ?? []);
+      for (const [key, property] of Object.entries(resolved.properties)) {
+        const existing = properties.get(key);
+        properties.set(key, { node: existing ? { anyOf: [existing.node, property] } : property, required: (existing?.required ?? false) || required.has(key) });
+      }
+    }
+
+    if (resolved.items) {
+      items.push(resolved.items);
+    }
+
+    if (members.length === 0 && typeList.length === 0 && !resolved.enum && resolved.const === undefined && !resolved.properties) {
+      any = true;
+    }
+  };
+
+  visit(node);
+  return { any, types, enumValues, properties, items };
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function formatValues(values: Iterable<string>): string {
+  return [...values].join(", ");
+}
+
+function compareNodes(zodNode: JsonSchemaNode, jsonNode: JsonSchemaNode, jsonRoot: JsonSchemaNode, path: string, issues: ParityIssue[]): void {
+  const zod = summarize(zodNode, zodNode);
+  const json = summarize(jsonNode, jsonRoot);
+
+  if (!zod.any && !json.any) {
+    const zodNullable = zod.types.has("null");
+    if (zodNullable !== json.types.has("null")) {
+      issues.push({
+        code: "parity.nullabilityMismatch",
+        message: `${zodNullable ? "The Zod schema" : "cir-v1.json"} accepts null here; ${zodNullable ? "cir-v1.json" : "the Zod schema"} does not.`,
+        path
+      });
+    }
+
+    const zodEnum = zod.enumValues;
+    const jsonEnum = json.enumValues;
+    if (zodEnum || jsonEnum) {
+      const onlyZod = zodEnum ? [...zodEnum].filter((value) => value !== "null" && !jsonEnum?.has(value)) : [];
+      const onlyJson = jsonEnum ? [...jsonEnum].filter((value) => value !== "null" && !zodEnum?.has(value)) : [];
+      if (!zodEnum || !jsonEnum) {
+        issues.push({
+          code: "parity.enumMismatch",
+          message: `Only ${zodEnum ? "the Zod schema" : "cir-v1.json"} restricts the values (${formatValues(zodEnum ?? jsonEnum!)}).`,
+          path
+        });
+      } else if (onlyZod.length > 0 || onlyJson.length > 0) {
+        const parts = [
+          ...(onlyZod.length > 0 ? [`only the Zod schema allows ${formatValues(onlyZod)}`] : []),
+          ...(onlyJson.length > 0 ? [`only cir-v1.json allows ${formatValues(onlyJson)}`] : [])
+        ];
+        issues.push({ code: "parity.enumMismatch", message: `Enum values differ: ${parts.join("; ")}.`, path });
+      }
+    }
+  }
+
+  if (zod.properties && json.properties) {
+    const keys = new Set([...zod.properties.keys(), ...json.properties.keys()]);
+    keys.forEach((key) => {
+      const propertyPath = joinPath(path, key);
+      const zodProperty = zod.properties!.get(key);
+      const jsonProperty = json.properties!.get(key);
+      if (!jsonProperty) {
+        issues.push({ code: "parity.propertyOnlyInZod", message: `The Zod schema accepts ${key}; cir-v1.json does not declare it.`, path: propertyPath });
+        return;
+      }
+
+      if (!zodProperty) {
+        issues.push({ code: "parity.propertyOnlyInJsonSchema", message: `cir-v1.json declares ${key}; the Zod schema does not accept it.`, path: propertyPath });
+        return;
+      }
+
+      if (zodProperty.required !== jsonProperty.required) {
+        issues.push({
+          code: "parity.requiredMismatch",
+          message: `${zodProperty.required ? "The Zod schema" : "cir-v1.json"} requires ${key}; ${zodProperty.required ? "cir-v1.json" : "the Zod schema"} does not.`,
+          path: propertyPath
+        });
+      }
+
+      compareNodes(zodProperty.node, jsonProperty.node, jsonRoot, propertyPath, issues);
+    });
+  }
+
+  if (zod.items.length > 0 && json.items.length > 0) {
+    compareNodes({ anyOf: zod.items }, { anyOf: json.items }, jsonRoot, `${path}[]`, issues);
+  }
+}
+
+/**
+ * Compares a schema derived with {@link zodToJsonSchema} with a hand-written JSON Schema, property by
+ * property: keys declared on one side only, keys required on one side only, and differences in
+ * nullability and enum values. Base types are not compared, as the Zod schemas deliberately accept
+ * the exporter's encodings (`0`/`1` flags, numeric strings) that CIR types more strictly.
+ */
+export function compareSchemas(zodSchema: JsonSchemaNode, jsonSchema: JsonSchemaNode): ParityIssue[] {
+  const issues: ParityIssue[] = [];
+  compareNodes(zodSchema, jsonSchema, jsonSchema, "", issues);
+  return issues;
+}
+
+function sameDifference(issue: ParityIssue, accepted: AcceptedDifference): boolean {
+  return issue.code === accepted.code && issue.path === accepted.path;
+}
+
+/** Splits the differences into the ones the baseline accepts and the rest, and finds stale entries. */
+export function checkParity(issues: ParityIssue[], baseline: ParityBaseline): ParityResult {
+  return {
+    issues,
+    unexpected: issues.filter((issue) => !baseline.accepted.some((accepted) => sameDifference(issue, accepted))),
+    stale: baseline.accepted.filter((accepted) => !issues.some((issue) => sameDifference(issue, accepted)))
+  };
+}
+
+const parityBaselineSchema = z
+  .object({
+    accepted: z.array(
+      z
+        .object({
+          code: z.enum(PARITY_ISSUE_CODES),
+          path: z.string().min(1, { message: "Accepted difference path is required." }),
+          reason: z.string().trim().min(1, { message: "Every accepted difference needs a reason." })
+        })
+        .strict()
+    )
+  })
+  .strict();
+
+export function parseParityBaselineJson(input: unknown): ParityBaseline {
+  return parityBaselineSchema.parse(input);
+}
@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+export type StaticDataValue = string | number | boolean | null;
+
+export interface StaticDataTable {
+  readonly schema: string;
+  readonly table: string;
+  /** Rows keyed by physical column name, exactly as the seed fixture spells them. */
+  readonly rows: Array<Readonly<Record<string, StaticDataValue>>>;
+}
+
+export interface StaticDataSet {
+  readonly tables: StaticDataTable[];
+}
+
+function requiredName(label: string) {
+  return z
+    .string({ required_error: `${label} is required.`, invalid_type_error: `${label} must be a string.` })
+    .trim()
+    .min(1, { message: `${label} must not be empty.` });
+}
+
+const valueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()], {
+  errorMap: () => ({ message: "Seed values must be a string, number, boolean or null." })
+});
+
+const tableSchema = z
+  .object({
+    schema: requiredName("schema"),
+    table: requiredName("table"),
+    rows: z.array(z.record(valueSchema), {
+      required_error: "rows is required.",
+      invalid_type_error: "rows must be an array of objects keyed by physical column name."
+    })
+  })
+  .strict();
+
+/**
+ * Schema for the static entity seed fixtures read by the .NET `FixtureStaticEntityDataProvider`
+ * (`tests/Fixtures/static-data/static-entities.*.json`).
+ */
+export const staticDataSchema = z
+  .object({
+    $schema: z.string().optional(),
+    $comment: z.string().optional(),
+    tables: z.array(tableSchema, {
+      required_error: "Static entity data must contain a 'tables' array.",
+      invalid_type_error: "Static entity data must contain a 'tables' array."
+    })
+  })
+  .strict()
+  .transform((data): StaticDataSet => ({ tables: data.tables }));
+
+export function parseStaticDataJson(input: unknown): StaticDataSet {
+  return staticDataSchema.parse(input);
+}
+
+export function safeParseStaticDataJson(input: unknown) {
+  return staticDataSchema.safeParse(input);
+}
@@ -0,0 +1,327 @@
+import type { NormalizedAttribute, NormalizedEntity, NormalizedModel, NormalizedModule } from "./modelSchema.js";
+import { buildEntityLookup, findEntityByLogicalName, findEntityByPhysicalName, type EntityLookup } from "./referenceResolution.js";
+import type { StaticDataSet, StaticDataTable, StaticDataValue } from "./staticDataSchema.js";
+import { normalizeTypeKey } from "./typeMapping.js";
+
+export type StaticDataIssueCode =
+  | "staticData.tableUnknown"
+  | "staticData.tableNotStatic"
+  | "staticData.tableDuplicate"
+  | "staticData.tableMissing"
+  | "staticData.columnUnknown"
+  | "staticData.columnMissing"
+  | "staticData.valueNull"
+  | "staticData.valueType"
+  | "staticData.valueLength"
+  | "staticData.identifierDuplicate"
+  | "staticData.referenceUnresolved";
+
+export interface StaticDataIssue {
+  readonly code: StaticDataIssueCode;
+  readonly message: string;
+  /** Path inside the seed file (`tables[0].rows[2].NAME`); empty for static entities the file does not seed. */
+  readonly path: (string | number)[];
+}
+
+export interface StaticDataValidation {
+  readonly tables: number;
+  readonly rows: number;
+  readonly issues: StaticDataIssue[];
+}
+
+interface SeededTable {
+  readonly entity: NormalizedEntity;
+  readonly data: StaticDataTable;
+  readonly tableIndex: number;
+}
+
+const INTEGER_TYPES = new Set(["identifier", "integer", "longinteger", "autonumber"]);
+const DECIMAL_TYPES = new Set(["decimal", "currency"]);
+const DATE_TIME_TYPES = new Set(["datetime", "datetime2"]);
+const GUID_TYPES = new Set(["guid", "uniqueidentifier"]);
+const TEXT_TYPES = new Set(["text", "email", "phonenumber", "url", "binarydata"]);
+const INT32_MAX = 2_147_483_647;
+const GUID_PATTERN = /^\{?[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}\}?$/i;
+
+function tableKey(schema: string, table: string): string {
+  return `${schema}.${table}`.toLowerCase();
+}
+
+function describeValue(value: StaticDataValue): string {
+  return typeof value === "string" ? `"${value}"` : String(value);
+}
+
+/** The key seed rows use for identifier and reference comparisons; `"1"` and `1` are the same row. */
+function valueKey(value: StaticDataValue): string {
+  return typeof value === "string" ? value.trim() : String(value);
+}
+
+function isValidDate(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return false;
+  }
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.getUTCMonth() === Number(match[2]) - 1 && date.getUTCDate() === Number(match[3]);
+}
+
+function fitsPrecision(value: number | string, precision: number | null, scale: number | null): boolean {
+  const [whole, fraction = ""] = String(value).replace(/^[+-]/, "").split(".");
+  const wholeDigits = whole.replace(/^0+(?=\d)/, "").length;
+  if (scale !== null && fraction.replace(/0+$/, "").length > scale) {
+    return false;
+  }
+
+  return precision === null || wholeDigits <= precision - (scale ?? 0);
+}
+
+/**
+ * Checks a non-null value against the attribute's OutSystems data type the way the .NET fixture
+ * loader converts it; returns why it is incompatible, or `null` when it fits.
+ */
+function checkValueType(attribute: NormalizedAttribute, value: Exclude<StaticDataValue, null>): string | null {
+  const type = normalizeTypeKey(attribute.dataType);
+  const expected = (description: string) => `expected ${description} for ${attribute.dataType}, found ${describeValue(value)}`;
+
+  if (type === "boolean") {
+    return typeof value === "boolean" || (typeof value === "string" && /^(true|false)$/i.test(value.trim()))
+      ? null
+      : expected("true or false");
+  }
+
+  if (INTEGER_TYPES.has(type)) {
+    const number = typeof value === "string" && /^[+-]?\d+$/.test(value.trim()) ? Number(value) : value;
+    if (typeof number !== "number" || !Number.isInteger(number)) {
+      return expected("an integer");
+    }
+
+    return type === "integer" && Math.abs(number) > INT32_MAX ? expected("a 32-bit integer") : null;
+  }
+
+  if (DECIMAL_TYPES.has(type)) {
+    const numeric = typeof value === "number" || (typeof value === "string" && /^[+-]?\d+(\.\d+)?$/.test(value.trim()));
+    if (!numeric) {
+      return expected("a number");
+    }
+
+    return fitsPrecision(typeof value === "string" ? value.trim() : value, attribute.precision, attribute.scale)
+      ? null
+      : expected(`a number that fits decimal(${attribute.precision ?? 37}, ${attribute.scale ?? 8})`);
+  }
+
+  if (type === "date") {
+    return typeof value === "string" && isValidDate(value) ? null : expected("a yyyy-MM-dd date");
+  }
+
+  if (type === "time") {
+    return typeof value === "string" && /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?$/.test(value.trim())
+      ? null
+      : expected("an HH:mm:ss time");
+  }
+
+  if (DATE_TIME_TYPES.has(type)) {
+    return typeof value === "string" && !Number.isNaN(Date.parse(value)) ? null : expected("an ISO 8601 date and time");
+  }
+
+  if (GUID_TYPES.has(type)) {
+    return typeof value === "string" && GUID_PATTERN.test(value.trim()) ? null : expected("a GUID");
+  }
+
+  if (TEXT_TYPES.has(type) && typeof value !== "string") {
+    return expected("a string");
+  }
+
+  return null;
+}
+
+/** Declared length of a text column: the attribute's `length`, else its `onDisk.maxLength` (`-1` is MAX). */
+function maxLengthOf(attribute: NormalizedAttribute): number | null {
+  const length = attribute.length ?? attribute.onDisk?.maxLength ?? null;
+  return length !== null && length > 0 ? length : null;
+}
+
+function findTarget(lookup: EntityLookup, attribute: NormalizedAttribute): NormalizedEntity | null {
+  const { targetEntityPhysicalName, targetEntityName } = attribute.reference;
+  const location =
+    (targetEntityPhysicalName ? findEntityByPhysicalName(lookup, targetEntityPhysicalName) : null) ??
+    (targetEntityName ? findEntityByLogicalName(lookup, targetEntityName) : null);
+  return location?.entity ?? null;
+}
+
+function identifierValues(seeded: SeededTable): Set<string> | null {
+  const identifier = seeded.entity.attributes.find((attribute) => attribute.isIdentifier);
+  if (!identifier) {
+    return null;
+  }
+
+  return new Set(
+    seeded.data.rows
+      .map((row) => row[identifier.physicalName])
+      .filter((value): value is Exclude<StaticDataValue, null> => value !== null && value !== undefined)
+      .map(valueKey)
+  );
+}
+
+function validateRows(seeded: SeededTable, seededByKey: Map<string, SeededTable>, lookup: EntityLookup, issues: StaticDataIssue[]): void {
+  const { entity, data, tableIndex } = seeded;
+  const label = `${entity.schema}.${entity.physicalName}`;
+  const columns = new Map(entity.attributes.map((attribute) => [attribute.physicalName, attribute]));
+  const columnsIgnoringCase = new Map(entity.attributes.map((attribute) => [attribute.physicalName.toLowerCase(), attribute]));
+  const required = entity.attributes.filter((attribute) => attribute.isActive && (attribute.isMandatory || attribute.isIdentifier));
+  const identifiers = entity.attributes.filter((attribute) => attribute.isIdentifier);
+  const firstRowByIdentifier = new Map<string, number>();
+
+  data.rows.forEach((row, rowIndex) => {
+    const rowPath = ["tables", tableIndex, "rows", rowIndex];
+
+    for (const [column, value] of Object.entries(row)) {
+      const attribute = columns.get(column);
+      const valuePath = [...rowPath, column];
+      if (!attribute) {
+        const caseMismatch = columnsIgnoringCase.get(column.toLowerCase());
+        issues.push({
+          code: "staticData.columnUnknown",
+          message: caseMismatch
+            ? `Column "${column}" of ${label} differs in case from "${caseMismatch.physicalName}"; seed columns are matched exactly.`
+            : `${label} has no column "${column}".`,
+          path: valuePath
+        });
+        continue;
+      }
+
+      if (value === null) {
+        if (attribute.isActive && (attribute.isMandatory || attribute.isIdentifier)) {
+          issues.push({
+            code: "staticData.valueNull",
+            message: `${entity.name}.${attribute.name} is mandatory but the row sets ${column} to null.`,
+            path: valuePath
+          });
+        }
+        continue;
+      }
+
+      const typeProblem = checkValueType(attribute, value);
+      if (typeProblem) {
+        issues.push({ code: "staticData.valueType", message: `${entity.name}.${attribute.name}: ${typeProblem}.`, path: valuePath });
+        continue;
+      }
+
+      const maxLength = maxLengthOf(attribute);
+      if (typeof value === "string" && maxLength !== null && value.length > maxLength) {
+        issues.push({
+          code: "staticData.valueLength",
+          message: `${entity.name}.${attribute.name} allows ${maxLength} characters; the value has ${value.length}.`,
+          path: valuePath
+        });
+      }
+
+      if (attribute.reference.isReference) {
+        const target = findTarget(lookup, attribute);
+        const targetSeed = target?.isStatic ? seededByKey.get(tableKey(target.schema, target.physicalName)) : undefined;
+        const known = targetSeed ? identifierValues(targetSeed) : null;
+        if (target && targetSeed && known && !known.has(valueKey(value))) {
+          issues.push({
+            code: "staticData.referenceUnresolved",
+            message: `${entity.name}.${attribute.name} references ${target.name} ${describeValue(value)}, which is not in the ${target.schema}.${target.physicalName} seed rows.`,
+            path: valuePath
+          });
+        }
+      }
+    }
+
+    for (const attribute of required) {
+      if (!(attribute.physicalName in row)) {
+        issues.push({
+          code: "staticData.columnMissing",
+          message: `Row is missing mandatory column ${attribute.physicalName} (${entity.name}.${attribute.name}).`,
+          path: rowPath
+        });
+      }
+    }
+
+    const identifierParts = identifiers.map((attribute) => row[attribute.physicalName]);
+    if (identifiers.length > 0 && identifierParts.every((value) => value !== null && value !== undefined)) {
+      const key = identifierParts.map((value) => valueKey(value as Exclude<StaticDataValue, null>)).join("\u0000");
+      const first = firstRowByIdentifier.get(key);
+      if (first === undefined) {
+        firstRowByIdentifier.set(key, rowIndex);
+      } else {
+        issues.push({
+          code: "staticData.identifierDuplicate",
+          message: `${entity.name} identifier ${identifierParts.map((value) => describeValue(value as StaticDataValue)).join(", ")} is already used by rows[${first}].`,
+          path: [...rowPath, ...(identifiers.length === 1 ? [identifiers[0].physicalName] : [])]
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Validates static entity seed rows against the model: every table must map to an `isStatic` entity
+ * (by schema and physical name, case-insensitively like the .NET loader), every row key must be a
+ * physical column, values must fit the attribute's data type and length, mandatory columns must be
+ * present, identifiers unique, and references to other seeded static entities must resolve.
+ */
+export function validateStaticData(model: NormalizedModel, data: StaticDataSet): StaticDataValidation {
+  const lookup = buildEntityLookup(model);
+  const issues: StaticDataIssue[] = [];
+  const entitiesByKey = new Map<string, { module: NormalizedModule; entity: NormalizedEntity }>();
+  for (const module of model.modules) {
+    for (const entity of module.entities) {
+      entitiesByKey.set(tableKey(entity.schema, entity.physicalName), { module, entity });
+    }
+  }
+
+  const seededByKey = new Map<string, SeededTable>();
+  data.tables.forEach((table, tableIndex) => {
+    const key = tableKey(table.schema, table.table);
+    const match = entitiesByKey.get(key);
+    const path = ["tables", tableIndex];
+    if (!match) {
+      issues.push({ code: "staticData.tableUnknown", message: `No entity in the model maps to ${table.schema}.${table.table}.`, path });
+      return;
+    }
+
+    if (!match.entity.isStatic) {
+      issues.push({
+        code: "staticData.tableNotStatic",
+        message: `${table.schema}.${table.table} is ${match.module.name}.${match.entity.name}, which is not a static entity.`,
+        path
+      });
+      return;
+    }
+
+    const existing = seededByKey.get(key);
+    if (existing) {
+      issues.push({
+        code: "staticData.tableDuplicate",
+        message: `${table.schema}.${table.table} is already seeded by tables[${existing.tableIndex}]; the loader keeps only the last one.`,
+        path
+      });
+      return;
+    }
+
+    seededByKey.set(key, { entity: match.entity, data: table, tableIndex });
+  });
+
+  for (const { module, entity } of entitiesByKey.values()) {
+    if (entity.isStatic && entity.isActive && !seededByKey.has(tableKey(entity.schema, entity.physicalName))) {
+      issues.push({
+        code: "staticData.tableMissing",
+        message: `Static entity ${module.name}.${entity.name} (${entity.schema}.${entity.physicalName}) has no seed rows; the emission pipeline fails without them.`,
+        path: []
+      });
+    }
+  }
+
+  for (const seeded of seededByKey.values()) {
+    validateRows(seeded, seededByKey, lookup, issues);
+  }
+
+  return {
+    tables: data.tables.length,
+    rows: data.tables.reduce((total, table) => total + table.rows.length, 0),
+    issues
+  };
+}
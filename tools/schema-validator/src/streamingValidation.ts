@@ -0,0 +1,287 @@
+import fs from "node:fs";
+import path from "node:path";
+import process from "node:process";
+
+import type { ZodIssue } from "zod";
+
+import { JsonSourceError, pointerOf, type SourceLocation } from "./jsonSource.js";
+import { locateStreamedPath, parseJsonStream, type JsonStreamResult, type StreamedValue } from "./jsonStream.js";
+import { defaultModelRuleSet, type ModelRuleSet, type RuleIssue } from "./modelRules.js";
+import { entitySchema, modelShellSchema, moduleShellSchema, type NormalizedEntity } from "./modelSchema.js";
+import {
+  classifyReferenceIssues,
+  createValidationReport,
+  describeIssuePath,
+  type ValidationIssue,
+  type ValidationReport
+} from "./modelValidation.js";
+import {
+  checkEntityReferences,
+  createReferenceResolver,
+  type CrossEntityReference,
+  type ReferenceIssue
+} from "./referenceResolution.js";
+import { resolveEntityTypes, type TypeMappingPolicy } from "./typeMapping.js";
+
+export interface StreamingValidationOptions {
+  /** Called with each issue as soon as it is found, before the report is complete. */
+  readonly onIssue?: (issue: ValidationIssue) => void;
+  /** Read size in bytes (default 64 KiB). */
+  readonly chunkSize?: number;
+  /** Rule severities and suppressions (default: every rule at its default severity). */
+  readonly rules?: ModelRuleSet;
+}
+
+type IssueContext = Pick<ValidationIssue, "module" | "entity" | "attribute" | "location">;
+
+/** Names of a streamed entity and where they were, for the module-wide rules. */
+interface EntityOutline extends Pick<NormalizedEntity, "name" | "physicalName"> {
+  readonly locations: ReadonlyMap<string, SourceLocation>;
+}
+
+/** What is kept of a module while its entities stream past: enough for the module-wide rules. */
+interface ModuleProgress {
+  /** Filled in when the module object completes; reference messages read it at the end. */
+  readonly module: { name: string };
+  /** `null` for entities that failed their schema. */
+  readonly entities: (EntityOutline | null)[];
+}
+
+function isEntityPath(path: readonly (string | number)[]): boolean {
+  return path.length === 4 && path[0] === "modules" && typeof path[1] === "number" && path[2] === "entities" && typeof path[3] === "number";
+}
+
+function isModulePath(path: readonly (string | number)[]): boolean {
+  return path.length === 2 && path[0] === "modules" && typeof path[1] === "number";
+}
+
+function rawName(value: unknown): string | null {
+  if (value === null || typeof value !== "object") {
+    return null;
+  }
+
+  const name = (value as Record<string, unknown>).name;
+  return typeof name === "string" && name.trim().length > 0 ? name.trim() : null;
+}
+
+/**
+ * Validates a model file without loading it whole: each entity is parsed, checked against the
+ * entity schema and the entity rules, checked for its own references (index columns, relationship
+ * attributes) and type-resolved as soon as its closing brace is read, and then dropped. Module and
+ * model shells are checked once their entities have gone by, module and model rules included.
+ *
+ * Peak memory is bounded by the largest entity plus a compact outline of the model: entity names
+ * for the duplicate checks and lookups, and the pending cross-entity references, which are
+ * resolved after the last entity. Unlike {@link validateModel}, every stage runs on every entity
+ * that passes the schema, so reference and type issues are reported next to schema issues of
+ * other entities; the report carries no normalized model and no source text.
+ */
+export async function validateModelStream(
+  filePath: string,
+  typeMapping: TypeMappingPolicy,
+  options: StreamingValidationOptions = {}
+): Promise<ValidationReport> {
+  const rules = options.rules ?? defaultModelRuleSet;
+  const issues: ValidationIssue[] = [];
+  let suppressed = 0;
+  const emit = (issue: ValidationIssue) => {
+    issues.push(issue);
+    options.onIssue?.(issue);
+  };
+  const emitChecked = (issue: ValidationIssue) => {
+    if (rules.suppresses(issue)) {
+      suppressed++;
+    } else {
+      emit(issue);
+    }
+  };
+  const emitRuleIssue = (issue: RuleIssue, context: IssueContext) => emitChecked({ ...issue, stage: "rules", ...context });
+  const emitReferenceIssue = (issue: ReferenceIssue, context: IssueContext) =>
+    classifyReferenceIssues([issue], rules, () => context).forEach(emitChecked);
+  const counts = { modules: 0, entities: 0, attributes: 0 };
+  const modules = new Map<number, ModuleProgress>();
+  /** Name and name position of every module, `null` for modules that failed their schema. */
+  const moduleOutlines: ({ name: string; location: SourceLocation | null } | null)[] = [];
+  const resolver = createReferenceResolver();
+  const pending: CrossEntityReference[] = [];
+  /** Context of every path a pending reference can report on, captured while its entity was in memory. */
+  const pendingContext = new Map<string, IssueContext>();
+
+  const progressOf = (moduleIndex: number): ModuleProgress => {
+    let progress = modules.get(moduleIndex);
+    if (!progress) {
+      progress = { module: { name: "" }, entities: [] };
+      modules.set(moduleIndex, progress);
+    }
+
+    return progress;
+  };
+
+  const schemaIssue = (
+    issue: Pick<ZodIssue, "code" | "message">,
+    fullPath: (string | number)[],
+    context: IssueContext
+  ): ValidationIssue => ({
+    ruleId: `schema.${issue.code}`,
+    severity: "error",
+    stage: "schema",
+    message: issue.message,
+    path: fullPath,
+    ...context
+  });
+
+  const onEntity = ({ path: entityPath, value, ancestors, locations }: StreamedValue) => {
+    const moduleIndex = entityPath[1] as number;
+    const progress = progressOf(moduleIndex);
+    const moduleName = rawName(ancestors[2]);
+    const entityName = rawName(value);
+    const context = (issuePath: (string | number)[]): IssueContext => ({
+      module: moduleName,
+      entity: entityName,
+      attribute: describeIssuePath(value, issuePath.slice(entityPath.length)).attribute,
+      location: locateStreamedPath(locations, issuePath)
+    });
+
+    const parsed = entitySchema.safeParse(value);
+    if (!parsed.success) {
+      progress.entities.push(null);
+      parsed.error.issues.forEach((issue) => {
+        const fullPath = [...entityPath, ...issue.path];
+        emit(schemaIssue(issue, fullPath, context(fullPath)));
+      });
+      return;
+    }
+
+    const entity = parsed.data;
+    const outlineLocations = new Map<string, SourceLocation>();
+    ["name", "physicalName"].forEach((property) => {
+      const location = locateStreamedPath(locations, [...entityPath, property]);
+      if (location) {
+        outlineLocations.set(pointerOf([...entityPath, property]), location);
+      }
+    });
+    progress.entities.push({ name: entity.name, physicalName: entity.physicalName, locations: outlineLocations });
+    resolver.addEntity(progress.module, entity);
+    counts.entities++;
+    counts.attributes += entity.attributes.length;
+    rules.checkEntity(entity, value, entityPath).forEach((issue) => emitRuleIssue(issue, context(issue.path)));
+
+    const check = checkEntityReferences(entity, entityPath);
+    check.references.forEach((reference) => {
+      [reference.logicalPath, reference.physicalPath, reference.idPath].forEach((referencePath) => {
+        if (referencePath.length > 0) {
+          pendingContext.set(pointerOf(referencePath), context(referencePath));
+        }
+      });
+    });
+    pending.push(...check.references);
+    check.issues.forEach((issue) => emitReferenceIssue(issue, context(issue.path)));
+
+    resolveEntityTypes(entity, entityPath, typeMapping).issues.forEach((issue) => {
+      emit(typeIssue(issue, context(issue.path)));
+    });
+  };
+
+  const onModule = ({ path: modulePath, value, locations }: StreamedValue) => {
+    const moduleIndex = modulePath[1] as number;
+    const progress = progressOf(moduleIndex);
+    modules.delete(moduleIndex);
+    const moduleName = rawName(value);
+    const context = (issuePath: (string | number)[]): IssueContext => ({
+      module: moduleName,
+      entity: null,
+      attribute: null,
+      location: locateStreamedPath(locations, issuePath)
+    });
+
+    const parsed = moduleShellSchema.safeParse(value);
+    if (!parsed.success) {
+      moduleOutlines.push(null);
+      parsed.error.issues.forEach((issue) => {
+        const fullPath = [...modulePath, ...issue.path];
+        emit(schemaIssue(issue, fullPath, context(fullPath)));
+      });
+      return;
+    }
+
+    progress.module.name = parsed.data.name;
+    moduleOutlines.push({ name: parsed.data.name, location: locateStreamedPath(locations, [...modulePath, "name"]) });
+    counts.modules++;
+    rules.checkModule({ name: parsed.data.name, entities: progress.entities }, value, modulePath).forEach((issue) => {
+      const entityIndex = issue.path[3];
+      const outline = issue.path[2] === "entities" && typeof entityIndex === "number" ? progress.entities[entityIndex] : null;
+      emitRuleIssue(issue, {
+        ...context(issue.path),
+        entity: outline?.name ?? null,
+        location: (outline && locateStreamedPath(outline.locations, issue.path)) ?? context(issue.path).location
+      });
+    });
+  };
+
+  const stream = fs.createReadStream(path.resolve(process.cwd(), filePath), {
+    encoding: "utf8",
+    highWaterMark: options.chunkSize ?? 64 * 1024
+  });
+
+  let document: JsonStreamResult;
+  try {
+    document = await parseJsonStream(stream as AsyncIterable<string>, {
+      capture: (valuePath) => isEntityPath(valuePath) || isModulePath(valuePath),
+      onValue: (streamed) => (isEntityPath(streamed.path) ? onEntity(streamed) : onModule(streamed))
+    });
+  } catch (error) {
+    stream.destroy();
+    const absolutePath = path.resolve(process.cwd(), filePath);
+    const message = error instanceof Error ? error.message : "Unable to load the JSON file.";
+    const location = error instanceof JsonSourceError ? error.location : null;
+    const loadIssue: ValidationIssue = {
+      ruleId: "load.json",
+      severity: "error",
+      stage: "load",
+      message: error instanceof JsonSourceError ? `Failed to parse JSON from ${absolutePath}: ${message}` : message,
+      path: [],
+      module: null,
+      entity: null,
+      attribute: null,
+      location
+    };
+    options.onIssue?.(loadIssue);
+    // The load failure leads, as it does for files that fail before any entity is read.
+    return createValidationReport(filePath, [loadIssue, ...issues], null, counts, null, null, suppressed);
+  }
+
+  const rootContext = (issuePath: (string | number)[]): IssueContext => ({
+    module: null,
+    entity: null,
+    attribute: null,
+    location: locateStreamedPath(document.locations, issuePath)
+  });
+  const shell = modelShellSchema.safeParse(document.value);
+  if (!shell.success) {
+    shell.error.issues.forEach((issue) => emit(schemaIssue(issue, issue.path, rootContext(issue.path))));
+  } else {
+    const moduleNames = moduleOutlines.map((outline) => outline?.name ?? null);
+    rules.checkModel(moduleNames, document.value).forEach((issue) => {
+      const moduleIndex = issue.path[1];
+      const outline = issue.path[0] === "modules" && typeof moduleIndex === "number" ? moduleOutlines[moduleIndex] : null;
+      emitRuleIssue(issue, {
+        ...rootContext(issue.path),
+        module: outline?.name ?? null,
+        location: outline?.location ?? rootContext(issue.path).location
+      });
+    });
+  }
+
+  resolver.resolve(pending).forEach((issue) => {
+    emitReferenceIssue(issue, pendingContext.get(pointerOf(issue.path)) ?? rootContext(issue.path));
+  });
+
+  return createValidationReport(filePath, issues, null, counts, null, null, suppressed);
+}
+
+function typeIssue(
+  issue: { readonly code: string; readonly message: string; readonly path: (string | number)[] },
+  context: IssueContext
+): ValidationIssue {
+  return { ruleId: issue.code, severity: "error", stage: "types", message: issue.message, path: issue.path, ...context };
+}
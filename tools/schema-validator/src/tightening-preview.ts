@@ -0,0 +1,205 @@
+#!/usr/bin/env node
+import process from "node:process";
+import { fileURLToPath } from "node:url";
+
+import { ZodError } from "zod";
+
+import { loadJson } from "./jsonFile.js";
+import { formatZodErrors, parseModelJson } from "./modelSchema.js";
+import { parseProfileJson } from "./profileSchema.js";
+import { parseTighteningConfigJson, TIGHTENING_MODES, type TighteningMode } from "./tighteningConfig.js";
+import { formatTighteningPreview, previewTightening, type TighteningPreview } from "./tighteningPreview.js";
+
+type OutputFormat = "text" | "json";
+
+interface CliOptions {
+  readonly modelPath: string;
+  readonly profilePath: string;
+  readonly configPath: string;
+  readonly mode: TighteningMode | null;
+  readonly format: OutputFormat;
+}
+
+const DEFAULT_CONFIG_PATH = fileURLToPath(new URL("../../../config/default-tightening.json", import.meta.url));
+
+function isTighteningMode(value: string | undefined): value is TighteningMode {
+  return (TIGHTENING_MODES as readonly string[]).includes(value ?? "");
+}
+
+function parseArguments(argv: string[]): CliOptions | null {
+  let modelPath: string | undefined;
+  let profilePath: string | undefined;
+  let configPath = DEFAULT_CONFIG_PATH;
+  let mode: TighteningMode | null = null;
+  let format: OutputFormat = "text";
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--profile" || argument === "-p") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--profile expects a path to the profiling snapshot JSON.");
+      }
+
+      profilePath = value;
+      continue;
+    }
+
+    if (argument === "--config" || argument === "-c") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--config expects a path to the tightening configuration JSON.");
+      }
+
+      configPath = value;
+      continue;
+    }
+
+    if (argument === "--mode") {
+      const value = argv[++index];
+      if (!isTighteningMode(value)) {
+        throw new Error(`--mode expects one of ${TIGHTENING_MODES.join(", ")} (received ${value ?? "nothing"}).`);
+      }
+
+      mode = value;
+      continue;
+    }
+
+    if (argument === "--json") {
+      format = "json";
+      continue;
+    }
+
+    if (argument === "--format" || argument === "-f") {
+      const value = argv[++index];
+      if (value !== "text" && value !== "json") {
+        throw new Error(`--format expects "text" or "json" (received ${value ?? "nothing"}).`);
+      }
+
+      format = value;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    if (modelPath) {
+      throw new Error("Only one model JSON file path can be supplied.");
+    }
+
+    modelPath = argument;
+  }
+
+  if (!modelPath) {
+    throw new Error("Path to the model JSON is required.");
+  }
+
+  if (!profilePath) {
+    throw new Error("--profile is required.");
+  }
+
+  return { modelPath, profilePath, configPath, mode, format };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run tightening-preview -- <model.json> --profile <profile.json> [options]\n\n` +
+    `Options:\n` +
+    `  -h, --help              Show this message.\n` +
+    `  -p, --profile <path>    Profiling snapshot supplying the evidence (required).\n` +
+    `  -c, --config <path>     Tightening configuration (default: config/default-tightening.json).\n` +
+    `      --mode <mode>       Override policy.mode: ${TIGHTENING_MODES.join(", ")}.\n` +
+    `  -f, --format <format>   Output format: text (default) or json.\n` +
+    `      --json              Shorthand for --format json.\n` +
+    `\nExamples:\n` +
+    `  npm run tightening-preview -- ../../tests/Fixtures/policy/kernel-model.json --profile ../../tests/Fixtures/policy/kernel-profile.json\n` +
+    `  npm run tightening-preview -- model.json -p profile.json --mode Aggressive --json > opportunities.json\n`);
+}
+
+async function loadInput<T>(label: string, filePath: string, parse: (input: unknown) => T): Promise<T> {
+  const raw = await loadJson(filePath);
+  try {
+    return parse(raw);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `${label} ${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
+    }
+
+    throw error;
+  }
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  let preview: TighteningPreview;
+  try {
+    const model = await loadInput("Model", options.modelPath, parseModelJson);
+    const profile = await loadInput("Profile", options.profilePath, parseProfileJson);
+    const config = await loadInput("Tightening config", options.configPath, parseTighteningConfigJson);
+    const tightening = options.mode ? { ...config, policy: { ...config.policy, mode: options.mode } } : config;
+    preview = previewTightening(model, profile, tightening);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to load the tightening inputs.");
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options.format === "json") {
+    console.log(JSON.stringify(preview, null, 2));
+    return;
+  }
+
+  const remediation = preview.DispositionCounts.NeedsRemediation ?? 0;
+  const contradictions = preview.CategoryCounts.Contradiction ?? 0;
+  if (preview.Opportunities.length === 0) {
+    console.log(`✅ No tightening opportunities (${preview.Mode}).`);
+    return;
+  }
+
+  if (contradictions > 0) {
+    console.log(`⚠ ${contradictions} contradiction${contradictions === 1 ? "" : "s"} between the model and the profiled data (${preview.Mode}).`);
+  } else {
+    console.log(`✅ No contradictions between the model and the profiled data (${preview.Mode}).`);
+  }
+
+  console.log(
+    `${preview.Opportunities.length} decision${preview.Opportunities.length === 1 ? "" : "s"}, ` +
+      `${remediation} need${remediation === 1 ? "s" : ""} remediation.\n`
+  );
+  formatTighteningPreview(preview).forEach((line) => console.log(line));
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,405 @@
+import { z } from "zod";
+
+export const TIGHTENING_MODES = ["Cautious", "EvidenceGated", "Aggressive"] as const;
+
+export type TighteningMode = (typeof TIGHTENING_MODES)[number];
+
+export const TABLE_EMISSION_MODES = ["BareOnly", "FullOnly", "Both"] as const;
+
+export type TableEmissionMode = (typeof TABLE_EMISSION_MODES)[number];
+
+export const STATIC_SEED_MODES = ["NonDestructive", "Authoritative", "ValidateThenApply"] as const;
+
+export type StaticSeedMode = (typeof STATIC_SEED_MODES)[number];
+
+export interface NullabilityOverride {
+  readonly module: string;
+  readonly entity: string;
+  readonly attribute: string;
+  /** Where the override sits in the configuration, for reporting stale entries. */
+  readonly path: (string | number)[];
+}
+
+export interface TighteningPolicy {
+  readonly mode: TighteningMode;
+  /** Fraction of rows (0..1) that may be NULL while still counting as clean evidence. */
+  readonly nullBudget: number;
+  readonly allowCautiousNullabilityRelaxation: boolean;
+  readonly nullabilityOverrides: NullabilityOverride[];
+}
+
+export interface ForeignKeyPolicy {
+  readonly enableCreation: boolean;
+  readonly allowCrossSchema: boolean;
+  readonly allowCrossCatalog: boolean;
+  readonly treatMissingDeleteRuleAsIgnore: boolean;
+  readonly allowNoCheckCreation: boolean;
+}
+
+export interface UniquenessPolicy {
+  readonly enforceSingleColumnUnique: boolean;
+  readonly enforceMultiColumnUnique: boolean;
+}
+
+export interface RemediationSentinels {
+  readonly numeric: string;
+  readonly text: string;
+  readonly date: string;
+}
+
+export interface RemediationPolicy {
+  readonly generatePreScripts: boolean;
+  readonly sentinels: RemediationSentinels;
+  readonly maxRowsDefaultBackfill: number;
+}
+
+/**
+ * One naming override, from `emission.namingOverrides.rules`, `.tables` or `.entities`. It renames
+ * the physical table `schema.table`, the logical entity (optionally scoped to `module`), or both.
+ */
+export interface NamingOverride {
+  /** `dbo` when only the table is given; `null` for entity-only overrides. */
+  readonly schema: string | null;
+  readonly table: string | null;
+  readonly module: string | null;
+  readonly entity: string | null;
+  readonly override: string;
+  readonly path: (string | number)[];
+}
+
+export interface StaticSeedPolicy {
+  readonly groupByModule: boolean;
+  readonly emitMasterFile: boolean;
+  readonly mode: StaticSeedMode;
+}
+
+export interface EmissionPolicy {
+  readonly perTableFiles: boolean;
+  readonly includePlatformAutoIndexes: boolean;
+  readonly sanitizeModuleNames: boolean;
+  /** `emitTableMode` when set, otherwise derived from the legacy `emitBareTableOnly` flag. */
+  readonly emitTableMode: TableEmissionMode;
+  readonly emitTableHeaders: boolean;
+  readonly moduleParallelism: number;
+  readonly namingOverrides: NamingOverride[];
+  readonly staticSeeds: StaticSeedPolicy;
+}
+
+export interface MockingPolicy {
+  readonly useProfileMockFolder: boolean;
+  readonly profileMockFolder: string | null;
+}
+
+export interface NormalizedTighteningOptions {
+  readonly policy: TighteningPolicy;
+  readonly foreignKeys: ForeignKeyPolicy;
+  readonly uniqueness: UniquenessPolicy;
+  /** `null` when the section is absent; the .NET pipeline requires it, the preview does not. */
+  readonly remediation: RemediationPolicy | null;
+  readonly emission: EmissionPolicy | null;
+  readonly mocking: MockingPolicy | null;
+}
+
+function requiredName(label: string) {
+  return z
+    .string({ required_error: `${label} is required.` })
+    .trim()
+    .min(1, { message: `${label} must not be empty.` });
+}
+
+const entityOverrideSchema = z
+  .object({
+    entity: requiredName("entity"),
+    attributes: z.array(requiredName("attribute")).default([])
+  })
+  .strict();
+
+const moduleOverrideSchema = z
+  .object({
+    module: requiredName("module"),
+    entities: z.array(entityOverrideSchema).default([])
+  })
+  .strict();
+
+const policySchema = z
+  .object({
+    mode: z.enum(TIGHTENING_MODES, {
+      errorMap: () => ({ message: `policy.mode must be one of ${TIGHTENING_MODES.join(", ")}.` })
+    }),
+    nullBudget: z
+      .number({ required_error: "policy.nullBudget is required." })
+      .min(0, { message: "policy.nullBudget must be between 0 and 1 inclusive." })
+      .max(1, { message: "policy.nullBudget must be between 0 and 1 inclusive." }),
+    allowCautiousNullabilityRelaxation: z.boolean().default(false),
+    nullabilityOverrides: z
+      .object({ modules: z.array(moduleOverrideSchema).default([]) })
+      .strict()
+      .nullish()
+  })
+  .strict()
+  .transform(
+    (policy): TighteningPolicy => ({
+      mode: policy.mode,
+      nullBudget: policy.nullBudget,
+      allowCautiousNullabilityRelaxation: policy.allowCautiousNullabilityRelaxation,
+      nullabilityOverrides: (policy.nullabilityOverrides?.modules ?? []).flatMap((module, moduleIndex) =>
+        module.entities.flatMap((entity, entityIndex) =>
+          entity.attributes.map((attribute, attributeIndex) => ({
+            module: module.module,
+            entity: entity.entity,
+            attribute,
+            path: [
+              "policy",
+              "nullabilityOverrides",
+              "modules",
+              moduleIndex,
+              "entities",
+              entityIndex,
+              "attributes",
+              attributeIndex
+            ]
+          }))
+        )
+      )
+    })
+  );
+
+const foreignKeysSchema = z
+  .object({
+    enableCreation: z.boolean(),
+    allowCrossSchema: z.boolean(),
+    allowCrossCatalog: z.boolean(),
+    treatMissingDeleteRuleAsIgnore: z.boolean().default(false),
+    allowNoCheckCreation: z.boolean().default(false)
+  })
+  .strict();
+
+const uniquenessSchema = z
+  .object({
+    enforceSingleColumnUnique: z.boolean(),
+    enforceMultiColumnUnique: z.boolean()
+  })
+  .strict();
+
+const remediationSchema = z
+  .object({
+    generatePreScripts: z.boolean().default(false),
+    sentinels: z
+      .object({
+        numeric: z.string({ required_error: "remediation.sentinels.numeric is required." }),
+        text: z.string({ required_error: "remediation.sentinels.text is required." }),
+        date: z.string({ required_error: "remediation.sentinels.date is required." })
+      })
+      .strict(),
+    maxRowsDefaultBackfill: z
+      .number()
+      .int({ message: "remediation.maxRowsDefaultBackfill must be a whole number." })
+      .min(0, { message: "remediation.maxRowsDefaultBackfill must be zero or greater." })
+      .default(0)
+  })
+  .strict();
+
+/** Table and entity names follow the .NET value objects: non-blank and at most 256 characters. */
+function identifier(label: string) {
+  return z
+    .string({ required_error: `${label} is required.` })
+    .trim()
+    .min(1, { message: `${label} must not be empty.` })
+    .max(256, { message: `${label} must be 256 characters or fewer.` });
+}
+
+const namingOverrideRuleSchema = z
+  .object({
+    schema: identifier("schema").nullish(),
+    table: identifier("table").nullish(),
+    module: identifier("module").nullish(),
+    entity: identifier("entity").nullish(),
+    override: identifier("override")
+  })
+  .strict();
+
+const namingOverridesSchema = z
+  .object({
+    rules: z.array(namingOverrideRuleSchema).nullish(),
+    tables: z.array(namingOverrideRuleSchema.omit({ module: true, entity: true })).nullish(),
+    entities: z.array(namingOverrideRuleSchema.omit({ schema: true, table: true })).nullish()
+  })
+  .strict();
+
+type NamingOverridesDocument = z.infer<typeof namingOverridesSchema>;
+
+type NamingOverrideRuleDocument = Partial<z.infer<typeof namingOverrideRuleSchema>> & { override: string };
+
+function flattenNamingOverrides(document: NamingOverridesDocument | null | undefined): NamingOverride[] {
+  const sections: [string, NamingOverrideRuleDocument[] | null | undefined][] = [
+    ["rules", document?.rules],
+    ["tables", document?.tables],
+    ["entities", document?.entities]
+  ];
+  return sections.flatMap(([section, rules]) =>
+    (rules ?? []).map(
+      (rule, index): NamingOverride => ({
+        schema: rule.schema ?? (rule.table ? "dbo" : null),
+        table: rule.table ?? null,
+        module: rule.module ?? null,
+        entity: rule.entity ?? null,
+        override: rule.override,
+        path: ["emission", "namingOverrides", section, index]
+      })
+    )
+  );
+}
+
+/** The rule shape checks `NamingOverrideRule.Create` and `NamingOverrideOptions.Create` apply at runtime. */
+function checkNamingOverrides(overrides: NamingOverride[], ctx: z.RefinementCtx): void {
+  const tables = new Map<string, string>();
+  const entities = new Map<string, string>();
+  overrides.forEach((rule) => {
+    const path = rule.path.slice(1);
+    if (rule.schema && !rule.table) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Physical overrides must include a table name.", path });
+    }
+
+    if (rule.module && !rule.entity) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Module-scoped overrides must include an entity name.", path });
+    }
+
+    if (!rule.table && !rule.entity) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Naming overrides must target a physical table, a logical entity, or both.",
+        path
+      });
+    }
+
+    const target = rule.override.toLowerCase();
+    if (rule.table) {
+      const key = `${rule.schema}.${rule.table}`;
+      const existing = tables.get(key.toLowerCase());
+      if (existing !== undefined && existing !== target) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Multiple overrides provided for ${key}.`, path });
+      }
+      tables.set(key.toLowerCase(), target);
+    }
+
+    if (rule.entity) {
+      const key = `${rule.module ?? ""}::${rule.entity}`.toLowerCase();
+      const existing = entities.get(key);
+      if (existing !== undefined && existing !== target) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Multiple overrides provided for logical entity ${rule.entity}.`,
+          path
+        });
+      }
+      entities.set(key, target);
+    }
+  });
+}
+
+const emissionSchema = z
+  .object({
+    perTableFiles: z.boolean().default(false),
+    includePlatformAutoIndexes: z.boolean().default(false),
+    sanitizeModuleNames: z.boolean().default(false),
+    emitTableMode: z
+      .enum(TABLE_EMISSION_MODES, {
+        errorMap: () => ({ message: `emission.emitTableMode must be one of ${TABLE_EMISSION_MODES.join(", ")}.` })
+      })
+      .nullish(),
+    emitBareTableOnly: z.boolean().nullish(),
+    emitTableHeaders: z.boolean().default(false),
+    moduleParallelism: z
+      .number()
+      .int({ message: "emission.moduleParallelism must be a whole number." })
+      .min(1, { message: "emission.moduleParallelism must be at least 1." })
+      .default(1),
+    namingOverrides: namingOverridesSchema.nullish(),
+    staticSeeds: z
+      .object({
+        groupByModule: z.boolean().default(true),
+        emitMasterFile: z.boolean().default(false),
+        mode: z
+          .enum(STATIC_SEED_MODES, {
+            errorMap: () => ({ message: `emission.staticSeeds.mode must be one of ${STATIC_SEED_MODES.join(", ")}.` })
+          })
+          .nullish()
+      })
+      .strict()
+      .nullish()
+  })
+  .strict()
+  .transform((emission, ctx): EmissionPolicy => {
+    const namingOverrides = flattenNamingOverrides(emission.namingOverrides);
+    checkNamingOverrides(namingOverrides, ctx);
+    return {
+      perTableFiles: emission.perTableFiles,
+      includePlatformAutoIndexes: emission.includePlatformAutoIndexes,
+      sanitizeModuleNames: emission.sanitizeModuleNames,
+      emitTableMode: emission.emitTableMode ?? (emission.emitBareTableOnly ? "BareOnly" : "FullOnly"),
+      emitTableHeaders: emission.emitTableHeaders,
+      moduleParallelism: emission.moduleParallelism,
+      namingOverrides,
+      staticSeeds: {
+        groupByModule: emission.staticSeeds?.groupByModule ?? true,
+        emitMasterFile: emission.staticSeeds?.emitMasterFile ?? false,
+        mode: emission.staticSeeds?.mode ?? "NonDestructive"
+      }
+    };
+  });
+
+const mockingSchema = z
+  .object({
+    useProfileMockFolder: z.boolean().default(false),
+    profileMockFolder: z.string().nullish()
+  })
+  .strict()
+  .superRefine((mocking, ctx) => {
+    if (mocking.useProfileMockFolder && !mocking.profileMockFolder?.trim()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "mocking.profileMockFolder must be supplied when useProfileMockFolder is enabled.",
+        path: ["profileMockFolder"]
+      });
+    }
+  })
+  .transform(
+    (mocking): MockingPolicy => ({
+      useProfileMockFolder: mocking.useProfileMockFolder,
+      profileMockFolder: mocking.profileMockFolder?.trim() || null
+    })
+  );
+
+/**
+ * Schema for the tightening configuration (`config/default-tightening.json`), mirroring the checks
+ * `TighteningOptionsDeserializer` applies. `remediation`, `emission` and `mocking` may be omitted so
+ * trimmed-down configs still drive the preview; `validate-config` reports them as missing.
+ */
+export const tighteningConfigSchema = z
+  .object({
+    policy: policySchema,
+    foreignKeys: foreignKeysSchema,
+    uniqueness: uniquenessSchema,
+    remediation: remediationSchema.optional(),
+    emission: emissionSchema.optional(),
+    mocking: mockingSchema.optional()
+  })
+  .strict()
+  .transform(
+    (config): NormalizedTighteningOptions => ({
+      policy: config.policy,
+      foreignKeys: config.foreignKeys,
+      uniqueness: config.uniqueness,
+      remediation: config.remediation ?? null,
+      emission: config.emission ?? null,
+      mocking: config.mocking ?? null
+    })
+  );
+
+export function parseTighteningConfigJson(input: unknown): NormalizedTighteningOptions {
+  return tighteningConfigSchema.parse(input);
+}
+
+export function safeParseTighteningConfigJson(input: unknown) {
+  return tighteningConfigSchema.safeParse(input);
+}
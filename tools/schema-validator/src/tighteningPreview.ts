@@ -0,0 +1,1381 @@
+import {
+  formatIssuePath,
+  type NormalizedAttribute,
+  type NormalizedEntity,
+  type NormalizedIndex,
+  type NormalizedModel,
+  type NormalizedModule
+} from "./modelSchema.js";
+import {
+  columnKey,
+  type ColumnProfile,
+  type CompositeUniqueCandidateProfile,
+  type ForeignKeyOrphanSample,
+  type ForeignKeyReality,
+  type NormalizedProfileSnapshot,
+  type OrphanSampleValue,
+  type ProbeOutcome,
+  type ProbeStatus,
+  type UniqueCandidateProfile
+} from "./profileSchema.js";
+import { buildEntityLookup, findEntityByLogicalName, findEntityByPhysicalName, type EntityLookup } from "./referenceResolution.js";
+import type { NormalizedTighteningOptions, TighteningMode } from "./tighteningConfig.js";
+
+/** Rationale codes shared with the .NET tightening engine (`TighteningRationales`). */
+export const RATIONALES = {
+  primaryKey: "PK",
+  physicalNotNull: "PHYSICAL_NOT_NULL",
+  uniqueNoNulls: "UNIQUE_NO_NULLS",
+  compositeUniqueNoNulls: "COMPOSITE_UNIQUE_NO_NULLS",
+  dataNoNulls: "DATA_NO_NULLS",
+  dataHasNulls: "DATA_HAS_NULLS",
+  nullBudgetEpsilon: "NULL_BUDGET_EPSILON",
+  mandatory: "MANDATORY",
+  defaultPresent: "DEFAULT_PRESENT",
+  foreignKeyEnforced: "FK_ENFORCED",
+  deleteRuleIgnore: "DELETE_RULE_IGNORE",
+  dataHasOrphans: "DATA_HAS_ORPHANS",
+  databaseConstraintPresent: "DB_CONSTRAINT_PRESENT",
+  policyEnableCreation: "POLICY_ENABLE_CREATION",
+  crossSchema: "CROSS_SCHEMA",
+  crossCatalog: "CROSS_CATALOG",
+  foreignKeyCreationDisabled: "FK_CREATION_DISABLED",
+  foreignKeyNoCheckRecommended: "FK_WITH_NOCHECK",
+  profileMissing: "PROFILE_MISSING",
+  remediateBeforeTighten: "REMEDIATE_BEFORE_TIGHTEN",
+  uniqueDuplicatesPresent: "UNIQUE_DUPLICATES_PRESENT",
+  compositeUniqueDuplicatesPresent: "COMPOSITE_UNIQUE_DUPLICATES_PRESENT",
+  physicalUniqueKey: "PHYSICAL_UNIQUE_KEY",
+  uniquePolicyDisabled: "UNIQUE_POLICY_DISABLED",
+  cautiousRelaxationDisabled: "CAUTIOUS_RELAXATION_DISABLED",
+  nullabilityOverride: "NULLABILITY_OVERRIDE"
+} as const;
+
+export type OpportunityType = "Nullability" | "UniqueIndex" | "ForeignKey";
+export type OpportunityDisposition = "ReadyToApply" | "NeedsRemediation";
+export type OpportunityCategory = "Contradiction" | "Recommendation" | "Validation" | "Unknown";
+export type RiskLevel = "Unknown" | "Low" | "Moderate" | "High";
+
+export interface ChangeRisk {
+  readonly Level: RiskLevel;
+  readonly Label: RiskLevel;
+  readonly Description: string;
+}
+
+export interface ColumnCoordinate {
+  readonly Schema: { readonly Value: string };
+  readonly Table: { readonly Value: string };
+  readonly Column: { readonly Value: string };
+}
+
+export interface IndexCoordinate {
+  readonly Schema: { readonly Value: string };
+  readonly Table: { readonly Value: string };
+  readonly Index: { readonly Value: string };
+}
+
+export interface OpportunityEvidenceSummary {
+  readonly RequiresRemediation: boolean;
+  readonly EvidenceAvailable: boolean;
+  readonly DataClean: boolean | null;
+  readonly HasDuplicates: boolean | null;
+  readonly HasOrphans: boolean | null;
+}
+
+export interface OpportunityProbeStatus {
+  readonly CapturedAtUtc: string | null;
+  readonly SampleSize: number | null;
+  readonly Outcome: ProbeOutcome;
+}
+
+export interface OpportunityOrphanRow {
+  readonly PrimaryKeyValues: OrphanSampleValue[];
+  readonly ForeignKeyValue: OrphanSampleValue;
+  /** `(101) -> 'MissingCustomer'`, as the .NET `ForeignKeyOrphanIdentifier` prints a row. */
+  readonly Display: string;
+}
+
+export interface OpportunityOrphanSample {
+  readonly PrimaryKeyColumns: string[];
+  readonly ForeignKeyColumn: string;
+  readonly Rows: OpportunityOrphanRow[];
+  readonly TotalOrphans: number;
+  readonly IsTruncated: boolean;
+  readonly DisplayedRowCount: number;
+}
+
+export interface OpportunityColumnIdentity {
+  readonly Coordinate: ColumnCoordinate;
+  readonly Module: { readonly Value: string };
+  readonly EntityLogicalName: { readonly Value: string };
+  readonly EntityPhysicalName: { readonly Value: string };
+  readonly AttributeLogicalName: { readonly Value: string };
+  readonly ModuleName: string;
+  readonly EntityName: string;
+  readonly TableName: string;
+  readonly AttributeName: string;
+}
+
+/** Model and profiling detail for one column an opportunity touches (`OpportunityColumn` in .NET). */
+export interface OpportunityColumn {
+  readonly Identity: OpportunityColumnIdentity;
+  readonly DataType: string;
+  readonly SqlType: string | null;
+  readonly PhysicalNullable: boolean | null;
+  /** Echoes `onDisk.isIdentity`, as the .NET analyzer fills it. */
+  readonly PhysicalUnique: boolean | null;
+  readonly RowCount: number | null;
+  readonly NullCount: number | null;
+  readonly NullProbeStatus: OpportunityProbeStatus | null;
+  readonly HasDuplicates: boolean | null;
+  readonly UniqueProbeStatus: OpportunityProbeStatus | null;
+  readonly HasOrphans: boolean | null;
+  readonly OrphanCount: number | null;
+  readonly OrphanSample: OpportunityOrphanSample | null;
+  readonly HasDatabaseConstraint: boolean;
+  readonly DeleteRule: string | null;
+  readonly Coordinate: ColumnCoordinate;
+  readonly Module: string;
+  readonly Entity: string;
+  readonly Attribute: string;
+}
+
+/**
+ * One tightening decision. Keys are PascalCase so the report lines up with the opportunities report
+ * written by the .NET pipeline (`tests/Fixtures/opportunities/opportunities.json`).
+ */
+export interface TighteningOpportunity {
+  readonly Type: OpportunityType;
+  readonly Title: "NOT NULL" | "UNIQUE" | "FOREIGN KEY";
+  readonly Summary: string;
+  readonly Risk: ChangeRisk;
+  readonly Disposition: OpportunityDisposition;
+  readonly Category: OpportunityCategory;
+  readonly Evidence: string[];
+  readonly Column: ColumnCoordinate | null;
+  readonly Index: IndexCoordinate | null;
+  readonly Schema: string;
+  readonly Table: string;
+  readonly ConstraintName: string;
+  /** DDL that applies the change; empty when the foreign key target is not in the model. */
+  readonly Statements: string[];
+  readonly Rationales: string[];
+  readonly EvidenceSummary: OpportunityEvidenceSummary;
+  readonly Columns: OpportunityColumn[];
+  readonly HasStatements: boolean;
+  readonly Module: string;
+  readonly Entity: string;
+  /** Location of the attribute or index inside the model JSON. */
+  readonly Path: string;
+}
+
+export interface TighteningPreview {
+  readonly Mode: TighteningMode;
+  readonly Opportunities: TighteningOpportunity[];
+  readonly DispositionCounts: Partial<Record<OpportunityDisposition, number>>;
+  readonly CategoryCounts: Partial<Record<OpportunityCategory, number>>;
+  readonly TypeCounts: Partial<Record<OpportunityType, number>>;
+  readonly RiskCounts: Partial<Record<RiskLevel, number>>;
+  readonly GeneratedAtUtc: string;
+}
+
+interface SignalResult {
+  readonly result: boolean;
+  readonly rationales: readonly string[];
+}
+
+interface EvidenceIndex {
+  readonly columns: Map<string, ColumnProfile>;
+  readonly uniqueCandidates: Map<string, UniqueCandidateProfile>;
+  readonly compositeCandidates: Map<string, CompositeUniqueCandidateProfile>;
+  readonly foreignKeys: Map<string, ForeignKeyReality>;
+  readonly singleUniqueClean: Set<string>;
+  readonly singleUniqueDuplicates: Set<string>;
+  readonly compositeUniqueClean: Set<string>;
+  readonly compositeUniqueDuplicates: Set<string>;
+}
+
+interface PreviewContext {
+  readonly options: NormalizedTighteningOptions;
+  readonly evidence: EvidenceIndex;
+  readonly entities: EntityLookup;
+  readonly model: NormalizedModel;
+}
+
+const NULL_BLOCKERS = new Set<string>([
+  RATIONALES.profileMissing,
+  RATIONALES.nullBudgetEpsilon,
+  RATIONALES.dataHasNulls,
+  RATIONALES.dataHasOrphans
+]);
+
+function signal(result: boolean, rationales: readonly string[] = []): SignalResult {
+  return { result, rationales };
+}
+
+function coordinateKey(entity: NormalizedEntity, column: string): string {
+  return columnKey(entity.schema, entity.physicalName, column);
+}
+
+function compositeKey(schema: string, table: string, columns: readonly string[]): string {
+  const normalized = columns
+    .map((column) => column.trim().toUpperCase())
+    .filter((column) => column.length > 0)
+    .sort();
+  return `${schema.toUpperCase()}|${table.toUpperCase()}|${normalized.join(",")}`;
+}
+
+function isTrusted(status: ProbeStatus): boolean {
+  return status.outcome === "Succeeded" || status.outcome === "TrustedConstraint";
+}
+
+function uniqueKeyColumns(index: NormalizedIndex): string[] {
+  return index.columns.filter((column) => !column.isIncluded).map((column) => column.physicalColumn);
+}
+
+function uniqueIndexes(entity: NormalizedEntity): NormalizedIndex[] {
+  return entity.indexes.filter((index) => index.isUnique);
+}
+
+function buildEvidenceIndex(
+  model: NormalizedModel,
+  profile: NormalizedProfileSnapshot,
+  options: NormalizedTighteningOptions
+): EvidenceIndex {
+  const columns = new Map(profile.columns.map((column) => [columnKey(column.schema, column.table, column.column), column]));
+  const uniqueCandidates = new Map(
+    profile.uniqueCandidates.map((candidate) => [columnKey(candidate.schema, candidate.table, candidate.column), candidate])
+  );
+  const compositeCandidates = new Map(
+    profile.compositeUniqueCandidates.map((candidate) => [compositeKey(candidate.schema, candidate.table, candidate.columns), candidate])
+  );
+  const foreignKeys = new Map<string, ForeignKeyReality>();
+  profile.foreignKeys.forEach((foreignKey) => {
+    const { fromSchema, fromTable, fromColumn } = foreignKey.reference;
+    foreignKeys.set(columnKey(fromSchema, fromTable, fromColumn), foreignKey);
+  });
+
+  const singleUniqueClean = new Set<string>();
+  const singleUniqueDuplicates = new Set<string>();
+  const compositeUniqueClean = new Set<string>();
+  const compositeUniqueDuplicates = new Set<string>();
+
+  model.modules.forEach((module) => {
+    module.entities.forEach((entity) => {
+      uniqueIndexes(entity).forEach((index) => {
+        const keyColumns = uniqueKeyColumns(index);
+        if (keyColumns.length === 1) {
+          const key = coordinateKey(entity, keyColumns[0]);
+          const candidate = uniqueCandidates.get(key);
+          if (candidate?.hasDuplicate) {
+            singleUniqueDuplicates.add(key);
+          } else if (candidate && options.uniqueness.enforceSingleColumnUnique) {
+            singleUniqueClean.add(key);
+          }
+          return;
+        }
+
+        const candidate = compositeCandidates.get(compositeKey(entity.schema, entity.physicalName, keyColumns));
+        if (keyColumns.length === 0 || !candidate) {
+          return;
+        }
+
+        keyColumns.forEach((column) => {
+          const key = coordinateKey(entity, column);
+          if (candidate.hasDuplicate) {
+            compositeUniqueDuplicates.add(key);
+          } else if (options.uniqueness.enforceMultiColumnUnique) {
+            compositeUniqueClean.add(key);
+          }
+        });
+      });
+    });
+  });
+
+  return {
+    columns,
+    uniqueCandidates,
+    compositeCandidates,
+    foreignKeys,
+    singleUniqueClean,
+    singleUniqueDuplicates,
+    compositeUniqueClean,
+    compositeUniqueDuplicates
+  };
+}
+
+function sameName(left: string | null, right: string | null): boolean {
+  return (left ?? "").toLowerCase() === (right ?? "").toLowerCase();
+}
+
+function isIgnoreRule(deleteRuleCode: string | null, options: NormalizedTighteningOptions): boolean {
+  if (deleteRuleCode?.toLowerCase() === "ignore") {
+    return true;
+  }
+
+  return options.foreignKeys.treatMissingDeleteRuleAsIgnore && (deleteRuleCode ?? "").trim() === "";
+}
+
+function resolveTarget(context: PreviewContext, attribute: NormalizedAttribute): NormalizedEntity | null {
+  const { targetEntityName, targetEntityPhysicalName } = attribute.reference;
+  const location =
+    (targetEntityName ? findEntityByLogicalName(context.entities, targetEntityName) : null) ??
+    (targetEntityPhysicalName ? findEntityByPhysicalName(context.entities, targetEntityPhysicalName) : null);
+  if (!location) {
+    return null;
+  }
+
+  return context.model.modules[location.moduleIndex].entities[location.entityIndex];
+}
+
+// ---------------------------------------------------------------------------------------------
+// NOT NULL
+// ---------------------------------------------------------------------------------------------
+
+interface NullabilityDecision {
+  readonly makeNotNull: boolean;
+  readonly requiresRemediation: boolean;
+  readonly rationales: string[];
+  readonly profile: ColumnProfile | null;
+}
+
+function exceedsNullBudget(profile: ColumnProfile, nullBudget: number): boolean {
+  if (profile.nullCount === 0 || profile.rowCount === 0) {
+    return false;
+  }
+
+  return nullBudget <= 0 || profile.nullCount > profile.rowCount * nullBudget;
+}
+
+function nullEvidenceSignal(profile: ColumnProfile | null, nullBudget: number): SignalResult {
+  if (!profile) {
+    return signal(false);
+  }
+
+  if (!isTrusted(profile.nullCountStatus)) {
+    return signal(false, [RATIONALES.profileMissing]);
+  }
+
+  if (exceedsNullBudget(profile, nullBudget)) {
+    return signal(false);
+  }
+
+  return profile.nullCount > 0 && profile.rowCount > 0
+    ? signal(true, [RATIONALES.dataNoNulls, RATIONALES.nullBudgetEpsilon])
+    : signal(true, [RATIONALES.dataNoNulls]);
+}
+
+function mandatorySignal(attribute: NormalizedAttribute, profile: ColumnProfile | null, nullBudget: number): SignalResult {
+  if (!attribute.isMandatory) {
+    return signal(false);
+  }
+
+  if (profile && isTrusted(profile.nullCountStatus) && exceedsNullBudget(profile, nullBudget)) {
+    return signal(false, [RATIONALES.mandatory, RATIONALES.dataHasNulls]);
+  }
+
+  return signal(true, [RATIONALES.mandatory]);
+}
+
+function foreignKeySupportSignal(context: PreviewContext, entity: NormalizedEntity, attribute: NormalizedAttribute): SignalResult {
+  if (!attribute.reference.isReference) {
+    return signal(false);
+  }
+
+  const { options } = context;
+  const reality = context.evidence.foreignKeys.get(coordinateKey(entity, attribute.physicalName)) ?? null;
+  const ignoreRule = isIgnoreRule(attribute.reference.deleteRuleCode, options);
+  const rationales: string[] = [];
+  if (ignoreRule) {
+    rationales.push(RATIONALES.deleteRuleIgnore);
+  }
+
+  if (reality?.hasOrphan) {
+    rationales.push(RATIONALES.dataHasOrphans);
+  }
+
+  let supports = false;
+  if (reality && !reality.hasOrphan && !ignoreRule) {
+    const target = resolveTarget(context, attribute);
+    supports =
+      reality.reference.hasDbConstraint ||
+      (options.foreignKeys.enableCreation &&
+        target !== null &&
+        (options.foreignKeys.allowCrossSchema || sameName(entity.schema, target.schema)) &&
+        (options.foreignKeys.allowCrossCatalog || sameName(entity.catalog, target.catalog)));
+  }
+
+  if (supports) {
+    rationales.push(RATIONALES.foreignKeyEnforced);
+  }
+
+  return signal(supports, rationales);
+}
+
+function uniqueCleanSignal(context: PreviewContext, key: string): SignalResult {
+  const { evidence } = context;
+  const rationales: string[] = [];
+  let satisfied = false;
+  if (evidence.singleUniqueClean.has(key)) {
+    satisfied = true;
+    rationales.push(RATIONALES.uniqueNoNulls);
+  } else if (evidence.singleUniqueDuplicates.has(key) || evidence.uniqueCandidates.get(key)?.hasDuplicate) {
+    rationales.push(RATIONALES.uniqueDuplicatesPresent);
+  }
+
+  if (evidence.compositeUniqueClean.has(key)) {
+    satisfied = true;
+    rationales.push(RATIONALES.compositeUniqueNoNulls);
+  } else if (evidence.compositeUniqueDuplicates.has(key)) {
+    rationales.push(RATIONALES.compositeUniqueDuplicatesPresent);
+  }
+
+  return signal(satisfied, rationales);
+}
+
+function hasNullabilityOverride(
+  options: NormalizedTighteningOptions,
+  module: NormalizedModule,
+  entity: NormalizedEntity,
+  attribute: NormalizedAttribute
+): boolean {
+  return options.policy.nullabilityOverrides.some(
+    (override) =>
+      sameName(override.module, module.name) && sameName(override.entity, entity.name) && sameName(override.attribute, attribute.name)
+  );
+}
+
+/**
+ * Mirrors the .NET `NullabilityEvaluator`: primary keys, physical NOT NULL and mandatory attributes
+ * always tighten; foreign key and unique signals tighten only with clean null evidence in
+ * EvidenceGated mode, and tighten with remediation in Aggressive mode.
+ */
+function evaluateNullability(
+  context: PreviewContext,
+  module: NormalizedModule,
+  entity: NormalizedEntity,
+  attribute: NormalizedAttribute
+): NullabilityDecision {
+  const { mode, nullBudget } = context.options.policy;
+  const key = coordinateKey(entity, attribute.physicalName);
+  const profile = context.evidence.columns.get(key) ?? null;
+  const rationales = new Set<string>();
+  const collect = (result: SignalResult) => result.rationales.forEach((rationale) => rationales.add(rationale));
+
+  const evidence = nullEvidenceSignal(profile, nullBudget);
+  const primaryKey = signal(attribute.isIdentifier, attribute.isIdentifier ? [RATIONALES.primaryKey] : []);
+  const physicalNotNull = profile !== null && !profile.isNullablePhysical;
+  const physical = signal(physicalNotNull, physicalNotNull ? [RATIONALES.physicalNotNull] : []);
+  const mandatory = mandatorySignal(attribute, profile, nullBudget);
+  const foreignKey = foreignKeySupportSignal(context, entity, attribute);
+  const unique = uniqueCleanSignal(context, key);
+  const hasDefault = (attribute.defaultValue ?? "").trim() !== "";
+
+  [primaryKey, physical, mandatory, foreignKey, unique].forEach(collect);
+  if (hasDefault && attribute.isMandatory) {
+    rationales.add(RATIONALES.defaultPresent);
+  }
+
+  if (!profile) {
+    rationales.add(RATIONALES.profileMissing);
+  }
+
+  let makeNotNull = primaryKey.result || physical.result || mandatory.result;
+  let conditionalTriggered = attribute.isMandatory;
+  if (mode === "EvidenceGated") {
+    [foreignKey, unique].forEach((supporting) => {
+      if (supporting.result) {
+        collect(evidence);
+        makeNotNull ||= evidence.result;
+      }
+    });
+  } else if (mode === "Aggressive") {
+    makeNotNull ||= foreignKey.result || unique.result;
+    conditionalTriggered ||= foreignKey.result || unique.result;
+  }
+
+  if (mode !== "Cautious" && conditionalTriggered) {
+    collect(evidence);
+  }
+
+  if (mode === "Aggressive" && attribute.isMandatory) {
+    makeNotNull = true;
+  }
+
+  let requiresRemediation = false;
+  if (mode === "Aggressive" && makeNotNull && conditionalTriggered && !evidence.result) {
+    requiresRemediation = true;
+    rationales.add(RATIONALES.remediateBeforeTighten);
+  }
+
+  const overrideApplied = hasNullabilityOverride(context.options, module, entity, attribute);
+  if (
+    mode === "Cautious" &&
+    !context.options.policy.allowCautiousNullabilityRelaxation &&
+    attribute.isMandatory &&
+    !makeNotNull &&
+    !overrideApplied
+  ) {
+    makeNotNull = true;
+    requiresRemediation = true;
+    rationales.add(RATIONALES.cautiousRelaxationDisabled);
+    rationales.add(RATIONALES.remediateBeforeTighten);
+  }
+
+  if (overrideApplied) {
+    makeNotNull = false;
+    requiresRemediation = false;
+    rationales.delete(RATIONALES.cautiousRelaxationDisabled);
+    rationales.delete(RATIONALES.remediateBeforeTighten);
+    rationales.add(RATIONALES.nullabilityOverride);
+  }
+
+  return { makeNotNull, requiresRemediation, rationales: [...rationales].sort(), profile };
+}
+
+// ---------------------------------------------------------------------------------------------
+// UNIQUE
+// ---------------------------------------------------------------------------------------------
+
+interface UniqueIndexDecision {
+  readonly enforceUnique: boolean;
+  readonly requiresRemediation: boolean;
+  readonly rationales: string[];
+  readonly hasDuplicates: boolean;
+  readonly hasEvidence: boolean;
+  readonly dataClean: boolean;
+  readonly physicalUnique: boolean;
+  readonly policyDisabled: boolean;
+  readonly probeStatus: ProbeStatus | null;
+}
+
+type UniqueScenario =
+  | "PolicyDisabled"
+  | "PhysicalReality"
+  | "DuplicatesWithPhysicalReality"
+  | "DuplicatesWithoutPhysicalReality"
+  | "CleanWithEvidence"
+  | "CleanWithoutEvidence";
+
+type RemediationDirective = "None" | "Always" | "WhenEvidenceMissing";
+
+/** `[enforceUnique, remediation]` per scenario, copied from the .NET `TighteningPolicyMatrix`. */
+const UNIQUE_MATRIX: Record<TighteningMode, Record<UniqueScenario, [boolean, RemediationDirective]>> = {
+  Cautious: {
+    PolicyDisabled: [false, "None"],
+    PhysicalReality: [true, "None"],
+    DuplicatesWithPhysicalReality: [true, "None"],
+    DuplicatesWithoutPhysicalReality: [false, "None"],
+    CleanWithEvidence: [false, "None"],
+    CleanWithoutEvidence: [false, "None"]
+  },
+  EvidenceGated: {
+    PolicyDisabled: [false, "None"],
+    PhysicalReality: [true, "None"],
+    DuplicatesWithPhysicalReality: [true, "None"],
+    DuplicatesWithoutPhysicalReality: [false, "None"],
+    CleanWithEvidence: [true, "None"],
+    CleanWithoutEvidence: [false, "None"]
+  },
+  Aggressive: {
+    PolicyDisabled: [false, "None"],
+    PhysicalReality: [true, "None"],
+    DuplicatesWithPhysicalReality: [true, "Always"],
+    DuplicatesWithoutPhysicalReality: [true, "Always"],
+    CleanWithEvidence: [true, "None"],
+    CleanWithoutEvidence: [true, "WhenEvidenceMissing"]
+  }
+};
+
+const PHYSICAL_UNIQUE_KINDS = new Set(["PK", "UQ", "UIX"]);
+
+function evaluateUniqueIndex(context: PreviewContext, entity: NormalizedEntity, index: NormalizedIndex): UniqueIndexDecision {
+  const { options, evidence } = context;
+  const keyColumns = uniqueKeyColumns(index);
+  const keys = keyColumns.map((column) => coordinateKey(entity, column));
+  const isComposite = keyColumns.length > 1;
+  const physicalUnique =
+    PHYSICAL_UNIQUE_KINDS.has((index.kind ?? "").toUpperCase()) ||
+    keys.every((key) => evidence.columns.get(key)?.isUniqueKey === true);
+  const policyDisabled = isComposite
+    ? !options.uniqueness.enforceMultiColumnUnique
+    : !options.uniqueness.enforceSingleColumnUnique;
+
+  const rationales = new Set<string>();
+  if (physicalUnique) {
+    rationales.add(RATIONALES.physicalUniqueKey);
+  }
+
+  if (policyDisabled) {
+    rationales.add(RATIONALES.uniquePolicyDisabled);
+  }
+
+  let hasProfile: boolean;
+  let hasEvidence: boolean;
+  let hasDuplicates: boolean;
+  let dataClean: boolean;
+  let probeStatus: ProbeStatus | null = null;
+  if (isComposite) {
+    const candidate = evidence.compositeCandidates.get(compositeKey(entity.schema, entity.physicalName, keyColumns));
+    hasProfile = candidate !== undefined;
+    hasEvidence = hasProfile;
+    hasDuplicates = candidate?.hasDuplicate ?? false;
+    dataClean = candidate !== undefined && !candidate.hasDuplicate;
+    if (!hasProfile) {
+      if (keys.some((key) => evidence.compositeUniqueDuplicates.has(key))) {
+        hasEvidence = true;
+        hasDuplicates = true;
+      } else if (keys.every((key) => evidence.compositeUniqueClean.has(key))) {
+        hasEvidence = true;
+        dataClean = true;
+      }
+    }
+  } else {
+    const candidate = evidence.uniqueCandidates.get(keys[0]);
+    probeStatus = candidate?.probeStatus ?? null;
+    hasProfile = candidate !== undefined;
+    hasEvidence = hasProfile;
+    hasDuplicates = candidate?.hasDuplicate ?? false;
+    dataClean = candidate !== undefined && !candidate.hasDuplicate;
+  }
+
+  if (hasDuplicates) {
+    rationales.add(isComposite ? RATIONALES.compositeUniqueDuplicatesPresent : RATIONALES.uniqueDuplicatesPresent);
+  } else if (dataClean) {
+    rationales.add(isComposite ? RATIONALES.compositeUniqueNoNulls : RATIONALES.uniqueNoNulls);
+  }
+
+  if (!hasProfile && !physicalUnique) {
+    rationales.add(RATIONALES.profileMissing);
+  }
+
+  let scenario: UniqueScenario;
+  if (policyDisabled) {
+    scenario = "PolicyDisabled";
+  } else if (hasDuplicates) {
+    scenario = physicalUnique ? "DuplicatesWithPhysicalReality" : "DuplicatesWithoutPhysicalReality";
+  } else if (physicalUnique) {
+    scenario = "PhysicalReality";
+  } else if (hasEvidence && dataClean) {
+    scenario = "CleanWithEvidence";
+  } else {
+    scenario = "CleanWithoutEvidence";
+  }
+
+  const [enforceUnique, directive] = UNIQUE_MATRIX[options.policy.mode][scenario];
+  const requiresRemediation =
+    enforceUnique && (directive === "Always" || (directive === "WhenEvidenceMissing" && !(hasEvidence && dataClean)));
+  if (requiresRemediation) {
+    rationales.add(RATIONALES.remediateBeforeTighten);
+  }
+
+  return {
+    enforceUnique,
+    requiresRemediation,
+    rationales: [...rationales].sort(),
+    hasDuplicates,
+    hasEvidence,
+    dataClean,
+    physicalUnique,
+    policyDisabled,
+    probeStatus
+  };
+}
+
+// ---------------------------------------------------------------------------------------------
+// FOREIGN KEY
+// ---------------------------------------------------------------------------------------------
+
+interface ForeignKeyDecision {
+  readonly createConstraint: boolean;
+  readonly scriptWithNoCheck: boolean;
+  readonly rationales: string[];
+  readonly reality: ForeignKeyReality | null;
+  readonly target: NormalizedEntity | null;
+  readonly hasConstraint: boolean;
+  readonly hasOrphan: boolean;
+  readonly ignoreRule: boolean;
+  readonly crossSchemaBlocked: boolean;
+  readonly crossCatalogBlocked: boolean;
+}
+
+function evaluateForeignKey(context: PreviewContext, entity: NormalizedEntity, attribute: NormalizedAttribute): ForeignKeyDecision {
+  const { options } = context;
+  const reality = context.evidence.foreignKeys.get(coordinateKey(entity, attribute.physicalName)) ?? null;
+  const target = resolveTarget(context, attribute);
+  const rationales = new Set<string>();
+  let createConstraint = false;
+  let scriptWithNoCheck = false;
+
+  const ignoreRule = isIgnoreRule(attribute.reference.deleteRuleCode, options);
+  if (ignoreRule) {
+    rationales.add(RATIONALES.deleteRuleIgnore);
+  }
+
+  const hasOrphan = reality?.hasOrphan ?? false;
+  if (hasOrphan) {
+    rationales.add(RATIONALES.dataHasOrphans);
+  }
+
+  const hasConstraint = reality?.reference.hasDbConstraint ?? attribute.reference.hasDbConstraint;
+  if (hasConstraint) {
+    createConstraint = true;
+    rationales.add(RATIONALES.databaseConstraintPresent);
+  }
+
+  const crossSchemaBlocked =
+    target !== null && !sameName(entity.schema, target.schema) && !options.foreignKeys.allowCrossSchema && !hasConstraint;
+  const crossCatalogBlocked =
+    target !== null && !sameName(entity.catalog, target.catalog) && !options.foreignKeys.allowCrossCatalog && !hasConstraint;
+
+  if (!hasConstraint && !hasOrphan && !crossSchemaBlocked && !crossCatalogBlocked && options.foreignKeys.enableCreation) {
+    createConstraint = true;
+    rationales.add(RATIONALES.policyEnableCreation);
+  } else {
+    if (!options.foreignKeys.enableCreation && !hasConstraint && !hasOrphan) {
+      rationales.add(RATIONALES.foreignKeyCreationDisabled);
+    }
+
+    if (crossSchemaBlocked) {
+      rationales.add(RATIONALES.crossSchema);
+    }
+
+    if (crossCatalogBlocked) {
+      rationales.add(RATIONALES.crossCatalog);
+    }
+
+    if (
+      !createConstraint &&
+      options.policy.mode === "Cautious" &&
+      options.foreignKeys.enableCreation &&
+      !crossSchemaBlocked &&
+      !crossCatalogBlocked &&
+      (hasOrphan || ignoreRule)
+    ) {
+      createConstraint = true;
+      scriptWithNoCheck = true;
+      rationales.add(RATIONALES.foreignKeyNoCheckRecommended);
+    }
+  }
+
+  return {
+    createConstraint,
+    scriptWithNoCheck,
+    rationales: [...rationales].sort(),
+    reality,
+    target,
+    hasConstraint,
+    hasOrphan,
+    ignoreRule,
+    crossSchemaBlocked,
+    crossCatalogBlocked
+  };
+}
+
+// ---------------------------------------------------------------------------------------------
+// Report assembly
+// ---------------------------------------------------------------------------------------------
+
+function risk(level: RiskLevel, description: string): ChangeRisk {
+  return { Level: level, Label: level, Description: description };
+}
+
+function formatProbe(status: ProbeStatus): string {
+  const captured = status.capturedAtUtc ? status.capturedAtUtc.toISOString() : "n/a";
+  return `(Outcome=${status.outcome}, Sample=${status.sampleSize ?? "n/a"}, Captured=${captured})`;
+}
+
+function columnCoordinate(entity: NormalizedEntity, column: string): ColumnCoordinate {
+  return { Schema: { Value: entity.schema }, Table: { Value: entity.physicalName }, Column: { Value: column } };
+}
+
+function bracket(identifier: string): string {
+  return `[${identifier.replace(/]/g, "]]")}]`;
+}
+
+function qualifiedTable(entity: NormalizedEntity): string {
+  return `${bracket(entity.schema)}.${bracket(entity.physicalName)}`;
+}
+
+/** DateTimeOffset as System.Text.Json writes it: `2024-01-01T00:00:00+00:00`, fractions without trailing zeros. */
+function formatOffsetTimestamp(value: Date): string {
+  return value.toISOString().replace(/\.?0*Z$/, "+00:00");
+}
+
+function probeStatusJson(status: ProbeStatus): OpportunityProbeStatus {
+  return {
+    CapturedAtUtc: status.capturedAtUtc ? formatOffsetTimestamp(status.capturedAtUtc) : null,
+    SampleSize: status.sampleSize,
+    Outcome: status.outcome
+  };
+}
+
+function formatSampleValue(value: OrphanSampleValue): string {
+  if (value === null) {
+    return "NULL";
+  }
+
+  return typeof value === "string" ? `'${value.replace(/'/g, "''")}'` : String(value);
+}
+
+function orphanSampleJson(sample: ForeignKeyOrphanSample): OpportunityOrphanSample {
+  const rows = sample.rows.map((row): OpportunityOrphanRow => {
+    const keys = row.primaryKeyValues.length === 0 ? "(no PK)" : `(${row.primaryKeyValues.map(formatSampleValue).join(", ")})`;
+    return {
+      PrimaryKeyValues: row.primaryKeyValues,
+      ForeignKeyValue: row.foreignKeyValue,
+      Display: `${keys} -> ${formatSampleValue(row.foreignKeyValue)}`
+    };
+  });
+
+  return {
+    PrimaryKeyColumns: sample.primaryKeyColumns,
+    ForeignKeyColumn: sample.foreignKeyColumn,
+    Rows: rows,
+    TotalOrphans: sample.totalOrphans,
+    IsTruncated: sample.isTruncated,
+    DisplayedRowCount: rows.length
+  };
+}
+
+interface ColumnEvidence {
+  readonly profile: ColumnProfile | null;
+  readonly unique: UniqueCandidateProfile | null;
+  readonly reality: ForeignKeyReality | null;
+}
+
+/** Mirrors the .NET `BuildColumnInsight`: profile fields stay `null` when that evidence does not apply. */
+function opportunityColumn(
+  module: NormalizedModule,
+  entity: NormalizedEntity,
+  attribute: NormalizedAttribute,
+  { profile, unique, reality }: ColumnEvidence
+): OpportunityColumn {
+  const coordinate = columnCoordinate(entity, attribute.physicalName);
+  return {
+    Identity: {
+      Coordinate: coordinate,
+      Module: { Value: module.name },
+      EntityLogicalName: { Value: entity.name },
+      EntityPhysicalName: { Value: entity.physicalName },
+      AttributeLogicalName: { Value: attribute.name },
+      ModuleName: module.name,
+      EntityName: entity.name,
+      TableName: entity.physicalName,
+      AttributeName: attribute.name
+    },
+    DataType: attribute.dataType,
+    SqlType: attribute.onDisk?.sqlType ?? null,
+    PhysicalNullable: attribute.onDisk?.isNullable ?? null,
+    PhysicalUnique: attribute.onDisk?.isIdentity ?? null,
+    RowCount: profile?.rowCount ?? null,
+    NullCount: profile?.nullCount ?? null,
+    NullProbeStatus: profile ? probeStatusJson(profile.nullCountStatus) : null,
+    HasDuplicates: unique?.hasDuplicate ?? null,
+    UniqueProbeStatus: unique ? probeStatusJson(unique.probeStatus) : null,
+    HasOrphans: reality?.hasOrphan ?? null,
+    OrphanCount: reality?.orphanCount ?? null,
+    OrphanSample: reality?.orphanSample ? orphanSampleJson(reality.orphanSample) : null,
+    HasDatabaseConstraint: reality?.reference.hasDbConstraint ?? attribute.reference.hasDbConstraint,
+    DeleteRule: attribute.reference.deleteRuleCode,
+    Coordinate: coordinate,
+    Module: module.name,
+    Entity: entity.name,
+    Attribute: attribute.name
+  };
+}
+
+function alterColumnStatement(entity: NormalizedEntity, attribute: NormalizedAttribute): string {
+  const sqlType = attribute.onDisk?.sqlType?.trim() || attribute.externalDbType?.trim() || attribute.dataType;
+  return `ALTER TABLE ${qualifiedTable(entity)}\n    ALTER COLUMN ${bracket(attribute.physicalName)} ${sqlType} NOT NULL;`;
+}
+
+function createUniqueIndexStatement(entity: NormalizedEntity, index: NormalizedIndex): string {
+  const keyColumns = index.columns
+    .filter((column) => !column.isIncluded)
+    .sort((left, right) => left.ordinal - right.ordinal)
+    .map((column) => `${bracket(column.physicalColumn)} ${column.direction?.toLowerCase().startsWith("desc") ? "DESC" : "ASC"}`);
+  return `CREATE UNIQUE NONCLUSTERED INDEX ${bracket(index.name)} ON ${qualifiedTable(entity)} (${keyColumns.join(", ")});`;
+}
+
+/**
+ * The .NET analyzer's statement pair: add the constraint, then (re)trust it. A constraint scripted
+ * WITH NOCHECK is only emitted as such when `foreignKeys.allowNoCheckCreation` permits it.
+ */
+function foreignKeyStatements(
+  entity: NormalizedEntity,
+  attribute: NormalizedAttribute,
+  target: NormalizedEntity,
+  constraintName: string,
+  scriptWithNoCheck: boolean,
+  allowNoCheckCreation: boolean
+): string[] {
+  const sourceTable = qualifiedTable(entity);
+  const identifiers = target.attributes.filter((candidate) => candidate.isIdentifier);
+  const targetColumns = (identifiers.length > 0 ? identifiers : target.attributes.slice(0, 1))
+    .map((candidate) => bracket(candidate.physicalName))
+    .join(", ");
+  const noCheck = scriptWithNoCheck && allowNoCheckCreation;
+
+  const statements: string[] = [];
+  if (scriptWithNoCheck) {
+    if (!allowNoCheckCreation) {
+      statements.push("-- Enable foreignKeys.allowNoCheckCreation to emit WITH NOCHECK automatically or adjust the statement manually.");
+    }
+
+    statements.push("-- Constraint will be emitted WITH NOCHECK so remediation can occur without blocking deployments.");
+  }
+
+  statements.push(
+    `ALTER TABLE ${sourceTable} ${noCheck ? "WITH NOCHECK" : "WITH CHECK"} ADD CONSTRAINT ${bracket(constraintName)} ` +
+      `FOREIGN KEY (${bracket(attribute.physicalName)}) REFERENCES ${qualifiedTable(target)} (${targetColumns});`,
+    noCheck
+      ? `-- After remediation run: ALTER TABLE ${sourceTable} WITH CHECK CHECK CONSTRAINT ${bracket(constraintName)};`
+      : `ALTER TABLE ${sourceTable} CHECK CONSTRAINT ${bracket(constraintName)};`
+  );
+  return statements;
+}
+
+function nullabilityOpportunity(
+  module: NormalizedModule,
+  entity: NormalizedEntity,
+  attribute: NormalizedAttribute,
+  decision: NullabilityDecision,
+  columnEvidence: ColumnEvidence,
+  path: (string | number)[]
+): TighteningOpportunity | null {
+  const blocked = !decision.makeNotNull && decision.rationales.some((rationale) => NULL_BLOCKERS.has(rationale));
+  if (!decision.makeNotNull && !blocked) {
+    return null;
+  }
+
+  const { profile, rationales } = decision;
+  const has = (code: string) => rationales.includes(code);
+  const needsRemediation = decision.requiresRemediation || blocked;
+  const contradiction = needsRemediation && (has(RATIONALES.dataHasNulls) || has(RATIONALES.dataHasOrphans));
+  const physicallyNotNull = profile ? !profile.isNullablePhysical : attribute.onDisk?.isNullable === false;
+
+  let category: OpportunityCategory = "Unknown";
+  let summary: string;
+  if (contradiction) {
+    category = "Contradiction";
+    summary = has(RATIONALES.dataHasNulls)
+      ? "DATA CONTRADICTION: Profiling found NULL values that violate the model's mandatory constraint. Manual remediation required."
+      : "DATA CONTRADICTION: Profiling found orphaned rows behind this reference. Manual remediation required.";
+  } else if (decision.makeNotNull && physicallyNotNull) {
+    category = "Validation";
+    summary = "Validated: Column is already NOT NULL and profiling confirms data integrity.";
+  } else if (decision.makeNotNull && !decision.requiresRemediation) {
+    category = "Recommendation";
+    summary = "Recommendation: Column qualifies for NOT NULL enforcement based on profiling evidence.";
+  } else if (decision.requiresRemediation) {
+    summary = "NOT NULL was not applied. Remediate data before enforcement can proceed.";
+  } else if (has(RATIONALES.profileMissing)) {
+    summary = "NOT NULL was not applied. Collect profiling evidence before enforcement can proceed.";
+  } else if (has(RATIONALES.nullBudgetEpsilon)) {
+    summary = "NOT NULL was not applied. Column exceeds the configured null budget threshold.";
+  } else {
+    summary = "NOT NULL was not applied. Review policy blockers before enforcement can proceed.";
+  }
+
+  let changeRisk: ChangeRisk;
+  if (contradiction) {
+    changeRisk = risk("Moderate", "Data remediation is required before enforcing NOT NULL.");
+  } else if (!decision.makeNotNull) {
+    changeRisk =
+      has(RATIONALES.profileMissing) || has(RATIONALES.nullBudgetEpsilon)
+        ? risk("High", "Profiling evidence is missing or null budget constraints block tightening.")
+        : risk("Moderate", "Evidence suggests the column could be NOT NULL once policy blockers are addressed.");
+  } else if (decision.requiresRemediation) {
+    changeRisk = risk("Moderate", "Data remediation is required before enforcing NOT NULL.");
+  } else {
+    changeRisk = risk("Low", "Policy determined the column is safe to enforce as NOT NULL.");
+  }
+
+  const evidence = profile
+    ? [`Nulls=${profile.nullCount} ${formatProbe(profile.nullCountStatus)}`, `Rows=${profile.rowCount}`]
+    : ["Profile=Missing"];
+
+  return {
+    Type: "Nullability",
+    Title: "NOT NULL",
+    Summary: summary,
+    Risk: changeRisk,
+    Disposition: needsRemediation ? "NeedsRemediation" : "ReadyToApply",
+    Category: category,
+    Evidence: evidence,
+    Column: columnCoordinate(entity, attribute.physicalName),
+    Index: null,
+    Schema: entity.schema,
+    Table: entity.physicalName,
+    ConstraintName: attribute.physicalName,
+    Statements: [alterColumnStatement(entity, attribute)],
+    Rationales: rationales,
+    EvidenceSummary: {
+      RequiresRemediation: needsRemediation,
+      EvidenceAvailable: profile !== null,
+      DataClean: profile ? profile.nullCount === 0 : null,
+      HasDuplicates: attribute.reality.hasDuplicates,
+      HasOrphans: attribute.reality.hasOrphans
+    },
+    Columns: [opportunityColumn(module, entity, attribute, columnEvidence)],
+    HasStatements: true,
+    Module: module.name,
+    Entity: entity.name,
+    Path: formatIssuePath(path)
+  };
+}
+
+function uniqueOpportunity(
+  module: NormalizedModule,
+  entity: NormalizedEntity,
+  index: NormalizedIndex,
+  decision: UniqueIndexDecision,
+  columns: OpportunityColumn[],
+  path: (string | number)[]
+): TighteningOpportunity {
+  const needsRemediation = decision.requiresRemediation || !decision.enforceUnique;
+
+  let category: OpportunityCategory = "Unknown";
+  let summary: string;
+  if (decision.hasDuplicates && needsRemediation) {
+    category = "Contradiction";
+    summary = "DATA CONTRADICTION: Profiling found duplicate values in a unique index. Manual remediation required.";
+  } else if (decision.requiresRemediation) {
+    category = "Contradiction";
+    summary = "Remediate data before enforcing the unique index.";
+  } else if (decision.enforceUnique && decision.physicalUnique) {
+    category = "Validation";
+    summary = "Validated: Unique index is already enforced and profiling confirms data integrity.";
+  } else if (decision.enforceUnique) {
+    category = "Recommendation";
+    summary = "Recommendation: Unique index qualifies for enforcement based on profiling evidence.";
+  } else if (decision.policyDisabled) {
+    summary = "Unique index was not enforced. Policy configuration disabled enforcement.";
+  } else if (decision.hasEvidence) {
+    summary = "Unique index was not enforced. The policy mode does not enforce unique indexes from profiling evidence alone.";
+  } else {
+    summary = "Unique index was not enforced. Collect profiling evidence before enforcement can proceed.";
+  }
+
+  let changeRisk: ChangeRisk;
+  if (!decision.enforceUnique) {
+    if (decision.hasDuplicates) {
+      changeRisk = risk("High", "Profiling detected duplicate values in the candidate unique index.");
+    } else if (decision.policyDisabled) {
+      changeRisk = risk("Moderate", "Policy configuration disabled unique index enforcement.");
+    } else if (!decision.hasEvidence) {
+      changeRisk = risk("Moderate", "Missing profiling evidence prevents unique index enforcement.");
+    } else {
+      changeRisk = risk("Moderate", "Review data quality before enforcing the unique index.");
+    }
+  } else if (decision.requiresRemediation) {
+    changeRisk = risk("Moderate", "Remediation is required before enforcing the unique index.");
+  } else if (!decision.physicalUnique) {
+    changeRisk = risk("Low", "Unique index enforcement is supported by profiling evidence.");
+  } else {
+    changeRisk = risk("Low", "Unique index already enforced in the physical database.");
+  }
+
+  const keyColumns = uniqueKeyColumns(index);
+  const label = keyColumns.length > 1 ? "Composite duplicates" : "Unique duplicates";
+  const evidence = decision.hasEvidence
+    ? [`${label}=${decision.hasDuplicates ? "True" : "False"}${decision.probeStatus ? ` ${formatProbe(decision.probeStatus)}` : ""}`]
+    : ["Profile=Missing"];
+
+  return {
+    Type: "UniqueIndex",
+    Title: "UNIQUE",
+    Summary: summary,
+    Risk: changeRisk,
+    Disposition: needsRemediation ? "NeedsRemediation" : "ReadyToApply",
+    Category: category,
+    Evidence: evidence,
+    Column: null,
+    Index: { Schema: { Value: entity.schema }, Table: { Value: entity.physicalName }, Index: { Value: index.name } },
+    Schema: entity.schema,
+    Table: entity.physicalName,
+    ConstraintName: index.name,
+    Statements: [createUniqueIndexStatement(entity, index)],
+    Rationales: decision.rationales,
+    EvidenceSummary: {
+      RequiresRemediation: needsRemediation,
+      EvidenceAvailable: decision.hasEvidence,
+      DataClean: decision.hasEvidence ? decision.dataClean : null,
+      HasDuplicates: decision.hasEvidence ? decision.hasDuplicates : null,
+      HasOrphans: null
+    },
+    Columns: columns,
+    HasStatements: true,
+    Module: module.name,
+    Entity: entity.name,
+    Path: formatIssuePath(path)
+  };
+}
+
+function foreignKeyConstraintName(entity: NormalizedEntity, attribute: NormalizedAttribute, target: NormalizedEntity | null): string {
+  const declared = entity.relationships
+    .find((relationship) => relationship.viaAttributeName === attribute.name)
+    ?.actualConstraints.find((constraint) => constraint.name)?.name;
+  if (declared) {
+    return declared;
+  }
+
+  const targetTable = target?.physicalName ?? attribute.reference.targetEntityPhysicalName ?? "UNKNOWN";
+  return `FK_${entity.physicalName}_${attribute.physicalName}_${targetTable}`.slice(0, 128);
+}
+
+function foreignKeyOpportunity(
+  module: NormalizedModule,
+  entity: NormalizedEntity,
+  attribute: NormalizedAttribute,
+  decision: ForeignKeyDecision,
+  allowNoCheckCreation: boolean,
+  path: (string | number)[]
+): TighteningOpportunity {
+  const needsRemediation = !decision.createConstraint || decision.scriptWithNoCheck;
+
+  let category: OpportunityCategory = "Unknown";
+  let summary: string;
+  if (decision.hasOrphan) {
+    category = "Contradiction";
+    summary = decision.scriptWithNoCheck
+      ? "Foreign key constraint will be scripted WITH NOCHECK to honor the model while remediation occurs."
+      : "DATA CONTRADICTION: Profiling found orphaned rows that violate referential integrity. Manual remediation required.";
+  } else if (decision.scriptWithNoCheck) {
+    category = "Contradiction";
+    summary = "Foreign key constraint will be scripted WITH NOCHECK to honor the model while remediation occurs.";
+  } else if (decision.createConstraint && decision.hasConstraint) {
+    category = "Validation";
+    summary = "Validated: Foreign key constraint already exists in the database.";
+  } else if (decision.createConstraint) {
+    category = "Recommendation";
+    summary = "Recommendation: Foreign key constraint can be created to enforce referential integrity.";
+  } else if (decision.ignoreRule) {
+    summary = "Foreign key constraint was not created. Delete rule 'Ignore' prevents constraint enforcement.";
+  } else if (decision.crossSchemaBlocked || decision.crossCatalogBlocked) {
+    summary =
+      "Foreign key constraint was not created. Cross-database references are blocked by policy. Allow cross-database enforcement or adjust the schema.";
+  } else {
+    summary = "Foreign key constraint was not created. Enable policy or gather evidence before constraint creation can proceed.";
+  }
+
+  let changeRisk: ChangeRisk;
+  if (!decision.createConstraint) {
+    if (decision.hasOrphan) {
+      changeRisk = risk("High", "Profiling detected orphaned rows that block foreign key creation.");
+    } else if (decision.ignoreRule) {
+      changeRisk = risk("Moderate", "Delete rule 'Ignore' prevents safe enforcement of the foreign key.");
+    } else if (decision.crossSchemaBlocked || decision.crossCatalogBlocked) {
+      changeRisk = risk("Moderate", "Cross-database boundaries block automatic foreign key creation.");
+    } else {
+      changeRisk = risk("Moderate", "Enable policy or provide evidence before enforcing the foreign key.");
+    }
+  } else if (decision.scriptWithNoCheck) {
+    changeRisk = risk(
+      "High",
+      "Foreign key will be emitted WITH NOCHECK to reflect the model; remediate data before re-trusting the constraint."
+    );
+  } else {
+    changeRisk = risk("Low", "Constraint creation is safe based on policy evaluation.");
+  }
+
+  const { reality } = decision;
+  const evidence = [`HasConstraint=${decision.hasConstraint ? "True" : "False"}`];
+  if (reality) {
+    const trust = !reality.reference.hasDbConstraint ? "Missing" : reality.isNoCheck ? "Untrusted (WITH NOCHECK)" : "Trusted (WITH CHECK)";
+    evidence.push(
+      `ConstraintTrust=${trust}`,
+      `HasOrphans=${reality.hasOrphan ? "True" : "False"} ${formatProbe(reality.probeStatus)}`,
+      `OrphanCount=${reality.orphanCount}`
+    );
+  } else {
+    evidence.push("Profile=Missing");
+  }
+
+  const constraintName = foreignKeyConstraintName(entity, attribute, decision.target);
+  const statements = decision.target
+    ? foreignKeyStatements(entity, attribute, decision.target, constraintName, decision.scriptWithNoCheck, allowNoCheckCreation)
+    : [];
+
+  return {
+    Type: "ForeignKey",
+    Title: "FOREIGN KEY",
+    Summary: summary,
+    Risk: changeRisk,
+    Disposition: needsRemediation ? "NeedsRemediation" : "ReadyToApply",
+    Category: category,
+    Evidence: evidence,
+    Column: columnCoordinate(entity, attribute.physicalName),
+    Index: null,
+    Schema: entity.schema,
+    Table: entity.physicalName,
+    ConstraintName: constraintName,
+    Statements: statements,
+    Rationales: decision.rationales,
+    EvidenceSummary: {
+      RequiresRemediation: needsRemediation,
+      EvidenceAvailable: reality !== null,
+      DataClean: reality ? !reality.hasOrphan : null,
+      HasDuplicates: null,
+      HasOrphans: reality ? reality.hasOrphan : null
+    },
+    Columns: [opportunityColumn(module, entity, attribute, { profile: null, unique: null, reality })],
+    HasStatements: statements.length > 0,
+    Module: module.name,
+    Entity: entity.name,
+    Path: formatIssuePath(path)
+  };
+}
+
+function columnEvidence(context: PreviewContext, entity: NormalizedEntity, attribute: NormalizedAttribute): ColumnEvidence {
+  const key = coordinateKey(entity, attribute.physicalName);
+  return {
+    profile: context.evidence.columns.get(key) ?? null,
+    unique: context.evidence.uniqueCandidates.get(key) ?? null,
+    reality: context.evidence.foreignKeys.get(key) ?? null
+  };
+}
+
+/** One column per index key column, in key order; columns the entity does not declare are skipped. */
+function uniqueIndexColumns(
+  context: PreviewContext,
+  module: NormalizedModule,
+  entity: NormalizedEntity,
+  index: NormalizedIndex
+): OpportunityColumn[] {
+  return index.columns
+    .filter((column) => !column.isIncluded)
+    .sort((left, right) => left.ordinal - right.ordinal)
+    .flatMap((column) => {
+      const attribute = entity.attributes.find((candidate) => sameName(candidate.physicalName, column.physicalColumn));
+      if (!attribute) {
+        return [];
+      }
+
+      const { profile, unique } = columnEvidence(context, entity, attribute);
+      return [opportunityColumn(module, entity, attribute, { profile, unique, reality: null })];
+    });
+}
+
+function increment<TKey extends string>(counts: Partial<Record<TKey, number>>, key: TKey): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Evaluates every active attribute, unique index and reference in the model against the profiling
+ * evidence and tightening policy, returning one opportunity per column, index or foreign key whose
+ * enforcement would change or is blocked. Primary keys are always enforced and are not reported.
+ */
+export function previewTightening(
+  model: NormalizedModel,
+  profile: NormalizedProfileSnapshot,
+  options: NormalizedTighteningOptions,
+  generatedAt: Date = new Date()
+): TighteningPreview {
+  const context: PreviewContext = {
+    options,
+    evidence: buildEvidenceIndex(model, profile, options),
+    entities: buildEntityLookup(model),
+    model
+  };
+
+  const opportunities: TighteningOpportunity[] = [];
+  model.modules.forEach((module, moduleIndex) => {
+    module.entities.forEach((entity, entityIndex) => {
+      if (!entity.isActive) {
+        return;
+      }
+
+      const entityPath = ["modules", moduleIndex, "entities", entityIndex];
+      entity.attributes.forEach((attribute, attributeIndex) => {
+        if (!attribute.isActive) {
+          return;
+        }
+
+        const path = [...entityPath, "attributes", attributeIndex];
+        if (!attribute.isIdentifier) {
+          const decision = evaluateNullability(context, module, entity, attribute);
+          const nullability = nullabilityOpportunity(module, entity, attribute, decision, columnEvidence(context, entity, attribute), path);
+          if (nullability) {
+            opportunities.push(nullability);
+          }
+        }
+
+        if (attribute.reference.isReference) {
+          const decision = evaluateForeignKey(context, entity, attribute);
+          opportunities.push(foreignKeyOpportunity(module, entity, attribute, decision, options.foreignKeys.allowNoCheckCreation, path));
+        }
+      });
+
+      entity.indexes.forEach((index, indexIndex) => {
+        if (!index.isUnique || index.isPrimary || uniqueKeyColumns(index).length === 0) {
+          return;
+        }
+
+        const decision = evaluateUniqueIndex(context, entity, index);
+        const columns = uniqueIndexColumns(context, module, entity, index);
+        opportunities.push(uniqueOpportunity(module, entity, index, decision, columns, [...entityPath, "indexes", indexIndex]));
+      });
+    });
+  });
+
+  const preview: TighteningPreview = {
+    Mode: options.policy.mode,
+    Opportunities: opportunities,
+    DispositionCounts: {},
+    CategoryCounts: {},
+    TypeCounts: {},
+    RiskCounts: {},
+    GeneratedAtUtc: generatedAt.toISOString()
+  };
+
+  opportunities.forEach((opportunity) => {
+    increment(preview.DispositionCounts, opportunity.Disposition);
+    increment(preview.CategoryCounts, opportunity.Category);
+    increment(preview.TypeCounts, opportunity.Type);
+    increment(preview.RiskCounts, opportunity.Risk.Level);
+  });
+
+  return preview;
+}
+
+/** Renders the preview as indented text lines grouped by disposition. */
+export function formatTighteningPreview(preview: TighteningPreview): string[] {
+  const lines: string[] = [];
+  const groups: Array<[OpportunityDisposition, string]> = [
+    ["NeedsRemediation", "Needs remediation"],
+    ["ReadyToApply", "Ready to apply"]
+  ];
+
+  groups.forEach(([disposition, heading]) => {
+    const matching = preview.Opportunities.filter((opportunity) => opportunity.Disposition === disposition);
+    if (matching.length === 0) {
+      return;
+    }
+
+    lines.push(`${heading} (${matching.length}):`);
+    matching.forEach((opportunity) => {
+      const target =
+        opportunity.Type === "Nullability"
+          ? `${opportunity.Schema}.${opportunity.Table}.${opportunity.ConstraintName}`
+          : `${opportunity.Schema}.${opportunity.Table} ${opportunity.ConstraintName}`;
+      lines.push(`  [${opportunity.Category}] ${opportunity.Title} ${target} (${opportunity.Module}.${opportunity.Entity})`);
+      lines.push(`      ${opportunity.Summary}`);
+      lines.push(`      Risk: ${opportunity.Risk.Level} — ${opportunity.Risk.Description}`);
+      if (opportunity.Rationales.length > 0) {
+        lines.push(`      Rationales: ${opportunity.Rationales.join(", ")}`);
+      }
+      lines.push(`      Evidence: ${opportunity.Evidence.join("; ")}`);
+    });
+  });
+
+  const counts = (record: Partial<Record<string, number>>) =>
+    Object.entries(record)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(", ") || "none";
+  lines.push(`Categories: ${counts(preview.CategoryCounts)}`);
+  lines.push(`Types: ${counts(preview.TypeCounts)}`);
+  lines.push(`Risk: ${counts(preview.RiskCounts)}`);
+  return lines;
+}
@@ -0,0 +1,529 @@
+import { z } from "zod";
+
+import type { NormalizedAttribute, NormalizedEntity, NormalizedModel } from "./modelSchema.js";
+
+export const TYPE_MAPPING_STRATEGIES = [
+  "Fixed",
+  "UnicodeText",
+  "VarChar",
+  "VarCharText",
+  "VarBinary",
+  "Decimal",
+  "DateTime2",
+  "DateTimeOffset",
+  "Time",
+  "Char",
+  "NChar",
+  "Binary"
+] as const;
+
+export type TypeMappingStrategy = (typeof TYPE_MAPPING_STRATEGIES)[number];
+
+export const TYPE_VALUE_SOURCES = ["Attribute", "OnDisk", "OnDiskOrAttribute", "Parameters"] as const;
+
+export type TypeValueSource = (typeof TYPE_VALUE_SOURCES)[number];
+
+export interface TypeMappingRule {
+  readonly strategy: TypeMappingStrategy;
+  readonly sqlType: string | null;
+  readonly fallbackLength: number | null;
+  readonly defaultPrecision: number | null;
+  readonly defaultScale: number | null;
+  readonly scale: number | null;
+  readonly maxLengthThreshold: number | null;
+  readonly lengthSource: TypeValueSource | null;
+  readonly precisionSource: TypeValueSource | null;
+  readonly scaleSource: TypeValueSource | null;
+  readonly lengthParameterIndex: number | null;
+  readonly precisionParameterIndex: number | null;
+  readonly scaleParameterIndex: number | null;
+}
+
+export interface TypeMappingPolicy {
+  /** Rule applied to external database types that have no entry in `external`. */
+  readonly defaultRule: TypeMappingRule;
+  /** OutSystems data types, keyed by {@link normalizeTypeKey}. */
+  readonly mappings: ReadonlyMap<string, TypeMappingRule>;
+  /** Physical column types reported in `onDisk.sqlType`. */
+  readonly onDisk: ReadonlyMap<string, TypeMappingRule>;
+  /** Base types parsed from `external_dbType`, e.g. `varchar` for `varchar(50)`. */
+  readonly external: ReadonlyMap<string, TypeMappingRule>;
+}
+
+export type TypeResolutionSource = "attribute" | "onDisk" | "external";
+
+export interface TypeResolution {
+  readonly sqlType: string;
+  readonly source: TypeResolutionSource;
+}
+
+export interface TypeResolutionIssue {
+  readonly code: "type.unmapped";
+  readonly message: string;
+  readonly path: (string | number)[];
+}
+
+export interface ResolvedModelTypes {
+  /** The input model with every mapped attribute's `resolvedType` filled in. */
+  readonly model: NormalizedModel;
+  readonly issues: TypeResolutionIssue[];
+}
+
+const UNICODE_MAX_LENGTH_THRESHOLD = 2000;
+const VARBINARY_MAX_LENGTH_THRESHOLD = 2000;
+
+function resolveUnicodeText(length: number | null, maxThreshold: number): string {
+  if (length === null || length <= 0 || length >= maxThreshold) {
+    return "nvarchar(max)";
+  }
+
+  return `nvarchar(${length})`;
+}
+
+function resolveVarChar(length: number | null): string {
+  return length === null || length <= 0 ? "varchar(max)" : `varchar(${length})`;
+}
+
+function resolveVarBinary(length: number | null, maxThreshold: number): string {
+  if (length === null || length <= 0 || length >= maxThreshold) {
+    return "varbinary(max)";
+  }
+
+  return `varbinary(${length})`;
+}
+
+function resolveDecimal(precision: number | null, scale: number | null, defaultPrecision: number, defaultScale: number): string {
+  const resolvedPrecision = precision !== null && precision > 0 ? precision : defaultPrecision;
+  return `decimal(${resolvedPrecision},${resolveScale(scale, defaultScale)})`;
+}
+
+function resolveScale(scale: number | null, defaultScale: number): number {
+  return scale !== null && scale >= 0 ? scale : defaultScale;
+}
+
+function fixedLength(length: number | null): number {
+  return length === null || length <= 0 ? 1 : length;
+}
+
+/** SQL types accepted by the `Fixed` strategy, with their handling of `(n)`/`(p,s)` parameters. */
+const FIXED_TYPES: Record<string, (parameters: number[]) => string> = {
+  varchar: (parameters) => resolveVarChar(parameters[0] ?? null),
+  nvarchar: (parameters) => resolveUnicodeText(parameters[0] ?? null, UNICODE_MAX_LENGTH_THRESHOLD),
+  nchar: (parameters) => `nchar(${fixedLength(parameters[0] ?? null)})`,
+  char: (parameters) => `char(${fixedLength(parameters[0] ?? null)})`,
+  varbinary: (parameters) => resolveVarBinary(parameters[0] ?? null, VARBINARY_MAX_LENGTH_THRESHOLD),
+  binary: (parameters) => `binary(${fixedLength(parameters[0] ?? null)})`,
+  decimal: (parameters) => resolveDecimal(parameters[0] ?? null, parameters[1] ?? null, 18, 0),
+  numeric: (parameters) => resolveDecimal(parameters[0] ?? null, parameters[1] ?? null, 18, 0),
+  int: () => "int",
+  bigint: () => "bigint",
+  smallint: () => "smallint",
+  tinyint: () => "tinyint",
+  bit: () => "bit",
+  datetime: () => "datetime",
+  datetime2: (parameters) => `datetime2(${resolveScale(parameters[0] ?? null, 7)})`,
+  datetimeoffset: (parameters) => `datetimeoffset(${resolveScale(parameters[0] ?? null, 7)})`,
+  smalldatetime: () => "smalldatetime",
+  date: () => "date",
+  time: (parameters) => `time(${resolveScale(parameters[0] ?? null, 7)})`,
+  uniqueidentifier: () => "uniqueidentifier",
+  float: () => "float",
+  real: () => "real",
+  money: () => "money",
+  smallmoney: () => "smallmoney",
+  xml: () => "xml",
+  text: () => "text",
+  ntext: () => "ntext",
+  image: () => "image"
+};
+
+/**
+ * Normalizes a data type name the way the .NET type-mapping policy does: trimmed, lowercased, an
+ * `rt` prefix dropped (`rtEmail` → `email`) and `_`, `-` and spaces removed.
+ */
+export function normalizeTypeKey(dataType: string | null): string {
+  let trimmed = (dataType ?? "").trim();
+  if (trimmed.length > 2 && trimmed.toLowerCase().startsWith("rt")) {
+    trimmed = trimmed.slice(2);
+  }
+
+  return trimmed.replace(/[_\- ]/g, "").toLowerCase();
+}
+
+/** Splits `varchar(50)` / `decimal(18, 2)` / `nvarchar(max)` into a base type and numeric parameters (`max` → -1). */
+export function parseSqlType(sqlType: string): { baseType: string; parameters: number[] } {
+  const trimmed = sqlType.trim();
+  const openParen = trimmed.indexOf("(");
+  if (openParen < 0) {
+    return { baseType: trimmed, parameters: [] };
+  }
+
+  const closeParen = trimmed.indexOf(")", openParen + 1);
+  const argumentsSegment = trimmed.slice(openParen + 1, closeParen > openParen ? closeParen : undefined);
+  const parameters = argumentsSegment
+    .split(",")
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0)
+    .map((segment) => {
+      if (segment.toLowerCase() === "max") {
+        return -1;
+      }
+
+      const value = Number.parseInt(segment, 10);
+      return Number.isNaN(value) ? 0 : value;
+    });
+  return { baseType: trimmed.slice(0, openParen).trim(), parameters };
+}
+
+function caseInsensitiveEnum<const T extends readonly string[]>(values: T, label: string) {
+  return z.string().transform((value, ctx): T[number] => {
+    const match = values.find((candidate) => candidate.toLowerCase() === value.trim().toLowerCase());
+    if (!match) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unrecognized ${label} "${value}". Expected one of ${values.join(", ")}.`
+      });
+      return z.NEVER;
+    }
+
+    return match;
+  });
+}
+
+function optionalInteger(label: string) {
+  return z
+    .union([z.number().int({ message: `${label} must be an integer.` }), z.null(), z.undefined()])
+    .transform((value) => value ?? null);
+}
+
+function fixedRule(sqlType: string): TypeMappingRule {
+  return {
+    strategy: "Fixed",
+    sqlType,
+    fallbackLength: null,
+    defaultPrecision: null,
+    defaultScale: null,
+    scale: null,
+    maxLengthThreshold: null,
+    lengthSource: null,
+    precisionSource: null,
+    scaleSource: null,
+    lengthParameterIndex: null,
+    precisionParameterIndex: null,
+    scaleParameterIndex: null
+  };
+}
+
+function isKnownFixedType(sqlType: string): boolean {
+  return Object.hasOwn(FIXED_TYPES, normalizeTypeKey(parseSqlType(sqlType).baseType));
+}
+
+const sqlTypeString = z
+  .string()
+  .trim()
+  .min(1, { message: "Type mapping string value must specify a SQL type." })
+  .refine(isKnownFixedType, (value) => ({ message: `Unsupported SQL type "${value}".` }));
+
+const ruleObjectSchema = z
+  .object({
+    strategy: caseInsensitiveEnum(TYPE_MAPPING_STRATEGIES, "type mapping strategy").optional(),
+    sqlType: z.union([sqlTypeString, z.null(), z.undefined()]).transform((value) => value ?? null),
+    fallbackLength: optionalInteger("fallbackLength"),
+    defaultPrecision: optionalInteger("defaultPrecision"),
+    defaultScale: optionalInteger("defaultScale"),
+    scale: optionalInteger("scale"),
+    maxLengthThreshold: optionalInteger("maxLengthThreshold"),
+    lengthSource: caseInsensitiveEnum(TYPE_VALUE_SOURCES, "value source").nullish(),
+    precisionSource: caseInsensitiveEnum(TYPE_VALUE_SOURCES, "value source").nullish(),
+    scaleSource: caseInsensitiveEnum(TYPE_VALUE_SOURCES, "value source").nullish(),
+    lengthParameterIndex: optionalInteger("lengthParameterIndex"),
+    precisionParameterIndex: optionalInteger("precisionParameterIndex"),
+    scaleParameterIndex: optionalInteger("scaleParameterIndex")
+  })
+  .strict()
+  .superRefine((rule, ctx) => {
+    if (!rule.strategy && !rule.sqlType) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Type mapping rule must specify either 'strategy' or 'sqlType'."
+      });
+    }
+
+    if (rule.strategy === "Fixed" && !rule.sqlType) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Fixed strategy requires 'sqlType'.",
+        path: ["sqlType"]
+      });
+    }
+
+    if (rule.defaultPrecision !== null && (rule.defaultPrecision < 1 || rule.defaultPrecision > 38)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "defaultPrecision must be between 1 and 38.",
+        path: ["defaultPrecision"]
+      });
+    }
+
+    if (rule.defaultScale !== null && rule.defaultScale < 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "defaultScale must be zero or positive.", path: ["defaultScale"] });
+    }
+
+    if (rule.defaultScale !== null && rule.defaultPrecision !== null && rule.defaultScale > rule.defaultPrecision) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "defaultScale cannot exceed defaultPrecision.",
+        path: ["defaultScale"]
+      });
+    }
+
+    if (rule.scale !== null && (rule.scale < 0 || rule.scale > 7)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "scale must be between 0 and 7.", path: ["scale"] });
+    }
+
+    (["fallbackLength", "maxLengthThreshold"] as const).forEach((key) => {
+      const value = rule[key];
+      if (value !== null && value <= 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${key} must be a positive integer.`, path: [key] });
+      }
+    });
+  })
+  .transform(
+    (rule): TypeMappingRule => ({
+      strategy: rule.strategy ?? "Fixed",
+      sqlType: rule.sqlType,
+      fallbackLength: rule.fallbackLength,
+      defaultPrecision: rule.defaultPrecision,
+      defaultScale: rule.defaultScale,
+      scale: rule.scale,
+      maxLengthThreshold: rule.maxLengthThreshold,
+      lengthSource: rule.lengthSource ?? null,
+      precisionSource: rule.precisionSource ?? null,
+      scaleSource: rule.scaleSource ?? null,
+      lengthParameterIndex: rule.lengthParameterIndex,
+      precisionParameterIndex: rule.precisionParameterIndex,
+      scaleParameterIndex: rule.scaleParameterIndex
+    })
+  );
+
+/** A rule is either a fixed SQL type string or a strategy object; each shape reports its own issues. */
+export const typeMappingRuleSchema = z.unknown().transform((value, ctx): TypeMappingRule => {
+  if (typeof value !== "string" && (typeof value !== "object" || value === null || Array.isArray(value))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Type mapping rule must be defined as a string or object." });
+    return z.NEVER;
+  }
+
+  const result = typeof value === "string" ? sqlTypeString.transform(fixedRule).safeParse(value) : ruleObjectSchema.safeParse(value);
+  if (!result.success) {
+    result.error.issues.forEach((issue) => ctx.addIssue(issue));
+    return z.NEVER;
+  }
+
+  return result.data;
+});
+
+const ruleTableSchema = z.record(typeMappingRuleSchema).superRefine((rules, ctx) => {
+  const seen = new Map<string, string>();
+  Object.keys(rules).forEach((key) => {
+    const normalized = normalizeTypeKey(key);
+    const previous = seen.get(normalized);
+    if (previous !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Mapping key "${key}" collides with "${previous}" once normalized to "${normalized}".`,
+        path: [key]
+      });
+    }
+    seen.set(normalized, key);
+  });
+});
+
+function toRuleMap(rules: Record<string, TypeMappingRule> | undefined): ReadonlyMap<string, TypeMappingRule> {
+  return new Map(Object.entries(rules ?? {}).map(([key, rule]) => [normalizeTypeKey(key), rule]));
+}
+
+/** Schema for `config/type-mapping.default.json`. */
+export const typeMappingSchema = z
+  .object({
+    default: typeMappingRuleSchema,
+    mappings: ruleTableSchema,
+    onDisk: ruleTableSchema.optional(),
+    external: ruleTableSchema.optional()
+  })
+  .strict()
+  .transform(
+    (config): TypeMappingPolicy => ({
+      defaultRule: config.default,
+      mappings: toRuleMap(config.mappings),
+      onDisk: toRuleMap(config.onDisk),
+      external: toRuleMap(config.external)
+    })
+  );
+
+export function parseTypeMappingJson(input: unknown): TypeMappingPolicy {
+  return typeMappingSchema.parse(input);
+}
+
+export function safeParseTypeMappingJson(input: unknown) {
+  return typeMappingSchema.safeParse(input);
+}
+
+interface TypeMappingRequest {
+  readonly attribute: NormalizedAttribute;
+  readonly source: TypeResolutionSource;
+  readonly parameters: number[];
+}
+
+function defaultValueSource(source: TypeResolutionSource): TypeValueSource {
+  switch (source) {
+    case "onDisk":
+      return "OnDiskOrAttribute";
+    case "external":
+      return "Parameters";
+    default:
+      return "Attribute";
+  }
+}
+
+function readValue(
+  request: TypeMappingRequest,
+  source: TypeValueSource | null,
+  parameterIndex: number | null,
+  attributeValue: number | null,
+  onDiskValue: number | null
+): number | null {
+  switch (source ?? defaultValueSource(request.source)) {
+    case "OnDisk":
+      return onDiskValue;
+    case "OnDiskOrAttribute":
+      return onDiskValue ?? attributeValue;
+    case "Parameters": {
+      const index = parameterIndex ?? 0;
+      return index >= 0 && index < request.parameters.length ? request.parameters[index] : null;
+    }
+    default:
+      return attributeValue;
+  }
+}
+
+/** Applies one rule, mirroring `TypeMappingRule.Apply` in `Osm.Smo`. */
+function applyRule(rule: TypeMappingRule, request: TypeMappingRequest): string {
+  const { attribute } = request;
+  const onDisk = attribute.onDisk;
+  const length = () =>
+    readValue(request, rule.lengthSource, rule.lengthParameterIndex, attribute.length, onDisk?.maxLength ?? null);
+  const precision = () =>
+    readValue(request, rule.precisionSource, rule.precisionParameterIndex, attribute.precision, onDisk?.precision ?? null);
+  const scale = () => readValue(request, rule.scaleSource, rule.scaleParameterIndex, attribute.scale, onDisk?.scale ?? null);
+
+  switch (rule.strategy) {
+    case "UnicodeText":
+      return resolveUnicodeText(length() ?? rule.fallbackLength, rule.maxLengthThreshold ?? UNICODE_MAX_LENGTH_THRESHOLD);
+    case "VarChar":
+      return resolveVarChar(length() ?? rule.fallbackLength);
+    case "VarCharText": {
+      const resolved = length() ?? rule.fallbackLength ?? 0;
+      return resolveVarChar(resolved <= 0 ? rule.fallbackLength ?? 0 : resolved);
+    }
+    case "VarBinary":
+      return resolveVarBinary(length() ?? rule.fallbackLength, rule.maxLengthThreshold ?? VARBINARY_MAX_LENGTH_THRESHOLD);
+    case "Decimal":
+      return resolveDecimal(precision(), scale(), rule.defaultPrecision ?? 18, rule.defaultScale ?? 0);
+    case "DateTime2":
+      return `datetime2(${resolveScale(scale(), rule.scale ?? 7)})`;
+    case "DateTimeOffset":
+      return `datetimeoffset(${resolveScale(scale(), rule.scale ?? 7)})`;
+    case "Time":
+      return `time(${resolveScale(scale(), rule.scale ?? 7)})`;
+    case "NChar":
+      return `nchar(${Math.max(1, length() ?? rule.fallbackLength ?? 1)})`;
+    case "Char":
+      return `char(${Math.max(1, length() ?? rule.fallbackLength ?? 1)})`;
+    case "Binary":
+      return `binary(${Math.max(1, length() ?? rule.fallbackLength ?? 1)})`;
+    default: {
+      const { baseType, parameters } = parseSqlType(rule.sqlType ?? "nvarchar(max)");
+      return (FIXED_TYPES[normalizeTypeKey(baseType)] ?? FIXED_TYPES.nvarchar)(parameters);
+    }
+  }
+}
+
+/** Identifiers and auto-numbers always use the platform mapping, whatever the column looks like on disk. */
+function prefersRuntimeMapping(attribute: NormalizedAttribute, key: string): boolean {
+  return attribute.isIdentifier || attribute.isAutoNumber || key === "identifier" || key === "autonumber" || key === "longinteger";
+}
+
+/**
+ * Resolves an attribute to a concrete SQL Server type. Physical `onDisk.sqlType` wins when it has a
+ * rule, then `external_dbType`, then the mapping for the OutSystems `dataType`. Returns `null` when
+ * none of them apply, i.e. the data type is missing from the mapping.
+ */
+export function resolveAttributeType(attribute: NormalizedAttribute, policy: TypeMappingPolicy): TypeResolution | null {
+  const key = normalizeTypeKey(attribute.dataType);
+  const runtime = prefersRuntimeMapping(attribute, key);
+
+  if (!runtime && attribute.onDisk?.sqlType) {
+    const rule = policy.onDisk.get(normalizeTypeKey(attribute.onDisk.sqlType));
+    if (rule) {
+      const sqlType = applyRule(rule, { attribute, source: "onDisk", parameters: [] });
+      // A logical Date stored in a datetime column is still emitted as `date`.
+      if (key !== "date" || sqlType === "date") {
+        return { sqlType, source: "onDisk" };
+      }
+    }
+  }
+
+  if (!runtime && attribute.externalDbType) {
+    const { baseType, parameters } = parseSqlType(attribute.externalDbType);
+    const rule = policy.external.get(normalizeTypeKey(baseType)) ?? policy.defaultRule;
+    return { sqlType: applyRule(rule, { attribute, source: "external", parameters }), source: "external" };
+  }
+
+  const rule = policy.mappings.get(key);
+  if (!rule) {
+    return null;
+  }
+
+  return { sqlType: applyRule(rule, { attribute, source: "attribute", parameters: [] }), source: "attribute" };
+}
+
+/** Resolves the attributes of one entity; `entityPath` prefixes the issue paths (`modules[i].entities[j]`). */
+export function resolveEntityTypes(
+  entity: NormalizedEntity,
+  entityPath: (string | number)[],
+  policy: TypeMappingPolicy
+): { entity: NormalizedEntity; issues: TypeResolutionIssue[] } {
+  const issues: TypeResolutionIssue[] = [];
+  const attributes = entity.attributes.map((attribute, attributeIndex) => {
+    const resolution = resolveAttributeType(attribute, policy);
+    if (!resolution) {
+      issues.push({
+        code: "type.unmapped",
+        message: `Attribute "${attribute.name}" of entity "${entity.name}" has data type "${attribute.dataType}", which has no entry in the type mapping.`,
+        path: [...entityPath, "attributes", attributeIndex, "dataType"]
+      });
+    }
+
+    return { ...attribute, resolvedType: resolution?.sqlType ?? null };
+  });
+
+  return { entity: { ...entity, attributes }, issues };
+}
+
+/**
+ * Fills in `resolvedType` for every attribute. Attributes whose data type has no mapping keep
+ * `resolvedType: null` and are reported so mapping gaps surface before DDL emission.
+ */
+export function resolveModelTypes(model: NormalizedModel, policy: TypeMappingPolicy): ResolvedModelTypes {
+  const issues: TypeResolutionIssue[] = [];
+  const modules = model.modules.map((module, moduleIndex) => ({
+    ...module,
+    entities: module.entities.map((entity, entityIndex) => {
+      const resolved = resolveEntityTypes(entity, ["modules", moduleIndex, "entities", entityIndex], policy);
+      issues.push(...resolved.issues);
+      return resolved.entity;
+    })
+  }));
+
+  return { model: { ...model, modules }, issues };
+}
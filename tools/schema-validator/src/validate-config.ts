@@ -0,0 +1,250 @@
+#!/usr/bin/env node
+import path from "node:path";
+import process from "node:process";
+import { fileURLToPath } from "node:url";
+
+import { ZodError } from "zod";
+
+import { safeParseCliConfigJson } from "./cliConfig.js";
+import { validateCliConfig, validateTighteningConfig } from "./configValidation.js";
+import { loadJson } from "./jsonFile.js";
+import { formatIssuePath, formatZodErrors, parseModelJson, type NormalizedModel } from "./modelSchema.js";
+import { safeParseTighteningConfigJson } from "./tighteningConfig.js";
+import { safeParseTypeMappingJson } from "./typeMapping.js";
+
+const CONFIG_KINDS = ["tightening", "type-mapping", "cli"] as const;
+
+type ConfigKind = (typeof CONFIG_KINDS)[number];
+
+const REPOSITORY_ROOT = fileURLToPath(new URL("../../../", import.meta.url));
+
+const DEFAULT_CONFIG_PATHS = [
+  "config/default-tightening.json",
+  "config/type-mapping.default.json",
+  "config/appsettings.example.json",
+  "pipeline.json"
+].map((file) => path.join(REPOSITORY_ROOT, file));
+
+interface CliOptions {
+  readonly configPaths: string[];
+  readonly kind: ConfigKind | null;
+  readonly modelPath: string | null;
+  readonly json: boolean;
+}
+
+interface IssueEntry {
+  readonly code: string;
+  readonly message: string;
+  readonly path: (string | number)[];
+}
+
+interface FileResult {
+  readonly file: string;
+  readonly kind: ConfigKind;
+  /** `false` when the file does not match its schema; `issues` then lists the schema errors. */
+  readonly schemaValid: boolean;
+  readonly issues: IssueEntry[];
+}
+
+function isConfigKind(value: string | undefined): value is ConfigKind {
+  return (CONFIG_KINDS as readonly string[]).includes(value ?? "");
+}
+
+function parseArguments(argv: string[]): CliOptions | null {
+  const configPaths: string[] = [];
+  let kind: ConfigKind | null = null;
+  let modelPath: string | null = null;
+  let json = false;
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--kind" || argument === "-k") {
+      const value = argv[++index];
+      if (!isConfigKind(value)) {
+        throw new Error(`--kind expects one of ${CONFIG_KINDS.join(", ")} (received ${value ?? "nothing"}).`);
+      }
+
+      kind = value;
+      continue;
+    }
+
+    if (argument === "--model" || argument === "-m") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--model expects a path to the model JSON.");
+      }
+
+      modelPath = value;
+      continue;
+    }
+
+    if (argument === "--json") {
+      json = true;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    configPaths.push(argument);
+  }
+
+  return { configPaths: configPaths.length > 0 ? configPaths : DEFAULT_CONFIG_PATHS, kind, modelPath, json };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run validate-config -- [config.json]... [options]\n\n` +
+    `Checks configuration files against the rules the .NET pipeline only applies at runtime: the tightening\n` +
+    `configuration, the type mapping, and the CLI configuration (pipeline.json / appsettings.json). With\n` +
+    `--model, overrides and module filters are also checked against the model so stale entries are flagged.\n` +
+    `Without files, the repository's config/ defaults and pipeline.json are checked.\n\n` +
+    `Options:\n` +
+    `  -h, --help          Show this message.\n` +
+    `  -k, --kind <kind>   Treat every file as one of ${CONFIG_KINDS.join(", ")} (default: detected from the content).\n` +
+    `  -m, --model <path>  Model JSON to cross-check module, entity, attribute and table names against.\n` +
+    `      --json          Print the results as JSON.\n` +
+    `\nExit codes:\n` +
+    `  0  Every file matches its schema and, with --model, every override resolves.\n` +
+    `  1  Invalid arguments, a file failed to load or validate, or an override is stale.\n` +
+    `\nExamples:\n` +
+    `  npm run validate-config\n` +
+    `  npm run validate-config -- ../../config/default-tightening.json --model ../../tests/Fixtures/model.edge-case.json\n` +
+    `  npm run validate-config -- appsettings.json --kind cli --json\n`);
+}
+
+/**
+ * Picks the schema for a file the way the .NET loader tells them apart: a document with `policy` is
+ * a tightening configuration, one with `mappings` is a type mapping, anything else is CLI configuration.
+ */
+function detectKind(input: unknown): ConfigKind {
+  if (typeof input === "object" && input !== null && !Array.isArray(input)) {
+    if ("policy" in input) {
+      return "tightening";
+    }
+
+    if ("mappings" in input) {
+      return "type-mapping";
+    }
+  }
+
+  return "cli";
+}
+
+function schemaIssues(error: ZodError): IssueEntry[] {
+  return error.issues.map((issue) => ({ code: issue.code, message: issue.message, path: issue.path }));
+}
+
+function validateFile(file: string, input: unknown, kind: ConfigKind, model: NormalizedModel | null): FileResult {
+  switch (kind) {
+    case "tightening": {
+      const result = safeParseTighteningConfigJson(input);
+      return result.success
+        ? { file, kind, schemaValid: true, issues: validateTighteningConfig(result.data, model) }
+        : { file, kind, schemaValid: false, issues: schemaIssues(result.error) };
+    }
+    case "type-mapping": {
+      const result = safeParseTypeMappingJson(input);
+      return result.success
+        ? { file, kind, schemaValid: true, issues: [] }
+        : { file, kind, schemaValid: false, issues: schemaIssues(result.error) };
+    }
+    case "cli": {
+      const result = safeParseCliConfigJson(input);
+      return result.success
+        ? { file, kind, schemaValid: true, issues: validateCliConfig(result.data, model) }
+        : { file, kind, schemaValid: false, issues: schemaIssues(result.error) };
+    }
+  }
+}
+
+function printResult(result: FileResult): void {
+  const label = `${path.relative(process.cwd(), result.file) || result.file} (${result.kind})`;
+  if (result.issues.length === 0) {
+    console.log(`✅ ${label} is valid.`);
+    return;
+  }
+
+  const count = `${result.issues.length} issue${result.issues.length === 1 ? "" : "s"}`;
+  console.error(result.schemaValid ? `✖ ${label} has ${count}:` : `✖ ${label} failed schema validation with ${count}:`);
+  result.issues.forEach((issue, index) => {
+    const location = formatIssuePath(issue.path);
+    console.error(`  ${index + 1}. ${location ? `${location}: ` : ""}${issue.message} [${issue.code}]`);
+  });
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  let model: NormalizedModel | null = null;
+  if (options.modelPath) {
+    try {
+      model = parseModelJson(await loadJson(options.modelPath));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const issues = formatZodErrors(error);
+        console.error(
+          `✖ Model ${options.modelPath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:`
+        );
+        issues.forEach((issue, index) => {
+          console.error(`  ${index + 1}. ${issue}`);
+        });
+      } else {
+        console.error(`✖ ${error instanceof Error ? error.message : `Unable to read ${options.modelPath}.`}`);
+      }
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  const results: FileResult[] = [];
+  for (const file of options.configPaths) {
+    let input: unknown;
+    try {
+      input = await loadJson(file);
+    } catch (error) {
+      console.error(`✖ ${error instanceof Error ? error.message : `Unable to read ${file}.`}`);
+      process.exitCode = 1;
+      continue;
+    }
+
+    results.push(validateFile(file, input, options.kind ?? detectKind(input), model));
+  }
+
+  if (results.some((result) => result.issues.length > 0)) {
+    process.exitCode = 1;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ model: options.modelPath, files: results }, null, 2));
+    return;
+  }
+
+  results.forEach(printResult);
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
@@ -1,85 +1,491 @@
 #!/usr/bin/env node
-import fs from "node:fs/promises";
+import fs from "node:fs";
 import path from "node:path";
 import process from "node:process";
+import { fileURLToPath } from "node:url";
 
 import { ZodError } from "zod";
 
 import {
-  formatZodErrors,
-  parseModelJson,
-  summarizeModel,
-  type NormalizedModel
-} from "./modelSchema.js";
+  parseExtractionManifestJson,
+  resolveCasePath,
+  type ExtractionExpectations,
+  type ExtractionManifest
+} from "./extractionManifest.js";
+import { expandInputFiles, inputDirectories, mapWithConcurrency } from "./inputFiles.js";
+import { loadJson, loadJsonSource } from "./jsonFile.js";
+import { JsonSourceError, type JsonSource } from "./jsonSource.js";
+import { parseModelRuleConfigJson } from "./modelRuleConfig.js";
+import { MODEL_RULES, createModelRuleSet, defaultModelRuleSet, type ModelRuleSet } from "./modelRules.js";
+import { formatZodErrors } from "./modelSchema.js";
+import { loadFailureReport, validateModel, type ValidationReport } from "./modelValidation.js";
+import { validateModelStream } from "./streamingValidation.js";
+import { parseTypeMappingJson, type TypeMappingPolicy } from "./typeMapping.js";
+import {
+  OUTPUT_FORMATS,
+  REPORTERS,
+  formatBatchTable,
+  formatLocatedIssue,
+  formatStreamedVerdict,
+  type OutputFormat
+} from "./validationReporters.js";
 
 interface CliOptions {
-  readonly filePath: string;
+  readonly inputs: string[];
+  readonly manifestPaths: string[];
+  readonly typeMappingPath: string;
+  /** Rule severities and suppressions; `null` keeps every rule at its default. */
+  readonly rulesPath: string | null;
+  readonly listRules: boolean;
   readonly printNormalized: boolean;
+  readonly format: OutputFormat;
+  readonly concurrency: number;
+  readonly watch: boolean;
+  readonly stream: boolean;
+}
+
+/** A file to validate and, when it came from an extraction manifest, the filters it must honour. */
+interface ValidationTarget {
+  readonly file: string;
+  readonly expectations: ExtractionExpectations | null;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+/** Quiet period after a change before a watched file is validated again, so editors' multi-step saves run once. */
+const WATCH_DEBOUNCE_MS = 150;
+
+const DEFAULT_TYPE_MAPPING_PATH = fileURLToPath(new URL("../../../config/type-mapping.default.json", import.meta.url));
+
+function isOutputFormat(value: string | undefined): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value ?? "");
 }
 
 function parseArguments(argv: string[]): CliOptions | null {
-  let filePath: string | undefined;
+  const inputs: string[] = [];
+  const manifestPaths: string[] = [];
+  let typeMappingPath = DEFAULT_TYPE_MAPPING_PATH;
+  let rulesPath: string | null = null;
+  let listRules = false;
   let printNormalized = false;
+  let format: OutputFormat = "text";
+  let concurrency = DEFAULT_CONCURRENCY;
+  let watch = false;
+  let stream = false;
 
-  for (const argument of argv) {
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
     if (argument === "--help" || argument === "-h") {
       return null;
     }
 
+    if (argument === "--type-mapping" || argument === "-t") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--type-mapping expects a path to the type mapping JSON.");
+      }
+
+      typeMappingPath = value;
+      continue;
+    }
+
+    if (argument === "--rules" || argument === "-r") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--rules expects a path to a rule configuration JSON.");
+      }
+
+      rulesPath = value;
+      continue;
+    }
+
+    if (argument === "--list-rules") {
+      listRules = true;
+      continue;
+    }
+
+    if (argument === "--manifest" || argument === "-m") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--manifest expects a path to an extraction manifest JSON.");
+      }
+
+      manifestPaths.push(value);
+      continue;
+    }
+
+    if (argument === "--concurrency" || argument === "-c") {
+      const value = Number(argv[++index]);
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error(`--concurrency expects a positive integer (received ${argv[index] ?? "nothing"}).`);
+      }
+
+      concurrency = value;
+      continue;
+    }
+
+    if (argument === "--watch" || argument === "-w") {
+      watch = true;
+      continue;
+    }
+
+    if (argument === "--stream" || argument === "-s") {
+      stream = true;
+      continue;
+    }
+
     if (argument === "--print-normalized" || argument === "-p") {
       printNormalized = true;
       continue;
     }
 
+    if (argument === "--json") {
+      format = "json";
+      continue;
+    }
+
+    if (argument === "--format" || argument === "-f") {
+      const value = argv[++index];
+      if (!isOutputFormat(value)) {
+        throw new Error(`--format expects one of ${OUTPUT_FORMATS.join(", ")} (received ${value ?? "nothing"}).`);
+      }
+
+      format = value;
+      continue;
+    }
+
     if (argument.startsWith("-")) {
       throw new Error(`Unknown option: ${argument}`);
     }
 
-    if (filePath) {
-      throw new Error("Only one JSON file path can be supplied.");
-    }
+    inputs.push(argument);
+  }
+
+  if (inputs.length === 0 && manifestPaths.length === 0 && !listRules) {
+    throw new Error("Path to the emitted OutSystems model JSON (or --manifest) is required.");
+  }
+
+  if (printNormalized && format !== "text") {
+    throw new Error("--print-normalized can only be combined with the text format.");
+  }
 
-    filePath = argument;
+  if (watch && format !== "text") {
+    throw new Error("--watch can only be combined with the text format.");
   }
 
-  if (!filePath) {
-    throw new Error("Path to the emitted OutSystems model JSON is required.");
+  if (stream && printNormalized) {
+    throw new Error("--print-normalized cannot be combined with --stream, which does not keep the model.");
   }
 
-  return { filePath, printNormalized };
+  if (stream && manifestPaths.length > 0) {
+    throw new Error("--manifest cannot be combined with --stream; manifest checks need the whole document.");
+  }
+
+  return { inputs, manifestPaths, typeMappingPath, rulesPath, listRules, printNormalized, format, concurrency, watch, stream };
 }
 
 function printUsage(): void {
-  console.log(`Usage: npm run validate -- <model.json> [options]\n\n` +
+  console.log(`Usage: npm run validate -- <model.json | directory | glob>... [options]\n\n` +
     `Options:\n` +
-    `  -h, --help              Show this message.\n` +
-    `  -p, --print-normalized  Print the normalized JSON after validation.\n` +
+    `  -h, --help                 Show this message.\n` +
+    `  -m, --manifest <path>      Validate the cases of an extraction manifest against its filters (repeatable).\n` +
+    `  -t, --type-mapping <path>  Type mapping used to resolve SQL types (default: config/type-mapping.default.json).\n` +
+    `  -r, --rules <path>         Rule configuration: severities (error, warn, off) and suppressions.\n` +
+    `      --list-rules           List the model rules with their severities and exit.\n` +
+    `  -c, --concurrency <n>      Files validated at the same time (default: ${DEFAULT_CONCURRENCY}).\n` +
+    `  -w, --watch                Keep running and re-validate files as they change (text format only).\n` +
+    `  -s, --stream               Validate entity by entity without loading whole files; issues print as found.\n` +
+    `  -p, --print-normalized     Print the normalized JSON after validation (single file only).\n` +
+    `  -f, --format <format>      Output format: ${OUTPUT_FORMATS.join(", ")} (default: text).\n` +
+    `      --json                 Shorthand for --format json.\n` +
+    `\nDirectories contribute their *.json files; quoted globs (*, ?, **) are expanded by the CLI.\n` +
+    `\nExit codes:\n` +
+    `  0  Every file passed validation.\n` +
+    `  1  Invalid arguments, or at least one file failed validation.\n` +
     `\nExamples:\n` +
     `  npm run validate -- tests/Fixtures/model.edge-case.json\n` +
-    `  npm run validate -- my-export.json --print-normalized\n`);
+    `  npm run validate -- my-export.json --print-normalized\n` +
+    `  npm run validate -- my-export.json --type-mapping ../../config/type-mapping.default.json\n` +
+    `  npm run validate -- my-export.json --format sarif > validation.sarif\n` +
+    `  npm run validate -- ../../tests/Fixtures "exports/**/*.json"\n` +
+    `  npm run validate -- --manifest ../../tests/Fixtures/extraction/advanced-sql.manifest.json\n` +
+    `  npm run validate -- exports/ --watch\n` +
+    `  npm run validate -- full-estate.json --stream\n` +
+    `  npm run validate -- my-export.json --rules team-rules.json\n` +
+    `  npm run validate -- --list-rules --rules team-rules.json\n`);
 }
 
-async function loadJson(filePath: string): Promise<unknown> {
-  const absolutePath = path.resolve(process.cwd(), filePath);
-  const payload = await fs.readFile(absolutePath, "utf8");
+async function loadTypeMapping(filePath: string): Promise<TypeMappingPolicy> {
+  const raw = await loadJson(filePath);
   try {
-    return JSON.parse(payload);
+    return parseTypeMappingJson(raw);
   } catch (error) {
-    if (error instanceof SyntaxError) {
-      throw new Error(`Failed to parse JSON from ${absolutePath}: ${error.message}`);
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `Type mapping ${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
     }
 
     throw error;
   }
 }
 
-function printSummary(model: NormalizedModel): void {
-  const lines = summarizeModel(model);
-  for (const line of lines) {
-    console.log(line);
+async function loadRules(filePath: string | null): Promise<ModelRuleSet> {
+  if (filePath === null) {
+    return defaultModelRuleSet;
+  }
+
+  const raw = await loadJson(filePath);
+  try {
+    return createModelRuleSet(parseModelRuleConfigJson(raw));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `Rule configuration ${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
+    }
+
+    throw error;
   }
 }
 
+/** One line per rule: id, effective severity (and the default when configured otherwise), description. */
+function formatRuleList(rules: ModelRuleSet): string[] {
+  const rows = MODEL_RULES.map((rule) => {
+    const severity = rules.severityOf(rule.id);
+    return [rule.id, severity === rule.defaultSeverity ? severity : `${severity} (default ${rule.defaultSeverity})`, rule.description];
+  });
+  const header = ["Rule", "Severity", "Description"];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+  return [line(header), line(widths.map((width) => "-".repeat(width))), ...rows.map(line)];
+}
+
+async function loadManifest(filePath: string): Promise<ExtractionManifest> {
+  const raw = await loadJson(filePath);
+  try {
+    return parseExtractionManifestJson(raw);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = formatZodErrors(error);
+      throw new Error(
+        `Extraction manifest ${filePath} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:\n` +
+          issues.map((issue, index) => `  ${index + 1}. ${issue}`).join("\n")
+      );
+    }
+
+    throw error;
+  }
+}
+
+/** Plain inputs first (expanded), then every manifest case with its export path resolved against the manifest. */
+async function collectTargets(options: CliOptions): Promise<ValidationTarget[]> {
+  const files = await expandInputFiles(options.inputs);
+  const targets: ValidationTarget[] = files.map((file) => ({ file, expectations: null }));
+  for (const manifestPath of options.manifestPaths) {
+    const manifest = await loadManifest(manifestPath);
+    if (manifest.cases.length === 0) {
+      throw new Error(`Extraction manifest ${manifestPath} has no cases.`);
+    }
+
+    manifest.cases.forEach((extractionCase) => {
+      const { jsonPath: _jsonPath, ...expectations } = extractionCase;
+      targets.push({ file: resolveCasePath(manifestPath, extractionCase), expectations });
+    });
+  }
+
+  return targets;
+}
+
+async function validateFile(
+  filePath: string,
+  typeMapping: TypeMappingPolicy,
+  rules: ModelRuleSet,
+  expectations: ExtractionExpectations | null = null
+): Promise<ValidationReport> {
+  let source: JsonSource;
+  try {
+    source = await loadJsonSource(filePath);
+  } catch (error) {
+    if (error instanceof JsonSourceError) {
+      return loadFailureReport(filePath, error.message, error.location, error.text, expectations);
+    }
+
+    return loadFailureReport(
+      filePath,
+      error instanceof Error ? error.message : "Unable to load the JSON file.",
+      null,
+      null,
+      expectations
+    );
+  }
+
+  return validateModel(source.value, filePath, typeMapping, source, expectations, rules);
+}
+
+/**
+ * Streams the file with `--stream`, loads it whole otherwise. Streamed text runs print each issue
+ * as soon as it is found; structured formats wait for the report.
+ */
+function validateTarget(
+  target: ValidationTarget,
+  typeMapping: TypeMappingPolicy,
+  rules: ModelRuleSet,
+  options: CliOptions
+): Promise<ValidationReport> {
+  if (!options.stream) {
+    return validateFile(target.file, typeMapping, rules, target.expectations);
+  }
+
+  return validateModelStream(target.file, typeMapping, {
+    rules,
+    onIssue:
+      options.format === "text"
+        ? (issue) => console.error(`${issue.severity === "error" ? "✖" : "⚠"} ${formatLocatedIssue(target.file, issue)}`)
+        : undefined
+  });
+}
+
+/** Single-file runs keep the original output; anything else gets the batch rendering. */
+function printReports(reports: readonly ValidationReport[], options: CliOptions, batch: boolean): void {
+  const { format } = options;
+  let output: string;
+  if (options.stream && format === "text") {
+    // The issues are already on the console; close with the verdict or the table.
+    output = batch ? formatBatchTable(reports).join("\n") : formatStreamedVerdict(reports[0]);
+  } else {
+    output = batch ? REPORTERS[format].renderBatch(reports) : REPORTERS[format].render(reports[0]);
+  }
+
+  // Text failures go to stderr as before; structured formats always go to stdout so they can be redirected.
+  if (format === "text" && reports.some((report) => !report.summary.valid)) {
+    console.error(output);
+  } else {
+    console.log(output);
+  }
+}
+
+/**
+ * Watches the directories holding the targets (editors often replace files on save, which would
+ * end a watcher on the file itself) and re-validates a target once its changes settle. Directory
+ * inputs and the directories globs walk are watched too: when their contents change, the inputs
+ * are expanded again and files that now match are validated and watched from then on. After each
+ * round the latest result of every target is summarized again.
+ */
+function watchTargets(
+  initialTargets: readonly ValidationTarget[],
+  reports: ValidationReport[],
+  typeMapping: TypeMappingPolicy,
+  rules: ModelRuleSet,
+  options: CliOptions
+): void {
+  const targets = [...initialTargets];
+  const byPath = new Map<string, number[]>();
+  const track = (index: number) => {
+    const key = path.resolve(targets[index].file);
+    byPath.set(key, [...(byPath.get(key) ?? []), index]);
+  };
+  targets.forEach((_target, index) => track(index));
+
+  const printRound = (indexes: readonly number[]) => {
+    indexes.forEach((index) => {
+      const report = reports[index];
+      const output = options.stream ? formatStreamedVerdict(report) : REPORTERS.text.render(report);
+      if (report.summary.valid) {
+        console.log(output);
+      } else {
+        console.error(output);
+      }
+    });
+    if (reports.length > 1) {
+      console.log("");
+      formatBatchTable(reports).forEach((line) => console.log(line));
+    }
+    process.exitCode = reports.some((report) => !report.summary.valid) ? 1 : 0;
+  };
+
+  const revalidate = async (key: string) => {
+    const indexes = byPath.get(key) ?? [];
+    console.log(`\n[${new Date().toLocaleTimeString()}] ${targets[indexes[0]].file} changed`);
+    for (const index of indexes) {
+      reports[index] = await validateTarget(targets[index], typeMapping, rules, options);
+    }
+
+    printRound(indexes);
+  };
+
+  /** Expands the inputs again and validates the files that were not targets before. */
+  const rescan = async () => {
+    const files = await expandInputFiles(options.inputs).catch(() => [] as string[]);
+    const added = files.filter((file) => !byPath.has(path.resolve(file)));
+    await watchInputDirectories();
+    if (added.length === 0) {
+      return;
+    }
+
+    const indexes = added.map((file) => {
+      targets.push({ file, expectations: null });
+      track(targets.length - 1);
+      watchDirectory(path.dirname(path.resolve(file)));
+      return targets.length - 1;
+    });
+    console.log(`\n[${new Date().toLocaleTimeString()}] ${added.join(", ")} added`);
+    for (const index of indexes) {
+      reports[index] = await validateTarget(targets[index], typeMapping, rules, options);
+    }
+
+    printRound(indexes);
+  };
+
+  const timers = new Map<string, NodeJS.Timeout>();
+  /** Runs `task` once `key` has had no events for the debounce period; rescans use the empty key. */
+  const schedule = (key: string, task: () => Promise<void>) => {
+    clearTimeout(timers.get(key));
+    timers.set(
+      key,
+      setTimeout(() => {
+        timers.delete(key);
+        task().catch((error) => console.error("✖ Unable to re-validate:", error));
+      }, WATCH_DEBOUNCE_MS)
+    );
+  };
+
+  const watched = new Set<string>();
+  const inputDirectorySet = new Set<string>();
+  const watchDirectory = (directory: string) => {
+    if (watched.has(directory)) {
+      return;
+    }
+
+    watched.add(directory);
+    fs.watch(directory, (_event, fileName) => {
+      const key = fileName ? path.join(directory, fileName.toString()) : null;
+      if (key && byPath.has(key)) {
+        schedule(key, () => revalidate(key));
+      } else if (inputDirectorySet.has(directory)) {
+        schedule("", rescan);
+      }
+    });
+  };
+  const watchInputDirectories = async () => {
+    (await inputDirectories(options.inputs)).forEach((directory) => {
+      inputDirectorySet.add(directory);
+      watchDirectory(directory);
+    });
+  };
+
+  [...byPath.keys()].forEach((key) => watchDirectory(path.dirname(key)));
+  watchInputDirectories()
+    .then(() => {
+      console.log(`\nWatching ${targets.length === 1 ? "1 file" : `${targets.length} files`} for changes (Ctrl+C to stop)...`);
+    })
+    .catch((error) => console.error("✖ Unable to watch the input directories:", error));
+}
+
 async function main(): Promise<void> {
   let options: CliOptions | null;
   try {
@@ -100,46 +506,61 @@ async function main(): Promise<void> {
     return;
   }
 
-  let rawModel: unknown;
+  let typeMapping: TypeMappingPolicy;
+  let rules: ModelRuleSet;
   try {
-    rawModel = await loadJson(options.filePath);
+    rules = await loadRules(options.rulesPath);
+    if (options.listRules) {
+      formatRuleList(rules).forEach((line) => console.log(line));
+      return;
+    }
+
+    typeMapping = await loadTypeMapping(options.typeMappingPath);
   } catch (error) {
     if (error instanceof Error) {
       console.error(`✖ ${error.message}`);
     } else {
-      console.error("✖ Unable to load the JSON file.");
+      console.error("✖ Unable to load the type mapping or rule configuration.", error);
     }
     process.exitCode = 1;
     return;
   }
 
-  let model: NormalizedModel;
+  let targets: ValidationTarget[];
   try {
-    model = parseModelJson(rawModel);
+    targets = await collectTargets(options);
   } catch (error) {
-    if (error instanceof ZodError) {
-      const issues = formatZodErrors(error);
-      console.error(`✖ Schema validation failed with ${issues.length} issue${issues.length === 1 ? "" : "s"}:`);
-      issues.forEach((issue, index) => {
-        console.error(`  ${index + 1}. ${issue}`);
-      });
-    } else if (error instanceof Error) {
+    if (error instanceof Error) {
       console.error(`✖ ${error.message}`);
     } else {
-      console.error("✖ Unexpected error during validation.", error);
+      console.error("✖ Unable to resolve the files to validate.", error);
     }
     process.exitCode = 1;
     return;
   }
 
-  console.log("✅ Model JSON matches the OutSystems 11 contract.");
-  printSummary(model);
+  const batch = targets.length > 1 || options.manifestPaths.length > 0;
+  if (batch && options.printNormalized) {
+    console.error("✖ --print-normalized can only be used when validating a single file.");
+    process.exitCode = 1;
+    return;
+  }
 
-  if (options.printNormalized) {
+  const reports = await mapWithConcurrency(targets, options.concurrency, (target) =>
+    validateTarget(target, typeMapping, rules, options)
+  );
+  printReports(reports, options, batch);
+  if (reports.some((report) => !report.summary.valid)) {
+    process.exitCode = 1;
+  } else if (options.printNormalized) {
     console.log("\nNormalized projection:\n");
     const replacer = (_key: string, value: unknown) =>
       value instanceof Date ? value.toISOString() : value;
-    console.log(JSON.stringify(model, replacer, 2));
+    console.log(JSON.stringify(reports[0].model, replacer, 2));
+  }
+
+  if (options.watch) {
+    watchTargets(targets, reports, typeMapping, rules, options);
   }
 }
 
@@ -147,4 +568,3 @@ main().catch((error) => {
   console.error("✖ Unhandled error:", error);
   process.exit(1);
 });
-
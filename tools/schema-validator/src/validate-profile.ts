@@ -0,0 +1,201 @@
+#!/usr/bin/env node
+import process from "node:process";
+
+import { ZodError } from "zod";
+
+import { loadJson } from "./jsonFile.js";
+import { formatIssuePath, formatZodErrors, parseModelJson, type NormalizedModel } from "./modelSchema.js";
+import { alignProfileWithModel } from "./profileAlignment.js";
+import { parseProfileJson, type NormalizedProfileSnapshot } from "./profileSchema.js";
+
+interface CliOptions {
+  readonly profilePath: string;
+  readonly modelPath: string | null;
+  readonly strict: boolean;
+  readonly printNormalized: boolean;
+}
+
+function parseArguments(argv: string[]): CliOptions | null {
+  let profilePath: string | undefined;
+  let modelPath: string | null = null;
+  let strict = false;
+  let printNormalized = false;
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--model" || argument === "-m") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--model expects a path to the model JSON.");
+      }
+
+      modelPath = value;
+      continue;
+    }
+
+    if (argument === "--strict") {
+      strict = true;
+      continue;
+    }
+
+    if (argument === "--print-normalized" || argument === "-p") {
+      printNormalized = true;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    if (profilePath) {
+      throw new Error("Only one profile JSON file path can be supplied.");
+    }
+
+    profilePath = argument;
+  }
+
+  if (!profilePath) {
+    throw new Error("Path to the profiling snapshot JSON is required.");
+  }
+
+  if (printNormalized && !modelPath) {
+    throw new Error("--print-normalized requires --model.");
+  }
+
+  return { profilePath, modelPath, strict, printNormalized };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run validate-profile -- <profile.json> [--model <model.json>] [options]\n\n` +
+    `Options:\n` +
+    `  -h, --help              Show this message.\n` +
+    `  -m, --model <path>      Model JSON to align the profiled columns with.\n` +
+    `      --strict            Fail when model columns were never profiled.\n` +
+    `  -p, --print-normalized  Print the normalized model with profiling reality filled in.\n` +
+    `\nExamples:\n` +
+    `  npm run validate-profile -- tests/Fixtures/profiling/profile.micro-unique.json\n` +
+    `  npm run validate-profile -- profile.json --model model.json --strict\n`);
+}
+
+function reportSchemaFailure(label: string, error: unknown): void {
+  if (error instanceof ZodError) {
+    const issues = formatZodErrors(error);
+    console.error(`✖ ${label} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:`);
+    issues.forEach((issue, index) => {
+      console.error(`  ${index + 1}. ${issue}`);
+    });
+  } else if (error instanceof Error) {
+    console.error(`✖ ${error.message}`);
+  } else {
+    console.error("✖ Unexpected error during validation.", error);
+  }
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  let profile: NormalizedProfileSnapshot;
+  try {
+    profile = parseProfileJson(await loadJson(options.profilePath));
+  } catch (error) {
+    reportSchemaFailure("Profile snapshot", error);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log("✅ Profile snapshot matches the profiling contract.");
+  console.log(
+    `Columns: ${profile.columns.length}, unique candidates: ${profile.uniqueCandidates.length}, ` +
+      `composite unique candidates: ${profile.compositeUniqueCandidates.length}, foreign keys: ${profile.foreignKeys.length}`
+  );
+
+  if (!options.modelPath) {
+    return;
+  }
+
+  let model: NormalizedModel;
+  try {
+    model = parseModelJson(await loadJson(options.modelPath));
+  } catch (error) {
+    reportSchemaFailure("Model JSON", error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const alignment = alignProfileWithModel(model, profile);
+  console.log(`Matched ${alignment.matched.length} profiled column${alignment.matched.length === 1 ? "" : "s"} to model attributes.`);
+
+  if (alignment.unmatchedProfileColumns.length > 0) {
+    console.error(
+      `✖ ${alignment.unmatchedProfileColumns.length} profiled column${alignment.unmatchedProfileColumns.length === 1 ? " is" : "s are"} missing from the model:`
+    );
+    alignment.unmatchedProfileColumns.forEach((unmatched, index) => {
+      const { schema, table, column } = unmatched.profile;
+      const reason = unmatched.reason === "tableMissing" ? "no entity maps to this table" : "the entity has no such column";
+      console.error(`  ${index + 1}. ${formatIssuePath(unmatched.path)}: ${schema}.${table}.${column} (${reason})`);
+    });
+    process.exitCode = 1;
+  }
+
+  if (alignment.duplicateProfileColumns.length > 0) {
+    console.error(
+      `✖ ${alignment.duplicateProfileColumns.length} profiled column${alignment.duplicateProfileColumns.length === 1 ? " is" : "s are"} listed more than once:`
+    );
+    alignment.duplicateProfileColumns.forEach((duplicate, index) => {
+      const { schema, table, column } = duplicate.profile;
+      console.error(
+        `  ${index + 1}. ${formatIssuePath(duplicate.path)}: ${schema}.${table}.${column} (already profiled at ${formatIssuePath(duplicate.firstPath)})`
+      );
+    });
+    process.exitCode = 1;
+  }
+
+  if (alignment.unprofiledAttributes.length > 0) {
+    const marker = options.strict ? "✖" : "⚠";
+    const log = options.strict ? console.error : console.warn;
+    log(
+      `${marker} ${alignment.unprofiledAttributes.length} model column${alignment.unprofiledAttributes.length === 1 ? " was" : "s were"} never profiled:`
+    );
+    alignment.unprofiledAttributes.forEach((unprofiled, index) => {
+      log(
+        `  ${index + 1}. ${formatIssuePath(unprofiled.path)}: ${unprofiled.entity.schema}.${unprofiled.entity.physicalName}.${unprofiled.attribute.physicalName} (${unprofiled.module.name}.${unprofiled.entity.name}.${unprofiled.attribute.name})`
+      );
+    });
+    if (options.strict) {
+      process.exitCode = 1;
+    }
+  }
+
+  if (options.printNormalized) {
+    console.log("\nNormalized projection:\n");
+    const replacer = (_key: string, value: unknown) =>
+      value instanceof Date ? value.toISOString() : value;
+    console.log(JSON.stringify(alignment.model, replacer, 2));
+  }
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
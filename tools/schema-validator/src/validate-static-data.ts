@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+import process from "node:process";
+
+import { ZodError } from "zod";
+
+import { loadJson } from "./jsonFile.js";
+import { formatIssuePath, formatZodErrors, parseModelJson, type NormalizedModel } from "./modelSchema.js";
+import { parseStaticDataJson, type StaticDataSet } from "./staticDataSchema.js";
+import { validateStaticData } from "./staticDataValidation.js";
+
+interface CliOptions {
+  readonly dataPath: string;
+  readonly modelPath: string;
+  readonly json: boolean;
+}
+
+function parseArguments(argv: string[]): CliOptions | null {
+  let dataPath: string | undefined;
+  let modelPath: string | undefined;
+  let json = false;
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === "--help" || argument === "-h") {
+      return null;
+    }
+
+    if (argument === "--model" || argument === "-m") {
+      const value = argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error("--model expects a path to the model JSON.");
+      }
+
+      modelPath = value;
+      continue;
+    }
+
+    if (argument === "--json") {
+      json = true;
+      continue;
+    }
+
+    if (argument.startsWith("-")) {
+      throw new Error(`Unknown option: ${argument}`);
+    }
+
+    if (dataPath) {
+      throw new Error("Only one static data JSON file path can be supplied.");
+    }
+
+    dataPath = argument;
+  }
+
+  if (!dataPath) {
+    throw new Error("Path to the static data JSON is required.");
+  }
+
+  if (!modelPath) {
+    throw new Error("--model is required.");
+  }
+
+  return { dataPath, modelPath, json };
+}
+
+function printUsage(): void {
+  console.log(`Usage: npm run validate-static-data -- <static-entities.json> --model <model.json> [options]\n\n` +
+    `Checks static entity seed rows (tables → rows keyed by physical column) against the model.\n\n` +
+    `Options:\n` +
+    `  -h, --help          Show this message.\n` +
+    `  -m, --model <path>  Model JSON the seed rows belong to (required).\n` +
+    `      --json          Print the result as JSON.\n` +
+    `\nExit codes:\n` +
+    `  0  Every table and row matches the model.\n` +
+    `  1  Invalid arguments, an input failed to load or parse, or the seed rows have issues.\n` +
+    `\nExamples:\n` +
+    `  npm run validate-static-data -- ../../tests/Fixtures/static-data/static-entities.edge-case.json --model ../../tests/Fixtures/model.edge-case.json\n` +
+    `  npm run validate-static-data -- seeds.json -m model.json --json\n`);
+}
+
+function reportSchemaFailure(label: string, error: unknown): void {
+  if (error instanceof ZodError) {
+    const issues = formatZodErrors(error);
+    console.error(`✖ ${label} failed schema validation with ${issues.length} issue${issues.length === 1 ? "" : "s"}:`);
+    issues.forEach((issue, index) => {
+      console.error(`  ${index + 1}. ${issue}`);
+    });
+  } else if (error instanceof Error) {
+    console.error(`✖ ${error.message}`);
+  } else {
+    console.error("✖ Unexpected error during validation.", error);
+  }
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | null;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`✖ ${error.message}`);
+    } else {
+      console.error("✖ Unable to read CLI arguments.");
+    }
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options === null) {
+    printUsage();
+    return;
+  }
+
+  let data: StaticDataSet;
+  try {
+    data = parseStaticDataJson(await loadJson(options.dataPath));
+  } catch (error) {
+    reportSchemaFailure(`Static data ${options.dataPath}`, error);
+    process.exitCode = 1;
+    return;
+  }
+
+  let model: NormalizedModel;
+  try {
+    model = parseModelJson(await loadJson(options.modelPath));
+  } catch (error) {
+    reportSchemaFailure(`Model ${options.modelPath}`, error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const result = validateStaticData(model, data);
+  if (result.issues.length > 0) {
+    process.exitCode = 1;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ file: options.dataPath, model: options.modelPath, ...result }, null, 2));
+    return;
+  }
+
+  const counts = `Tables: ${result.tables}, rows: ${result.rows}`;
+  if (result.issues.length === 0) {
+    console.log(`✅ ${options.dataPath} matches the model's static entities.`);
+    console.log(counts);
+    return;
+  }
+
+  console.error(
+    `✖ ${options.dataPath} has ${result.issues.length} static data issue${result.issues.length === 1 ? "" : "s"}:`
+  );
+  result.issues.forEach((issue, index) => {
+    const path = formatIssuePath(issue.path);
+    console.error(`  ${index + 1}. ${path ? `${path}: ` : ""}${issue.message} [${issue.code}]`);
+  });
+  console.log(counts);
+}
+
+main().catch((error) => {
+  console.error("✖ Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,367 @@
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+import { formatCodeFrame } from "./jsonSource.js";
+import { describeModelRule } from "./modelRules.js";
+import { formatIssuePath, summarizeModel } from "./modelSchema.js";
+import { VALIDATION_STAGES, type ValidationIssue, type ValidationReport, type ValidationStage } from "./modelValidation.js";
+
+export const OUTPUT_FORMATS = ["text", "json", "sarif", "junit"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface ValidationReporter {
+  render(report: ValidationReport): string;
+  /** One document for several files, as produced by batch runs. */
+  renderBatch(reports: readonly ValidationReport[]): string;
+}
+
+const TOOL_NAME = "outsystems-model-schema-validator";
+const TOOL_VERSION = "0.1.0";
+
+/** The repository this tool lives in; SARIF locates files relative to it so code scanning can resolve them. */
+const REPOSITORY_ROOT = fileURLToPath(new URL("../../../", import.meta.url));
+
+const SOURCE_ROOT_ID = "%SRCROOT%";
+
+const STAGE_TITLES: Record<Exclude<ValidationStage, "load">, string> = {
+  schema: "Schema validation",
+  rules: "Model rule check",
+  references: "Reference resolution",
+  types: "Type resolution",
+  manifest: "Extraction manifest check"
+};
+
+const STAGE_DESCRIPTIONS: Record<ValidationStage, string> = {
+  load: "The model file must be readable JSON.",
+  schema: "The model JSON must match the OutSystems 11 model contract.",
+  rules: "The model must satisfy the enabled model rules.",
+  references: "Cross-entity references must resolve within the model.",
+  types: "Every attribute data type must map to a SQL Server type.",
+  manifest: "The export must honour the filters of its extraction manifest case."
+};
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/** Warnings are marked and rule and reference issues name their rule, so it can be configured or suppressed. */
+function issueLine(issue: ValidationIssue): string {
+  const path = formatIssuePath(issue.path);
+  const text = `${issue.severity === "warning" ? "warning: " : ""}${path ? `${path}: ` : ""}${issue.message}`;
+  return issue.stage === "rules" || issue.stage === "references" ? `${text} [${issue.ruleId}]` : text;
+}
+
+function suppressedLine(report: ValidationReport): string[] {
+  const { suppressed } = report.summary;
+  return suppressed > 0 ? [`(${plural(suppressed, "issue")} suppressed by the rule configuration.)`] : [];
+}
+
+function numberedIssues(report: ValidationReport, issues: readonly ValidationIssue[]): string[] {
+  const lines = report.sourceText?.split(/\r?\n/) ?? null;
+  return issues.flatMap((issue, index) => [
+    `  ${index + 1}. ${issueLine(issue)}`,
+    ...sourceLines(report, issue, lines, " ".repeat(String(index + 1).length + 4))
+  ]);
+}
+
+/** The verdict and model summary of a passing report; streamed reports keep no model, only its counts. */
+function passedLines(report: ValidationReport): string[] {
+  const { summary } = report;
+  const details = report.model
+    ? summarizeModel(report.model)
+    : [`Modules: ${summary.modules}, entities: ${summary.entities}, attributes: ${summary.attributes}`];
+  return ["✅ Model JSON matches the OutSystems 11 contract.", ...details];
+}
+
+/** `file:line:column` and a code frame under each located issue, indented by `indent`. */
+function sourceLines(report: ValidationReport, issue: ValidationIssue, lines: readonly string[] | null, indent: string): string[] {
+  if (!issue.location) {
+    return [];
+  }
+
+  const { line, column } = issue.location;
+  const frame = lines ? formatCodeFrame(lines, issue.location).map((frameLine) => `${indent}  ${frameLine}`) : [];
+  return [`${indent}at ${report.file}:${line}:${column}`, ...frame];
+}
+
+function failureTitle(report: ValidationReport): string {
+  const failedStages = new Set(report.issues.filter((issue) => issue.severity === "error").map((issue) => issue.stage));
+  const stage = report.summary.failedStage ?? "schema";
+  return failedStages.size > 1 || stage === "load" ? "Validation" : STAGE_TITLES[stage];
+}
+
+/** `file:line:column: path: message`, the form streamed issues are printed in as they are found. */
+export function formatLocatedIssue(file: string, issue: ValidationIssue): string {
+  return issue.location ? `${file}:${issue.location.line}:${issue.location.column}: ${issueLine(issue)}` : `${file}: ${issueLine(issue)}`;
+}
+
+/** The closing line of a streamed run, whose issues were already printed one by one. */
+export function formatStreamedVerdict(report: ValidationReport): string {
+  const { summary } = report;
+  const warnings = summary.warnings > 0 ? [`⚠ ${plural(summary.warnings, "warning")} (listed above).`] : [];
+  return [
+    ...(summary.valid
+      ? [...passedLines(report), ...warnings]
+      : [`✖ ${failureTitle(report)} failed with ${plural(summary.errors, "issue")} (listed above).`]),
+    ...suppressedLine(report)
+  ].join("\n");
+}
+
+/** The emoji-prefixed console output `npm run validate` has always printed, plus source positions when known. */
+export const textReporter: ValidationReporter = {
+  render(report) {
+    const { summary } = report;
+    if (summary.valid) {
+      const warnings = summary.warnings > 0 ? [`⚠ ${plural(summary.warnings, "warning")}:`, ...numberedIssues(report, report.issues)] : [];
+      return [...passedLines(report), ...warnings, ...suppressedLine(report)].join("\n");
+    }
+
+    if (summary.failedStage === "load") {
+      const lines = report.sourceText?.split(/\r?\n/) ?? null;
+      return [`✖ ${report.issues[0].message}`, ...sourceLines(report, report.issues[0], lines, "  ")].join("\n");
+    }
+
+    const warnings = summary.warnings > 0 ? ` and ${plural(summary.warnings, "warning")}` : "";
+    return [
+      `✖ ${failureTitle(report)} failed with ${plural(summary.errors, "issue")}${warnings}:`,
+      ...numberedIssues(report, report.issues),
+      ...suppressedLine(report)
+    ].join("\n");
+  },
+
+  /** Details for the files that failed, then a pass/fail table covering every file. */
+  renderBatch(reports) {
+    const failed = reports.filter((report) => !report.summary.valid);
+    const details = failed.flatMap((report) => [`── ${report.file}`, this.render(report), ""]);
+    return [...details, ...formatBatchTable(reports)].join("\n");
+  }
+};
+
+/** The aggregated table batch runs end with, one row per file, plus a closing verdict. */
+export function formatBatchTable(reports: readonly ValidationReport[]): string[] {
+  const rows = reports.map((report) => {
+    const { summary } = report;
+    return [
+      summary.file,
+      summary.valid ? "pass" : "FAIL",
+      String(summary.errors),
+      summary.failedStage ?? "-",
+      summary.valid ? `${plural(summary.modules, "module")}, ${summary.entities} ${summary.entities === 1 ? "entity" : "entities"}` : ""
+    ];
+  });
+  const header = ["File", "Result", "Errors", "Failed stage", "Contents"];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+  const failed = reports.filter((report) => !report.summary.valid).length;
+  return [
+    line(header),
+    line(widths.map((width) => "-".repeat(width))),
+    ...rows.map(line),
+    "",
+    failed > 0
+      ? `✖ ${failed} of ${plural(reports.length, "file")} failed validation.`
+      : `✅ All ${plural(reports.length, "file")} passed validation.`
+  ];
+}
+
+export const jsonReporter: ValidationReporter = {
+  render(report) {
+    return JSON.stringify({ summary: report.summary, issues: report.issues }, null, 2);
+  },
+
+  renderBatch(reports) {
+    const failed = reports.filter((report) => !report.summary.valid).length;
+    return JSON.stringify(
+      {
+        summary: { files: reports.length, passed: reports.length - failed, failed },
+        reports: reports.map((report) => ({ summary: report.summary, issues: report.issues }))
+      },
+      null,
+      2
+    );
+  }
+};
+
+/**
+ * A URI-encoded path relative to `sourceRoot` under {@link SOURCE_ROOT_ID}, or an absolute
+ * `file:` URI for files outside it. Relative report paths are resolved against the working directory.
+ */
+function sarifArtifactLocation(file: string, sourceRoot: string): { uri: string; uriBaseId?: string } {
+  const absolute = path.resolve(file);
+  const relative = path.relative(sourceRoot, absolute);
+  if (relative === "" || relative.startsWith("..") || path.isAbsolute(relative)) {
+    return { uri: pathToFileURL(absolute).href };
+  }
+
+  return { uri: relative.split(path.sep).map(encodeURIComponent).join("/"), uriBaseId: SOURCE_ROOT_ID };
+}
+
+function sarifRun(report: ValidationReport, sourceRoot: string) {
+  const ruleIds = [...new Set(report.issues.map((issue) => issue.ruleId))].sort();
+  const rules = ruleIds.map((id) => {
+    const stage = report.issues.find((issue) => issue.ruleId === id)!.stage;
+    const description = (stage === "rules" || stage === "references" ? describeModelRule(id) : null) ?? STAGE_DESCRIPTIONS[stage];
+    return { id, shortDescription: { text: description }, properties: { stage } };
+  });
+  const results = report.issues.map((issue) => ({
+    ruleId: issue.ruleId,
+    ruleIndex: ruleIds.indexOf(issue.ruleId),
+    level: issue.severity === "error" ? "error" : "warning",
+    message: { text: issue.message },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: sarifArtifactLocation(report.file, sourceRoot),
+          ...(issue.location ? { region: { startLine: issue.location.line, startColumn: issue.location.column } } : {})
+        },
+        ...(issue.path.length > 0
+          ? { logicalLocations: [{ fullyQualifiedName: formatIssuePath(issue.path), kind: "member" }] }
+          : {})
+      }
+    ],
+    properties: { path: issue.path, module: issue.module, entity: issue.entity, attribute: issue.attribute }
+  }));
+
+  return {
+    tool: { driver: { name: TOOL_NAME, version: TOOL_VERSION, rules } },
+    // The base must end with a slash, or resolving a relative URI against it drops its last segment.
+    originalUriBaseIds: { [SOURCE_ROOT_ID]: { uri: pathToFileURL(path.join(sourceRoot, "/")).href } },
+    results,
+    properties: { summary: report.summary }
+  };
+}
+
+/**
+ * SARIF 2.1.0, as consumed by code-scanning uploads. Batch runs produce one run per file. Files
+ * under `sourceRoot` are located relative to it (`%SRCROOT%`).
+ */
+export function createSarifReporter(sourceRoot: string): ValidationReporter {
+  return {
+    render(report) {
+      return this.renderBatch([report]);
+    },
+
+    renderBatch(reports) {
+      return JSON.stringify(
+        {
+          $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+          version: "2.1.0",
+          runs: reports.map((report) => sarifRun(report, sourceRoot))
+        },
+        null,
+        2
+      );
+    }
+  };
+}
+
+export const sarifReporter = createSarifReporter(REPOSITORY_ROOT);
+
+function located(report: ValidationReport, issue: ValidationIssue): string {
+  return issue.location ? formatLocatedIssue(report.file, issue) : issueLine(issue);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+interface JunitSuite {
+  readonly lines: string[];
+  readonly tests: number;
+  readonly failures: number;
+  readonly skipped: number;
+}
+
+/** Whether a stage ran: stages after the first failure are skipped, except `manifest`, which only needs the file to load. */
+function stageRan(report: ValidationReport, stage: ValidationStage): boolean {
+  const { failedStage } = report.summary;
+  if (!failedStage || stage === failedStage) {
+    return true;
+  }
+
+  if (stage === "manifest") {
+    return failedStage !== "load";
+  }
+
+  return VALIDATION_STAGES.indexOf(stage) < VALIDATION_STAGES.indexOf(failedStage);
+}
+
+function junitSuite(report: ValidationReport): JunitSuite {
+  const { summary } = report;
+  const stages = VALIDATION_STAGES.filter((stage) => stage !== "manifest" || summary.expectations !== null);
+  const cases: string[] = [];
+  let skipped = 0;
+  stages.forEach((stage) => {
+    const classname = escapeXml(`${report.file}.${stage}`);
+    if (!stageRan(report, stage)) {
+      skipped++;
+      cases.push(`    <testcase classname="${classname}" name="${escapeXml(STAGE_DESCRIPTIONS[stage])}">\n      <skipped/>\n    </testcase>`);
+      return;
+    }
+
+    const issues = report.issues.filter((issue) => issue.stage === stage);
+    if (issues.length === 0) {
+      cases.push(`    <testcase classname="${classname}" name="${escapeXml(STAGE_DESCRIPTIONS[stage])}"/>`);
+      return;
+    }
+
+    issues.forEach((issue) => {
+      const name = escapeXml(formatIssuePath(issue.path) || issue.ruleId);
+      const tag = issue.severity === "error" ? "failure" : "system-out";
+      const body =
+        tag === "failure"
+          ? `<failure message="${escapeXml(issue.message)}" type="${escapeXml(issue.ruleId)}">${escapeXml(located(report, issue))}</failure>`
+          : `<system-out>${escapeXml(located(report, issue))}</system-out>`;
+      const position = issue.location ? ` file="${escapeXml(report.file)}" line="${issue.location.line}"` : "";
+      cases.push(`    <testcase classname="${classname}" name="${name}"${position}>\n      ${body}\n    </testcase>`);
+    });
+  });
+
+  const tests = cases.length;
+  const failures = summary.errors;
+  return {
+    tests,
+    failures,
+    skipped,
+    lines: [
+      `  <testsuite name="${escapeXml(report.file)}" tests="${tests}" failures="${failures}" skipped="${skipped}">`,
+      ...cases,
+      `  </testsuite>`
+    ]
+  };
+}
+
+/**
+ * JUnit XML with one test case per validation stage. A failing stage expands into one failing
+ * test case per issue so CI lists each of them; stages after the failure are marked skipped.
+ * Batch runs produce one test suite per file.
+ */
+export const junitReporter: ValidationReporter = {
+  render(report) {
+    return this.renderBatch([report]);
+  },
+
+  renderBatch(reports) {
+    const suites = reports.map(junitSuite);
+    const total = (key: "tests" | "failures" | "skipped") => suites.reduce((sum, suite) => sum + suite[key], 0);
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<testsuites name="${TOOL_NAME}" tests="${total("tests")}" failures="${total("failures")}" skipped="${total("skipped")}">`,
+      ...suites.flatMap((suite) => suite.lines),
+      `</testsuites>`
+    ].join("\n");
+  }
+};
+
+export const REPORTERS: Record<OutputFormat, ValidationReporter> = {
+  text: textReporter,
+  json: jsonReporter,
+  sarif: sarifReporter,
+  junit: junitReporter
+};
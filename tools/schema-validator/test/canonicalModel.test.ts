@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { formatCanonicalModel } from "../src/canonicalModel.js";
+import { emitModelDdl } from "../src/ddlEmission.js";
+import { loadJson } from "../src/jsonFile.js";
+import { parseModelJson } from "../src/modelSchema.js";
+import { parseTypeMappingJson } from "../src/typeMapping.js";
+
+const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+const MODEL_PATH = fixturePath("../../../tests/Fixtures/model.edge-case.json");
+const GOLDEN_ROOT = fixturePath("../../../tests/Fixtures/emission/edge-case");
+const TYPE_MAPPING_PATH = fixturePath("../../../config/type-mapping.default.json");
+
+test("emit-ddl on the canonicalized edge-case model reproduces the golden DDL", async () => {
+  const canonical = parseModelJson(JSON.parse(formatCanonicalModel(parseModelJson(await loadJson(MODEL_PATH)))));
+  const emission = emitModelDdl(canonical, parseTypeMappingJson(await loadJson(TYPE_MAPPING_PATH)), {
+    includePlatformAutoIndexes: false,
+    sanitizeModuleNames: true
+  });
+
+  const files = emission.tables.map((table) => table.tableFile);
+  assert.ok(files.includes("Modules/AppCore/dbo.Customer.sql"));
+  assert.ok(files.includes("Modules/AppCore/dbo.City.sql"));
+  for (const table of emission.tables) {
+    const golden = await fs.readFile(path.join(GOLDEN_ROOT, ...table.tableFile.split("/")), "utf8");
+    assert.equal(table.script, golden, table.tableFile);
+  }
+});
+
+test("canonicalizing keeps attributes in column order", async () => {
+  const model = parseModelJson(await loadJson(MODEL_PATH));
+  const canonical = parseModelJson(JSON.parse(formatCanonicalModel(model)));
+  for (const module of model.modules) {
+    for (const entity of module.entities) {
+      const match = canonical.modules
+        .find((candidate) => candidate.name === module.name)
+        ?.entities.find((candidate) => candidate.name === entity.name);
+      assert.deepStrictEqual(
+        match?.attributes.map((attribute) => attribute.physicalName),
+        entity.attributes.map((attribute) => attribute.physicalName),
+        `${module.name}.${entity.name}`
+      );
+    }
+  }
+});
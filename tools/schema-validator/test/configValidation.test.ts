@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { parseCliConfigJson, safeParseCliConfigJson } from "../src/cliConfig.js";
+import { validateCliConfig, validateTighteningConfig, type ConfigIssue } from "../src/configValidation.js";
+import { loadJson } from "../src/jsonFile.js";
+import { formatIssuePath, formatZodErrors, parseModelJson } from "../src/modelSchema.js";
+import { parseTighteningConfigJson, safeParseTighteningConfigJson } from "../src/tighteningConfig.js";
+
+type RawRecord = Record<string, unknown>;
+type RawTightening = RawRecord & { policy: RawRecord; emission: RawRecord & { staticSeeds: RawRecord } };
+
+const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+const TIGHTENING_PATH = fixturePath("../../../config/default-tightening.json");
+const APPSETTINGS_PATH = fixturePath("../../../config/appsettings.example.json");
+const PIPELINE_PATH = fixturePath("../../../pipeline.json");
+/** Modules AppCore (Customer, City), ExtBilling (BillingAccount) and Ops (JobRun). */
+const EDGE_CASE_PATH = fixturePath("../../../tests/Fixtures/model.edge-case.json");
+
+const defaults = (await loadJson(TIGHTENING_PATH)) as RawTightening;
+const model = parseModelJson(await loadJson(EDGE_CASE_PATH));
+
+function tightening(edit: (config: RawTightening) => void): unknown {
+  const copy = structuredClone(defaults);
+  edit(copy);
+  return copy;
+}
+
+function schemaErrors(config: unknown): string[] {
+  const result = safeParseTighteningConfigJson(config);
+  assert.equal(result.success, false, "the configuration should not parse");
+  return formatZodErrors(result.error!);
+}
+
+function describe(issues: readonly ConfigIssue[]): string[] {
+  return issues.map((issue) => `${formatIssuePath(issue.path)}: ${issue.message} [${issue.code}]`);
+}
+
+test("the repository's configuration files parse and match the edge-case model", async () => {
+  assert.deepStrictEqual(validateTighteningConfig(parseTighteningConfigJson(defaults), model), []);
+  assert.deepStrictEqual(validateCliConfig(parseCliConfigJson(await loadJson(PIPELINE_PATH)), model), []);
+  // The example selects the ServiceCenter module of a full estate, which the edge-case export leaves out.
+  assert.deepStrictEqual(describe(validateCliConfig(parseCliConfigJson(await loadJson(APPSETTINGS_PATH)), model)), [
+    "model.modules[1]: Module filter selects ServiceCenter, which the model does not define. [config.moduleUnknown]"
+  ]);
+});
+
+test("enum values keep the defaults' casing and numbers stay in the .NET ranges", () => {
+  const config = tightening((copy) => {
+    copy.policy.mode = "evidenceGated";
+    copy.policy.nullBudget = 1.5;
+    copy.emission.moduleParallelism = 0;
+    copy.emission.staticSeeds.mode = "Replace";
+  });
+  assert.deepStrictEqual(schemaErrors(config), [
+    "policy.mode: policy.mode must be one of Cautious, EvidenceGated, Aggressive.",
+    "policy.nullBudget: policy.nullBudget must be between 0 and 1 inclusive.",
+    "emission.moduleParallelism: emission.moduleParallelism must be at least 1.",
+    "emission.staticSeeds.mode: emission.staticSeeds.mode must be one of NonDestructive, Authoritative, ValidateThenApply."
+  ]);
+});
+
+test("every section is strict, so a misspelled key is an error", () => {
+  const errors = schemaErrors(tightening((copy) => (copy.policy.nulBudget = 0.1)));
+  assert.equal(errors.length, 1);
+  assert.match(errors[0], /^policy: Unrecognized key\(s\) in object: 'nulBudget'/);
+});
+
+test("naming overrides need a target and cannot name one table or entity twice", () => {
+  const config = tightening((copy) => {
+    copy.emission.namingOverrides = {
+      rules: [
+        { schema: "dbo", override: "Orphan" },
+        { module: "AppCore", override: "Customers" },
+        { schema: "dbo", table: "OSUSR_ABC_CUSTOMER", override: "Customer" },
+        { table: "osusr_abc_customer", override: "Client" }
+      ],
+      entities: [
+        { module: "AppCore", entity: "City", override: "Town" },
+        { module: "appcore", entity: "city", override: "TOWN" },
+        { entity: "City", override: "Place" },
+        { entity: "city", override: "Places" }
+      ]
+    };
+  });
+  assert.deepStrictEqual(schemaErrors(config), [
+    "emission.namingOverrides.rules[0]: Physical overrides must include a table name.",
+    "emission.namingOverrides.rules[0]: Naming overrides must target a physical table, a logical entity, or both.",
+    "emission.namingOverrides.rules[1]: Module-scoped overrides must include an entity name.",
+    "emission.namingOverrides.rules[1]: Naming overrides must target a physical table, a logical entity, or both.",
+    "emission.namingOverrides.rules[3]: Multiple overrides provided for dbo.osusr_abc_customer.",
+    "emission.namingOverrides.entities[3]: Multiple overrides provided for logical entity city."
+  ]);
+});
+
+test("the sections the .NET pipeline requires are reported when missing", () => {
+  const trimmed = tightening((copy) => {
+    delete copy.remediation;
+    delete copy.mocking;
+  });
+  assert.deepStrictEqual(describe(validateTighteningConfig(parseTighteningConfigJson(trimmed), null)), [
+    "remediation: The .NET pipeline requires the remediation section. [config.sectionMissing]",
+    "mocking: The .NET pipeline requires the mocking section. [config.sectionMissing]"
+  ]);
+});
+
+test("overrides that no longer point at the model are stale, names matching case-insensitively", () => {
+  const config = parseTighteningConfigJson(
+    tightening((copy) => {
+      copy.policy.nullabilityOverrides = {
+        modules: [
+          { module: "appcore", entities: [{ entity: "CUSTOMER", attributes: ["email", "Nickname"] }, { entity: "Country" }] },
+          { module: "Billing", entities: [{ entity: "BillingAccount", attributes: ["Id"] }] }
+        ]
+      };
+      copy.emission.namingOverrides = {
+        rules: [
+          { table: "OSUSR_OLD_CUSTOMER", override: "CUSTOMERS" },
+          { schema: "billing", table: "billing_account", override: "Accounts" },
+          { module: "Ops", entity: "Job", override: "Jobs" },
+          { module: "Sales", entity: "Order", override: "Orders" },
+          { entity: "Invoice", override: "Invoices" }
+        ]
+      };
+    })
+  );
+  assert.deepStrictEqual(describe(validateTighteningConfig(config, model)), [
+    "policy.nullabilityOverrides.modules[0].entities[0].attributes[1]: " +
+      "Nullability override names unknown attribute AppCore.Customer.Nickname. [config.attributeUnknown]",
+    "policy.nullabilityOverrides.modules[1].entities[0].attributes[0]: " +
+      "Nullability override names unknown module Billing. [config.moduleUnknown]",
+    "emission.namingOverrides.rules[0]: Naming override CUSTOMERS targets table dbo.OSUSR_OLD_CUSTOMER, " +
+      "which the model does not define. [config.tableUnknown]",
+    "emission.namingOverrides.rules[2]: Naming override Jobs names unknown entity Ops.Job. [config.entityUnknown]",
+    "emission.namingOverrides.rules[3]: Naming override Orders names unknown module Sales. [config.moduleUnknown]",
+    "emission.namingOverrides.rules[4]: Naming override Invoices names entity Invoice, which no module defines. [config.entityUnknown]"
+  ]);
+});
+
+test("CLI module filters and their validation overrides are checked against the model", () => {
+  const config = parseCliConfigJson({
+    model: {
+      modules: [
+        { name: "appcore", entities: "Customer; Country", allowMissingPrimaryKey: ["City", "Region"] },
+        { name: "Ops", entities: "*", allowMissingSchema: true }
+      ]
+    },
+    tightening: tightening((copy) => {
+      copy.policy.nullabilityOverrides = { modules: [{ module: "Legacy", entities: [{ entity: "Account", attributes: ["Code"] }] }] };
+    })
+  });
+  assert.deepStrictEqual(describe(validateCliConfig(config, model)), [
+    "tightening.policy.nullabilityOverrides.modules[0].entities[0].attributes[0]: " +
+      "Nullability override names unknown module Legacy. [config.moduleUnknown]",
+    "model.modules[0].entities: Module filter entities names unknown entity AppCore.Country. [config.entityUnknown]",
+    "model.modules[0].allowMissingPrimaryKey: Module filter allowMissingPrimaryKey names unknown entity AppCore.Region. " +
+      "[config.entityUnknown]"
+  ]);
+
+  const invalid = safeParseCliConfigJson({ tightening: tightening((copy) => (copy.policy.mode = "Strict")) });
+  assert.equal(invalid.success, false);
+  assert.deepStrictEqual(formatZodErrors(invalid.error!), [
+    "tightening.policy.mode: policy.mode must be one of Cautious, EvidenceGated, Aggressive."
+  ]);
+});
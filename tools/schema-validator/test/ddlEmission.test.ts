@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { emitModelDdl, formatDdlManifest, sanitizeModuleName, type DdlEmission, type DdlEmissionOptions } from "../src/ddlEmission.js";
+import { loadJson } from "../src/jsonFile.js";
+import { parseModelJson } from "../src/modelSchema.js";
+import { parseTypeMappingJson } from "../src/typeMapping.js";
+
+type RawRecord = Record<string, unknown>;
+type RawModel = { modules: Array<RawRecord & { entities: Array<RawRecord & { attributes: RawRecord[]; relationships: RawRecord[] }> }> };
+
+const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+const MODEL_PATH = fixturePath("../../../tests/Fixtures/model.edge-case.json");
+const GOLDEN_ROOT = fixturePath("../../../tests/Fixtures/emission/edge-case");
+const TYPE_MAPPING_PATH = fixturePath("../../../config/type-mapping.default.json");
+
+const OPTIONS: DdlEmissionOptions = { includePlatformAutoIndexes: false, sanitizeModuleNames: true };
+
+const rawModel = (await loadJson(MODEL_PATH)) as RawModel;
+const policy = parseTypeMappingJson(await loadJson(TYPE_MAPPING_PATH));
+
+function emit(edit: (model: RawModel) => void = () => {}, options: Partial<DdlEmissionOptions> = {}): DdlEmission {
+  const model = structuredClone(rawModel);
+  edit(model);
+  return emitModelDdl(parseModelJson(model), policy, { ...OPTIONS, ...options });
+}
+
+/** `Customer.CityId`, the edge-case model's one foreign key. */
+const cityId = (model: RawModel) => model.modules[0].entities[0].attributes[4];
+
+function customerScript(emission: DdlEmission): string {
+  const customer = emission.tables.find((table) => table.table === "Customer");
+  assert.ok(customer);
+  return customer.script;
+}
+
+test("the edge-case model emits the golden table scripts and manifest tables", async () => {
+  const emission = emit();
+  assert.deepStrictEqual(emission.issues, []);
+  for (const table of emission.tables) {
+    const golden = await fs.readFile(path.join(GOLDEN_ROOT, ...table.tableFile.split("/")), "utf8");
+    assert.equal(table.script, golden, table.tableFile);
+  }
+
+  const golden = (await loadJson(path.join(GOLDEN_ROOT, "manifest.json"))) as { Tables: unknown };
+  assert.deepStrictEqual((JSON.parse(formatDdlManifest(emission, OPTIONS)) as { Tables: unknown }).Tables, golden.Tables);
+});
+
+test("delete rules decide the referential action, and Ignore without a constraint drops the foreign key", () => {
+  const cascade = customerScript(
+    emit((model) => {
+      cityId(model).reference_deleteRuleCode = "Delete";
+      model.modules[0].entities[0].relationships[0].deleteRuleCode = "Delete";
+    })
+  );
+  assert.match(cascade, /REFERENCES \[dbo\]\.\[City\] \(\[Id\]\)\n {16}ON DELETE CASCADE\n {16}ON UPDATE NO ACTION\n/);
+
+  const ignored = emit((model) => {
+    Object.assign(cityId(model), { reference_deleteRuleCode: "Ignore", reference_hasDbConstraint: 0 });
+    Object.assign(model.modules[0].entities[0].relationships[0], { deleteRuleCode: "Ignore", hasDbConstraint: 0 });
+  });
+  assert.deepStrictEqual(ignored.tables[0].foreignKeys, []);
+  assert.doesNotMatch(customerScript(ignored), /FOREIGN KEY/);
+});
+
+test("non-unique platform indexes are only emitted on request", () => {
+  const indexes = (emission: DdlEmission) => emission.tables.flatMap((table) => table.indexes);
+  assert.deepStrictEqual(indexes(emit()), ["UIX_Customer_Email", "IX_Customer_LastName_FirstName", "UIX_BillingAccount_AccountNumber"]);
+  assert.equal(indexes(emit(() => {}, { includePlatformAutoIndexes: true })).length, 5);
+});
+
+test("inactive modules and attributes are not emitted, and module directories keep their names on request", () => {
+  const emission = emit(
+    (model) => {
+      model.modules[0].name = "App Core";
+      model.modules[1].isActive = false;
+    },
+    { sanitizeModuleNames: false }
+  );
+  assert.deepStrictEqual(
+    emission.tables.map((table) => table.tableFile),
+    ["Modules/App Core/dbo.Customer.sql", "Modules/App Core/dbo.City.sql", "Modules/Ops/dbo.JobRun.sql"]
+  );
+  assert.doesNotMatch(customerScript(emission), /LegacyCode/);
+});
+
+test("attributes without a type mapping are reported", () => {
+  const emission = emit((model) => {
+    Object.assign(model.modules[0].entities[0].attributes[2], { dataType: "Hologram", onDisk: null });
+  });
+  assert.deepStrictEqual(
+    emission.issues.map((issue) => [issue.code, issue.path.join("/")]),
+    [["type.unmapped", "modules/0/entities/0/attributes/2/dataType"]]
+  );
+});
+
+test("module names are sanitized like ModuleNameSanitizer", () => {
+  assert.equal(sanitizeModuleName(" Ext-Billing 2 "), "Ext_Billing_2");
+  assert.equal(sanitizeModuleName("Café"), "Café");
+  assert.equal(sanitizeModuleName("  "), "Module");
+});
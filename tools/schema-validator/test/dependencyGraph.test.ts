@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { parseCircularDependencyConfigJson } from "../src/circularDependencyConfig.js";
+import { analyzeDependencies, type DependencyAnalysis } from "../src/dependencyGraph.js";
+import { loadJson } from "../src/jsonFile.js";
+import { parseModelJson } from "../src/modelSchema.js";
+
+type RawRecord = Record<string, unknown>;
+type RawModel = { modules: Array<RawRecord & { entities: Array<RawRecord & { attributes: RawRecord[] }> }> };
+
+const MODEL_PATH = fileURLToPath(new URL("../../../tests/Fixtures/model.edge-case.json", import.meta.url));
+
+const rawModel = (await loadJson(MODEL_PATH)) as RawModel;
+
+/** `Customer.CityId`, a NOT NULL reference to City, as the template for the references added below. */
+const cityId = rawModel.modules[0].entities[0].attributes[4];
+
+/**
+ * The edge-case model plus a `City.MayorId` reference back to Customer, which closes a
+ * Customer ⇄ City cycle, and a `JobRun.ParentRunId` self-reference.
+ */
+function cyclicModel(mayorIsMandatory: boolean) {
+  const model = structuredClone(rawModel);
+  const [[, city], , [jobRun]] = model.modules.map((module) => module.entities);
+  city.attributes.push({
+    ...cityId,
+    name: "MayorId",
+    physicalName: "MAYORID",
+    isMandatory: mayorIsMandatory,
+    refEntityId: 1001,
+    refEntity_name: "Customer",
+    refEntity_physicalName: "OSUSR_ABC_CUSTOMER",
+    onDisk: { ...(cityId.onDisk as RawRecord), isNullable: !mayorIsMandatory }
+  });
+  jobRun.attributes.push({
+    ...cityId,
+    name: "ParentRunId",
+    physicalName: "PARENTRUNID",
+    isMandatory: false,
+    refEntityId: 3001,
+    refEntity_name: "JobRun",
+    refEntity_physicalName: "OSUSR_XYZ_JOBRUN",
+    reference_deleteRuleCode: "Ignore",
+    reference_hasDbConstraint: 0
+  });
+  return parseModelJson(model);
+}
+
+function analyze(mayorIsMandatory: boolean, config: unknown = {}): DependencyAnalysis {
+  return analyzeDependencies(cyclicModel(mayorIsMandatory), parseCircularDependencyConfigJson(config));
+}
+
+const loadOrder = (analysis: DependencyAnalysis) =>
+  analysis.loadOrder.map((entry) => `${entry.table}${entry.cycle === null ? "" : ` @${entry.cycle}`}`);
+
+const cycles = (analysis: DependencyAnalysis) =>
+  analysis.cycles.map((cycle) => [cycle.tables.join(" → "), cycle.status, cycle.phasedLoadable, cycle.issues]);
+
+test("the edge-case model loads referenced tables first and sets aside references outside the model", () => {
+  const analysis = analyzeDependencies(parseModelJson(rawModel));
+  assert.deepStrictEqual(loadOrder(analysis), ["BILLING_ACCOUNT", "OSUSR_DEF_CITY", "OSUSR_ABC_CUSTOMER", "OSUSR_XYZ_JOBRUN"]);
+  assert.deepStrictEqual(analysis.cycles, []);
+  assert.deepStrictEqual(
+    analysis.graph.unresolved.map((item) => [item.entity, item.attribute, item.target]),
+    [["JobRun", "TriggeredByUserId", "OSUSR_U_USER"]]
+  );
+  assert.equal(analysis.canLoadInOrder, true);
+});
+
+test("a cycle outside the allowlist is disallowed, even when a nullable reference could phase the load", () => {
+  const analysis = analyze(false);
+  assert.deepStrictEqual(cycles(analysis), [
+    ["OSUSR_DEF_CITY → OSUSR_ABC_CUSTOMER", "disallowed", true, []],
+    ["OSUSR_XYZ_JOBRUN", "selfReference", true, []]
+  ]);
+  assert.deepStrictEqual(loadOrder(analysis), ["BILLING_ACCOUNT", "OSUSR_DEF_CITY @0", "OSUSR_ABC_CUSTOMER @0", "OSUSR_XYZ_JOBRUN @1"]);
+  assert.equal(analysis.canLoadInOrder, false);
+});
+
+test("a cycle of NOT NULL references cannot be phased", () => {
+  const [cycle] = analyze(true).cycles;
+  assert.equal(cycle.phasedLoadable, false);
+  assert.deepStrictEqual(cycle.issues, [
+    "Every path around the cycle has a NOT NULL foreign key, so no load order can satisfy it without schema changes."
+  ]);
+});
+
+test("an allowlisted cycle loads in the allowlist positions and reports positions that break NOT NULL references", () => {
+  const allowed = analyze(false, {
+    allowedCycles: [
+      { tableOrdering: [{ tableName: "osusr_def_city", position: 10 }, { tableName: "OSUSR_ABC_CUSTOMER", position: 20 }] },
+      { tableOrdering: [{ tableName: "OSUSR_U_USER", position: 0 }] }
+    ]
+  });
+  assert.deepStrictEqual(cycles(allowed)[0], ["OSUSR_DEF_CITY → OSUSR_ABC_CUSTOMER", "allowed", true, []]);
+  assert.equal(allowed.cycles[0].allowlistIndex, 0);
+  assert.deepStrictEqual(allowed.unusedAllowlistEntries, [1]);
+  assert.equal(allowed.canLoadInOrder, true);
+
+  const reversed = analyze(false, {
+    allowedCycles: [{ tableOrdering: [{ tableName: "OSUSR_ABC_CUSTOMER", position: 0 }, { tableName: "OSUSR_DEF_CITY", position: 1 }] }]
+  });
+  assert.deepStrictEqual(cycles(reversed)[0], [
+    "OSUSR_ABC_CUSTOMER → OSUSR_DEF_CITY",
+    "allowed",
+    true,
+    ["Allowlist loads OSUSR_ABC_CUSTOMER before OSUSR_DEF_CITY, but OSUSR_ABC_CUSTOMER.CityId → OSUSR_DEF_CITY is NOT NULL."]
+  ]);
+  assert.equal(reversed.canLoadInOrder, false);
+});
+
+test("strict mode rejects every cycle, allowed ones and self-references included", () => {
+  const analysis = analyze(false, {
+    strictMode: true,
+    allowedCycles: [{ tableOrdering: [{ tableName: "OSUSR_DEF_CITY", position: 0 }, { tableName: "OSUSR_ABC_CUSTOMER", position: 1 }] }]
+  });
+  assert.deepStrictEqual(
+    analysis.cycles.map((cycle) => [cycle.status, cycle.allowlistIndex, cycle.issues]),
+    [
+      ["disallowed", 0, ["strictMode rejects every cycle, including allowed ones."]],
+      ["disallowed", null, ["strictMode rejects every cycle, including allowed ones."]]
+    ]
+  );
+  assert.equal(analysis.canLoadInOrder, false);
+});
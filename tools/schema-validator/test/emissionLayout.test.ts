@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { planEmissionLayout, type EmissionLayoutOptions } from "../src/emissionLayout.js";
+import { loadJson } from "../src/jsonFile.js";
+import { parseModelJson } from "../src/modelSchema.js";
+import type { NamingOverride } from "../src/tighteningConfig.js";
+
+const MODEL_PATH = fileURLToPath(new URL("../../../tests/Fixtures/model.edge-case.json", import.meta.url));
+
+const rawModel = (await loadJson(MODEL_PATH)) as { modules: Array<{ name: string }> };
+const model = parseModelJson(rawModel);
+
+function options(namingOverrides: NamingOverride[] = [], overrides: Partial<EmissionLayoutOptions> = {}): EmissionLayoutOptions {
+  return { sanitizeModuleNames: true, emitTableMode: "FullOnly", namingOverrides, ...overrides };
+}
+
+function rule(target: Partial<NamingOverride>, override: string, index = 0): NamingOverride {
+  return {
+    schema: null,
+    table: null,
+    module: null,
+    entity: null,
+    ...target,
+    override,
+    path: ["emission", "namingOverrides", "rules", index]
+  };
+}
+
+test("without overrides every table keeps its logical name in its module directory", () => {
+  const layout = planEmissionLayout(model, options());
+  assert.deepStrictEqual(
+    layout.tables.map((table) => table.files),
+    [
+      ["Modules/AppCore/dbo.Customer.sql"],
+      ["Modules/AppCore/dbo.City.sql"],
+      ["Modules/ExtBilling/billing.BillingAccount.sql"],
+      ["Modules/Ops/dbo.JobRun.sql"]
+    ]
+  );
+  assert.deepStrictEqual(layout.issues, []);
+  assert.ok(layout.tables.every((table) => table.source === "logicalName" && table.collidesWith === null));
+});
+
+test("table overrides win over module-scoped and plain entity overrides, which stay unused", () => {
+  const byTable = rule({ schema: "dbo", table: "osusr_abc_customer" }, "CUSTOMER_PORTAL", 0);
+  const byModuleEntity = rule({ module: "AppCore", entity: "Customer" }, "CUSTOMER_MODULE", 1);
+  const byEntity = rule({ entity: "city" }, "TOWN", 2);
+  const layout = planEmissionLayout(model, options([byEntity, byModuleEntity, byTable], { emitTableMode: "Both" }));
+
+  const [customer, city] = layout.tables;
+  assert.equal(customer.source, "tableOverride");
+  assert.deepStrictEqual(customer.files, ["Modules.Bare/AppCore/dbo.CUSTOMER_PORTAL.sql", "Modules/AppCore/dbo.CUSTOMER_PORTAL.sql"]);
+  assert.equal(city.source, "entityOverride");
+  assert.equal(city.tableName, "TOWN");
+  assert.deepStrictEqual(layout.unusedOverrides, [byModuleEntity]);
+});
+
+test("a table renamed onto another table's name collides with it, case-insensitively", () => {
+  const layout = planEmissionLayout(model, options([rule({ schema: "dbo", table: "OSUSR_DEF_CITY" }, "customer")]));
+  assert.deepStrictEqual(
+    layout.issues.map((issue) => [issue.code, issue.path]),
+    [["layout.tableCollision", ["modules", 0, "entities", 1]]]
+  );
+  assert.deepStrictEqual(
+    layout.tables.map((table) => table.collidesWith),
+    [null, ["modules", 0, "entities", 0], null, null]
+  );
+});
+
+test("modules whose sanitized names match share a directory and collide", () => {
+  const renamed = structuredClone(rawModel);
+  renamed.modules[1].name = "App.Core";
+  renamed.modules[2].name = "App-Core";
+  const sanitized = planEmissionLayout(parseModelJson(renamed), options());
+  assert.deepStrictEqual(
+    sanitized.issues.map((issue) => [issue.code, issue.path, issue.message]),
+    [["layout.moduleCollision", ["modules", 2], "Modules App.Core and App-Core both write to Modules/App_Core/."]]
+  );
+
+  const kept = planEmissionLayout(parseModelJson(renamed), options([], { sanitizeModuleNames: false }));
+  assert.deepStrictEqual(kept.issues, []);
+});
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { checkExtractionExpectations, parseExtractionManifestJson, resolveCasePath } from "../src/extractionManifest.js";
+import { expandInputFiles, inputDirectories, mapWithConcurrency } from "../src/inputFiles.js";
+import { loadJson } from "../src/jsonFile.js";
+
+const MANIFEST_PATH = fileURLToPath(new URL("../../../tests/Fixtures/extraction/advanced-sql.manifest.json", import.meta.url));
+
+/**
+ * root/
+ *   a.json, b.JSON, notes.txt
+ *   empty/
+ *   nested/c.json
+ *   nested/deep/d.json
+ */
+const root = await fs.mkdtemp(path.join(os.tmpdir(), "input-files-"));
+await fs.mkdir(path.join(root, "empty"));
+await fs.mkdir(path.join(root, "nested", "deep"), { recursive: true });
+for (const file of ["a.json", "b.JSON", "notes.txt", "nested/c.json", "nested/deep/d.json"]) {
+  await fs.writeFile(path.join(root, file), "{}");
+}
+
+after(() => fs.rm(root, { recursive: true, force: true }));
+
+const under = (...segments: string[]) => path.join(root, ...segments);
+
+const relative = (files: string[]) => files.map((file) => path.relative(root, file).split(path.sep).join("/"));
+
+test("directories contribute their own .json files, whatever the extension's case", async () => {
+  assert.deepStrictEqual(relative(await expandInputFiles([root])), ["a.json", "b.JSON"]);
+});
+
+test("globs match within a segment, and ** across any number of them", async () => {
+  assert.deepStrictEqual(relative(await expandInputFiles([under("*.json")])), ["a.json"]);
+  assert.deepStrictEqual(relative(await expandInputFiles([under("nested", "?.json")])), ["nested/c.json"]);
+  assert.deepStrictEqual(relative(await expandInputFiles([under("**", "*.json")])), [
+    "a.json",
+    "nested/c.json",
+    "nested/deep/d.json"
+  ]);
+});
+
+test("files keep the order of the inputs, without duplicates, and missing files are left to the validation", async () => {
+  const files = await expandInputFiles([under("nested", "c.json"), under("**", "*.json"), under("missing.json"), root]);
+  assert.deepStrictEqual(relative(files), ["nested/c.json", "a.json", "nested/deep/d.json", "missing.json", "b.JSON"]);
+});
+
+test("an input that matches nothing is an error", async () => {
+  await assert.rejects(expandInputFiles([under("*.yaml")]), { message: `No files match ${under("*.yaml")}.` });
+  await assert.rejects(expandInputFiles([under("empty")]), { message: `Directory ${under("empty")} contains no .json files.` });
+});
+
+test("the input directories are the directory inputs and every directory a glob walks", async () => {
+  assert.deepStrictEqual(relative(await inputDirectories([root, under("a.json")])), [""]);
+  assert.deepStrictEqual(relative(await inputDirectories([under("nested", "*.json")])), ["nested"]);
+  assert.deepStrictEqual(relative(await inputDirectories([under("**", "*.json")])), ["", "empty", "nested", "nested/deep"]);
+});
+
+test("mapWithConcurrency keeps the input order and the concurrency limit", async () => {
+  let running = 0;
+  let peak = 0;
+  const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (delay, index) => {
+    running++;
+    peak = Math.max(peak, running);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    running--;
+    return `${index}:${delay}`;
+  });
+  assert.deepStrictEqual(results, ["0:30", "1:10", "2:20", "3:0", "4:5"]);
+  assert.equal(peak, 2);
+});
+
+test("manifest cases resolve against the manifest and the fixtures honour their filters", async () => {
+  const manifest = parseExtractionManifestJson(await loadJson(MANIFEST_PATH));
+  const checked = await Promise.all(
+    manifest.cases.map(async (extractionCase) => {
+      const file = resolveCasePath(MANIFEST_PATH, extractionCase);
+      return [path.relative(path.dirname(MANIFEST_PATH), file), checkExtractionExpectations(await loadJson(file), extractionCase)];
+    })
+  );
+  assert.deepStrictEqual(checked, [
+    ["../model.edge-case.json", []],
+    ["../model.only-active-empty.json", []],
+    ["../model.legacy-guid-reference.json", []]
+  ]);
+});
+
+test("an export that ignores the extraction filters is reported module by module", async () => {
+  const [edgeCase] = parseExtractionManifestJson(await loadJson(MANIFEST_PATH)).cases;
+  const raw = (await loadJson(resolveCasePath(MANIFEST_PATH, edgeCase))) as { modules: Array<Record<string, unknown>> };
+  Object.assign(raw.modules[2], { isSystem: 1, isActive: 0 });
+  const issues = checkExtractionExpectations(raw, {
+    modules: ["appcore", "Reporting"],
+    includeSystemModules: false,
+    includeInactiveModules: false,
+    onlyActiveAttributes: true
+  });
+  assert.deepStrictEqual(
+    issues.map((issue) => [issue.code, issue.path.join("/")]),
+    [
+      ["manifest.moduleMissing", "modules"],
+      ["manifest.inactiveAttribute", "modules/0/entities/0/attributes/5/isActive"],
+      ["manifest.moduleUnexpected", "modules/1/name"],
+      ["manifest.systemModule", "modules/2/isSystem"],
+      ["manifest.inactiveModule", "modules/2/isActive"]
+    ]
+  );
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { formatCodeFrame, JsonSourceError, locatePath, parseJsonSource, pointerOf } from "../src/jsonSource.js";
+
+const MODEL_PATH = fileURLToPath(new URL("../../../tests/Fixtures/model.edge-case.json", import.meta.url));
+
+const TEXT = [
+  "{",
+  '  "modules": [',
+  '    { "name": "AppCore", "a/b~c": null },',
+  '    { "name": "Ops", "name": "Ops2" }',
+  "  ]",
+  "}"
+].join("\n");
+
+function syntaxError(text: string): JsonSourceError {
+  try {
+    parseJsonSource(text);
+  } catch (error) {
+    assert.ok(error instanceof JsonSourceError);
+    return error;
+  }
+
+  assert.fail(`${JSON.stringify(text)} parsed`);
+}
+
+test("parses fixtures to the same value as JSON.parse", async () => {
+  const text = await readFile(MODEL_PATH, "utf8");
+  assert.deepStrictEqual(parseJsonSource(text).value, JSON.parse(text));
+  assert.deepStrictEqual(parseJsonSource(TEXT).value, JSON.parse(TEXT));
+});
+
+test("object members locate at their property name, array items at the value", () => {
+  const source = parseJsonSource(TEXT);
+  assert.deepStrictEqual(locatePath(source, []), { line: 1, column: 1 });
+  assert.deepStrictEqual(locatePath(source, ["modules"]), { line: 2, column: 3 });
+  assert.deepStrictEqual(locatePath(source, ["modules", 0]), { line: 3, column: 5 });
+  assert.deepStrictEqual(locatePath(source, ["modules", 0, "name"]), { line: 3, column: 7 });
+  assert.deepStrictEqual(locatePath(source, ["modules", 0, "a/b~c"]), { line: 3, column: 26 });
+});
+
+test("a repeated key is located at its last occurrence, the one JSON.parse keeps", () => {
+  assert.deepStrictEqual(locatePath(parseJsonSource(TEXT), ["modules", 1, "name"]), { line: 4, column: 22 });
+});
+
+test("paths that do not exist fall back to the closest existing ancestor", () => {
+  const source = parseJsonSource(TEXT);
+  assert.deepStrictEqual(locatePath(source, ["modules", 0, "entities", 3, "name"]), { line: 3, column: 5 });
+  assert.deepStrictEqual(locatePath(source, ["exportedAtUtc"]), { line: 1, column: 1 });
+});
+
+test("pointers escape ~ and / like JSON Pointer", () => {
+  assert.equal(pointerOf(["modules", 0, "a/b~c"]), "/modules/0/a~1b~0c");
+  assert.equal(pointerOf([]), "");
+});
+
+test("syntax errors carry the line and column where parsing stopped", () => {
+  const trailingComma = syntaxError('{\n  "a": [1,\n  2,]\n}');
+  assert.equal(trailingComma.message, 'Unexpected token "]" at line 3, column 5');
+  assert.deepStrictEqual(trailingComma.location, { line: 3, column: 5 });
+  assert.equal(syntaxError('{"a": 1} x').message, 'Unexpected token "x" after the JSON value at line 1, column 10');
+  assert.equal(syntaxError('{"a": "x\ny"}').message, "Unterminated or invalid string at line 1, column 7");
+  assert.equal(syntaxError("").message, "Unexpected end of input at line 1, column 1");
+});
+
+test("code frames mark the line and put a caret under the column", () => {
+  const lines = TEXT.split("\n");
+  assert.deepStrictEqual(formatCodeFrame(lines, { line: 4, column: 22 }), [
+    '  2 |   "modules": [',
+    '  3 |     { "name": "AppCore", "a/b~c": null },',
+    '> 4 |     { "name": "Ops", "name": "Ops2" }',
+    "    |                      ^",
+    "  5 |   ]",
+    "  6 | }"
+  ]);
+  assert.deepStrictEqual(formatCodeFrame(lines, { line: 1, column: 1 }, 0), ["> 1 | {", "    | ^"]);
+});
+
+test("code frames keep tabs before the caret and shorten long lines", () => {
+  const long = `\t"key": "${"x".repeat(200)}"`;
+  const [line, caret] = formatCodeFrame([long], { line: 1, column: 3 }, 0);
+  assert.equal(line, `> 1 | ${long.slice(0, 157)}...`);
+  assert.equal(caret, "    | \t ^");
+});
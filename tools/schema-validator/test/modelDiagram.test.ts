@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadJson } from "../src/jsonFile.js";
+import { buildModelDiagram, renderDot, renderMermaid, type DiagramOptions } from "../src/modelDiagram.js";
+import { parseModelJson } from "../src/modelSchema.js";
+
+const MODEL_PATH = fileURLToPath(new URL("../../../tests/Fixtures/model.edge-case.json", import.meta.url));
+
+const rawModel = (await loadJson(MODEL_PATH)) as { modules: Array<{ entities: Array<{ name: string }> }> };
+const model = parseModelJson(rawModel);
+
+const WHOLE_MODEL: DiagramOptions = { groupByModule: false, focusModule: null, hops: 1 };
+
+const diagram = (options: Partial<DiagramOptions> = {}) => buildModelDiagram(model, { ...WHOLE_MODEL, ...options });
+
+test("Mermaid draws identifier and reference columns and many-to-one references", () => {
+  assert.equal(
+    renderMermaid(diagram(), WHOLE_MODEL),
+    [
+      "erDiagram",
+      '    Customer["Customer"] {',
+      "        Identifier Id PK",
+      "        Identifier CityId FK",
+      "    }",
+      '    City["City (static)"] {',
+      "        Identifier Id PK",
+      "    }",
+      '    BillingAccount["BillingAccount (external)"] {',
+      "        Identifier Id PK",
+      "    }",
+      '    JobRun["JobRun"] {',
+      "        Identifier Id PK",
+      "        Identifier TriggeredByUserId FK",
+      "    }",
+      '    User["User (not in model)"]',
+      '    Customer }o--|| City : "CityId (Protect)"',
+      '    JobRun }o..o| User : "TriggeredByUserId (Ignore)"',
+      ""
+    ].join("\n")
+  );
+});
+
+test("DOT clusters modules and styles static, external and missing entities", () => {
+  const options = { ...WHOLE_MODEL, groupByModule: true };
+  assert.equal(
+    renderDot(diagram(options), options),
+    [
+      "digraph model {",
+      "  rankdir=LR;",
+      '  node [shape=record, fontname="Helvetica", fontsize=10];',
+      '  edge [fontname="Helvetica", fontsize=9];',
+      "",
+      "  subgraph cluster_0 {",
+      '    label="AppCore";',
+      String.raw`    "osusr_abc_customer" [label="{Customer|Id : Identifier (PK)\lCityId : Identifier (FK)\l}"];`,
+      String.raw`    "osusr_def_city" [label="{City (static)|Id : Identifier (PK)\l}", style="filled", fillcolor="#fff2cc"];`,
+      "  }",
+      "  subgraph cluster_1 {",
+      '    label="ExtBilling";',
+      String.raw`    "billing_account" [label="{BillingAccount (external)|Id : Identifier (PK)\l}", style="dashed"];`,
+      "  }",
+      "  subgraph cluster_2 {",
+      '    label="Ops";',
+      String.raw`    "osusr_xyz_jobrun" [label="{JobRun|Id : Identifier (PK)\lTriggeredByUserId : Identifier (FK)\l}"];`,
+      "  }",
+      String.raw`  "?osusr_u_user" [label="{User (not in model)|OSUSR_U_USER\l}", style="dotted"];`,
+      "",
+      String.raw`  "osusr_abc_customer" -> "osusr_def_city" [label="CityId\nProtect", taillabel="*", headlabel="1"];`,
+      String.raw`  "osusr_xyz_jobrun" -> "?osusr_u_user" [label="TriggeredByUserId\nIgnore", taillabel="*", headlabel="0..1", style="dashed"];`,
+      "}",
+      ""
+    ].join("\n")
+  );
+});
+
+test("a focus module keeps its entities and whatever lies within the hop count", () => {
+  const keys = (options: Partial<DiagramOptions>) => diagram(options).nodes.map((node) => node.entity);
+  assert.deepStrictEqual(keys({ focusModule: "AppCore", hops: 0 }), ["Customer", "City"]);
+  assert.deepStrictEqual(keys({ focusModule: "Ops", hops: 0 }), ["JobRun"]);
+  assert.deepStrictEqual(keys({ focusModule: "Ops", hops: 1 }), ["JobRun", "User"]);
+  assert.deepStrictEqual(diagram({ focusModule: "AppCore", hops: 0 }).edges.map((edge) => edge.attribute), ["CityId"]);
+  assert.throws(() => diagram({ focusModule: "Billing" }), {
+    message: 'Module "Billing" is not in the model; expected one of AppCore, ExtBilling, Ops.'
+  });
+});
+
+test("Mermaid qualifies labels by module and keeps entity ids unique across modules", () => {
+  const renamed = structuredClone(rawModel);
+  renamed.modules[2].entities[0].name = "Customer";
+  const options = { ...WHOLE_MODEL, groupByModule: true };
+  const mermaid = renderMermaid(buildModelDiagram(parseModelJson(renamed), options), options);
+  assert.match(mermaid, /^ {4}%% Module AppCore\n {4}Customer\["AppCore\.Customer"\] \{$/m);
+  assert.match(mermaid, /^ {4}%% Module Ops\n {4}Ops_Customer\["Ops\.Customer"\] \{$/m);
+  assert.match(mermaid, /^ {4}%% Not in model\n {4}User\["User \(not in model\)"\]$/m);
+  assert.match(mermaid, /^ {4}Ops_Customer \}o\.\.o\| User : "TriggeredByUserId \(Ignore\)"$/m);
+});
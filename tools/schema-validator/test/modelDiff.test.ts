@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadJson } from "../src/jsonFile.js";
+import { diffModels, type ModelDiff } from "../src/modelDiff.js";
+import { parseModelJson } from "../src/modelSchema.js";
+
+type RawRecord = Record<string, unknown>;
+type RawEntity = RawRecord & { attributes: RawRecord[]; indexes: RawRecord[]; relationships: RawRecord[] };
+type RawModel = { modules: Array<RawRecord & { entities: RawEntity[] }> };
+
+const MODEL_PATH = fileURLToPath(new URL("../../../tests/Fixtures/model.edge-case.json", import.meta.url));
+
+const rawModel = (await loadJson(MODEL_PATH)) as RawModel;
+const before = parseModelJson(rawModel);
+
+function diff(edit: (model: RawModel) => void): ModelDiff {
+  const after = structuredClone(rawModel);
+  edit(after);
+  return diffModels(before, parseModelJson(after));
+}
+
+/** `AppCore.Customer`, whose attributes are Id, Email, FirstName, LastName, CityId and LegacyCode. */
+const customer = (model: RawModel) => model.modules[0].entities[0];
+
+function attribute(model: RawModel, name: string): RawRecord {
+  const found = customer(model).attributes.find((candidate) => candidate.name === name);
+  assert.ok(found, `Customer.${name}`);
+  return found;
+}
+
+function describe(result: ModelDiff): string[] {
+  return result.changes.map(
+    (change) =>
+      `${change.kind} ${change.objectType} ${[change.entity, change.name].filter(Boolean).join(".")}` +
+      (change.previousName ? ` from ${change.previousName}` : "") +
+      (change.breaking ? " BREAKING" : "") +
+      (change.requiresRefactorLog ? " refactorlog" : "")
+  );
+}
+
+test("a model compared with itself has no changes", () => {
+  const result = diff(() => {});
+  assert.deepStrictEqual(result.changes, []);
+  assert.equal(result.hasBreakingChanges, false);
+});
+
+test("an entity with a new logical name is paired with its table as a rename", () => {
+  const result = diff((model) => {
+    customer(model).name = "Client";
+  });
+  assert.deepStrictEqual(describe(result), ["renamed entity Client from Customer"]);
+  assert.deepStrictEqual(result.summary, { added: 0, removed: 0, renamed: 1, changed: 0, breaking: 0 });
+});
+
+test("a renamed table needs a refactorlog entry", () => {
+  const result = diff((model) => {
+    customer(model).physicalName = "OSUSR_ABC_CLIENT";
+  });
+  assert.deepStrictEqual(describe(result), ["renamed entity Customer from OSUSR_ABC_CUSTOMER refactorlog"]);
+});
+
+test("attributes pair through originalName, then through the physical column", () => {
+  const result = diff((model) => {
+    Object.assign(attribute(model, "LastName"), { name: "Surname", originalName: "LastName", physicalName: "SURNAME" });
+    attribute(model, "FirstName").name = "GivenName";
+  });
+  assert.deepStrictEqual(describe(result).filter((line) => line.includes("attribute")), [
+    "renamed attribute Customer.GivenName from FirstName",
+    "renamed attribute Customer.Surname from LastName refactorlog"
+  ]);
+  assert.ok(!describe(result).some((line) => line.startsWith("added") || line.startsWith("removed")));
+});
+
+test("a relationship follows its renamed attribute", () => {
+  const result = diff((model) => {
+    Object.assign(attribute(model, "CityId"), { name: "HomeCityId", originalName: "CityId" });
+    customer(model).relationships[0].viaAttributeName = "HomeCityId";
+    customer(model).relationships[0].deleteRuleCode = "Delete";
+  });
+  assert.deepStrictEqual(describe(result), [
+    "renamed attribute Customer.HomeCityId from CityId",
+    "changed relationship Customer.HomeCityId BREAKING"
+  ]);
+});
+
+const PROPERTY_CASES: Array<[string, (model: RawModel) => void, string, boolean]> = [
+  ["a shorter length", (model) => void (attribute(model, "Email").length = 100), "length", true],
+  ["a longer length", (model) => void (attribute(model, "Email").length = 500), "length", false],
+  ["a new data type", (model) => void (attribute(model, "Email").dataType = "LongText"), "dataType", true],
+  ["a column made mandatory", (model) => void (attribute(model, "FirstName").isMandatory = true), "isMandatory", true],
+  ["a column made optional", (model) => void (attribute(model, "Email").isMandatory = false), "isMandatory", false],
+  ["a deactivated column", (model) => void (attribute(model, "Email").isActive = false), "isActive", true],
+  ["a new default", (model) => void (attribute(model, "FirstName").default = "'x'"), "defaultValue", false],
+  ["a delete rule relaxed to Ignore", (model) => void (attribute(model, "CityId").reference_deleteRuleCode = "Ignore"), "reference.deleteRuleCode", false],
+  ["a delete rule tightened to Delete", (model) => void (attribute(model, "CityId").reference_deleteRuleCode = "Delete"), "reference.deleteRuleCode", true],
+  ["a dropped FK constraint", (model) => void (attribute(model, "CityId").reference_hasDbConstraint = 0), "reference.hasDbConstraint", false],
+  ["a moved schema", (model) => void (customer(model).db_schema = "sales"), "schema", true],
+  ["a table made static", (model) => void (customer(model).isStatic = true), "isStatic", false],
+  ["an index made unique", (model) => void (customer(model).indexes[1].isUnique = true), "isUnique", true],
+  ["a unique index's new filter", (model) => void (customer(model).indexes[0].filterDefinition = null), "filterDefinition", true],
+  ["a disabled index re-enabled", (model) => void (customer(model).indexes[1].isDisabled = false), "isDisabled", false]
+];
+
+for (const [label, edit, property, breaking] of PROPERTY_CASES) {
+  test(`${label} is ${breaking ? "" : "not "}a breaking change`, () => {
+    const result = diff(edit);
+    const changes = result.changes.flatMap((change) => change.changes);
+    assert.deepStrictEqual(
+      changes.map((change) => [change.property, change.breaking]),
+      [[property, breaking]]
+    );
+    assert.equal(result.hasBreakingChanges, breaking);
+  });
+}
+
+test("added and removed objects are breaking only when existing data or callers can break", () => {
+  const result = diff((model) => {
+    const entity = customer(model);
+    const email = attribute(model, "Email");
+    entity.attributes.push(
+      { ...email, name: "Phone", physicalName: "PHONE", originalName: null },
+      { ...email, name: "Fax", physicalName: "FAX", originalName: null, default: "''" }
+    );
+    const [emailColumn] = entity.indexes[0].columns as RawRecord[];
+    entity.indexes.push({
+      ...entity.indexes[0],
+      name: "IDX_CUSTOMER_PHONE",
+      columns: [{ ...emailColumn, attribute: "Phone", physicalColumn: "PHONE" }]
+    });
+    entity.indexes.splice(1, 1);
+    model.modules[0].entities.splice(1, 1);
+    model.modules[1].name = "Reporting";
+  });
+  assert.deepStrictEqual(describe(result), [
+    "removed module ExtBilling BREAKING",
+    "added module Reporting",
+    "removed entity City BREAKING",
+    "added attribute Customer.Phone BREAKING",
+    "added attribute Customer.Fax",
+    "removed index Customer.IDX_CUSTOMER_NAME",
+    "added index Customer.IDX_CUSTOMER_PHONE BREAKING"
+  ]);
+  assert.deepStrictEqual(result.summary, { added: 4, removed: 3, renamed: 0, changed: 0, breaking: 4 });
+});
@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadJson } from "../src/jsonFile.js";
+import { analyzeDrift, DRIFT_CATEGORIES, toForeignKeyAction, type DriftReport } from "../src/modelDrift.js";
+import { parseModelJson } from "../src/modelSchema.js";
+
+type RawRecord = Record<string, unknown>;
+type RawAttribute = RawRecord & { onDisk?: RawRecord };
+type RawRelationship = RawRecord & { actualConstraints: RawRecord[] };
+type RawEntity = RawRecord & { attributes: RawAttribute[]; indexes: RawRecord[]; relationships: RawRelationship[] };
+type RawModel = { modules: Array<RawRecord & { entities: RawEntity[] }> };
+
+const MODEL_PATH = fileURLToPath(new URL("../../../tests/Fixtures/model.edge-case.json", import.meta.url));
+
+const rawModel = (await loadJson(MODEL_PATH)) as RawModel;
+
+function drift(edit: (model: RawModel) => void = () => {}): DriftReport {
+  const model = structuredClone(rawModel);
+  edit(model);
+  return analyzeDrift(parseModelJson(model));
+}
+
+/** `AppCore.Customer`, whose attributes are Id, Email, FirstName, LastName, CityId and LegacyCode. */
+const customer = (model: RawModel) => model.modules[0].entities[0];
+
+function attribute(model: RawModel, name: string): RawAttribute {
+  const found = customer(model).attributes.find((candidate) => candidate.name === name);
+  assert.ok(found, `Customer.${name}`);
+  return found;
+}
+
+function describe(report: DriftReport): Array<[string, string, unknown, unknown]> {
+  return report.findings.map((finding) => [finding.category, finding.name, finding.declared, finding.actual]);
+}
+
+test("the edge-case model agrees with its on-disk metadata", () => {
+  const report = drift();
+  assert.deepStrictEqual(report.findings, []);
+  assert.equal(report.hasDrift, false);
+  assert.deepStrictEqual(Object.keys(report.counts), [...DRIFT_CATEGORIES]);
+});
+
+test("nullability drift is reported in both directions, but not for identifiers", () => {
+  const report = drift((model) => {
+    attribute(model, "Email").onDisk!.isNullable = true;
+    attribute(model, "FirstName").onDisk!.isNullable = false;
+    Object.assign(attribute(model, "Id"), { isMandatory: false });
+  });
+  assert.deepStrictEqual(describe(report), [
+    ["nullability", "Email", "NOT NULL", "NULL"],
+    ["nullability", "FirstName", "NULL", "NOT NULL"]
+  ]);
+  assert.deepStrictEqual(report.findings[0].path, ["modules", 0, "entities", 0, "attributes", 1, "isMandatory"]);
+  assert.equal(report.findings[0].table, "dbo.OSUSR_ABC_CUSTOMER");
+});
+
+test("length drift treats an on-disk max column as long enough only past the threshold", () => {
+  const report = drift((model) => {
+    attribute(model, "Email").onDisk!.maxLength = 200;
+    attribute(model, "FirstName").onDisk!.maxLength = -1;
+    Object.assign(attribute(model, "LastName"), { length: 2000 });
+    attribute(model, "LastName").onDisk!.maxLength = -1;
+  });
+  assert.deepStrictEqual(describe(report), [
+    ["length", "Email", 255, 200],
+    ["length", "FirstName", 100, "max"]
+  ]);
+});
+
+test("precision and scale drift compare the declared values with the column", () => {
+  const report = drift((model) => {
+    Object.assign(attribute(model, "CityId"), { precision: 10, scale: 2 });
+  });
+  assert.deepStrictEqual(describe(report), [["scale", "CityId", 2, 0]]);
+
+  const precision = drift((model) => {
+    Object.assign(attribute(model, "CityId"), { precision: 18 });
+  });
+  assert.deepStrictEqual(describe(precision), [["precision", "CityId", 18, 10]]);
+});
+
+test("a relationship with hasDbConstraint but no covering foreign key is missing", () => {
+  const report = drift((model) => {
+    const [constraint] = customer(model).relationships[0].actualConstraints;
+    (constraint.columns as RawRecord[])[0]["owner.physical"] = "OTHERID";
+    (constraint.columns as RawRecord[])[0]["owner.attribute"] = "OtherId";
+  });
+  assert.deepStrictEqual(describe(report), [["missingForeignKey", "CityId", "OSUSR_DEF_CITY", null]]);
+  assert.deepStrictEqual(report.findings[0].path, ["modules", 0, "entities", 0, "relationships", 0, "actualConstraints"]);
+
+  const withoutOnDisk = drift((model) => {
+    customer(model).relationships[0].actualConstraints = [];
+    customer(model).attributes.forEach((candidate) => delete candidate.onDisk);
+  });
+  assert.deepStrictEqual(withoutOnDisk.findings, []);
+});
+
+test("delete rules compare by the referential action they emit", () => {
+  const report = drift((model) => {
+    customer(model).relationships[0].actualConstraints[0].onDelete = "CASCADE";
+  });
+  assert.deepStrictEqual(describe(report), [["deleteRule", "CityId", "Protect", "CASCADE"]]);
+  assert.match(report.findings[0].message, /foreign key FK_OSUSR_ABC_CUSTOMER_OSUSR_DEF_CITY is ON DELETE CASCADE/);
+
+  const ignored = drift((model) => {
+    customer(model).relationships[0].deleteRuleCode = "Ignore";
+  });
+  assert.deepStrictEqual(ignored.findings, []);
+});
+
+test("disabled unique indexes are reported, disabled plain indexes are not", () => {
+  const report = drift((model) => {
+    customer(model).indexes[0].isDisabled = true;
+  });
+  assert.deepStrictEqual(describe(report), [["disabledUniqueIndex", "IDX_CUSTOMER_EMAIL", "enabled", "disabled"]]);
+  assert.equal(report.counts.disabledUniqueIndex, 1);
+  assert.equal(report.hasDrift, true);
+});
+
+test("delete rules and SQL Server actions map to the emitted action", () => {
+  assert.deepStrictEqual(
+    ["Protect", "Ignore", "Delete", "cascade", "SetNull", "SET_DEFAULT", null].map(toForeignKeyAction),
+    ["NO_ACTION", "NO_ACTION", "CASCADE", "CASCADE", "SET_NULL", "SET_DEFAULT", "NO_ACTION"]
+  );
+});
@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { createModelIndex, formatIssuePath, parseModelJson, walkModel, type EntityLocation, type EntityReference } from "../src/index.js";
+import { loadJson } from "../src/jsonFile.js";
+
+type RawRecord = Record<string, unknown>;
+type RawModel = { modules: Array<{ entities: Array<RawRecord & { attributes: RawRecord[] }> }> };
+
+const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+/** Customer.CityId references City; JobRun.TriggeredByUserId references the User entity the export leaves out. */
+const EDGE_CASE_PATH = fixturePath("../../../tests/Fixtures/model.edge-case.json");
+
+const rawModel = (await loadJson(EDGE_CASE_PATH)) as RawModel;
+const model = parseModelJson(rawModel);
+const index = createModelIndex(model);
+
+/** The edge-case model plus `JobRun.ParentRunId`, a self-reference no relationship declares. */
+function withParentRun() {
+  const copy = structuredClone(rawModel);
+  const [cityId] = copy.modules[0].entities[0].attributes.slice(4);
+  copy.modules[2].entities[0].attributes.push({
+    ...cityId,
+    name: "ParentRunId",
+    physicalName: "PARENTRUNID",
+    isMandatory: false,
+    refEntityId: 3001,
+    refEntity_name: "JobRun",
+    refEntity_physicalName: "OSUSR_XYZ_JOBRUN"
+  });
+  return createModelIndex(parseModelJson(copy));
+}
+
+const name = (location: EntityLocation | null) => (location ? `${location.module.name}.${location.entity.name}` : null);
+
+function describe(references: readonly EntityReference[]): string[] {
+  return references.map(
+    (reference) =>
+      `${name(reference.from)}.${reference.attribute?.attribute.name} → ${name(reference.target) ?? reference.targetName} ` +
+      `via ${reference.relationship ? "relationship" : "attribute"} at ${formatIssuePath(reference.path)}`
+  );
+}
+
+test("entities are found by logical name, physical name and schema.table", () => {
+  assert.deepStrictEqual(
+    index.entities.map(name),
+    ["AppCore.Customer", "AppCore.City", "ExtBilling.BillingAccount", "Ops.JobRun"]
+  );
+  assert.equal(name(index.findEntity("City")), "AppCore.City");
+  assert.equal(index.findEntity("city"), null, "logical names match case-sensitively");
+  assert.equal(name(index.findEntityByPhysicalName("osusr_xyz_jobrun")), "Ops.JobRun");
+  assert.equal(index.findEntityByPhysicalName("OSUSR_U_USER"), null);
+
+  assert.equal(name(index.findEntityByTable("billing.BILLING_ACCOUNT")), "ExtBilling.BillingAccount");
+  assert.equal(name(index.findEntityByTable("[Billing].[billing_account]")), "ExtBilling.BillingAccount");
+  assert.equal(index.findEntityByTable("dbo.BILLING_ACCOUNT"), null, "the schema has to match");
+  assert.throws(() => index.findEntityByTable("BILLING_ACCOUNT"), /expects schema\.table/);
+});
+
+test("attributes are found by physical column, case-insensitively, with their position", () => {
+  const customer = index.findEntity("Customer")!;
+  const cityId = index.findAttributeByColumn(customer, "cityid");
+  assert.equal(cityId?.attribute.name, "CityId");
+  assert.deepStrictEqual([cityId?.moduleIndex, cityId?.entityIndex, cityId?.attributeIndex], [0, 0, 4]);
+  assert.equal(index.findAttributeByColumn(customer, "NAME"), null, "columns belong to one entity");
+  assert.equal(index.findAttributeByColumn(index.findEntity("City")!, "NAME")?.attribute.name, "Name");
+});
+
+test("references are listed per entity in both directions, targets outside the model included", () => {
+  const city = index.findEntity("City")!;
+  assert.deepStrictEqual(describe(index.outboundReferences(index.findEntity("Customer")!)), [
+    "AppCore.Customer.CityId → AppCore.City via relationship at modules[0].entities[0].relationships[0]"
+  ]);
+  assert.deepStrictEqual(describe(index.inboundReferences(city)), describe(index.outboundReferences(index.findEntity("Customer")!)));
+  assert.deepStrictEqual(index.outboundReferences(city), []);
+
+  const [user] = index.outboundReferences(index.findEntity("JobRun")!);
+  assert.deepStrictEqual([user.target, user.targetName, user.targetPhysicalName], [null, "User", "OSUSR_U_USER"]);
+});
+
+test("reference attributes no relationship covers are indexed, self-references inbound too", () => {
+  const extended = withParentRun();
+  const jobRun = extended.findEntity("JobRun")!;
+  assert.deepStrictEqual(describe(extended.outboundReferences(jobRun)), [
+    "Ops.JobRun.TriggeredByUserId → User via relationship at modules[2].entities[0].relationships[0]",
+    "Ops.JobRun.ParentRunId → Ops.JobRun via attribute at modules[2].entities[0].attributes[3]"
+  ]);
+  assert.deepStrictEqual(describe(extended.inboundReferences(jobRun)), [
+    "Ops.JobRun.ParentRunId → Ops.JobRun via attribute at modules[2].entities[0].attributes[3]"
+  ]);
+});
+
+test("the walker visits every node depth-first in export order and carries its path", () => {
+  const visited: string[] = [];
+  const record = (kind: string, label: string, path: readonly (string | number)[]): void => {
+    visited.push(`${formatIssuePath([...path])} ${kind} ${label}`);
+  };
+  walkModel(model, {
+    module: (module, { path }) => record("module", module.name, path),
+    entity: (entity, { path, module }) => record("entity", `${module.name}.${entity.name}`, path),
+    attribute: (attribute, { path, entity }) => record("attribute", `${entity.name}.${attribute.name}`, path),
+    index: (modelIndex, { path }) => record("index", modelIndex.name, path),
+    indexColumn: (column, { path, index: owner }) => record("indexColumn", `${owner.name}.${column.physicalColumn}`, path),
+    relationship: (relationship, { path }) => record("relationship", relationship.viaAttributeName, path),
+    trigger: (trigger, { path }) => record("trigger", trigger.name, path)
+  });
+
+  assert.equal(visited.filter((entry) => entry.includes(" attribute ")).length, 15);
+  assert.deepStrictEqual(visited.slice(-9), [
+    "modules[2] module Ops",
+    "modules[2].entities[0] entity Ops.JobRun",
+    "modules[2].entities[0].attributes[0] attribute JobRun.Id",
+    "modules[2].entities[0].attributes[1] attribute JobRun.TriggeredByUserId",
+    "modules[2].entities[0].attributes[2] attribute JobRun.CreatedOn",
+    "modules[2].entities[0].indexes[0] index OSIDX_JOBRUN_CREATEDON",
+    "modules[2].entities[0].indexes[0].columns[0] indexColumn OSIDX_JOBRUN_CREATEDON.CREATEDON",
+    "modules[2].entities[0].relationships[0] relationship TriggeredByUserId",
+    "modules[2].entities[0].triggers[0] trigger TR_OSUSR_XYZ_JOBRUN_AUDIT"
+  ]);
+});
+
+test("returning false from a callback skips that node's children", () => {
+  const visited: string[] = [];
+  walkModel(model, {
+    module: (module) => (module.name === "AppCore" ? undefined : false),
+    entity: (entity) => {
+      visited.push(entity.name);
+      return entity.name === "City" ? false : undefined;
+    },
+    attribute: (attribute, { entity }) => void visited.push(`${entity.name}.${attribute.name}`),
+    index: (modelIndex) => {
+      visited.push(modelIndex.name);
+      return false;
+    },
+    indexColumn: () => assert.fail("index columns were skipped")
+  });
+  assert.deepStrictEqual(visited, [
+    "Customer",
+    "Customer.Id",
+    "Customer.Email",
+    "Customer.FirstName",
+    "Customer.LastName",
+    "Customer.CityId",
+    "Customer.LegacyCode",
+    "IDX_CUSTOMER_EMAIL",
+    "IDX_CUSTOMER_NAME",
+    "City"
+  ]);
+});
@@ -0,0 +1,177 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { formatCanonicalModel } from "../src/canonicalModel.js";
+import { loadJson } from "../src/jsonFile.js";
+import { mergeModels, type MergeConflict, type MergePrecedence, type MergeSource } from "../src/modelMerge.js";
+import { parseModelJson } from "../src/modelSchema.js";
+import { resolveModelReferences } from "../src/referenceResolution.js";
+
+type RawRecord = Record<string, unknown>;
+type RawEntity = RawRecord & { name: string; physicalName: string; attributes: RawRecord[] };
+type RawModule = RawRecord & { name: string; entities: RawEntity[] };
+type RawModel = RawRecord & { modules: RawModule[] };
+
+const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+/** AppCore (Customer, City), ExtBilling and Ops; Ops.JobRun references the `User` entity the export leaves out. */
+const EDGE_CASE_PATH = fixturePath("../../../tests/Fixtures/model.edge-case.json");
+const USERS_PATH = fixturePath("../../../config/supplemental/ossys-user.json");
+
+const edgeCase = (await loadJson(EDGE_CASE_PATH)) as RawModel;
+const users = parseModelJson(await loadJson(USERS_PATH));
+
+/** A partial export holding the named edge-case modules, after `edit`. */
+function source(label: string, moduleNames: readonly string[], edit: (model: RawModel) => void = () => {}): MergeSource {
+  const copy = structuredClone(edgeCase);
+  copy.modules = copy.modules.filter((module) => moduleNames.includes(module.name));
+  edit(copy);
+  return { label, model: parseModelJson(copy), supplemental: false };
+}
+
+function entity(model: RawModel, moduleName: string, entityName: string): RawEntity {
+  return model.modules.find((module) => module.name === moduleName)!.entities.find((candidate) => candidate.name === entityName)!;
+}
+
+function describe(conflicts: readonly MergeConflict[]): string[] {
+  return conflicts.map((conflict) => `${conflict.message} [${conflict.code}]`);
+}
+
+test("module-by-module exports merge back into the full model", () => {
+  const result = mergeModels([source("core.json", ["AppCore", "ExtBilling"]), source("ops.json", ["Ops"])]);
+  assert.deepStrictEqual(result.conflicts, []);
+  assert.deepStrictEqual(result.yielded, []);
+  assert.equal(formatCanonicalModel(result.model), formatCanonicalModel(parseModelJson(edgeCase)));
+  assert.equal(result.references.length, 4);
+});
+
+test("references resolve across the merged sources, supplemental ones included", () => {
+  const ops = source("ops.json", ["Ops"]);
+  assert.deepStrictEqual(
+    resolveModelReferences(ops.model).map((issue) => issue.code),
+    [
+      "reference.targetMissing",
+      "reference.targetPhysicalMissing",
+      "reference.targetMissing",
+      "reference.targetPhysicalMissing"
+    ]
+  );
+
+  // The supplemental User resolves the logical name; its ossys_User table is not the OSUSR_U_USER the export expects.
+  const result = mergeModels([ops, { label: "ossys-user.json", model: users, supplemental: true }]);
+  assert.deepStrictEqual(
+    result.model.modules.map((module) => module.name),
+    ["Ops", "UserExtension_CS"]
+  );
+  assert.deepStrictEqual(
+    result.references.map((issue) => issue.message),
+    [
+      'Reference attribute "TriggeredByUserId" on entity "JobRun" points to unknown physical table "OSUSR_U_USER".',
+      'Relationship via "TriggeredByUserId" on entity "JobRun" points to unknown physical table "OSUSR_U_USER".'
+    ]
+  );
+});
+
+test("the same module in two exports must match, compared in canonical form", () => {
+  const reordered = source("appcore-b.json", ["AppCore"], (model) => {
+    model.modules[0].entities.reverse();
+    model.modules[0].entities[0].isActive = 1;
+  });
+  assert.deepStrictEqual(mergeModels([source("appcore-a.json", ["AppCore"]), reordered]).conflicts, []);
+
+  // A description is not an attribute difference, so the module itself conflicts.
+  const described = source("appcore-b.json", ["AppCore"], (model) => {
+    entity(model, "AppCore", "City").meta = "Cities served by the depots.";
+  });
+  assert.deepStrictEqual(describe(mergeModels([source("appcore-a.json", ["AppCore"]), described]).conflicts), [
+    "Module AppCore differs between appcore-a.json and appcore-b.json. [merge.moduleConflict]"
+  ]);
+});
+
+test("differing attribute definitions fail the merge and keep the first definition", () => {
+  const changed = source("appcore-b.json", ["AppCore"], (model) => {
+    const customer = entity(model, "AppCore", "Customer");
+    const email = customer.attributes.find((attribute) => attribute.name === "Email")!;
+    Object.assign(email, { isMandatory: false, length: 320 });
+    customer.attributes = customer.attributes.filter((attribute) => attribute.name !== "LastName");
+  });
+  const result = mergeModels([source("appcore-a.json", ["AppCore"]), changed]);
+  assert.deepStrictEqual(describe(result.conflicts), [
+    "Attribute AppCore.Customer.LastName is only defined in appcore-a.json. [merge.attributeConflict]",
+    "Attribute AppCore.Customer.Email is defined differently in appcore-a.json and appcore-b.json " +
+      "(length: 255 → 320, isMandatory: true → false). [merge.attributeConflict]"
+  ]);
+  assert.ok(result.conflicts.every((conflict) => conflict.resolution === null));
+  const email = result.model.modules[0].entities[0].attributes.find((attribute) => attribute.name === "Email")!;
+  assert.equal(email.isMandatory, true);
+});
+
+test("explicit precedence resolves conflicts in favour of the first or the last source", () => {
+  const sources = [
+    source("appcore-a.json", ["AppCore"]),
+    source("appcore-b.json", ["AppCore"], (model) => {
+      entity(model, "AppCore", "City").attributes.find((attribute) => attribute.name === "Name")!.length = 100;
+    })
+  ];
+  const cityNameLength = (precedence: MergePrecedence) =>
+    mergeModels(sources, precedence).model.modules[0].entities[1].attributes[1].length;
+  assert.equal(cityNameLength("first"), 200);
+  assert.equal(cityNameLength("last"), 100);
+
+  const last = mergeModels(sources, "last");
+  assert.deepStrictEqual(describe(last.conflicts), [
+    "Attribute AppCore.City.Name is defined differently in appcore-b.json and appcore-a.json (length: 100 → 200). " +
+      "Kept appcore-b.json. [merge.attributeConflict]"
+  ]);
+  assert.ok(last.conflicts.every((conflict) => conflict.resolution === "appcore-b.json"));
+});
+
+test("a table claimed by two modules is a conflict, and the later module loses it", () => {
+  const sales = source("sales.json", ["AppCore"], (model) => {
+    model.modules[0].entities = [entity(model, "AppCore", "Customer")];
+    model.modules[0].name = "Sales";
+    model.modules[0].entities[0].physicalName = "osusr_abc_customer";
+  });
+  const result = mergeModels([source("core.json", ["AppCore", "ExtBilling"]), sales]);
+  assert.deepStrictEqual(describe(result.conflicts), [
+    "Table dbo.osusr_abc_customer is claimed by AppCore.Customer (core.json) and Sales.Customer (sales.json). [merge.tableConflict]"
+  ]);
+  assert.deepStrictEqual(
+    result.model.modules.map((module) => module.name),
+    ["AppCore", "ExtBilling"],
+    "a module left without tables is dropped"
+  );
+});
+
+test("supplemental entities yield tables the primary sources define without a conflict", () => {
+  const supplemental = source("extra.json", ["AppCore"], (model) => {
+    model.modules[0].name = "Reference";
+  });
+  const result = mergeModels([source("core.json", ["AppCore"]), { ...supplemental, supplemental: true }], "fail");
+  assert.deepStrictEqual(result.conflicts, []);
+  assert.deepStrictEqual(
+    result.yielded.map(({ entity, table, definedBy }) => `${entity} ${table} ← ${definedBy}`),
+    ["Customer dbo.OSUSR_ABC_CUSTOMER ← core.json", "City dbo.OSUSR_DEF_CITY ← core.json"]
+  );
+  assert.deepStrictEqual(
+    result.model.modules.map((module) => module.name),
+    ["AppCore"]
+  );
+});
+
+test("sequences with the same name must match, and the merge keeps the latest export time", () => {
+  const sequence = { schema: "dbo", name: "InvoiceNumber", dataType: "bigint", startValue: 1, increment: 1 };
+  const result = mergeModels([
+    source("core.json", ["AppCore"], (model) => (model.sequences = [sequence])),
+    source("ops.json", ["Ops"], (model) => {
+      model.exportedAtUtc = "2025-03-01T00:00:00Z";
+      model.sequences = [{ ...sequence, name: "invoicenumber", increment: 10 }];
+    })
+  ]);
+  assert.deepStrictEqual(describe(result.conflicts), [
+    "Sequence dbo.invoicenumber differs between core.json and ops.json. [merge.sequenceConflict]"
+  ]);
+  assert.deepStrictEqual(result.model.sequences, [parseModelJson({ ...edgeCase, sequences: [sequence] }).sequences[0]]);
+  assert.equal(result.model.exportedAtUtc?.toISOString(), "2025-03-01T00:00:00.000Z");
+});
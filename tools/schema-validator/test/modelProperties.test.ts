@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadJson } from "../src/jsonFile.js";
+import { MODEL_VIOLATION_KINDS } from "../src/modelGenerator.js";
+import { MODEL_PROPERTIES, pickViolations } from "../src/modelProperties.js";
+import { parseTypeMappingJson } from "../src/typeMapping.js";
+
+const TYPE_MAPPING_PATH = fileURLToPath(new URL("../../../config/type-mapping.default.json", import.meta.url));
+
+/** Fixed so a failure names a seed that reproduces it; `npm run fuzz` covers a wider range. */
+const SEEDS = Array.from({ length: 40 }, (_, index) => index + 1);
+
+const typeMapping = parseTypeMappingJson(await loadJson(TYPE_MAPPING_PATH));
+
+test("the fixed seeds inject every violation kind", () => {
+  const injected = new Set(SEEDS.flatMap(pickViolations));
+  assert.deepStrictEqual(
+    MODEL_VIOLATION_KINDS.filter((kind) => !injected.has(kind)),
+    [],
+    "extend SEEDS until every kind is injected at least once"
+  );
+});
+
+for (const property of MODEL_PROPERTIES) {
+  test(property.name, () => {
+    for (const seed of SEEDS) {
+      const failure = property.check(seed, typeMapping);
+      assert.equal(
+        failure,
+        null,
+        failure
+          ? `seed ${seed}: ${failure.property}\n  ${failure.details.join("\n  ")}\n` +
+              `Rerun with \`npm run fuzz -- --seed ${seed} --iterations 1\`.`
+          : undefined
+      );
+    }
+  });
+}
@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadJson } from "../src/jsonFile.js";
+import {
+  parseRedactionMappingJson,
+  REDACTED_DEFINITION,
+  redactModel,
+  restoreModel,
+  type RedactionMapping
+} from "../src/modelRedaction.js";
+import { formatIssuePath } from "../src/modelSchema.js";
+import { validateModel } from "../src/modelValidation.js";
+import { parseTypeMappingJson } from "../src/typeMapping.js";
+
+type RawRecord = Record<string, unknown>;
+type RawEntity = RawRecord & { name: string; physicalName: string; attributes: RawRecord[]; relationships: RawRecord[] };
+type RawModel = { modules: Array<RawRecord & { name: string; entities: RawEntity[] }> };
+
+const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+/** Customer has a description and defaults, JobRun a trigger, and JobRun.TriggeredByUserId references the missing User. */
+const EDGE_CASE_PATH = fixturePath("../../../tests/Fixtures/model.edge-case.json");
+const TYPE_MAPPING_PATH = fixturePath("../../../config/type-mapping.default.json");
+
+const SALT = "s3cret";
+
+const edgeCase = (await loadJson(EDGE_CASE_PATH)) as RawModel;
+const typeMapping = parseTypeMappingJson(await loadJson(TYPE_MAPPING_PATH));
+
+function fingerprint(raw: unknown): string[] {
+  return validateModel(raw, "model.json", typeMapping).issues.map(
+    (issue) => `${issue.severity} ${issue.ruleId} at ${formatIssuePath(issue.path)}`
+  );
+}
+
+function entities(raw: unknown): RawEntity[] {
+  return (raw as RawModel).modules.flatMap((module) => module.entities);
+}
+
+/** The pseudonym `mapping` gives the original `name` of that kind. */
+function pseudonym(mapping: RedactionMapping, kind: keyof RedactionMapping, name: string): string {
+  const entry = Object.entries(mapping[kind]).find(([, original]) => original === name);
+  assert.ok(entry, `no ${kind} pseudonym for ${name}`);
+  return entry[0];
+}
+
+test("the redacted export validates exactly like the original", () => {
+  const { model, mapping, stripped } = redactModel(edgeCase, SALT);
+  assert.deepStrictEqual(fingerprint(model), fingerprint(edgeCase));
+  assert.equal(fingerprint(model).length, 4);
+  assert.deepStrictEqual(
+    Object.fromEntries(Object.entries(mapping).map(([kind, names]) => [kind, Object.keys(names).length])),
+    { module: 3, entity: 5, table: 5, attribute: 13, column: 12, index: 5, constraint: 1, trigger: 1, sequence: 0 }
+  );
+  assert.equal(stripped, 14);
+});
+
+test("no module, entity, table or attribute name of the original survives", () => {
+  const { model } = redactModel(edgeCase, SALT);
+  const json = JSON.stringify(model);
+  const names = ["AppCore", "ExtBilling", "Customer", "JobRun", "OSUSR_ABC_CUSTOMER", "BILLING_ACCOUNT", "TriggeredByUserId", "EMAIL"];
+  for (const name of names) {
+    assert.ok(!json.includes(`"${name}"`), `${name} is still in the redacted export`);
+  }
+});
+
+test("references are renamed with their targets, so they still resolve", () => {
+  const { model, mapping } = redactModel(edgeCase, SALT);
+  const [customer, city, , jobRun] = entities(model);
+  const cityId = customer.attributes.find((attribute) => attribute.refEntity_name !== undefined && attribute.refEntity_name !== null)!;
+  assert.equal(cityId.refEntity_name, city.name);
+  assert.equal(cityId.refEntity_physicalName, city.physicalName);
+  assert.deepStrictEqual(
+    [customer.relationships[0].viaAttributeName, customer.relationships[0].toEntity_name],
+    [cityId.name, city.name]
+  );
+
+  // User is not in the export, but its reference still gets the pseudonym a User entity would.
+  const user = jobRun.attributes.find((attribute) => attribute.refEntity_name === pseudonym(mapping, "entity", "User"));
+  assert.ok(user);
+  assert.equal(user.refEntity_physicalName, pseudonym(mapping, "table", "OSUSR_U_USER"));
+});
+
+test("pseudonyms are deterministic per salt and keep the OSUSR_ prefix, length and casing", () => {
+  assert.deepStrictEqual(redactModel(edgeCase, SALT), redactModel(edgeCase, SALT));
+  const other = redactModel(edgeCase, "another salt").mapping;
+  const { mapping } = redactModel(edgeCase, SALT);
+  assert.notEqual(pseudonym(other, "module", "AppCore"), pseudonym(mapping, "module", "AppCore"));
+
+  const customerTable = pseudonym(mapping, "table", "OSUSR_ABC_CUSTOMER");
+  // Letters follow the original's casing position by position, so the underscore in ABC_CUSTOMER gives a lower-case letter.
+  assert.match(customerTable, /^OSUSR_[A-Z]{3}[a-z][A-Z]{8}$/);
+  assert.match(pseudonym(mapping, "table", "BILLING_ACCOUNT"), /^TBL_[A-Za-z]{11}$/);
+  assert.match(pseudonym(mapping, "module", "AppCore"), /^Module_[A-Z][a-z]{2}[A-Z][a-z]{6}$/);
+
+  const casing = structuredClone(edgeCase);
+  casing.modules[0].entities[1].name = "customer";
+  const [customer, lowerCustomer] = entities(redactModel(casing, SALT).model);
+  assert.notEqual(customer.name, lowerCustomer.name);
+  assert.equal((customer.name as string).toLowerCase(), (lowerCustomer.name as string).toLowerCase());
+});
+
+test("descriptions and definitions are stripped while types and flags are kept", () => {
+  const { model } = redactModel(edgeCase, SALT);
+  const [customer, city, , jobRun] = entities(model);
+  const [original, , , originalJobRun] = entities(edgeCase);
+  assert.equal(customer.meta, null);
+  assert.deepStrictEqual(
+    customer.attributes.map((attribute) => [attribute.dataType, attribute.length, attribute.isMandatory, attribute.default]),
+    original.attributes.map((attribute) => [
+      attribute.dataType,
+      attribute.length,
+      attribute.isMandatory,
+      attribute.default === null ? null : REDACTED_DEFINITION
+    ])
+  );
+  assert.equal(city.attributes.find((attribute) => attribute.dataType === "Boolean")!.default, REDACTED_DEFINITION);
+  assert.deepStrictEqual(
+    (jobRun.triggers as RawRecord[]).map((trigger) => [trigger.definition, trigger.isDisabled]),
+    (originalJobRun.triggers as RawRecord[]).map((trigger) => [REDACTED_DEFINITION, trigger.isDisabled])
+  );
+});
+
+test("the mapping restores the original names, and redacting the restored export gives the same file", () => {
+  const redaction = redactModel(edgeCase, SALT);
+  const mapping = parseRedactionMappingJson(JSON.parse(JSON.stringify(redaction.mapping)));
+  const restoration = restoreModel(redaction.model, mapping);
+  assert.equal(restoration.unresolved, 0);
+  assert.deepStrictEqual(
+    entities(restoration.model).map((entity) => [entity.name, entity.physicalName, entity.attributes.map((attribute) => attribute.name)]),
+    entities(edgeCase).map((entity) => [entity.name, entity.physicalName, entity.attributes.map((attribute) => attribute.name)])
+  );
+  assert.equal(entities(restoration.model)[0].meta, null, "descriptions stay redacted");
+  assert.deepStrictEqual(redactModel(restoration.model, SALT).model, redaction.model);
+
+  const foreign = restoreModel(redaction.model, redactModel(edgeCase, "another salt").mapping);
+  assert.equal(foreign.restored, 0);
+  assert.ok(foreign.unresolved > 0);
+  assert.throws(() => parseRedactionMappingJson({ module: {}, schema: {} }), /Unrecognized key/);
+});
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { DEFAULT_GENERATOR_OPTIONS, generateModel, injectViolations } from "../src/modelGenerator.js";
+import {
+  formatIssuePath,
+  modelSchema,
+  parseModelJson,
+  safeParseModelJson,
+  safeParseModelStructure,
+  structuralModelSchema
+} from "../src/modelSchema.js";
+
+const SEED = 11;
+
+const valid = generateModel({ ...DEFAULT_GENERATOR_OPTIONS, seed: SEED });
+const missingIdentifier = injectViolations(valid, ["missingIdentifier"], SEED);
+
+test("safeParseModelJson accepts a model that satisfies the contract", () => {
+  const result = safeParseModelJson(valid);
+  assert.ok(result.success, `seed ${SEED}: ${result.success ? "" : result.error.message}`);
+  assert.deepStrictEqual(result.data, safeParseModelStructure(valid).data);
+});
+
+test("modelSchema and safeParseModelJson enforce the contract rules", () => {
+  const expected = missingIdentifier.expected.map((issue) => formatIssuePath(issue.path)).sort();
+  for (const result of [modelSchema.safeParse(missingIdentifier.model), safeParseModelJson(missingIdentifier.model)]) {
+    assert.equal(result.success, false, `seed ${SEED}: a model without an identifier was accepted`);
+    assert.deepStrictEqual(result.error?.issues.map((issue) => formatIssuePath(issue.path)).sort(), expected, `seed ${SEED}`);
+  }
+
+  assert.throws(() => parseModelJson(missingIdentifier.model), { name: "ZodError" });
+});
+
+test("structuralModelSchema and safeParseModelStructure check the structure only", () => {
+  assert.ok(structuralModelSchema.safeParse(missingIdentifier.model).success, `seed ${SEED}`);
+  assert.ok(safeParseModelStructure(missingIdentifier.model).success, `seed ${SEED}`);
+});
+
+test("structural issues are reported before the rules run", () => {
+  const broken = { ...missingIdentifier.model, modules: [{ ...missingIdentifier.model.modules[0], name: 42 }] };
+  const result = safeParseModelJson(broken);
+  assert.equal(result.success, false);
+  assert.deepStrictEqual(result.error?.issues.map((issue) => issue.code), ["invalid_type"]);
+});
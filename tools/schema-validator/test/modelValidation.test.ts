@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadJson } from "../src/jsonFile.js";
+import { parseModelRuleConfigJson } from "../src/modelRuleConfig.js";
+import { createModelRuleSet } from "../src/modelRules.js";
+import { validateModel, type ValidationReport } from "../src/modelValidation.js";
+import { validateModelStream } from "../src/streamingValidation.js";
+import { parseTypeMappingJson } from "../src/typeMapping.js";
+
+const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+/** References the supplemental `User` entity, which the export does not define. */
+const EDGE_CASE_PATH = fixturePath("../../../tests/Fixtures/model.edge-case.json");
+const TYPE_MAPPING_PATH = fixturePath("../../../config/type-mapping.default.json");
+
+const typeMapping = parseTypeMappingJson(await loadJson(TYPE_MAPPING_PATH));
+const edgeCase = await loadJson(EDGE_CASE_PATH);
+
+function ruleIds(report: ValidationReport): string[] {
+  return report.issues.map((issue) => `${issue.severity} ${issue.ruleId}`);
+}
+
+const MISSING_USER = [
+  "warning reference.targetMissing",
+  "warning reference.targetPhysicalMissing",
+  "warning reference.targetMissing",
+  "warning reference.targetPhysicalMissing"
+];
+
+test("references to entities outside the export are warnings by default", () => {
+  const report = validateModel(edgeCase, EDGE_CASE_PATH, typeMapping);
+  assert.equal(report.summary.valid, true);
+  assert.deepStrictEqual(ruleIds(report), MISSING_USER);
+  assert.ok(report.model, "a passing report keeps the typed model");
+  assert.ok(report.issues.every((issue) => issue.stage === "references" && issue.entity === "JobRun"));
+});
+
+test("the rule configuration sets the severity of reference checks", () => {
+  const rules = createModelRuleSet(
+    parseModelRuleConfigJson({ rules: { "reference.targetMissing": "error", "reference.targetPhysicalMissing": "off" } })
+  );
+  const report = validateModel(edgeCase, EDGE_CASE_PATH, typeMapping, null, null, rules);
+  assert.equal(report.summary.valid, false);
+  assert.equal(report.summary.failedStage, "references");
+  assert.deepStrictEqual(ruleIds(report), ["error reference.targetMissing", "error reference.targetMissing"]);
+  assert.equal(report.model, null);
+});
+
+test("suppressions drop reference issues and count them", () => {
+  const rules = createModelRuleSet(
+    parseModelRuleConfigJson({
+      rules: { "reference.targetMissing": "error", "reference.targetPhysicalMissing": "error" },
+      suppressions: [{ entity: "JobRun", reason: "User comes from the supplemental model." }]
+    })
+  );
+  const report = validateModel(edgeCase, EDGE_CASE_PATH, typeMapping, null, null, rules);
+  assert.equal(report.summary.valid, true);
+  assert.deepStrictEqual(report.issues, []);
+  assert.equal(report.summary.suppressed, 4);
+});
+
+test("streaming validation applies the same reference severities and suppressions", async () => {
+  assert.deepStrictEqual(ruleIds(await validateModelStream(EDGE_CASE_PATH, typeMapping)), MISSING_USER);
+
+  const rules = createModelRuleSet(
+    parseModelRuleConfigJson({
+      rules: { "reference.targetMissing": "error" },
+      suppressions: [{ rule: "reference.targetPhysicalMissing", module: "Ops" }]
+    })
+  );
+  const report = await validateModelStream(EDGE_CASE_PATH, typeMapping, { rules });
+  assert.deepStrictEqual(ruleIds(report), ["error reference.targetMissing", "error reference.targetMissing"]);
+  assert.equal(report.summary.suppressed, 2);
+});
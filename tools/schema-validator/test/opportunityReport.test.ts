@@ -0,0 +1,191 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadJson } from "../src/jsonFile.js";
+import { formatZodErrors } from "../src/modelSchema.js";
+import { parseOpportunitiesJson, parseValidationsJson, safeParseOpportunitiesJson } from "../src/opportunitiesSchema.js";
+import { buildFindingsReport, renderHtml, renderMarkdown, type FindingsReport } from "../src/opportunityReport.js";
+
+type RawReport = { Opportunities: Array<Record<string, unknown>> } & Record<string, unknown>;
+
+const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+/** Three contradictions that need remediation: a High-risk foreign key and two Moderate ones. */
+const OPPORTUNITIES_PATH = fixturePath("../../../tests/Fixtures/opportunities/opportunities.json");
+const VALIDATIONS_PATH = fixturePath("../../../tests/Fixtures/opportunities/validations.json");
+
+const rawOpportunities = (await loadJson(OPPORTUNITIES_PATH)) as RawReport;
+const validations = parseValidationsJson(await loadJson(VALIDATIONS_PATH));
+
+/** Parses a copy of the opportunities fixture without its declared counts, so `edit` may reclassify findings. */
+function opportunities(edit: (report: RawReport) => void = () => {}) {
+  const copy = structuredClone(rawOpportunities);
+  for (const key of ["DispositionCounts", "CategoryCounts", "TypeCounts", "RiskCounts"]) {
+    delete copy[key];
+  }
+  edit(copy);
+  return parseOpportunitiesJson(copy);
+}
+
+function outline(report: FindingsReport): string[] {
+  return report.dispositions.flatMap((group) =>
+    group.categories.flatMap((category) =>
+      category.risks.map(
+        (risk) => `${group.disposition} ${category.category} ${risk.level}: ${risk.findings.map((finding) => finding.title).join(", ")}`
+      )
+    )
+  );
+}
+
+function headings(markdown: string): string[] {
+  return markdown.split("\n").filter((line) => /^#{2,4} |^\*\*\w+ risk/.test(line));
+}
+
+test("the pipeline's reports parse and their findings group by disposition, category and risk", () => {
+  const report = buildFindingsReport(parseOpportunitiesJson(rawOpportunities), validations);
+  assert.equal(report.opportunityCount, 3);
+  assert.deepStrictEqual(outline(report), [
+    "NeedsRemediation Contradiction High: FOREIGN KEY",
+    "NeedsRemediation Contradiction Moderate: NOT NULL, UNIQUE"
+  ]);
+  assert.deepStrictEqual(report.dispositions[0].riskCounts, { High: 1, Moderate: 2, Low: 0, Unknown: 0 });
+  assert.deepStrictEqual(
+    report.validations?.map((finding) => finding.title),
+    ["FOREIGN KEY", "NOT NULL"]
+  );
+});
+
+test("findings that need remediation come before those safe to apply, most risky first", () => {
+  const report = buildFindingsReport(
+    opportunities((copy) => {
+      const [notNull, unique] = copy.Opportunities;
+      Object.assign(notNull, { Disposition: "ReadyToApply", Category: "Recommendation" });
+      Object.assign(unique, { Disposition: "ReadyToApply", Category: "Recommendation" });
+      (unique.Risk as Record<string, unknown>).Level = "Low";
+    }),
+    null
+  );
+  assert.deepStrictEqual(outline(report), [
+    "NeedsRemediation Contradiction High: FOREIGN KEY",
+    "ReadyToApply Recommendation Moderate: NOT NULL",
+    "ReadyToApply Recommendation Low: UNIQUE"
+  ]);
+  assert.equal(report.validations, null);
+
+  const markdown = renderMarkdown(report);
+  assert.deepStrictEqual(headings(markdown), [
+    "## Tightening findings",
+    "### Needs remediation (1)",
+    "#### Contradiction (1)",
+    "**High risk (1)**",
+    "### Safe to apply (2)",
+    "#### Recommendation (2)",
+    "**Moderate risk (1)**",
+    "**Low risk (1)**"
+  ]);
+  assert.ok(markdown.includes("| Needs remediation | 1 | 1 | 0 | 0 | 0 |\n| Safe to apply | 2 | 0 | 1 | 1 | 0 |"));
+  assert.ok(!markdown.includes("Already enforced"), "no validations section without a validations report");
+});
+
+test("Markdown shows each finding's evidence beside its statements, for a PR comment", () => {
+  const markdown = renderMarkdown(buildFindingsReport(parseOpportunitiesJson(rawOpportunities), validations));
+  const notNull = markdown.slice(markdown.indexOf("##### NOT NULL"), markdown.indexOf("##### UNIQUE"));
+  assert.equal(
+    notNull,
+    [
+      "##### NOT NULL · `dbo.OSUSR_ABC_ORDER.DELIVERYDATE`",
+      "",
+      "DATA CONTRADICTION: Profiling found NULL values that violate the model's mandatory constraint. Manual remediation required.",
+      "",
+      "- **Risk:** Moderate — Data remediation is required before enforcing NOT NULL.",
+      "- **Model:** Orders › Order.DeliveryDate",
+      "- **Rationales:** `DATA_HAS_NULLS`, `MANDATORY`",
+      "",
+      "<table>",
+      "<tr><th>Evidence</th><th>Statements</th></tr>",
+      "<tr>",
+      "<td>",
+      "",
+      "- `Nulls=5 (Outcome=Succeeded, Sample=100, Captured=2024-01-01T00:00:00.0000000+00:00)`",
+      "- `Rows=100`",
+      "",
+      "</td>",
+      "<td>",
+      "",
+      "```sql",
+      "ALTER TABLE [dbo].[OSUSR_ABC_ORDER]",
+      "    ALTER COLUMN [DeliveryDate] DATETIME NOT NULL;",
+      "```",
+      "",
+      "</td>",
+      "</tr>",
+      "</table>",
+      "",
+      ""
+    ].join("\n")
+  );
+  assert.ok(markdown.includes("### Already enforced (2)\n\n- **FOREIGN KEY** `dbo.OSUSR_ABC_ORDER.CUSTOMERID`"));
+  assert.ok(markdown.includes("- **NOT NULL** `dbo.OSUSR_ABC_ORDER.ID` — Validated: "));
+});
+
+test("Markdown escapes summaries and keeps backticks in evidence and statements inside their fences", () => {
+  const markdown = renderMarkdown(
+    buildFindingsReport(
+      opportunities((copy) => {
+        copy.Opportunities = [copy.Opportunities[0]];
+        Object.assign(copy.Opportunities[0], {
+          Summary: "Nulls in *DeliveryDate* | see <ticket>",
+          Evidence: ["Sample=`NULL`"],
+          Statements: ["-- ```\nSELECT 1;"]
+        });
+      }),
+      null
+    )
+  );
+  assert.ok(markdown.includes("Nulls in \\*DeliveryDate\\* \\| see \\<ticket\\>"));
+  assert.ok(markdown.includes("- `` Sample=`NULL` ``"));
+  assert.ok(markdown.includes("````sql\n-- ```\nSELECT 1;\n````"));
+});
+
+test("HTML is a standalone page that escapes every finding field", () => {
+  const html = renderHtml(
+    buildFindingsReport(
+      opportunities((copy) => {
+        copy.Opportunities = [copy.Opportunities[2]];
+        (copy.Opportunities[0] as Record<string, unknown>).Summary = `Orphans <b>"found"</b> & kept`;
+      }),
+      parseValidationsJson({ Validations: [], GeneratedAtUtc: "2024-01-01T00:00:00Z" })
+    )
+  );
+  assert.match(html, /^<!DOCTYPE html>\n<html lang="en">/);
+  assert.ok(!/<(link|script)\b/.test(html), "no external assets");
+  assert.ok(html.includes(`<p>Orphans &lt;b&gt;&quot;found&quot;&lt;/b&gt; &amp; kept</p>`));
+  assert.ok(html.includes(`<section class="finding risk-High">\n<h5>FOREIGN KEY · <code>dbo.OSUSR_ABC_ORDER.CUSTOMERID</code>`));
+  assert.ok(html.includes("<li><code>OrphanSample=(101) -&gt; 'MissingCustomer', (202) -&gt; 'LegacyCustomer'</code></li>"));
+  assert.ok(html.includes("<h2>Already enforced (0)</h2>\n<p>No constraints were validated.</p>"));
+});
+
+test("an empty report says so instead of rendering an empty summary table", () => {
+  const report = buildFindingsReport(opportunities((copy) => (copy.Opportunities = [])), null);
+  assert.deepStrictEqual(report.dispositions, []);
+  assert.equal(
+    renderMarkdown(report),
+    "## Tightening findings\n\nGenerated 2024-01-01T00:00:00+00:00 · 0 opportunities\n\nNo tightening opportunities were found.\n"
+  );
+});
+
+test("declared counts must agree with the findings", () => {
+  const copy = structuredClone(rawOpportunities);
+  copy.RiskCounts = { High: 2, Moderate: 2 };
+  copy.TotalCount = 4;
+  const result = safeParseOpportunitiesJson(copy);
+  assert.equal(result.success, false);
+  assert.deepStrictEqual(formatZodErrors(result.error!), [
+    "RiskCounts.High: RiskCounts.High is 2 but 1 finding has that value.",
+    "TotalCount: TotalCount is 4 but the report lists 3 findings."
+  ]);
+  assert.deepStrictEqual(formatZodErrors(safeParseOpportunitiesJson({ GeneratedAtUtc: "2024-01-01" }).error!), [
+    "Opportunities: Opportunities report must contain an 'Opportunities' array."
+  ]);
+});
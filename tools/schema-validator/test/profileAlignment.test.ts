@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadJson } from "../src/jsonFile.js";
+import { parseModelJson } from "../src/modelSchema.js";
+import { alignProfileWithModel } from "../src/profileAlignment.js";
+import { parseProfileJson } from "../src/profileSchema.js";
+
+type RawColumn = { Schema: string; Table: string; Column: string; IsNullablePhysical: boolean; NullCount: number };
+
+const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+const MODEL_PATH = fixturePath("../../../tests/Fixtures/model.edge-case.json");
+const PROFILE_PATH = fixturePath("../../../tests/Fixtures/profiling/profile.edge-case.json");
+
+const model = parseModelJson(await loadJson(MODEL_PATH));
+
+async function align(transformProfile: (profile: { columns: RawColumn[] }) => void = () => {}) {
+  const rawProfile = (await loadJson(PROFILE_PATH)) as { columns: RawColumn[] };
+  transformProfile(rawProfile);
+  return alignProfileWithModel(model, parseProfileJson(rawProfile));
+}
+
+function describeColumn(column: { schema: string; table: string; column: string }): string {
+  return `${column.schema}.${column.table}.${column.column}`;
+}
+
+test("the edge-case profile matches every column but the unprofiled legacy code", async () => {
+  const alignment = await align();
+  assert.equal(alignment.matched.length, 14);
+  assert.deepStrictEqual(alignment.unmatchedProfileColumns, []);
+  assert.deepStrictEqual(alignment.duplicateProfileColumns, []);
+  assert.deepStrictEqual(
+    alignment.unprofiledAttributes.map(({ entity, attribute }) => `${entity.physicalName}.${attribute.physicalName}`),
+    ["OSUSR_ABC_CUSTOMER.LEGACYCODE"]
+  );
+});
+
+test("matched attributes take their reality from the profile", async () => {
+  const alignment = await align();
+  const firstName = alignment.matched.find(({ profile }) => profile.column === "FIRSTNAME");
+  assert.ok(firstName);
+  assert.equal(firstName.attribute.reality.isNullableInDatabase, true);
+  assert.equal(firstName.attribute.reality.hasNulls, true);
+});
+
+test("profiled columns are reported when the table or the column is missing from the model", async () => {
+  const alignment = await align(({ columns }) => {
+    columns.push({ ...columns[0], Column: "NOPE" }, { ...columns[0], Table: "OSUSR_ABC_GONE" });
+  });
+  assert.deepStrictEqual(
+    alignment.unmatchedProfileColumns.map(({ profile, path, reason }) => [describeColumn(profile), path, reason]),
+    [
+      ["dbo.OSUSR_ABC_CUSTOMER.NOPE", ["columns", 14], "columnMissing"],
+      ["dbo.OSUSR_ABC_GONE.ID", ["columns", 15], "tableMissing"]
+    ]
+  );
+});
+
+test("a column profiled twice is reported and the first entry is the one matched", async () => {
+  const alignment = await align(({ columns }) => {
+    const firstName = columns.findIndex((column) => column.Column === "FIRSTNAME");
+    columns.push({ ...columns[firstName], Column: "firstname", IsNullablePhysical: false, NullCount: 0 });
+  });
+  assert.deepStrictEqual(
+    alignment.duplicateProfileColumns.map(({ profile, path, firstPath }) => [describeColumn(profile), path, firstPath]),
+    [["dbo.OSUSR_ABC_CUSTOMER.firstname", ["columns", 14], ["columns", 2]]]
+  );
+  assert.deepStrictEqual(alignment.unmatchedProfileColumns, []);
+  assert.equal(alignment.matched.length, 14);
+  const firstName = alignment.matched.find(({ attribute }) => attribute.physicalName === "FIRSTNAME");
+  assert.equal(firstName?.attribute.reality.isNullableInDatabase, true);
+  assert.equal(firstName?.attribute.reality.hasNulls, true);
+});
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadJson } from "../src/jsonFile.js";
+import { structuralModelSchema } from "../src/modelSchema.js";
+import {
+  checkParity,
+  compareSchemas,
+  parseParityBaselineJson,
+  zodToJsonSchema,
+  type JsonSchemaNode,
+  type ParityIssue
+} from "../src/schemaParity.js";
+
+const SCHEMA_PATH = fileURLToPath(new URL("../../../schema/cir-v1.json", import.meta.url));
+const BASELINE_PATH = fileURLToPath(new URL("../../../schema/cir-v1.parity-baseline.json", import.meta.url));
+
+const derived = zodToJsonSchema(structuralModelSchema);
+const cirSchema = (await loadJson(SCHEMA_PATH)) as JsonSchemaNode;
+const baseline = parseParityBaselineJson(await loadJson(BASELINE_PATH));
+
+/** A property declared in cir-v1.json: the keys leading to the object schema that declares it, and its name. */
+interface DeclaredProperty {
+  readonly owner: readonly string[];
+  readonly key: string;
+}
+
+function declaredProperties(node: JsonSchemaNode, owner: readonly string[] = []): DeclaredProperty[] {
+  const found: DeclaredProperty[] = [];
+  for (const [key, property] of Object.entries(node.properties ?? {})) {
+    found.push({ owner, key }, ...declaredProperties(property, [...owner, "properties", key]));
+  }
+
+  for (const [name, definition] of Object.entries(node.$defs ?? {})) {
+    found.push(...declaredProperties(definition, [...owner, "$defs", name]));
+  }
+
+  return found;
+}
+
+/** A copy of cir-v1.json without the property, which is also dropped from its owner's `required`. */
+function withoutProperty({ owner, key }: DeclaredProperty): JsonSchemaNode {
+  const copy = structuredClone(cirSchema);
+  const node = owner.reduce((current, name) => (current as Record<string, JsonSchemaNode>)[name], copy as unknown) as JsonSchemaNode;
+  delete node.properties![key];
+  node.required = node.required?.filter((name) => name !== key);
+  return copy;
+}
+
+function describe(issues: readonly ParityIssue[]): string[] {
+  return issues.map((issue) => `${issue.code} at ${issue.path}`);
+}
+
+test("cir-v1.json differs from the Zod schema only as the baseline records", () => {
+  const result = checkParity(compareSchemas(derived, cirSchema), baseline);
+  assert.deepStrictEqual(describe(result.unexpected), []);
+  assert.deepStrictEqual(result.stale, []);
+});
+
+test("a property removed from cir-v1.json is reported as not in the baseline", () => {
+  const schema = withoutProperty({ owner: ["$defs", "entity"], key: "physicalName" });
+  const result = checkParity(compareSchemas(derived, schema), baseline);
+  assert.deepStrictEqual(describe(result.unexpected), ["parity.propertyOnlyInZod at modules[].entities[].physicalName"]);
+  assert.deepStrictEqual(result.stale, []);
+});
+
+test("a baseline entry for the same path does not accept a new kind of difference", () => {
+  // The baseline accepts nullability differences for temporal; losing the property altogether is a different one.
+  const schema = withoutProperty({ owner: ["$defs", "entity"], key: "temporal" });
+  const result = checkParity(compareSchemas(derived, schema), baseline);
+  assert.deepStrictEqual(describe(result.unexpected), ["parity.propertyOnlyInZod at modules[].entities[].temporal"]);
+  assert.ok(result.stale.some((entry) => entry.path === "modules[].entities[].temporal"));
+});
+
+test("the baseline hides no property removed from cir-v1.json", () => {
+  const properties = declaredProperties(cirSchema);
+  assert.ok(properties.length > baseline.accepted.length, `only ${properties.length} properties found in cir-v1.json`);
+
+  for (const property of properties) {
+    const label = [...property.owner, "properties", property.key].join("/");
+    const { unexpected } = checkParity(compareSchemas(derived, withoutProperty(property)), baseline);
+    assert.ok(unexpected.length > 0, `removing ${label} went unreported`);
+    assert.ok(
+      unexpected.every((issue) => issue.code === "parity.propertyOnlyInZod" && issue.path.endsWith(property.key)),
+      `removing ${label} reported ${describe(unexpected).join("; ")}`
+    );
+  }
+});
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadJson } from "../src/jsonFile.js";
+import { formatIssuePath, formatZodErrors, parseModelJson } from "../src/modelSchema.js";
+import { parseStaticDataJson, safeParseStaticDataJson } from "../src/staticDataSchema.js";
+import { validateStaticData, type StaticDataValidation } from "../src/staticDataValidation.js";
+
+type RawModel = { modules: Array<{ entities: Array<Record<string, unknown>> }> };
+
+const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+const MODEL_PATH = fixturePath("../../../tests/Fixtures/model.edge-case.json");
+const SEEDS_PATH = fixturePath("../../../tests/Fixtures/static-data/static-entities.edge-case.json");
+
+const rawModel = (await loadJson(MODEL_PATH)) as RawModel;
+const model = parseModelJson(rawModel);
+
+const CITY_ROWS = [
+  { ID: 1, NAME: "Lisbon", ISACTIVE: true },
+  { ID: 2, NAME: "Porto", ISACTIVE: true }
+];
+
+function validate(tables: unknown[], seededModel = model): StaticDataValidation {
+  return validateStaticData(seededModel, parseStaticDataJson({ tables }));
+}
+
+function describe(validation: StaticDataValidation): string[] {
+  return validation.issues.map((issue) => `${formatIssuePath(issue.path)}: ${issue.code}`);
+}
+
+test("the edge-case seeds match the model's static entities", async () => {
+  const validation = validateStaticData(model, parseStaticDataJson(await loadJson(SEEDS_PATH)));
+  assert.deepStrictEqual(validation, { tables: 1, rows: 3, issues: [] });
+});
+
+test("every table must map to one static entity, and every static entity needs seed rows", () => {
+  const validation = validate([
+    { schema: "DBO", table: "osusr_def_city", rows: CITY_ROWS },
+    { schema: "dbo", table: "OSUSR_DEF_CITY", rows: CITY_ROWS },
+    { schema: "dbo", table: "OSUSR_ABC_CUSTOMER", rows: [] },
+    { schema: "dbo", table: "OSUSR_GONE", rows: [] }
+  ]);
+  assert.deepStrictEqual(describe(validation), [
+    "tables[1]: staticData.tableDuplicate",
+    "tables[2]: staticData.tableNotStatic",
+    "tables[3]: staticData.tableUnknown"
+  ]);
+  assert.deepStrictEqual(describe(validate([])), [": staticData.tableMissing"]);
+});
+
+test("row keys must be physical columns, spelled exactly, with mandatory values present", () => {
+  const validation = validate([
+    {
+      schema: "dbo",
+      table: "OSUSR_DEF_CITY",
+      rows: [
+        { ID: 1, name: "Lisbon", ISACTIVE: true },
+        { ID: null, NAME: "Porto", ISACTIVE: true }
+      ]
+    }
+  ]);
+  assert.deepStrictEqual(describe(validation), [
+    "tables[0].rows[0].name: staticData.columnUnknown",
+    "tables[0].rows[0]: staticData.columnMissing",
+    "tables[0].rows[1].ID: staticData.valueNull"
+  ]);
+});
+
+test("values must convert to the attribute's data type and fit its length", () => {
+  const validation = validate([
+    {
+      schema: "dbo",
+      table: "OSUSR_DEF_CITY",
+      rows: [
+        { ID: 1, NAME: "Lisbon", ISACTIVE: "yes" },
+        { ID: 2.5, NAME: "Porto", ISACTIVE: true },
+        { ID: "1", NAME: "x".repeat(201), ISACTIVE: false }
+      ]
+    }
+  ]);
+  assert.deepStrictEqual(
+    validation.issues.map((issue) => `${formatIssuePath(issue.path)}: ${issue.message} [${issue.code}]`),
+    [
+      'tables[0].rows[0].ISACTIVE: City.IsActive: expected true or false for Boolean, found "yes". [staticData.valueType]',
+      "tables[0].rows[1].ID: City.Id: expected an integer for Identifier, found 2.5. [staticData.valueType]",
+      "tables[0].rows[2].NAME: City.Name allows 200 characters; the value has 201. [staticData.valueLength]",
+      'tables[0].rows[2].ID: City identifier "1" is already used by rows[0]. [staticData.identifierDuplicate]'
+    ]
+  );
+});
+
+test("references to another static entity must name a seeded identifier", () => {
+  const staticCustomer = structuredClone(rawModel);
+  staticCustomer.modules[0].entities[0].isStatic = true;
+  const customers = [
+    { ID: 10, EMAIL: "ana@example.com", CITYID: "2" },
+    { ID: 11, EMAIL: "rui@example.com", CITYID: 9 }
+  ];
+  const validation = validate(
+    [
+      { schema: "dbo", table: "OSUSR_DEF_CITY", rows: CITY_ROWS },
+      { schema: "dbo", table: "OSUSR_ABC_CUSTOMER", rows: customers }
+    ],
+    parseModelJson(staticCustomer)
+  );
+  assert.deepStrictEqual(
+    validation.issues.map((issue) => `${formatIssuePath(issue.path)}: ${issue.message}`),
+    ["tables[1].rows[1].CITYID: Customer.CityId references City 9, which is not in the dbo.OSUSR_DEF_CITY seed rows."]
+  );
+});
+
+test("the seed file must match the fixture format", () => {
+  const result = safeParseStaticDataJson({ tables: [{ schema: "dbo", rows: [{ ID: [1] }] }] });
+  assert.equal(result.success, false);
+  assert.deepStrictEqual(formatZodErrors(result.error!), [
+    "tables[0].table: table is required.",
+    "tables[0].rows[0].ID: Seed values must be a string, number, boolean or null."
+  ]);
+});
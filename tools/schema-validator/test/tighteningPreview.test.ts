@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadJson } from "../src/jsonFile.js";
+import { parseModelJson } from "../src/modelSchema.js";
+import { parseOpportunitiesJson } from "../src/opportunitiesSchema.js";
+import { parseProfileJson } from "../src/profileSchema.js";
+import { parseTighteningConfigJson } from "../src/tighteningConfig.js";
+import { previewTightening, type TighteningPreview } from "../src/tighteningPreview.js";
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+/** Written by the .NET pipeline's `OpportunityLogWriterTests`; the model and profile below reproduce its scenario. */
+const REPORT_PATH = fixturePath("../../../tests/Fixtures/opportunities/opportunities.json");
+const MODEL_PATH = fixturePath("fixtures/opportunities-model.json");
+const PROFILE_PATH = fixturePath("fixtures/opportunities-profile.json");
+const CONFIG_PATH = fixturePath("../../../config/default-tightening.json");
+
+/** Keys the preview adds after the .NET ones so a finding can be traced back to the model. */
+const PREVIEW_ONLY_KEYS = new Set(["Module", "Entity", "Path"]);
+
+async function preview(transformModel: (model: { modules: Json[] }) => void = () => {}): Promise<Json> {
+  const rawModel = (await loadJson(MODEL_PATH)) as { modules: Json[] };
+  transformModel(rawModel);
+  const result: TighteningPreview = previewTightening(
+    parseModelJson(rawModel),
+    parseProfileJson(await loadJson(PROFILE_PATH)),
+    parseTighteningConfigJson(await loadJson(CONFIG_PATH)),
+    new Date("2024-01-01T00:00:00Z")
+  );
+  return JSON.parse(JSON.stringify(result)) as Json;
+}
+
+function opportunities(report: Json): Array<{ [key: string]: Json }> {
+  return (report as { Opportunities: Array<{ [key: string]: Json }> }).Opportunities;
+}
+
+/** The report's opportunity of each type, matched to ours by type and constraint name. */
+async function pairs(): Promise<Array<[expected: { [key: string]: Json }, actual: { [key: string]: Json }]>> {
+  const ours = opportunities(await preview());
+  return opportunities((await loadJson(REPORT_PATH)) as Json).map((expected) => {
+    const actual = ours.find((candidate) => candidate.Type === expected.Type && candidate.ConstraintName === expected.ConstraintName);
+    assert.ok(actual, `no ${expected.Type} opportunity for ${expected.ConstraintName}`);
+    return [expected, actual];
+  });
+}
+
+/** Key names in order, recursively; arrays by their first element. */
+function shape(value: Json): Json {
+  if (Array.isArray(value)) {
+    return value.length === 0 ? [] : [shape(value[0])];
+  }
+
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, shape(child)]));
+  }
+
+  return value === null ? null : typeof value;
+}
+
+function withoutPreviewKeys(opportunity: { [key: string]: Json }): { [key: string]: Json } {
+  return Object.fromEntries(Object.entries(opportunity).filter(([key]) => !PREVIEW_ONLY_KEYS.has(key)));
+}
+
+test("opportunities use the .NET report's keys, key order and nesting", async () => {
+  for (const [expected, actual] of await pairs()) {
+    assert.deepStrictEqual(Object.keys(withoutPreviewKeys(actual)), Object.keys(expected), `${expected.Type} keys`);
+    assert.deepStrictEqual(shape(withoutPreviewKeys(actual)), shape(expected), `${expected.Type} nesting`);
+  }
+});
+
+test("Columns match the .NET report", async () => {
+  for (const [expected, actual] of await pairs()) {
+    assert.deepStrictEqual(actual.Columns, expected.Columns, `${expected.Type} Columns`);
+    assert.equal(actual.HasStatements, expected.HasStatements, `${expected.Type} HasStatements`);
+  }
+});
+
+test("Statements match the .NET report", async () => {
+  for (const [expected, actual] of await pairs()) {
+    if (expected.Type === "UniqueIndex") {
+      // The report's unique statement is hand-written; the analyzer emits NONCLUSTERED with explicit directions.
+      assert.deepStrictEqual(actual.Statements, [
+        "CREATE UNIQUE NONCLUSTERED INDEX [IX_OSUSR_ABC_ORDER_OrderNumber] ON [dbo].[OSUSR_ABC_ORDER] ([ORDERNUMBER] ASC);"
+      ]);
+      continue;
+    }
+
+    // The report spells column names in logical case ([DeliveryDate]); SQL Server identifiers are case-insensitive.
+    const lower = (statements: Json) => (statements as string[]).map((statement) => statement.toLowerCase());
+    assert.deepStrictEqual(lower(actual.Statements), lower(expected.Statements), `${expected.Type} Statements`);
+  }
+});
+
+test("a foreign key whose target is not in the model has no statements", async () => {
+  const report = await preview((model) => {
+    model.modules = model.modules.filter((module) => (module as { name: string }).name !== "Customers");
+  });
+  const foreignKey = opportunities(report).find((opportunity) => opportunity.Type === "ForeignKey");
+  assert.ok(foreignKey);
+  assert.deepStrictEqual(foreignKey.Statements, []);
+  assert.equal(foreignKey.HasStatements, false);
+});
+
+test("the JSON output parses as an opportunities report", async () => {
+  const report = parseOpportunitiesJson(await preview());
+  assert.ok(report.opportunities.every((finding) => finding.statements.length > 0));
+});
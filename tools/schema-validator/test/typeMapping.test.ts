@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadJson } from "../src/jsonFile.js";
+import { formatZodErrors, parseModelJson, type NormalizedAttribute } from "../src/modelSchema.js";
+import {
+  normalizeTypeKey,
+  parseSqlType,
+  parseTypeMappingJson,
+  resolveAttributeType,
+  resolveModelTypes,
+  safeParseTypeMappingJson
+} from "../src/typeMapping.js";
+
+const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+const MODEL_PATH = fixturePath("../../../tests/Fixtures/model.edge-case.json");
+const TYPE_MAPPING_PATH = fixturePath("../../../config/type-mapping.default.json");
+
+const policy = parseTypeMappingJson(await loadJson(TYPE_MAPPING_PATH));
+const model = parseModelJson(await loadJson(MODEL_PATH));
+
+/** `AppCore.Customer.<name>` of the edge-case model. */
+function customerAttribute(name: string): NormalizedAttribute {
+  const attribute = model.modules[0].entities[0].attributes.find((candidate) => candidate.name === name);
+  assert.ok(attribute, `Customer.${name}`);
+  return attribute;
+}
+
+function resolve(attribute: NormalizedAttribute): string | null {
+  const resolution = resolveAttributeType(attribute, policy);
+  return resolution && `${resolution.sqlType} from ${resolution.source}`;
+}
+
+test("data type keys are normalized like the .NET policy", () => {
+  assert.equal(normalizeTypeKey(" rtEmail "), "email");
+  assert.equal(normalizeTypeKey("Long_Integer"), "longinteger");
+  assert.equal(normalizeTypeKey("Phone Number"), "phonenumber");
+  assert.equal(normalizeTypeKey("rt"), "rt");
+  assert.equal(normalizeTypeKey(null), "");
+});
+
+test("SQL type strings split into a base type and parameters", () => {
+  assert.deepStrictEqual(parseSqlType("decimal(18, 2)"), { baseType: "decimal", parameters: [18, 2] });
+  assert.deepStrictEqual(parseSqlType(" nvarchar(MAX) "), { baseType: "nvarchar", parameters: [-1] });
+  assert.deepStrictEqual(parseSqlType("int"), { baseType: "int", parameters: [] });
+});
+
+test("the physical column type wins over the logical data type", () => {
+  assert.equal(resolve(customerAttribute("Email")), "nvarchar(255) from onDisk");
+  assert.equal(resolve({ ...customerAttribute("Email"), onDisk: null }), "nvarchar(255) from attribute");
+  assert.equal(resolve(customerAttribute("LegacyCode")), "nvarchar(50) from attribute");
+});
+
+test("identifiers keep the platform mapping whatever the column looks like on disk", () => {
+  assert.equal(resolve(customerAttribute("Id")), "bigint from attribute");
+  assert.equal(resolve(customerAttribute("CityId")), "bigint from attribute");
+});
+
+test("a logical Date stored in a datetime column is still a date", () => {
+  const date = { ...customerAttribute("LegacyCode"), dataType: "Date", length: null };
+  assert.equal(resolve({ ...date, onDisk: { ...customerAttribute("Email").onDisk!, sqlType: "datetime" } }), "date from attribute");
+  assert.equal(resolve({ ...date, onDisk: { ...customerAttribute("Email").onDisk!, sqlType: "date" } }), "date from onDisk");
+});
+
+test("external database types take their parameters from the type string", () => {
+  const external = (externalDbType: string) => resolve({ ...customerAttribute("LegacyCode"), externalDbType });
+  assert.equal(external("varchar(50)"), "varchar(50) from external");
+  assert.equal(external("decimal(12, 4)"), "decimal(12,4) from external");
+  assert.equal(external("nvarchar(4000)"), "nvarchar(max) from external");
+  assert.equal(external("sql_variant"), "nvarchar(max) from external");
+});
+
+test("strategies fall back to their configured defaults", () => {
+  const text = customerAttribute("LegacyCode");
+  assert.equal(resolve({ ...text, length: 2000 }), "nvarchar(max) from attribute");
+  assert.equal(resolve({ ...text, dataType: "rtEmail", length: null }), "varchar(250) from attribute");
+  assert.equal(resolve({ ...text, dataType: "Currency", length: null }), "decimal(37,8) from attribute");
+  assert.equal(resolve({ ...text, dataType: "Decimal", length: null, precision: 10, scale: 2 }), "decimal(10,2) from attribute");
+  assert.equal(resolve({ ...text, dataType: "DateTime2", length: null }), "datetime2(7) from attribute");
+});
+
+test("attributes whose data type has no mapping are reported and keep a null resolved type", () => {
+  const unmapped = structuredClone(model);
+  Object.assign(unmapped.modules[0].entities[0].attributes[5], { dataType: "Hologram", onDisk: null });
+  const resolved = resolveModelTypes(unmapped, policy);
+  assert.deepStrictEqual(
+    resolved.issues.map((issue) => [issue.code, issue.path]),
+    [["type.unmapped", ["modules", 0, "entities", 0, "attributes", 5, "dataType"]]]
+  );
+  const [customer] = resolved.model.modules[0].entities;
+  assert.equal(customer.attributes[5].resolvedType, null);
+  assert.equal(customer.attributes[1].resolvedType, "nvarchar(255)");
+});
+
+test("the type mapping schema rejects rules the .NET policy would refuse", () => {
+  const result = safeParseTypeMappingJson({
+    default: { strategy: "UnicodeText" },
+    mappings: {
+      text: { strategy: "Fixed" },
+      money: "moneybags",
+      amount: { strategy: "Decimal", defaultPrecision: 10, defaultScale: 12 },
+      stamp: { strategy: "Datetime2", scale: 9 }
+    }
+  });
+  assert.equal(result.success, false);
+  assert.deepStrictEqual(formatZodErrors(result.error!), [
+    "mappings.text.sqlType: Fixed strategy requires 'sqlType'.",
+    'mappings.money: Unsupported SQL type "moneybags".',
+    "mappings.amount.defaultScale: defaultScale cannot exceed defaultPrecision.",
+    "mappings.stamp.scale: scale must be between 0 and 7."
+  ]);
+});
@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadJson, loadJsonSource } from "../src/jsonFile.js";
+import { validateModel, type ValidationReport } from "../src/modelValidation.js";
+import { parseTypeMappingJson } from "../src/typeMapping.js";
+import { createSarifReporter, jsonReporter, junitReporter, sarifReporter } from "../src/validationReporters.js";
+
+const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+const REPOSITORY_ROOT = fixturePath("../../../");
+/** Fails the rules stage: its only entity has no attributes, so no identifier either. */
+const EMPTY_ENTITY_PATH = fixturePath("../../../tests/Fixtures/model.only-active-empty.json");
+/** Passes with four reference warnings. */
+const EDGE_CASE_PATH = fixturePath("../../../tests/Fixtures/model.edge-case.json");
+const TYPE_MAPPING_PATH = fixturePath("../../../config/type-mapping.default.json");
+
+const typeMapping = parseTypeMappingJson(await loadJson(TYPE_MAPPING_PATH));
+
+async function validate(file: string, label = file): Promise<ValidationReport> {
+  const source = await loadJsonSource(file);
+  return validateModel(source.value, label, typeMapping, source);
+}
+
+interface SarifLog {
+  runs: Array<{
+    tool: { driver: { rules: Array<{ id: string; shortDescription: { text: string }; properties: { stage: string } }> } };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    results: Array<{
+      ruleId: string;
+      ruleIndex: number;
+      level: string;
+      locations: Array<{
+        physicalLocation: { artifactLocation: { uri: string; uriBaseId?: string }; region?: { startLine: number; startColumn: number } };
+        logicalLocations?: Array<{ fullyQualifiedName: string }>;
+      }>;
+    }>;
+  }>;
+}
+
+function artifactLocations(log: string) {
+  return (JSON.parse(log) as SarifLog).runs.flatMap((run) =>
+    run.results.map((result) => result.locations[0].physicalLocation.artifactLocation)
+  );
+}
+
+test("SARIF locates repository files relative to %SRCROOT%, whatever the working directory", async () => {
+  const relativeToCwd = path.relative(process.cwd(), EMPTY_ENTITY_PATH);
+  const log = sarifReporter.render(await validate(EMPTY_ENTITY_PATH, relativeToCwd));
+  const run = (JSON.parse(log) as SarifLog).runs[0];
+  assert.equal(run.originalUriBaseIds["%SRCROOT%"].uri, new URL("../../../", import.meta.url).href);
+  assert.ok(artifactLocations(log).length > 0);
+  for (const location of artifactLocations(log)) {
+    assert.deepStrictEqual(location, { uri: "tests/Fixtures/model.only-active-empty.json", uriBaseId: "%SRCROOT%" });
+  }
+});
+
+test("SARIF URI-encodes path segments and uses file: URIs outside the source root", async () => {
+  const report = await validate(EMPTY_ENTITY_PATH);
+  const sourceRoot = path.join(REPOSITORY_ROOT, "tests");
+  const inside = { ...report, file: path.join(sourceRoot, "Fixtures", "exports #1", "model 100%.json") };
+  const outside = { ...report, file: path.join(REPOSITORY_ROOT, "config", "model.json") };
+  const locations = new Set(
+    artifactLocations(createSarifReporter(sourceRoot).renderBatch([inside, outside])).map((location) => JSON.stringify(location))
+  );
+  assert.deepStrictEqual(
+    [...locations].map((location) => JSON.parse(location) as unknown),
+    [
+      { uri: "Fixtures/exports%20%231/model%20100%25.json", uriBaseId: "%SRCROOT%" },
+      { uri: new URL("../../../config/model.json", import.meta.url).href }
+    ]
+  );
+});
+
+test("SARIF describes each rule once and points results at it, with line and model path", async () => {
+  const [run] = (JSON.parse(sarifReporter.render(await validate(EMPTY_ENTITY_PATH))) as SarifLog).runs;
+  assert.deepStrictEqual(
+    run.tool.driver.rules.map((rule) => [rule.id, rule.shortDescription.text, rule.properties.stage]),
+    [
+      ["entity.attributesRequired", "Every entity must contain at least one attribute.", "rules"],
+      ["entity.identifierRequired", "Every entity must have an attribute marked as identifier.", "rules"]
+    ]
+  );
+  assert.deepStrictEqual(
+    run.results.map(({ ruleId, ruleIndex, level, locations: [location] }) => [
+      ruleId,
+      ruleIndex,
+      level,
+      location.physicalLocation.region,
+      location.logicalLocations?.[0].fullyQualifiedName
+    ]),
+    [
+      ["entity.attributesRequired", 0, "error", { startLine: 18, startColumn: 11 }, "modules[0].entities[0].attributes"],
+      ["entity.identifierRequired", 1, "error", { startLine: 18, startColumn: 11 }, "modules[0].entities[0].attributes"]
+    ]
+  );
+});
+
+test("SARIF reports reference warnings at warning level under their rule", async () => {
+  const log = JSON.parse(sarifReporter.renderBatch([await validate(EDGE_CASE_PATH), await validate(EMPTY_ENTITY_PATH)])) as SarifLog;
+  assert.equal(log.runs.length, 2);
+  const [edgeCase] = log.runs;
+  assert.deepStrictEqual(
+    edgeCase.tool.driver.rules.map((rule) => [rule.id, rule.properties.stage]),
+    [
+      ["reference.targetMissing", "references"],
+      ["reference.targetPhysicalMissing", "references"]
+    ]
+  );
+  assert.ok(edgeCase.results.every((result) => result.level === "warning"));
+});
+
+function testcases(xml: string): string[] {
+  return [...xml.matchAll(/<testcase classname="[^"]*\.(\w+)" name="([^"]*)"[^>]*?(\/?)>(?:\s*<(failure|skipped|system-out))?/g)].map(
+    ([, stage, name, selfClosing, child]) => `${stage}: ${name}${selfClosing ? "" : ` <${child}>`}`
+  );
+}
+
+test("JUnit expands a failed stage into one failure per issue and skips the stages after it", async () => {
+  const xml = junitReporter.render(await validate(EMPTY_ENTITY_PATH, "model.json"));
+  assert.match(xml, /<testsuites name="outsystems-model-schema-validator" tests="6" failures="2" skipped="2">/);
+  assert.match(xml, /<testsuite name="model.json" tests="6" failures="2" skipped="2">/);
+  assert.deepStrictEqual(testcases(xml), [
+    "load: The model file must be readable JSON.",
+    "schema: The model JSON must match the OutSystems 11 model contract.",
+    "rules: modules[0].entities[0].attributes <failure>",
+    "rules: modules[0].entities[0].attributes <failure>",
+    "references: Cross-entity references must resolve within the model. <skipped>",
+    "types: Every attribute data type must map to a SQL Server type. <skipped>"
+  ]);
+  assert.ok(
+    xml.includes(
+      `line="18">\n      <failure message="Entity &quot;Customer&quot; must contain at least one attribute." type="entity.attributesRequired">`
+    )
+  );
+});
+
+test("JUnit keeps warnings out of the failures and escapes file names", async () => {
+  const xml = junitReporter.renderBatch([
+    await validate(EDGE_CASE_PATH, "exports/<old & new>.json"),
+    await validate(EMPTY_ENTITY_PATH, "model.json")
+  ]);
+  assert.match(xml, /<testsuites name="outsystems-model-schema-validator" tests="14" failures="2" skipped="2">/);
+  assert.match(xml, /<testsuite name="exports\/&lt;old &amp; new&gt;.json" tests="8" failures="0" skipped="0">/);
+  assert.equal((xml.match(/<system-out>[^<]*: warning: /g) ?? []).length, 4);
+  assert.ok(!xml.includes("<old & new>"));
+});
+
+test("JSON batches summarize passed and failed files ahead of each report", async () => {
+  const output = JSON.parse(jsonReporter.renderBatch([await validate(EDGE_CASE_PATH), await validate(EMPTY_ENTITY_PATH)])) as {
+    summary: { files: number; passed: number; failed: number };
+    reports: Array<{ summary: ValidationReport["summary"]; issues: ValidationReport["issues"] }>;
+  };
+  assert.deepStrictEqual(output.summary, { files: 2, passed: 1, failed: 1 });
+  assert.deepStrictEqual(
+    output.reports.map((report) => [report.summary.valid, report.summary.failedStage, report.issues.length]),
+    [
+      [true, null, 4],
+      [false, "rules", 2]
+    ]
+  );
+});